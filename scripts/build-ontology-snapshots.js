@@ -0,0 +1,289 @@
+#!/usr/bin/env node
+/**
+ * Ontology Snapshot Builder
+ *
+ * Extracts compact term indices (id, label, synonyms, obsolete flag,
+ * replacement, parents) from the OBO releases of the core SDRF
+ * vocabularies, so the editor can search them without OLS. Each ontology
+ * becomes one gzip-compressed snapshot, listed in index.json.
+ *
+ * Usage:
+ *   node scripts/build-ontology-snapshots.js [--from <dir>] [ontology...]
+ *
+ * Example:
+ *   node scripts/build-ontology-snapshots.js
+ *   node scripts/build-ontology-snapshots.js ms pride
+ *   node scripts/build-ontology-snapshots.js --from ./obo ncbitaxon
+ *
+ * Without --from, the OBO files are downloaded from their release URLs;
+ * with --from, <dir>/<ontology>.obo is read instead (e.g. for builds
+ * behind a firewall). Snapshots of ontologies not rebuilt are kept.
+ *
+ * Output:
+ *   src/assets/ontology-snapshots/<ontology>.json.gz
+ *   src/assets/ontology-snapshots/index.json
+ */
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const OBO_PURL = 'http://purl.obolibrary.org/obo/';
+
+/**
+ * Snapshot sources. `roots` keeps only the descendants of these terms;
+ * `searchedAs` lists the ontology ids whose searches include the snapshot.
+ */
+const SOURCES = [
+  {
+    ontology: 'ncbitaxon',
+    prefix: 'NCBITaxon',
+    url: 'http://purl.obolibrary.org/obo/ncbitaxon/subsets/taxslim.obo',
+  },
+  { ontology: 'mondo', prefix: 'MONDO', url: 'http://purl.obolibrary.org/obo/mondo.obo' },
+  {
+    ontology: 'efo',
+    prefix: 'EFO',
+    url: 'https://www.ebi.ac.uk/efo/efo.obo',
+    roots: ['EFO:0000408'], // disease
+    iriPrefix: 'http://www.ebi.ac.uk/efo/',
+  },
+  { ontology: 'uberon', prefix: 'UBERON', url: 'http://purl.obolibrary.org/obo/uberon/uberon-basic.obo' },
+  { ontology: 'cl', prefix: 'CL', url: 'http://purl.obolibrary.org/obo/cl/cl-basic.obo' },
+  { ontology: 'bto', prefix: 'BTO', url: 'http://purl.obolibrary.org/obo/bto.obo' },
+  {
+    ontology: 'pride',
+    prefix: 'PRIDE',
+    url: 'https://raw.githubusercontent.com/PRIDE-Utilities/pride-ontology/master/pride_cv.obo',
+  },
+  {
+    ontology: 'ms',
+    prefix: 'MS',
+    url: 'https://raw.githubusercontent.com/HUPO-PSI/psi-ms-CV/master/psi-ms.obo',
+  },
+  {
+    ontology: 'cellosaurus',
+    prefix: 'CVCL',
+    url: 'https://ftp.expasy.org/databases/cellosaurus/cellosaurus.obo',
+    iriPrefix: 'https://www.cellosaurus.org/',
+    searchedAs: ['clo'],
+  },
+];
+
+// ============================================================
+// OBO parsing
+// ============================================================
+
+/**
+ * Reads the value of a tag line, unescaping quoted strings.
+ * @param {string} line - e.g. 'synonym: "human" EXACT []'
+ */
+function readQuoted(line) {
+  const match = line.match(/"((?:[^"\\]|\\.)*)"/);
+  return match ? match[1].replace(/\\(.)/g, '$1') : null;
+}
+
+/**
+ * Parses the [Term] stanzas of an OBO file.
+ * @param {string} obo - Content of the OBO file
+ * @returns {object[]} - Terms with id, label, synonyms, obsolete, replacedBy, parents
+ */
+function parseObo(obo) {
+  const terms = [];
+
+  for (const stanza of obo.split(/\r?\n(?=\[)/)) {
+    if (!stanza.startsWith('[Term]')) continue;
+
+    const term = { id: '', label: '', synonyms: [], obsolete: false, replacedBy: undefined, parents: [] };
+    for (const line of stanza.split(/\r?\n/).slice(1)) {
+      const separator = line.indexOf(': ');
+      if (separator < 0) continue;
+      const tag = line.slice(0, separator);
+      const value = line.slice(separator + 2).replace(/\s+!.*$/, '').trim();
+
+      switch (tag) {
+        case 'id':
+          term.id = value;
+          break;
+        case 'name':
+          term.label = value;
+          break;
+        case 'synonym': {
+          const synonym = readQuoted(line);
+          if (synonym && !term.synonyms.includes(synonym)) term.synonyms.push(synonym);
+          break;
+        }
+        case 'is_obsolete':
+          term.obsolete = value === 'true';
+          break;
+        case 'replaced_by':
+          term.replacedBy = term.replacedBy || value;
+          break;
+        case 'is_a':
+          term.parents.push(value.split(/\s+/)[0]);
+          break;
+      }
+    }
+
+    if (term.id && term.label) terms.push(term);
+  }
+
+  return terms;
+}
+
+/**
+ * Ids of the terms below (and including) the roots.
+ */
+function getDescendants(terms, roots) {
+  const children = new Map();
+  for (const term of terms) {
+    for (const parent of term.parents) {
+      if (!children.has(parent)) children.set(parent, []);
+      children.get(parent).push(term.id);
+    }
+  }
+
+  const found = new Set(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.pop()) || []) {
+      if (!found.has(child)) {
+        found.add(child);
+        queue.push(child);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Keeps the source's own terms (not imported ones), in compact form.
+ */
+function buildSnapshotTerms(terms, source) {
+  const ownPrefix = new RegExp(`^${source.prefix}[:_]`);
+  const kept = source.roots ? getDescendants(terms, source.roots) : null;
+
+  return terms
+    .filter((term) => ownPrefix.test(term.id) && (!kept || kept.has(term.id)))
+    .map((term) => {
+      // Empty fields are left out to keep the snapshot small
+      const compact = { id: term.id, label: term.label };
+      if (term.synonyms.length > 0) compact.synonyms = term.synonyms;
+      if (term.obsolete) compact.obsolete = true;
+      if (term.replacedBy) compact.replacedBy = term.replacedBy;
+      if (term.parents.length > 0) compact.parents = term.parents;
+      return compact;
+    });
+}
+
+// ============================================================
+// Main script logic
+// ============================================================
+
+/**
+ * Reads an OBO file from a local directory or its release URL.
+ */
+async function readSource(source, fromDir) {
+  if (fromDir) {
+    const filePath = path.resolve(fromDir, `${source.ontology}.obo`);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    return fs.readFileSync(filePath, 'utf-8');
+  }
+
+  console.log(`Downloading ${source.url}...`);
+  const response = await fetch(source.url);
+  if (!response.ok) {
+    throw new Error(`Download of ${source.ontology} failed: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Write a snapshot to a gzip-compressed file.
+ */
+function writeSnapshot(data, outputPath) {
+  const jsonContent = JSON.stringify(data);
+  const compressed = zlib.gzipSync(jsonContent, { level: 9 });
+  fs.writeFileSync(outputPath, compressed);
+
+  console.log(
+    `  ${path.basename(outputPath)}: ${data.terms.length} terms, ` +
+      `${(Buffer.byteLength(jsonContent, 'utf-8') / 1024).toFixed(1)} KB -> ${(compressed.length / 1024).toFixed(1)} KB`
+  );
+}
+
+function parseArgs(argv) {
+  const args = { fromDir: null, ontologies: [] };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--from') {
+      args.fromDir = argv[++i];
+    } else {
+      args.ontologies.push(argv[i].toLowerCase());
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const outputDir = path.resolve(__dirname, '../src/assets/ontology-snapshots');
+  const manifestPath = path.join(outputDir, 'index.json');
+
+  const unknown = args.ontologies.filter((o) => !SOURCES.some((s) => s.ontology === o));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown ontologies: ${unknown.join(', ')} (available: ${SOURCES.map((s) => s.ontology).join(', ')})`);
+  }
+  const sources = args.ontologies.length > 0 ? SOURCES.filter((s) => args.ontologies.includes(s.ontology)) : SOURCES;
+
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  // Keep the entries of snapshots that are not rebuilt
+  const manifest = fs.existsSync(manifestPath)
+    ? JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))
+    : { generatedAt: '', snapshots: [] };
+
+  for (const source of sources) {
+    const obo = await readSource(source, args.fromDir);
+    const terms = buildSnapshotTerms(parseObo(obo), source);
+    if (terms.length === 0) {
+      throw new Error(`No ${source.prefix} terms found. Is this the ${source.ontology} OBO file?`);
+    }
+
+    const generatedAt = new Date().toISOString();
+    const file = `${source.ontology}.json.gz`;
+    const origin = args.fromDir ? `${source.ontology}.obo` : source.url;
+    writeSnapshot(
+      { metadata: { ontology: source.ontology, source: origin, generatedAt, termCount: terms.length }, terms },
+      path.join(outputDir, file)
+    );
+
+    const entry = {
+      ontology: source.ontology,
+      prefix: source.prefix,
+      file,
+      iriPrefix: source.iriPrefix || OBO_PURL,
+      termCount: terms.length,
+    };
+    if (source.searchedAs) entry.searchedAs = source.searchedAs;
+    manifest.snapshots = manifest.snapshots.filter((s) => s.ontology !== source.ontology).concat(entry);
+  }
+
+  manifest.generatedAt = new Date().toISOString();
+  manifest.snapshots.sort(
+    (a, b) =>
+      SOURCES.findIndex((s) => s.ontology === a.ontology) - SOURCES.findIndex((s) => s.ontology === b.ontology)
+  );
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+
+  console.log(`\nSnapshot index written to: ${manifestPath}`);
+  console.log('\nDone!');
+}
+
+main().catch((err) => {
+  console.error(`Error: ${err.message}`);
+  process.exit(1);
+});
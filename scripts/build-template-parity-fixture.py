@@ -0,0 +1,60 @@
+#!/usr/bin/env python3
+"""
+Template Parity Fixture Builder
+
+Validates each case of the template validator parity corpus with
+sdrf-pipelines, the validator the Pyodide worker runs, and stores its
+issues as the case's 'expected' list. The TemplateValidatorService spec
+checks the native validator against them.
+
+Usage:
+  python3 scripts/build-template-parity-fixture.py [path-to-parity.json]
+
+Requires sdrf-pipelines (pip install sdrf-pipelines). Ontology checks
+are skipped, as in the spec.
+
+Output:
+  src/app/core/services/template-validator.parity.json (updated in place)
+"""
+
+import json
+import logging
+import sys
+from io import StringIO
+from pathlib import Path
+
+from sdrf_pipelines.sdrf.schemas import SchemaRegistry, SchemaValidator
+from sdrf_pipelines.sdrf.sdrf import read_sdrf
+
+DEFAULT_FIXTURE = Path(__file__).resolve().parent.parent / "src/app/core/services/template-validator.parity.json"
+
+
+def to_issue(error):
+    """Same mapping as the Pyodide worker, without message and suggestion."""
+    return {
+        "level": "error" if getattr(error, "error_type", logging.ERROR) == logging.ERROR else "warning",
+        "column": getattr(error, "column", None),
+        "value": getattr(error, "value", None),
+    }
+
+
+def main():
+    fixture_path = Path(sys.argv[1]) if len(sys.argv) > 1 else DEFAULT_FIXTURE
+    fixture = json.loads(fixture_path.read_text(encoding="utf-8"))
+
+    registry = SchemaRegistry(schema_dir="")
+    registry.add_schema(fixture["template"]["name"], fixture["template"])
+    validator = SchemaValidator(registry)
+
+    for case in fixture["cases"]:
+        sdrf = read_sdrf(StringIO(case["sdrf"]))
+        errors = validator.validate(sdrf, schema_name=fixture["template"]["name"], skip_ontology=True)
+        case["expected"] = [to_issue(error) for error in errors]
+        print(f"{case['name']}: {len(case['expected'])} issue(s)")
+
+    fixture_path.write_text(json.dumps(fixture, indent=2) + "\n", encoding="utf-8")
+    print(f"Wrote {fixture_path}")
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,248 @@
+#!/usr/bin/env node
+/**
+ * Unimod Database Builder
+ *
+ * Converts unimod.xml (or the equivalent unimod.obo) into the compressed
+ * catalogue that UnimodService loads on first use. Each modification keeps
+ * its name, accession, delta masses, composition and specifications (site,
+ * position, classification).
+ *
+ * Usage:
+ *   node scripts/build-unimod-data.js [path-or-url-to-unimod.xml-or-obo]
+ *
+ * Example:
+ *   node scripts/build-unimod-data.js
+ *   node scripts/build-unimod-data.js ./unimod.xml
+ *   node scripts/build-unimod-data.js ./unimod.obo
+ *
+ * Without an argument, unimod.xml is downloaded from unimod.org.
+ *
+ * Output:
+ *   src/assets/unimod-data.json.gz (gzip compressed)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const DEFAULT_SOURCE = 'https://www.unimod.org/xml/unimod.xml';
+
+const XML_ENTITIES = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&amp;': '&',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+// ============================================================
+// XML parsing
+// ============================================================
+
+/**
+ * Reads the attributes of an XML start tag.
+ * @param {string} tag - Attribute part of the tag
+ * @returns {Record<string, string>} - Decoded attribute values
+ */
+function parseAttributes(tag) {
+  const attributes = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[match[1]] = match[2].replace(/&(lt|gt|amp|quot|apos);/g, (entity) => XML_ENTITIES[entity]);
+  }
+  return attributes;
+}
+
+/**
+ * Converts a Unimod composition ("H(3) C(2) N O") to the compact form
+ * used by the editor ("H3C2NO").
+ */
+function compactComposition(composition) {
+  return (composition || '').replace(/\((-?\d+)\)/g, '$1').replace(/\s+/g, '');
+}
+
+/**
+ * Parses the modifications of unimod.xml.
+ * @param {string} xml - Content of unimod.xml
+ * @returns {object[]} - UnimodEntry objects, sorted by record id
+ */
+function parseUnimodXml(xml) {
+  const modifications = [];
+
+  for (const match of xml.matchAll(/<umod:mod\b([^>]*)>([\s\S]*?)<\/umod:mod>/g)) {
+    const mod = parseAttributes(match[1]);
+    const body = match[2];
+
+    const deltaTag = body.match(/<umod:delta\b([^>]*)>/);
+    if (!mod.title || !mod.record_id || !deltaTag) continue;
+    const delta = parseAttributes(deltaTag[1]);
+
+    const specifications = [];
+    for (const spec of body.matchAll(/<umod:specificity\b([^>]*?)\/?>/g)) {
+      const attributes = parseAttributes(spec[1]);
+      if (!attributes.site) continue;
+      specifications.push({
+        site: attributes.site,
+        position: attributes.position || 'Anywhere',
+        classification: attributes.classification || '',
+        hidden: attributes.hidden === '1',
+      });
+    }
+
+    modifications.push({
+      accession: `UNIMOD:${mod.record_id}`,
+      name: mod.title,
+      deltaMonoMass: Number(delta.mono_mass),
+      deltaAvgMass: delta.avge_mass !== undefined ? Number(delta.avge_mass) : undefined,
+      deltaComposition: compactComposition(delta.composition),
+      sites: [...new Set(specifications.map((s) => s.site))],
+      positions: [...new Set(specifications.map((s) => s.position))],
+      specifications,
+    });
+  }
+
+  return modifications.sort((a, b) => Number(a.accession.slice(7)) - Number(b.accession.slice(7)));
+}
+
+// ============================================================
+// OBO parsing
+// ============================================================
+
+/**
+ * Parses the modifications of unimod.obo, which carries the unimod.xml
+ * attributes as xrefs (record_id, delta_mono_mass, spec_1_site, ...).
+ * @param {string} obo - Content of unimod.obo
+ * @returns {object[]} - UnimodEntry objects, sorted by record id
+ */
+function parseUnimodObo(obo) {
+  const modifications = [];
+
+  for (const stanza of obo.split(/^\[Term\]\s*$/m).slice(1)) {
+    const name = stanza.match(/^name: (.+)$/m)?.[1].trim();
+    const xrefs = {};
+    const specs = [];
+    for (const match of stanza.matchAll(/^xref: (\w+) "([^"]*)"/gm)) {
+      const [, key, value] = match;
+      const spec = key.match(/^spec_(\d+)_(group|hidden|site|position|classification)$/);
+      if (!spec) {
+        xrefs[key] = value;
+        continue;
+      }
+      // Specification numbers may repeat within a term, so a repeated field starts the next one
+      const current = specs[specs.length - 1];
+      if (!current || current.number !== spec[1] || spec[2] in current) {
+        specs.push({ number: spec[1] });
+      }
+      specs[specs.length - 1][spec[2]] = value;
+    }
+    if (!name || !xrefs.record_id || xrefs.delta_mono_mass === undefined) continue;
+
+    const specifications = specs
+      .filter((spec) => spec.site)
+      .map((spec) => ({
+        site: spec.site,
+        position: spec.position || 'Anywhere',
+        classification: spec.classification || '',
+        hidden: spec.hidden === '1',
+      }));
+
+    modifications.push({
+      accession: `UNIMOD:${xrefs.record_id}`,
+      name,
+      deltaMonoMass: Number(xrefs.delta_mono_mass),
+      deltaAvgMass: xrefs.delta_avge_mass !== undefined ? Number(xrefs.delta_avge_mass) : undefined,
+      deltaComposition: compactComposition(xrefs.delta_composition),
+      sites: [...new Set(specifications.map((s) => s.site))],
+      positions: [...new Set(specifications.map((s) => s.position))],
+      specifications,
+    });
+  }
+
+  return modifications.sort((a, b) => Number(a.accession.slice(7)) - Number(b.accession.slice(7)));
+}
+
+/**
+ * Release date of unimod.obo ("date: 2018:04:17 09:27"), if present.
+ */
+function parseOboDate(obo) {
+  const match = obo.match(/^date: (\d{4}):(\d{2}):(\d{2})/m);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+// ============================================================
+// Main script logic
+// ============================================================
+
+/**
+ * Reads unimod.xml from a local path or URL.
+ */
+async function readSource(source) {
+  if (/^https?:\/\//.test(source)) {
+    console.log(`Downloading ${source}...`);
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  const filePath = path.resolve(source);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Write the catalogue to a gzip-compressed file.
+ */
+function writeData(data, outputPath) {
+  const jsonContent = JSON.stringify(data);
+  const uncompressedSize = Buffer.byteLength(jsonContent, 'utf-8');
+
+  const compressed = zlib.gzipSync(jsonContent, { level: 9 });
+  fs.writeFileSync(outputPath, compressed);
+
+  console.log(`\nUnimod data written to: ${outputPath}`);
+  console.log(`Uncompressed size: ${(uncompressedSize / 1024).toFixed(1)} KB`);
+  console.log(`Compressed size: ${(compressed.length / 1024).toFixed(1)} KB`);
+}
+
+async function main() {
+  const source = process.argv[2] || DEFAULT_SOURCE;
+  const outputPath = path.resolve(__dirname, '../src/assets/unimod-data.json.gz');
+
+  const content = await readSource(source);
+  const isObo = /^format-version:/m.test(content.slice(0, 1000));
+  const modifications = isObo ? parseUnimodObo(content) : parseUnimodXml(content);
+  if (modifications.length === 0) {
+    throw new Error('No modifications found. Is this a unimod.xml or unimod.obo file?');
+  }
+
+  const specificationCount = modifications.reduce((sum, mod) => sum + mod.specifications.length, 0);
+  console.log(`Parsed ${modifications.length} modifications with ${specificationCount} specifications`);
+
+  const assetsDir = path.dirname(outputPath);
+  if (!fs.existsSync(assetsDir)) {
+    fs.mkdirSync(assetsDir, { recursive: true });
+  }
+
+  writeData(
+    {
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        source: /^https?:\/\//.test(source) ? source : path.basename(source),
+        sourceDate: isObo ? parseOboDate(content) : undefined,
+        modificationCount: modifications.length,
+      },
+      modifications,
+    },
+    outputPath
+  );
+
+  console.log('\nDone!');
+}
+
+main().catch((err) => {
+  console.error(`Error: ${err.message}`);
+  process.exit(1);
+});
@@ -38,6 +38,25 @@ import { SdrfOntologyInputComponent } from '../sdrf-ontology-input/sdrf-ontology
  */
 export type EditorMode = 'text' | 'age' | 'modification' | 'cleavage' | 'ontology' | 'select';
 
+/**
+ * Cell to move to after committing with the keyboard.
+ */
+export type CellEditorMove = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Emitted when the value is committed with Enter or Tab.
+ */
+export interface CellEditorCommitEvent {
+  value: string;
+  move: CellEditorMove;
+}
+
+/**
+ * Modes with a single field, where Tab commits instead of moving focus
+ * between the editor's fields.
+ */
+const SINGLE_FIELD_MODES: EditorMode[] = ['text', 'ontology', 'select'];
+
 /**
  * Predefined options for select-type columns.
  */
@@ -77,7 +96,7 @@ const ONTOLOGY_COLUMNS = [
     SdrfOntologyInputComponent,
   ],
   template: `
-    <div class="cell-editor-container" [class.expanded]="isExpanded()">
+    <div class="cell-editor-container" [class.expanded]="isExpanded()" (keydown)="onKeydown($event)">
       <!-- Mode indicator and expand toggle -->
       <div class="editor-header">
         <span class="mode-badge" [class]="editorMode()">
@@ -143,7 +162,6 @@ const ONTOLOGY_COLUMNS = [
                 #textInput
                 [ngModel]="value"
                 (ngModelChange)="onValueChange($event)"
-                (keydown.escape)="onCancel()"
                 class="text-input textarea"
                 rows="4"
               ></textarea>
@@ -153,8 +171,6 @@ const ONTOLOGY_COLUMNS = [
                 type="text"
                 [ngModel]="value"
                 (ngModelChange)="onValueChange($event)"
-                (keydown.enter)="onSave()"
-                (keydown.escape)="onCancel()"
                 class="text-input"
               />
             }
@@ -448,14 +464,22 @@ export class SdrfCellEditorComponent implements OnInit, OnChanges, AfterViewInit
   /** Row index (1-based) */
   @Input() rowIndex = 1;
 
+  /** Text typed over the cell; replaces the value, with the caret at the end */
+  @Input() initialText: string | null = null;
+
   /** Save event */
   @Output() save = new EventEmitter<string>();
 
+  /** Save via Enter/Tab, with the cell to move to */
+  @Output() commit = new EventEmitter<CellEditorCommitEvent>();
+
   /** Cancel event */
   @Output() cancel = new EventEmitter<void>();
 
   @ViewChild('textInput') textInput?: ElementRef<HTMLInputElement | HTMLTextAreaElement>;
 
+  constructor(private elementRef: ElementRef<HTMLElement>) {}
+
   private syntaxService = new SdrfSyntaxService();
 
   // State
@@ -498,6 +522,9 @@ export class SdrfCellEditorComponent implements OnInit, OnChanges, AfterViewInit
   });
 
   ngOnInit(): void {
+    if (this.initialText !== null) {
+      this.value = this.initialText;
+    }
     this.currentValue.set(this.value);
   }
 
@@ -508,15 +535,57 @@ export class SdrfCellEditorComponent implements OnInit, OnChanges, AfterViewInit
   }
 
   ngAfterViewInit(): void {
-    // Focus the input after render
+    // Focus the first field after render (specialized editors included)
     setTimeout(() => {
-      this.textInput?.nativeElement?.focus();
-      if (this.textInput?.nativeElement instanceof HTMLInputElement) {
-        this.textInput.nativeElement.select();
+      const field = this.textInput?.nativeElement ?? this.elementRef.nativeElement.querySelector<HTMLElement>(
+        '.editor-content input, .editor-content select, .editor-content textarea'
+      );
+      field?.focus();
+
+      if (field instanceof HTMLInputElement && field.type === 'text') {
+        if (this.initialText !== null) {
+          // Keep typing after the first character
+          field.setSelectionRange(field.value.length, field.value.length);
+        } else {
+          field.select();
+        }
       }
     }, 50);
   }
 
+  /**
+   * Keyboard model: Enter commits and moves down (Shift+Enter up), Tab
+   * commits and moves right (Shift+Tab left) in single-field editors,
+   * Escape cancels. Keys already handled by a field (e.g. Enter picking
+   * an ontology suggestion) are left alone.
+   */
+  onKeydown(event: KeyboardEvent): void {
+    if (event.defaultPrevented) return;
+
+    const target = event.target as HTMLElement;
+
+    switch (event.key) {
+      case 'Escape':
+        event.preventDefault();
+        this.onCancel();
+        break;
+
+      case 'Enter':
+        // Buttons handle Enter themselves; textareas take newlines unless Ctrl is held
+        if (target.tagName === 'BUTTON') return;
+        if (target.tagName === 'TEXTAREA' && !(event.ctrlKey || event.metaKey)) return;
+        event.preventDefault();
+        this.commit.emit({ value: this.currentValue(), move: event.shiftKey ? 'up' : 'down' });
+        break;
+
+      case 'Tab':
+        if (!SINGLE_FIELD_MODES.includes(this.editorMode())) return;
+        event.preventDefault();
+        this.commit.emit({ value: this.currentValue(), move: event.shiftKey ? 'left' : 'right' });
+        break;
+    }
+  }
+
   getModeLabel(): string {
     const mode = this.editorMode();
     switch (mode) {
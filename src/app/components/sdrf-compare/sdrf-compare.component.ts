@@ -0,0 +1,583 @@
+/**
+ * SDRF Compare Component
+ *
+ * Side-by-side, cell-level comparison of two SDRF files (e.g. a curated
+ * version and a revision from a submitter). Shows added/removed columns
+ * and rows and changed cells, and exports the diff as TSV or JSON Patch.
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  OnInit,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { SdrfTable } from '../../core/models/sdrf-table';
+import { SdrfParserService } from '../../core/services/sdrf-parser.service';
+import {
+  SdrfDiffService,
+  sdrfDiffService,
+  ColumnDiff,
+  RowDiff,
+} from '../../core/services/sdrf-diff.service';
+
+/**
+ * One side of the comparison.
+ */
+interface CompareSource {
+  name: string;
+  table: SdrfTable;
+}
+
+/**
+ * A rendered cell of the union grid.
+ */
+interface CompareCell {
+  state: 'same' | 'changed' | 'added' | 'removed';
+  oldValue?: string;
+  newValue?: string;
+}
+
+interface CompareRow {
+  row: RowDiff;
+  cells: CompareCell[];
+}
+
+/** Maximum number of rows rendered at once */
+const MAX_RENDERED_ROWS = 500;
+
+@Component({
+  selector: 'sdrf-compare',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="compare-overlay">
+      <div class="compare-container">
+        <!-- Header -->
+        <div class="compare-header">
+          <h2>Compare SDRF Files</h2>
+          <button class="btn-close" (click)="close.emit()" title="Close">&times;</button>
+        </div>
+
+        <!-- Sources -->
+        <div class="compare-sources">
+          <div class="source-slot">
+            <div class="slot-label">Base (curated)</div>
+            @if (base(); as b) {
+              <div class="slot-name" [title]="b.name">{{ b.name }}</div>
+              <div class="slot-meta">{{ b.table.sampleCount }} samples, {{ b.table.columns.length }} columns</div>
+            } @else {
+              <div class="slot-empty">No file loaded</div>
+            }
+            <div class="slot-actions">
+              <button class="btn btn-secondary" (click)="baseInput.click()">Choose file…</button>
+              @if (currentTable) {
+                <button class="btn btn-secondary" (click)="useCurrentTable('base')">Use current table</button>
+              }
+            </div>
+            <input
+              type="file"
+              #baseInput
+              accept=".tsv,.txt,.sdrf,.xlsx,.xls,.ods"
+              style="display: none"
+              (change)="onFileSelected($event, 'base')"
+            />
+          </div>
+
+          <button class="btn btn-secondary btn-swap" (click)="swap()" title="Swap base and revised">⇄</button>
+
+          <div class="source-slot">
+            <div class="slot-label">Revised</div>
+            @if (revised(); as r) {
+              <div class="slot-name" [title]="r.name">{{ r.name }}</div>
+              <div class="slot-meta">{{ r.table.sampleCount }} samples, {{ r.table.columns.length }} columns</div>
+            } @else {
+              <div class="slot-empty">No file loaded</div>
+            }
+            <div class="slot-actions">
+              <button class="btn btn-secondary" (click)="revisedInput.click()">Choose file…</button>
+              @if (currentTable) {
+                <button class="btn btn-secondary" (click)="useCurrentTable('revised')">Use current table</button>
+              }
+            </div>
+            <input
+              type="file"
+              #revisedInput
+              accept=".tsv,.txt,.sdrf,.xlsx,.xls,.ods"
+              style="display: none"
+              (change)="onFileSelected($event, 'revised')"
+            />
+          </div>
+        </div>
+
+        @if (loading()) {
+          <div class="compare-status">Loading…</div>
+        }
+        @if (error()) {
+          <div class="compare-error">{{ error() }}</div>
+        }
+
+        <!-- Diff -->
+        @if (diff(); as d) {
+          <div class="compare-summary">
+            <span class="chip added">+{{ d.summary.addedColumns }} columns</span>
+            <span class="chip removed">−{{ d.summary.removedColumns }} columns</span>
+            <span class="chip added">+{{ d.summary.addedRows }} rows</span>
+            <span class="chip removed">−{{ d.summary.removedRows }} rows</span>
+            <span class="chip changed">{{ d.summary.changedCells }} cells changed in {{ d.summary.changedRows }} rows</span>
+            @if (!d.alignedByKey) {
+              <span class="chip warning" title="Neither file has a source name or data file column">Rows aligned by position</span>
+            }
+
+            <span class="summary-spacer"></span>
+
+            <label class="toggle">
+              <input type="checkbox" [checked]="showUnchanged()" (change)="showUnchanged.set(!showUnchanged())" />
+              Show unchanged
+            </label>
+            <button class="btn btn-secondary" (click)="exportTsv()" [disabled]="!hasChanges()">Export TSV</button>
+            <button class="btn btn-secondary" (click)="exportJsonPatch()" [disabled]="!hasChanges()">Export JSON Patch</button>
+          </div>
+
+          @if (!hasChanges()) {
+            <div class="compare-status">The files are identical.</div>
+          } @else {
+            <div class="compare-grid-wrapper">
+              <table class="compare-grid">
+                <thead>
+                  <tr>
+                    <th class="row-header">Row</th>
+                    @for (col of visibleColumns(); track col.key) {
+                      <th [class]="'col-' + col.status" [title]="col.name + ' (' + col.status + ')'">
+                        {{ col.name }}
+                      </th>
+                    }
+                  </tr>
+                </thead>
+                <tbody>
+                  @for (item of renderedRows(); track item.row.key) {
+                    <tr [class]="'row-' + item.row.status">
+                      <td class="row-header" [title]="rowTitle(item.row)">
+                        <span class="row-marker">{{ rowMarker(item.row) }}</span>
+                        {{ item.row.key }}
+                      </td>
+                      @for (cell of item.cells; track $index) {
+                        <td [class]="'cell-' + cell.state">
+                          @switch (cell.state) {
+                            @case ('changed') {
+                              <div class="cell-pair">
+                                <span class="old-value">{{ cell.oldValue }}</span>
+                                <span class="new-value">{{ cell.newValue }}</span>
+                              </div>
+                            }
+                            @case ('removed') {
+                              <span class="old-value">{{ cell.oldValue }}</span>
+                            }
+                            @case ('added') {
+                              <span class="new-value">{{ cell.newValue }}</span>
+                            }
+                            @default {
+                              {{ cell.newValue }}
+                            }
+                          }
+                        </td>
+                      }
+                    </tr>
+                  }
+                </tbody>
+              </table>
+            </div>
+            @if (filteredRows().length > renderedRows().length) {
+              <div class="compare-status">
+                Showing {{ renderedRows().length }} of {{ filteredRows().length }} rows. Export the diff to see all changes.
+              </div>
+            }
+          }
+        } @else if (!loading()) {
+          <div class="compare-status">Choose a base and a revised file to compare.</div>
+        }
+      </div>
+    </div>
+  `,
+  styles: [`
+    .compare-overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+
+    .compare-container {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 25px 80px rgba(0, 0, 0, 0.3);
+      width: 95%;
+      height: 90vh;
+      display: flex;
+      flex-direction: column;
+      overflow: hidden;
+    }
+
+    .compare-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 16px 24px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .compare-header h2 {
+      margin: 0;
+      font-size: 20px;
+      color: #111827;
+    }
+
+    .btn-close {
+      background: none;
+      border: none;
+      font-size: 24px;
+      cursor: pointer;
+      color: #6b7280;
+    }
+
+    .btn-close:hover {
+      color: #111827;
+    }
+
+    .compare-sources {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 16px 24px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .source-slot {
+      flex: 1;
+      min-width: 0;
+      padding: 12px 16px;
+      background: #f8f9fa;
+      border: 1px solid #e0e0e0;
+      border-radius: 6px;
+    }
+
+    .slot-label {
+      font-size: 11px;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: #6b7280;
+      margin-bottom: 4px;
+    }
+
+    .slot-name {
+      font-weight: 600;
+      color: #111827;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .slot-meta,
+    .slot-empty {
+      font-size: 12px;
+      color: #6b7280;
+    }
+
+    .slot-actions {
+      display: flex;
+      gap: 8px;
+      margin-top: 8px;
+    }
+
+    .btn-swap {
+      flex-shrink: 0;
+      font-size: 16px;
+    }
+
+    .compare-summary {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 8px;
+      padding: 12px 24px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .summary-spacer {
+      flex: 1;
+    }
+
+    .chip {
+      padding: 2px 10px;
+      border-radius: 12px;
+      font-size: 12px;
+      font-weight: 500;
+    }
+
+    .chip.added { background: #dcfce7; color: #166534; }
+    .chip.removed { background: #fee2e2; color: #991b1b; }
+    .chip.changed { background: #fef3c7; color: #92400e; }
+    .chip.warning { background: #e0e7ff; color: #3730a3; }
+
+    .toggle {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      font-size: 13px;
+      color: #374151;
+    }
+
+    .compare-status {
+      padding: 12px 24px;
+      color: #6b7280;
+      font-size: 13px;
+    }
+
+    .compare-error {
+      margin: 12px 24px 0;
+      padding: 8px 12px;
+      background: #fee2e2;
+      color: #991b1b;
+      border-radius: 4px;
+      font-size: 13px;
+    }
+
+    .compare-grid-wrapper {
+      flex: 1;
+      overflow: auto;
+    }
+
+    .compare-grid {
+      border-collapse: collapse;
+      font-size: 12px;
+    }
+
+    .compare-grid th,
+    .compare-grid td {
+      border: 1px solid #e5e7eb;
+      padding: 4px 8px;
+      white-space: nowrap;
+      max-width: 320px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      text-align: left;
+    }
+
+    .compare-grid th {
+      position: sticky;
+      top: 0;
+      background: #f3f4f6;
+      z-index: 1;
+    }
+
+    .compare-grid .row-header {
+      position: sticky;
+      left: 0;
+      background: #f9fafb;
+      z-index: 2;
+      font-weight: 500;
+    }
+
+    .compare-grid th.row-header {
+      z-index: 3;
+    }
+
+    .row-marker {
+      display: inline-block;
+      width: 12px;
+      font-weight: 700;
+    }
+
+    th.col-added { background: #dcfce7; }
+    th.col-removed { background: #fee2e2; text-decoration: line-through; }
+    th.col-changed { background: #fef3c7; }
+
+    tr.row-added td { background: #f0fdf4; }
+    tr.row-removed td { background: #fef2f2; }
+
+    td.cell-changed { background: #fffbeb; }
+    td.cell-added { background: #f0fdf4; }
+    td.cell-removed { background: #fef2f2; }
+
+    .cell-pair {
+      display: flex;
+      gap: 6px;
+    }
+
+    .old-value {
+      color: #991b1b;
+      text-decoration: line-through;
+    }
+
+    .new-value {
+      color: #166534;
+    }
+
+    .btn {
+      padding: 6px 12px;
+      border: none;
+      border-radius: 4px;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .btn-secondary {
+      background: #f5f5f5;
+      color: #374151;
+      border: 1px solid #ccc;
+    }
+
+    .btn-secondary:hover:not(:disabled) {
+      background: #e0e0e0;
+    }
+
+    .btn:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `],
+})
+export class SdrfCompareComponent implements OnInit {
+  /** Table currently open in the editor (offered as either side) */
+  @Input() currentTable: SdrfTable | null = null;
+
+  /** Display name of the current table */
+  @Input() currentName = 'Current table';
+
+  @Output() close = new EventEmitter<void>();
+
+  private parser = new SdrfParserService();
+  private diffService: SdrfDiffService = sdrfDiffService;
+
+  base = signal<CompareSource | null>(null);
+  revised = signal<CompareSource | null>(null);
+  loading = signal(false);
+  error = signal<string | null>(null);
+  showUnchanged = signal(false);
+
+  diff = computed(() => {
+    const b = this.base();
+    const r = this.revised();
+    return b && r ? this.diffService.compare(b.table, r.table) : null;
+  });
+
+  hasChanges = computed(() => {
+    const d = this.diff();
+    return d ? this.diffService.hasChanges(d) : false;
+  });
+
+  visibleColumns = computed((): ColumnDiff[] => {
+    const d = this.diff();
+    if (!d) return [];
+    return this.showUnchanged() ? d.columns : d.columns.filter((c) => c.status !== 'unchanged');
+  });
+
+  filteredRows = computed((): RowDiff[] => {
+    const d = this.diff();
+    if (!d) return [];
+    return this.showUnchanged() ? d.rows : d.rows.filter((r) => r.status !== 'unchanged');
+  });
+
+  renderedRows = computed((): CompareRow[] => {
+    const d = this.diff();
+    if (!d) return [];
+    const columns = this.visibleColumns();
+
+    return this.filteredRows()
+      .slice(0, MAX_RENDERED_ROWS)
+      .map((row) => ({
+        row,
+        cells: columns.map((column): CompareCell => {
+          const { oldValue, newValue } = this.diffService.getCellValues(d, row, column);
+          if (oldValue === undefined) return { state: 'added', newValue };
+          if (newValue === undefined) return { state: 'removed', oldValue };
+          return oldValue === newValue
+            ? { state: 'same', newValue }
+            : { state: 'changed', oldValue, newValue };
+        }),
+      }));
+  });
+
+  ngOnInit(): void {
+    // Most common case: compare the curated table against a revision
+    if (this.currentTable) {
+      this.useCurrentTable('base');
+    }
+  }
+
+  useCurrentTable(side: 'base' | 'revised'): void {
+    if (!this.currentTable) return;
+    this.setSource(side, { name: this.currentName, table: this.currentTable });
+  }
+
+  async onFileSelected(event: Event, side: 'base' | 'revised'): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    try {
+      const result = await this.parser.parseFromFile(file);
+      if (result.success && result.table) {
+        this.setSource(side, { name: file.name, table: result.table });
+      } else {
+        this.error.set(`${file.name}: ${result.error || 'Failed to parse file'}`);
+      }
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  swap(): void {
+    const b = this.base();
+    this.base.set(this.revised());
+    this.revised.set(b);
+  }
+
+  exportTsv(): void {
+    const d = this.diff();
+    if (d) this.diffService.downloadTsv(d, this.exportFilename('tsv'));
+  }
+
+  exportJsonPatch(): void {
+    const d = this.diff();
+    if (d) this.diffService.downloadJsonPatch(d, this.exportFilename('patch.json'));
+  }
+
+  rowMarker(row: RowDiff): string {
+    switch (row.status) {
+      case 'added': return '+';
+      case 'removed': return '−';
+      case 'changed': return '~';
+      default: return '';
+    }
+  }
+
+  rowTitle(row: RowDiff): string {
+    const base = row.baseRow !== undefined ? `base row ${row.baseRow}` : 'not in base';
+    const revised = row.revisedRow !== undefined ? `revised row ${row.revisedRow}` : 'not in revised';
+    return `${row.key} (${base}, ${revised})`;
+  }
+
+  private setSource(side: 'base' | 'revised', source: CompareSource): void {
+    (side === 'base' ? this.base : this.revised).set(source);
+  }
+
+  private exportFilename(extension: string): string {
+    const stem = (name: string | undefined) => (name || 'sdrf').replace(/\.[^.]+$/, '');
+    return `${stem(this.base()?.name)}-vs-${stem(this.revised()?.name)}.diff.${extension}`;
+  }
+}
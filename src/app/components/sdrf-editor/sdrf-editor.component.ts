@@ -21,28 +21,66 @@ import {
   ViewChild,
   AfterViewInit,
   NgZone,
+  HostListener,
+  inject,
+  effect,
+  untracked,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 
 import { SdrfTable } from '../../core/models/sdrf-table';
 import { SdrfColumn, getValueForSample } from '../../core/models/sdrf-column';
-import { ValidationResult } from '../../core/models/validation';
+import {
+  getColumnStore,
+  columnStoreToModifiers,
+  insertSamplesIntoStore,
+  removeSamplesFromStore,
+} from '../../core/models/column-store';
+import { ValidationResult, ValidationError as SdrfValidationIssue } from '../../core/models/validation';
 import { getSdrfColumnConfig } from '../../core/models/sdrf-config';
 import { SdrfParserService, SdrfParseResult } from '../../core/services/sdrf-parser.service';
+import {
+  SdrfParserWorkerService,
+  sdrfParserWorkerService,
+  SdrfParseProgress,
+  PARSE_CANCELLED_ERROR,
+} from '../../core/services/sdrf-parser-worker.service';
 import { SdrfValidatorService } from '../../core/services/sdrf-validator.service';
-import { SdrfExportService } from '../../core/services/sdrf-export.service';
-import { setValueForSample } from '../../core/utils/modifier-utils';
-import { SdrfCellEditorComponent } from '../sdrf-cell-editor/sdrf-cell-editor.component';
+import { ValidationScheduler } from '../../core/services/validation-scheduler';
+import { sdrfValidatorWorkerService } from '../../core/services/sdrf-validator-worker.service';
+import { olsOfflineMode, setOlsOfflineMode } from '../../core/services/ols.service';
+import { SdrfExportService, EXCEL_SHEET_NAMES } from '../../core/services/sdrf-export.service';
+import { setValueForSample, cloneColumn } from '../../core/utils/modifier-utils';
+import { fillColumns } from '../../core/utils/fill-series';
+import { GridSelection, CellSelection } from '../../core/services/grid-selection';
+import { GridColumns, LEADING_COLUMNS_WIDTH } from '../../core/services/grid-columns';
+import { getGridKeyAction } from '../../core/utils/grid-navigation';
+import { sdrfClipboardService, PasteIssue } from '../../core/services/sdrf-clipboard.service';
+import { SdrfCellEditorComponent, CellEditorCommitEvent, CellEditorMove } from '../sdrf-cell-editor/sdrf-cell-editor.component';
 import { SdrfColumnStatsComponent, SelectByValueEvent, BulkEditEvent } from '../sdrf-column-stats/sdrf-column-stats.component';
 import { SdrfBulkToolbarComponent, BulkColumnEditEvent } from '../sdrf-bulk-toolbar/sdrf-bulk-toolbar.component';
 import { SdrfFilterBarComponent, FilterResult } from '../sdrf-filter-bar/sdrf-filter-bar.component';
+import { FilterGroup, CellErrorIndex, cloneFilterGroup, createCellErrorIndex } from '../../core/utils/row-filter';
+import { SortKey, RowGroup, sortRows, groupRows, cycleSortKey, getGroupValues } from '../../core/utils/row-sort';
+import { getSpecColumnOrder, reorderColumns, getMovedColumnOrder, getColumnIndexMap } from '../../core/utils/column-order';
+import { TemplateService } from '../../core/services/template.service';
+import { templateValidator } from '../../core/services/template-validator.service';
+import { ResolvedTemplate } from '../../core/models/template';
 import { SdrfRecommendPanelComponent, ApplyRecommendationEvent, BatchApplyEvent, ApplyFixEvent } from '../sdrf-recommend-panel/sdrf-recommend-panel.component';
 import { LlmSettingsDialogComponent } from '../llm-settings/llm-settings-dialog.component';
 import { SdrfWizardComponent } from '../sdrf-wizard/sdrf-wizard.component';
+import { SdrfCompareComponent } from '../sdrf-compare/sdrf-compare.component';
+import { SdrfMergeComponent } from '../sdrf-merge/sdrf-merge.component';
+import { SdrfSplitComponent } from '../sdrf-split/sdrf-split.component';
+import { SdrfFindReplaceComponent, FindReplaceApplyEvent } from '../sdrf-find-replace/sdrf-find-replace.component';
+import { SdrfPasteIssuesComponent } from '../sdrf-paste-issues/sdrf-paste-issues.component';
+import { SdrfSortGroupBarComponent } from '../sdrf-sort-group-bar/sdrf-sort-group-bar.component';
+import { sdrfFindReplaceService } from '../../core/services/sdrf-find-replace.service';
 import { ColumnEditorPanelComponent, BulkEditEvent as ColumnBulkEditEvent } from '../column-editor-panel/column-editor-panel.component';
 import { CacheRecoveryPanelComponent, RecoverCacheEvent } from '../cache-recovery-panel/cache-recovery-panel.component';
 import { TableCacheService, tableCacheService } from '../../core/services/table-cache.service';
+import { TableHistoryService, tableHistoryService, TableCommandType } from '../../core/services/table-history.service';
 import { SdrfRecommendation } from '../../core/models/llm';
 import {
   PyodideValidatorService,
@@ -60,14 +98,10 @@ export interface AggregatedValidationError {
   column: string | null;
   cells: Array<{ row: number; value: string | null }>;
   suggestion: string | null;
-}
-
-/**
- * Cell selection state.
- */
-export interface CellSelection {
-  row: number;
-  col: number;
+  /** sdrf-pipelines validation, native template validation or live validation */
+  source: 'pyodide' | 'native' | 'live';
+  /** Corrected value replacing `value` in the column */
+  fix: { value: string; replacement: string } | null;
 }
 
 /** Row height in pixels for virtual scrolling */
@@ -76,10 +110,14 @@ const ROW_HEIGHT = 32;
 /** Number of rows to render outside visible area (buffer) */
 const BUFFER_ROWS = 10;
 
+/** Height of the sticky header rows (column groups and names) */
+const HEADER_HEIGHT = 56;
+
+
 @Component({
   selector: 'sdrf-editor-table',
   standalone: true,
-  imports: [CommonModule, FormsModule, SdrfCellEditorComponent, SdrfColumnStatsComponent, SdrfBulkToolbarComponent, SdrfFilterBarComponent, SdrfRecommendPanelComponent, LlmSettingsDialogComponent, SdrfWizardComponent, ColumnEditorPanelComponent, CacheRecoveryPanelComponent],
+  imports: [CommonModule, FormsModule, SdrfCellEditorComponent, SdrfColumnStatsComponent, SdrfBulkToolbarComponent, SdrfFilterBarComponent, SdrfRecommendPanelComponent, LlmSettingsDialogComponent, SdrfWizardComponent, ColumnEditorPanelComponent, CacheRecoveryPanelComponent, SdrfCompareComponent, SdrfMergeComponent, SdrfSplitComponent, SdrfFindReplaceComponent, SdrfPasteIssuesComponent, SdrfSortGroupBarComponent],
   changeDetection: ChangeDetectionStrategy.OnPush,
   template: `
     <div class="sdrf-editor" [class.loading]="loading()">
@@ -107,7 +145,7 @@ const BUFFER_ROWS = 10;
       <input
         type="file"
         #fileInput
-        accept=".tsv,.txt,.sdrf"
+        accept=".tsv,.txt,.sdrf,.xlsx,.xls,.ods"
         style="display: none"
         (change)="onFileSelected($event)"
       />
@@ -119,21 +157,90 @@ const BUFFER_ROWS = 10;
             <button class="btn btn-secondary" (click)="exportTsv()">
               Export TSV
             </button>
+            <button class="btn btn-secondary" (click)="exportExcel()" title="Export as Excel workbook (can be re-imported)">
+              Export Excel
+            </button>
             <button class="btn btn-secondary" (click)="validate()">
               Validate
             </button>
+            <button
+              class="btn"
+              [class.btn-active]="liveValidation()"
+              (click)="toggleLiveValidation()"
+              [title]="liveValidation()
+                ? 'Live check on: edited columns are re-checked as you type (last pass ' + liveValidationPassMs() + ' ms)'
+                : 'Re-check edited columns as you type (formats, whitespace, ontology terms, factor values)'"
+            >
+              Live Check
+              @if (liveValidationProgress(); as progress) {
+                <span class="live-progress">{{ progress }}</span>
+              }
+              @if (liveValidation() && liveErrorCount() > 0) {
+                <span class="live-error-count">{{ liveErrorCount() }}</span>
+              }
+            </button>
+            <button
+              class="btn"
+              [class.btn-active]="ontologyOffline()"
+              (click)="toggleOntologyOffline()"
+              [title]="ontologyOffline()
+                ? 'Offline: ontology search and checks use cached terms only, results may be incomplete'
+                : 'Use cached ontology terms only, without requests to OLS'"
+            >
+              Offline
+              @if (ontologyOffline()) {
+                <span class="offline-badge" title="Ontology results may be incomplete">cached only</span>
+              }
+            </button>
+            <button class="btn btn-secondary" (click)="openCompare()" title="Compare this table with another SDRF file">
+              Compare
+            </button>
+            <button class="btn btn-secondary" (click)="openMerge()" title="Merge this table with other SDRF files">
+              Merge
+            </button>
+            <button class="btn btn-secondary" (click)="openSplit()" title="Split this table into several files">
+              Split
+            </button>
+            <button class="btn btn-secondary" (click)="openFindReplace()" title="Find and replace values">
+              Find &amp; Replace
+            </button>
             @if (changeCount() > 0) {
               <span class="unsaved-indicator" title="{{ changeCount() }} unsaved change(s)">
                 💾 {{ changeCount() }}
               </span>
             }
             <span class="toolbar-divider"></span>
+            <button
+              class="btn btn-secondary"
+              [disabled]="readonly || !canUndo()"
+              (click)="undo()"
+              [title]="canUndo() ? 'Undo: ' + nextUndoDescription() + ' (Ctrl+Z)' : 'Nothing to undo'"
+            >
+              ↶ Undo
+            </button>
+            <button
+              class="btn btn-secondary"
+              [disabled]="readonly || !canRedo()"
+              (click)="redo()"
+              [title]="canRedo() ? 'Redo: ' + nextRedoDescription() + ' (Ctrl+Shift+Z)' : 'Nothing to redo'"
+            >
+              ↷ Redo
+            </button>
+            <span class="toolbar-divider"></span>
             <button class="btn btn-secondary" (click)="addRowAtEnd()" title="Add a new row at the end">
               + Row
             </button>
             <button class="btn btn-secondary" (click)="showAddColumnDialog()" title="Add a new column">
               + Column
             </button>
+            <button
+              class="btn btn-secondary"
+              (click)="sortColumnsToSpecOrder()"
+              [disabled]="sortingColumns()"
+              title="Reorder columns: source name, characteristics, assay name, comments, factor values (following the selected templates)"
+            >
+              Sort Columns
+            </button>
             <span class="toolbar-divider"></span>
             <button
               class="btn"
@@ -143,6 +250,14 @@ const BUFFER_ROWS = 10;
             >
               Filter
             </button>
+            <button
+              class="btn"
+              [class.btn-active]="showSortGroupBar()"
+              (click)="showSortGroupBar.set(!showSortGroupBar())"
+              title="Sort by several columns and group rows"
+            >
+              Sort &amp; Group
+            </button>
             <button
               class="btn"
               [class.btn-active]="showStatsPanel()"
@@ -183,6 +298,14 @@ const BUFFER_ROWS = 10;
         <div class="loading-overlay">
           <div class="loading-spinner"></div>
           <span>{{ loadingMessage() }}</span>
+          @if (loadingProgress() !== null) {
+            <div class="loading-progress">
+              <div class="loading-progress-bar" [style.width.%]="loadingProgress()"></div>
+            </div>
+          }
+          @if (canCancelLoading()) {
+            <button class="btn btn-small" (click)="cancelLoading()">Cancel</button>
+          }
         </div>
       }
 
@@ -194,6 +317,13 @@ const BUFFER_ROWS = 10;
         </div>
       }
 
+      <!-- Paste syntax issues -->
+      <sdrf-paste-issues
+        [issues]="pasteIssues()"
+        (close)="clearPasteIssues()"
+        (selectCell)="selectCell($event.row, $event.col)"
+      ></sdrf-paste-issues>
+
       <!-- Bulk Edit Toolbar -->
       <sdrf-bulk-toolbar
         [table]="table()"
@@ -209,10 +339,26 @@ const BUFFER_ROWS = 10;
       @if (table() && showFilterBar()) {
         <sdrf-filter-bar
           [table]="table()"
+          [fileName]="fileName()"
+          [errorIndex]="cellErrorIndex()"
           (filterChange)="onFilterChange($event)"
         ></sdrf-filter-bar>
       }
 
+      <!-- Sort & Group Bar -->
+      @if (table() && showSortGroupBar()) {
+        <sdrf-sort-group-bar
+          [columns]="table()!.columns"
+          [sortKeys]="sortKeys()"
+          [groupByColumn]="groupByColumn()"
+          [groupCount]="rowGroups()?.length ?? null"
+          (sortKeysChange)="setSortKeys($event)"
+          (groupByColumnChange)="setGroupByColumn($event)"
+          (expandAll)="expandAllGroups()"
+          (collapseAll)="collapseAllGroups()"
+        ></sdrf-sort-group-bar>
+      }
+
       <!-- Main content -->
       @if (table()) {
         <div class="sdrf-content">
@@ -222,20 +368,48 @@ const BUFFER_ROWS = 10;
             <div
               class="sdrf-table-container"
               #scrollContainer
+              tabindex="0"
+              (keydown)="onGridKeydown($event)"
               (scroll)="onScroll($event)"
+              (copy)="onCopy($event)"
+              (paste)="onPaste($event)"
             >
               <!-- Single table with sticky header -->
               <div class="table-scroll-area" [style.height.px]="totalHeight() + 40">
-                <table class="sdrf-table">
-                  <!-- Column group to ensure consistent widths -->
+                <table class="sdrf-table" [style.width.px]="gridColumns.width()">
+                  <!-- Column group with fixed widths (only rendered columns) -->
                   <colgroup>
                     <col class="col-checkbox" />
                     <col class="col-rownum" />
-                    @for (column of table()!.columns; track $index) {
-                      <col class="col-data" />
+                    @for (col of gridColumns.rendered(); track col.key) {
+                      <col class="col-data" [style.width.px]="col.width" />
                     }
                   </colgroup>
                   <thead>
+                    <!-- Column type groups -->
+                    <tr class="column-group-row">
+                      <th class="row-header checkbox-col"></th>
+                      <th class="row-header rownum-col"></th>
+                      @for (group of gridColumns.headerGroups(); track group.key) {
+                        <th
+                          class="column-group"
+                          [attr.colspan]="group.span"
+                          [class.pinned-col]="group.pinned"
+                          [style.left.px]="group.pinned ? LEADING_COLUMNS_WIDTH : null"
+                          [class.collapsible]="group.collapsible"
+                          [class.collapsed]="group.collapsed"
+                          [title]="group.label ? group.label + ' (' + group.columnCount + ' columns)' + (group.collapsible ? (group.collapsed ? ' - click to expand' : ' - click to collapse') : '') : ''"
+                          (click)="group.collapsible && group.type && gridColumns.toggleCollapsed(group.type)"
+                        >
+                          @if (group.collapsible) {
+                            {{ group.collapsed ? '▸' : '▾' }}
+                          }
+                          @if (!group.collapsed) {
+                            {{ group.label }} ({{ group.columnCount }})
+                          }
+                        </th>
+                      }
+                    </tr>
                     <tr>
                       <th class="row-header checkbox-col">
                         <input
@@ -246,37 +420,69 @@ const BUFFER_ROWS = 10;
                           title="Select all visible rows"
                         />
                       </th>
-                      <th class="row-header">#</th>
-                      @for (column of table()!.columns; track $index; let colIdx = $index) {
-                        <th
-                          class="data-col"
-                          [class.col-type-source]="getColumnTypeClass(column.name) === 'source'"
-                          [class.col-type-characteristic]="getColumnTypeClass(column.name) === 'characteristic'"
-                          [class.col-type-comment]="getColumnTypeClass(column.name) === 'comment'"
-                          [class.col-type-factor]="getColumnTypeClass(column.name) === 'factor'"
-                          [class.required]="column.isRequired"
-                          [class.selected]="selectedCell()?.col === colIdx"
-                          [class.sorted]="sortColumn() === colIdx"
-                          [title]="getColumnTooltip(column.name)"
-                          (click)="onHeaderClick(colIdx, $event)"
-                        >
-                          <div class="col-header-content">
-                            <span class="col-name">{{ column.name }}</span>
-                            @if (column.isRequired) {
-                              <span class="required-marker">*</span>
-                            }
-                            @if (sortColumn() === colIdx) {
-                              <span class="sort-indicator">{{ sortDirection() === 'asc' ? '▲' : '▼' }}</span>
-                            }
-                            <button
-                              class="bulk-edit-btn"
-                              (click)="openColumnEditor(colIdx); $event.stopPropagation()"
-                              title="Bulk edit this column"
-                            >
-                              📝
-                            </button>
-                          </div>
-                        </th>
+                      <th class="row-header rownum-col">#</th>
+                      @for (col of gridColumns.rendered(); track col.key) {
+                        @if (col.kind === 'column') {
+                          @let colIdx = col.index;
+                          @let column = table()!.columns[colIdx];
+                          <th
+                            class="data-col"
+                            [class.pinned-col]="col.pinned"
+                            [style.left.px]="col.stickyLeft"
+                            [class.col-type-source]="getColumnTypeClass(column.name) === 'source'"
+                            [class.col-type-characteristic]="getColumnTypeClass(column.name) === 'characteristic'"
+                            [class.col-type-comment]="getColumnTypeClass(column.name) === 'comment'"
+                            [class.col-type-factor]="getColumnTypeClass(column.name) === 'factor'"
+                            [class.required]="column.isRequired"
+                            [class.selected]="selectedCell()?.col === colIdx"
+                            [class.sorted]="getSortKeyIndex(colIdx) > 0"
+                            [class.dragging]="gridColumns.dragged() === colIdx"
+                            [class.drop-before]="gridColumns.isDropTarget(colIdx, 'before')"
+                            [class.drop-after]="gridColumns.isDropTarget(colIdx, 'after')"
+                            [title]="getColumnTooltip(column.name)"
+                            [draggable]="!readonly"
+                            (dragstart)="onColumnDragStart($event, colIdx)"
+                            (dragover)="gridColumns.onDragOver($event, colIdx)"
+                            (drop)="onColumnDrop($event)"
+                            (dragend)="gridColumns.onDragEnd()"
+                            (click)="onHeaderClick(colIdx, $event)"
+                          >
+                            <div class="col-header-content">
+                              <span class="col-name">{{ column.name }}</span>
+                              @if (column.isRequired) {
+                                <span class="required-marker">*</span>
+                              }
+                              @if (getSortDirection(colIdx); as direction) {
+                                <span class="sort-indicator">
+                                  {{ direction === 'asc' ? '▲' : '▼' }}@if (sortKeys().length > 1) {<sub>{{ getSortKeyIndex(colIdx) }}</sub>}
+                                </span>
+                              }
+                              <button
+                                class="pin-btn"
+                                [class.active]="col.pinned"
+                                (click)="gridColumns.togglePin(colIdx); $event.stopPropagation()"
+                                [title]="col.pinned ? 'Unpin column' : 'Pin column to the left'"
+                              >
+                                📌
+                              </button>
+                              <button
+                                class="bulk-edit-btn"
+                                (click)="openColumnEditor(colIdx); $event.stopPropagation()"
+                                title="Bulk edit this column"
+                              >
+                                📝
+                              </button>
+                            </div>
+                          </th>
+                        } @else if (col.kind === 'collapsed') {
+                          <th
+                            class="collapsed-col"
+                            [title]="gridColumns.getCollapsedTitle(col)"
+                            (click)="gridColumns.toggleCollapsed(col.type)"
+                          >▸</th>
+                        } @else {
+                          <th class="col-spacer"></th>
+                        }
                       }
                     </tr>
                   </thead>
@@ -284,47 +490,107 @@ const BUFFER_ROWS = 10;
                     <!-- Virtual scroll spacer - invisible row for scroll offset -->
                     @if (tableOffset() > 0) {
                       <tr class="virtual-spacer" [style.height.px]="tableOffset()">
-                        <td [attr.colspan]="(table()?.columns?.length || 0) + 2"></td>
+                        <td [attr.colspan]="gridColumns.rendered().length + 2"></td>
                       </tr>
                     }
-                    @for (rowIndex of visibleRows(); track rowIndex) {
-                      <tr
-                        [class.selected]="selectedCell()?.row === rowIndex"
-                        [class.row-selected]="isRowSelected(rowIndex)"
-                        [style.height.px]="ROW_HEIGHT"
-                      >
-                        <td class="row-header checkbox-col">
-                          <input
-                            type="checkbox"
-                            [checked]="isRowSelected(rowIndex)"
-                            (change)="toggleRowSelection(rowIndex, $event)"
-                            (click)="$event.stopPropagation()"
-                          />
-                        </td>
-                        <td class="row-header" (click)="onRowHeaderClick(rowIndex, $event)">
-                          {{ rowIndex }}
-                        </td>
-                        @for (column of table()!.columns; track $index; let colIdx = $index) {
+                    @for (item of visibleItems(); track trackDisplayItem(item)) {
+                      @if (isRowGroup(item)) {
+                        <tr class="group-row" [style.height.px]="ROW_HEIGHT">
+                          <td class="row-header checkbox-col">
+                            <input
+                              type="checkbox"
+                              [checked]="isGroupSelected(item)"
+                              [indeterminate]="isGroupPartiallySelected(item)"
+                              (change)="toggleGroupSelection(item)"
+                              title="Select all rows in this group"
+                            />
+                          </td>
                           <td
-                            [class.selected]="isSelected(rowIndex, colIdx)"
-                            [class.has-error]="hasCellError(rowIndex, colIdx)"
-                            (click)="selectCell(rowIndex, colIdx)"
-                            (dblclick)="startEditing(rowIndex, colIdx)"
-                            (contextmenu)="onCellContextMenu($event, rowIndex, colIdx)"
+                            class="row-header rownum-col group-toggle"
+                            (click)="toggleGroup(item)"
+                            [title]="(isGroupCollapsed(item) ? 'Expand' : 'Collapse') + ' group: ' + (item.value || '(empty)')"
                           >
-                            <span
-                              class="cell-value"
-                              [class.reserved-value]="isReservedValue(getCellValue(rowIndex, colIdx))"
-                              [class.reserved-not-available]="isReservedValueType(getCellValue(rowIndex, colIdx), 'not available')"
-                              [class.reserved-not-applicable]="isReservedValueType(getCellValue(rowIndex, colIdx), 'not applicable')"
-                              [class.reserved-anonymized]="isReservedValueType(getCellValue(rowIndex, colIdx), 'anonymized')"
-                              [class.reserved-pooled]="isReservedValueType(getCellValue(rowIndex, colIdx), 'pooled')"
-                            >
-                              {{ getCellValue(rowIndex, colIdx) }}
-                            </span>
+                            {{ isGroupCollapsed(item) ? '▸' : '▾' }} {{ item.rows.length }}
                           </td>
-                        }
-                      </tr>
+                          @for (col of gridColumns.rendered(); track col.key) {
+                            @if (col.kind === 'column') {
+                              @let colIdx = col.index;
+                              <td
+                                class="group-summary"
+                                [class.pinned-col]="col.pinned"
+                                [style.left.px]="col.stickyLeft"
+                                [class.group-key]="groupByColumn() === colIdx"
+                                [class.mixed]="isGroupValueMixed(item, colIdx)"
+                                (dblclick)="startGroupEditing(item, colIdx, $event)"
+                                title="Double-click to set this value on all {{ item.rows.length }} rows of the group"
+                              >
+                                <span class="cell-value">{{ getGroupSummary(item, colIdx) }}</span>
+                              </td>
+                            } @else {
+                              <td [class.collapsed-col]="col.kind === 'collapsed'" [class.col-spacer]="col.kind === 'spacer'"></td>
+                            }
+                          }
+                        </tr>
+                      } @else {
+                        @let rowIndex = item;
+                        <tr
+                          [attr.data-row]="rowIndex"
+                          [class.selected]="selectedCell()?.row === rowIndex"
+                          [class.row-selected]="isRowSelected(rowIndex)"
+                          [style.height.px]="ROW_HEIGHT"
+                        >
+                          <td class="row-header checkbox-col">
+                            <input
+                              type="checkbox"
+                              [checked]="isRowSelected(rowIndex)"
+                              (change)="toggleRowSelection(rowIndex, $event)"
+                              (click)="$event.stopPropagation()"
+                            />
+                          </td>
+                          <td class="row-header rownum-col" (click)="onRowHeaderClick(rowIndex, $event)">
+                            {{ rowIndex }}
+                          </td>
+                          @for (col of gridColumns.rendered(); track col.key) {
+                            @if (col.kind === 'column') {
+                              @let colIdx = col.index;
+                              <td
+                                [attr.data-col]="colIdx"
+                                [class.pinned-col]="col.pinned"
+                                [style.left.px]="col.stickyLeft"
+                                [class.selected]="selection.isSelected(rowIndex, colIdx)"
+                                [class.in-range]="selection.isInRange(rowIndex, colIdx)"
+                                [class.fill-preview]="selection.isInFillPreview(rowIndex, colIdx)"
+                                [class.has-fill-handle]="!readonly && selection.isFillHandleCell(rowIndex, colIdx)"
+                                [class.has-error]="hasCellError(rowIndex, colIdx)"
+                                (mousedown)="selection.onCellMouseDown($event, rowIndex, colIdx)"
+                                (mouseenter)="selection.onCellMouseEnter($event, rowIndex, colIdx)"
+                                (dblclick)="startEditing(rowIndex, colIdx)"
+                                (contextmenu)="onCellContextMenu($event, rowIndex, colIdx)"
+                              >
+                                <span
+                                  class="cell-value"
+                                  [class.reserved-value]="isReservedValue(getCellValue(rowIndex, colIdx))"
+                                  [class.reserved-not-available]="isReservedValueType(getCellValue(rowIndex, colIdx), 'not available')"
+                                  [class.reserved-not-applicable]="isReservedValueType(getCellValue(rowIndex, colIdx), 'not applicable')"
+                                  [class.reserved-anonymized]="isReservedValueType(getCellValue(rowIndex, colIdx), 'anonymized')"
+                                  [class.reserved-pooled]="isReservedValueType(getCellValue(rowIndex, colIdx), 'pooled')"
+                                >
+                                  {{ getCellValue(rowIndex, colIdx) }}
+                                </span>
+                                @if (!readonly && selection.isFillHandleCell(rowIndex, colIdx)) {
+                                  <span
+                                    class="fill-handle"
+                                    (mousedown)="selection.onFillHandleMouseDown($event)"
+                                    title="Drag down to fill"
+                                  ></span>
+                                }
+                              </td>
+                            } @else {
+                              <td [class.collapsed-col]="col.kind === 'collapsed'" [class.col-spacer]="col.kind === 'spacer'"></td>
+                            }
+                          }
+                        </tr>
+                      }
                     }
                   </tbody>
                 </table>
@@ -360,13 +626,15 @@ const BUFFER_ROWS = 10;
             <button class="btn btn-small" (click)="jumpToRow()">Go</button>
           </div>
 
-          <!-- Validation Panel (Pyodide-based) -->
+          <!-- Validation Panel (sdrf-pipelines in Pyodide, or the native template validator) -->
           @if (showValidationPanel()) {
             <div class="validation-panel-container">
               <div class="validation-panel-header">
                 <div class="validation-title">
                   <h3>SDRF Validation</h3>
-                  @if (usingApiFallback()) {
+                  @if (validatorEngine() === 'native') {
+                    <span class="pyodide-status ready" title="Templates run in the browser without Pyodide">Native</span>
+                  } @else if (usingApiFallback()) {
                     <span class="pyodide-status api-fallback" title="Using EBI PRIDE SDRF Validator API">API</span>
                   } @else if (pyodideState() === 'loading') {
                     <span class="pyodide-status loading">{{ pyodideLoadProgress() }}</span>
@@ -380,12 +648,37 @@ const BUFFER_ROWS = 10;
               </div>
 
               <div class="validation-panel-body">
+                <!-- Validator Selector -->
+                <div class="template-selector-row">
+                  <span class="template-label">Validator:</span>
+                  <div class="template-chips">
+                    <label class="template-chip" [class.selected]="validatorEngine() === 'pyodide'">
+                      <input
+                        type="radio"
+                        name="validator-engine"
+                        [checked]="validatorEngine() === 'pyodide'"
+                        (change)="setValidatorEngine('pyodide')"
+                      />
+                      sdrf-pipelines (Python)
+                    </label>
+                    <label class="template-chip" [class.selected]="validatorEngine() === 'native'">
+                      <input
+                        type="radio"
+                        name="validator-engine"
+                        [checked]="validatorEngine() === 'native'"
+                        (change)="setValidatorEngine('native')"
+                      />
+                      Native
+                    </label>
+                  </div>
+                </div>
+
                 <!-- Template Selector: only show templates from library/API when loaded -->
                 <div class="template-selector-row">
                   <span class="template-label">Templates:</span>
-                  @if (pyodideAvailableTemplates().length > 0) {
+                  @if (availableTemplates().length > 0) {
                     <div class="template-chips">
-                      @for (template of pyodideAvailableTemplates(); track template) {
+                      @for (template of availableTemplates(); track template) {
                         <label class="template-chip" [class.selected]="selectedTemplates().includes(template)">
                           <input
                             type="checkbox"
@@ -396,8 +689,10 @@ const BUFFER_ROWS = 10;
                         </label>
                       }
                     </div>
-                  } @else if (pyodideState() === 'loading') {
+                  } @else if (templatesLoading()) {
                     <span class="template-loading">Loading templates...</span>
+                  } @else if (validatorEngine() === 'native') {
+                    <span class="template-loading">Templates unavailable</span>
                   } @else if (pyodideState() === 'not-loaded') {
                     <span class="template-loading">Load validator to see templates</span>
                   } @else if (pyodideState() === 'error') {
@@ -407,11 +702,13 @@ const BUFFER_ROWS = 10;
                   }
                   <button
                     class="btn btn-primary btn-sm"
-                    [disabled]="pyodideValidating() || selectedTemplates().length === 0"
-                    (click)="runPyodideValidation()"
+                    [disabled]="templateValidating() || selectedTemplates().length === 0"
+                    (click)="runTemplateValidation()"
                   >
-                    @if (pyodideValidating()) {
+                    @if (templateValidating()) {
                       <span class="spinner-sm"></span> Validating...
+                    } @else if (validatorEngine() === 'native') {
+                      Validate
                     } @else if (usingApiFallback()) {
                       Validate (API)
                     } @else if (pyodideState() === 'not-loaded') {
@@ -423,16 +720,16 @@ const BUFFER_ROWS = 10;
                 </div>
 
                 <!-- Results Summary -->
-                @if (pyodideHasValidated() && !pyodideValidating()) {
+                @if (templateHasValidated() && !templateValidating()) {
                   <div class="validation-summary-row">
-                    @if (pyodideErrorCount() === 0 && pyodideWarningCount() === 0) {
+                    @if (templateErrorCount() === 0 && templateWarningCount() === 0) {
                       <span class="validation-success">✓ Validation passed - no issues found</span>
                     } @else {
-                      @if (pyodideErrorCount() > 0) {
-                        <span class="error-badge">{{ pyodideErrorCount() }} errors</span>
+                      @if (templateErrorCount() > 0) {
+                        <span class="error-badge">{{ templateErrorCount() }} errors</span>
                       }
-                      @if (pyodideWarningCount() > 0) {
-                        <span class="warning-badge">{{ pyodideWarningCount() }} warnings</span>
+                      @if (templateWarningCount() > 0) {
+                        <span class="warning-badge">{{ templateWarningCount() }} warnings</span>
                       }
                     }
                   </div>
@@ -446,7 +743,12 @@ const BUFFER_ROWS = 10;
                         <div class="error-main">
                           <span class="error-icon">{{ error.level === 'error' ? '❌' : '⚠️' }}</span>
                           <div class="error-content">
-                            <div class="error-message">{{ error.message }}</div>
+                            <div class="error-message">
+                              @if (error.source === 'live') {
+                                <span class="error-source">Live Check</span>
+                              }
+                              {{ error.message }}
+                            </div>
                             @if (error.column) {
                               <div class="error-column">Column: <strong>{{ error.column }}</strong></div>
                             }
@@ -462,12 +764,26 @@ const BUFFER_ROWS = 10;
                                   @if (error.cells.length > 8) {
                                     <span class="cells-more">+{{ error.cells.length - 8 }} more</span>
                                   }
+                                  @if (error.cells.length > 1) {
+                                    <button
+                                      class="cell-link cell-cycle"
+                                      (click)="jumpToValidationCell(error.cells[0].row, error.column, error.cells)"
+                                      title="Go to the next affected row"
+                                    >
+                                      Next ›
+                                    </button>
+                                  }
                                 </div>
                               </div>
                             }
                             @if (error.suggestion) {
                               <div class="error-suggestion">💡 {{ error.suggestion }}</div>
                             }
+                            @if (error.fix && !readonly) {
+                              <button class="btn btn-small btn-apply-fix" (click)="applyValidationFix(error)" [title]="error.fix.replacement">
+                                Apply fix
+                              </button>
+                            }
                           </div>
                           <button class="btn btn-ai-assist" (click)="sendErrorToAI(error)" title="Ask AI for help">
                             AI Assist
@@ -479,7 +795,7 @@ const BUFFER_ROWS = 10;
                 }
 
                 <!-- Loading state -->
-                @if (pyodideValidating()) {
+                @if (templateValidating()) {
                   <div class="validation-loading">
                     <span class="spinner"></span>
                     <span>Running validation...</span>
@@ -502,6 +818,12 @@ const BUFFER_ROWS = 10;
               <button (click)="selectAllInColumn()">
                 Select all in this column
               </button>
+              <button (click)="openFindReplace(contextMenu()!.col)">
+                Find &amp; replace in this column...
+              </button>
+              <button (click)="gridColumns.togglePin(contextMenu()!.col); closeContextMenu()">
+                {{ gridColumns.isPinned(contextMenu()!.col) ? 'Unpin column' : 'Pin column' }}
+              </button>
               <hr />
               <button (click)="editSelectedCells()">
                 Edit selected cells
@@ -509,6 +831,13 @@ const BUFFER_ROWS = 10;
               <button (click)="clearSelectedCells()">
                 Clear selected cells
               </button>
+              <button
+                (click)="fillSeries()"
+                [disabled]="(selectedRange()?.rows?.length ?? 0) < 2"
+                title="Continue the values at the top of the selected range (numbers, run_01.raw, repeating cycles) down the range"
+              >
+                Fill series
+              </button>
               <hr />
               <button (click)="insertRowAbove()">
                 Insert row above
@@ -615,6 +944,8 @@ const BUFFER_ROWS = 10;
             />
             <button class="btn btn-secondary" (click)="onLoadUrlClick()">Load URL</button>
             <button class="btn btn-secondary" (click)="onLoadExampleClick()">Load Example</button>
+            <button class="btn btn-secondary" (click)="openCompare()">Compare Files</button>
+            <button class="btn btn-secondary" (click)="openMerge()">Merge Files</button>
           </div>
 
           <div class="landing-content">
@@ -696,7 +1027,12 @@ const BUFFER_ROWS = 10;
         >
           <div class="cell-editor-context">
             <span class="context-info">
-              Editing Row <strong>{{ editingCell()!.row }}</strong>,
+              @if (editingGroup(); as group) {
+                Editing <strong>{{ group.rows.length }}</strong> rows in group
+                <strong>{{ group.value || '(empty)' }}</strong>,
+              } @else {
+                Editing Row <strong>{{ editingCell()!.row }}</strong>,
+              }
               Column: <strong>{{ editingColumn()!.name }}</strong>
             </span>
             <button class="btn-close" (click)="cancelEditing()" title="Close">×</button>
@@ -705,12 +1041,42 @@ const BUFFER_ROWS = 10;
             [value]="getCellValue(editingCell()!.row, editingCell()!.col)"
             [column]="editingColumn()!"
             [rowIndex]="editingCell()!.row"
+            [initialText]="editingInitialText()"
             (save)="onCellEditorSave($event)"
+            (commit)="onCellEditorCommit($event)"
             (cancel)="cancelEditing()"
           ></sdrf-cell-editor>
         </div>
       }
 
+      <!-- Workbook Sheet Picker -->
+      @if (sheetPicker()) {
+        <div class="dialog-backdrop" (click)="cancelSheetPicker()">
+          <div class="dialog-content" (click)="$event.stopPropagation()">
+            <h3>Select Sheet</h3>
+            <div class="dialog-form">
+              <label>{{ sheetPicker()!.file.name }} contains several sheets:</label>
+              <select
+                [value]="sheetPicker()!.selected"
+                (change)="selectPickerSheet($any($event.target).value)"
+              >
+                @for (sheet of sheetPicker()!.sheets; track sheet) {
+                  <option [value]="sheet">{{ sheet }}</option>
+                }
+              </select>
+            </div>
+            <div class="dialog-actions">
+              <button class="btn btn-primary" (click)="confirmSheetPicker()">
+                Import Sheet
+              </button>
+              <button class="btn" (click)="cancelSheetPicker()">
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      }
+
       <!-- LLM Settings Dialog -->
       @if (showLlmSettingsDialog()) {
         <llm-settings-dialog
@@ -729,6 +1095,46 @@ const BUFFER_ROWS = 10;
         />
       }
 
+      <!-- Compare View -->
+      @if (showCompare()) {
+        <sdrf-compare
+          [currentTable]="table()"
+          [currentName]="fileName()"
+          (close)="closeCompare()"
+        />
+      }
+
+      <!-- Merge Dialog -->
+      @if (showMerge()) {
+        <sdrf-merge
+          [currentTable]="table()"
+          [currentName]="fileName()"
+          (complete)="onMergeComplete($event)"
+          (cancel)="closeMerge()"
+        />
+      }
+
+      <!-- Split Dialog -->
+      @if (showSplit() && table()) {
+        <sdrf-split
+          [table]="table()!"
+          [fileName]="fileName()"
+          [filter]="splitFilter()"
+          [errorIndex]="cellErrorIndex()"
+          (cancel)="closeSplit()"
+        />
+      }
+
+      <!-- Find & Replace Dialog -->
+      @if (showFindReplace() && table()) {
+        <sdrf-find-replace
+          [table]="table()!"
+          [initialColumn]="findReplaceColumn()"
+          (apply)="onFindReplaceApply($event)"
+          (close)="closeFindReplace()"
+        />
+      }
+
       <!-- Cache Recovery Panel -->
       @if (showCacheRecovery()) {
         <cache-recovery-panel
@@ -756,7 +1162,9 @@ const BUFFER_ROWS = 10;
 
     /* Ensure child components don't expand beyond their content */
     sdrf-bulk-toolbar,
-    sdrf-filter-bar {
+    sdrf-filter-bar,
+    sdrf-paste-issues,
+    sdrf-sort-group-bar {
       display: block;
       flex-shrink: 0;
     }
@@ -1079,6 +1487,11 @@ const BUFFER_ROWS = 10;
       background: #5a6268;
     }
 
+    .btn-secondary:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
     .btn-create {
       background: #10b981;
       color: white;
@@ -1159,6 +1572,21 @@ const BUFFER_ROWS = 10;
       100% { transform: rotate(360deg); }
     }
 
+    .loading-progress {
+      width: 240px;
+      height: 6px;
+      margin: 12px 0;
+      background: #f3f3f3;
+      border-radius: 3px;
+      overflow: hidden;
+    }
+
+    .loading-progress-bar {
+      height: 100%;
+      background: #0066cc;
+      transition: width 0.2s;
+    }
+
     .error-banner {
       display: flex;
       justify-content: space-between;
@@ -1255,8 +1683,8 @@ const BUFFER_ROWS = 10;
       border-collapse: separate;
       border-spacing: 0;
       font-size: 13px;
-      table-layout: auto;
-      width: max-content;
+      /* Fixed column widths allow horizontal virtualization */
+      table-layout: fixed;
       min-width: 100%;
     }
 
@@ -1396,6 +1824,65 @@ const BUFFER_ROWS = 10;
       cursor: pointer;
     }
 
+    .sdrf-table .rownum-col {
+      left: 36px;
+    }
+
+    /* Pinned columns stay in view while scrolling horizontally */
+    .sdrf-table td.pinned-col {
+      position: sticky;
+      z-index: 4;
+      background: white;
+    }
+
+    .sdrf-table th.data-col.pinned-col,
+    .sdrf-table th.column-group.pinned-col {
+      position: sticky;
+      z-index: 14;
+      background-color: #f8f9fa;
+    }
+
+    /* Column type bands above the headers */
+    .sdrf-table .column-group-row th {
+      height: 24px;
+      padding: 2px 8px;
+      font-size: 11px;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: #6b7280;
+      min-width: 0;
+      max-width: none;
+    }
+
+    .sdrf-table .column-group-row th.collapsible {
+      cursor: pointer;
+    }
+
+    .sdrf-table .column-group-row th.collapsible:hover {
+      color: #1976d2;
+    }
+
+    .sdrf-table .collapsed-col,
+    .sdrf-table .col-spacer {
+      min-width: 0;
+      max-width: none;
+      padding: 0;
+    }
+
+    .sdrf-table .collapsed-col {
+      text-align: center;
+      background: repeating-linear-gradient(45deg, #f5f5f5, #f5f5f5 4px, #eeeeee 4px, #eeeeee 8px);
+      color: #1976d2;
+    }
+
+    .sdrf-table th.collapsed-col {
+      cursor: pointer;
+    }
+
+    .sdrf-table .col-spacer {
+      border-left: none;
+    }
+
     .sdrf-table td.selected,
     .sdrf-table th.selected {
       background: #e3f2fd;
@@ -1403,6 +1890,39 @@ const BUFFER_ROWS = 10;
       outline-offset: -2px;
     }
 
+    .sdrf-table td.in-range {
+      background: #e3f2fd;
+    }
+
+    .sdrf-table td.fill-preview {
+      outline: 1px dashed #2196f3;
+      outline-offset: -2px;
+    }
+
+    .sdrf-table td.has-fill-handle {
+      position: relative;
+    }
+
+    .fill-handle {
+      position: absolute;
+      right: 0;
+      bottom: 0;
+      width: 7px;
+      height: 7px;
+      background: #2196f3;
+      border: 1px solid white;
+      cursor: crosshair;
+    }
+
+    /* Cells are selected as blocks, not as text */
+    .sdrf-table tbody td {
+      user-select: none;
+    }
+
+    .sdrf-table-container:focus {
+      outline: none;
+    }
+
     .sdrf-table td.has-error {
       background: #ffebee;
     }
@@ -1779,6 +2299,25 @@ const BUFFER_ROWS = 10;
       text-decoration: underline;
     }
 
+    .btn-apply-fix {
+      margin-top: 6px;
+      font-size: 11px;
+    }
+
+    .cell-cycle {
+      font-family: inherit;
+    }
+
+    .error-source {
+      font-size: 10px;
+      font-weight: 600;
+      color: #4338ca;
+      background: #e0e7ff;
+      padding: 1px 5px;
+      border-radius: 3px;
+      margin-right: 4px;
+    }
+
     .cells-more {
       font-size: 11px;
       color: #9ca3af;
@@ -1873,6 +2412,41 @@ const BUFFER_ROWS = 10;
       opacity: 1;
     }
 
+    /* Column drag and drop */
+    .sdrf-table th.data-col.dragging {
+      opacity: 0.5;
+    }
+
+    .sdrf-table th.data-col.drop-before {
+      box-shadow: inset 3px 0 0 #2196f3;
+    }
+
+    .sdrf-table th.data-col.drop-after {
+      box-shadow: inset -3px 0 0 #2196f3;
+    }
+
+    .pin-btn {
+      background: none;
+      border: none;
+      padding: 0 2px;
+      font-size: 11px;
+      cursor: pointer;
+      opacity: 0;
+      filter: grayscale(1);
+      transition: opacity 0.2s;
+      flex-shrink: 0;
+    }
+
+    .sdrf-table th:hover .pin-btn {
+      opacity: 0.6;
+    }
+
+    .pin-btn.active,
+    .sdrf-table th:hover .pin-btn.active {
+      opacity: 1;
+      filter: none;
+    }
+
     .bulk-edit-btn:hover {
       background: #2196f3;
       border-color: #2196f3;
@@ -1898,6 +2472,37 @@ const BUFFER_ROWS = 10;
       color: #1976d2;
     }
 
+    .sort-indicator sub {
+      font-size: 9px;
+    }
+
+    /* Group header rows */
+    .group-row td {
+      background: #eef2f7;
+      border-top: 1px solid #c5cfdc;
+      font-weight: 500;
+    }
+
+    .group-row td.group-toggle {
+      cursor: pointer;
+      white-space: nowrap;
+      color: #1976d2;
+    }
+
+    .group-row td.group-summary {
+      cursor: cell;
+    }
+
+    .group-row td.group-summary.group-key {
+      color: #0d47a1;
+    }
+
+    .group-row td.group-summary.mixed {
+      color: #9e9e9e;
+      font-style: italic;
+      font-weight: normal;
+    }
+
     .sdrf-table th:hover {
       cursor: pointer;
       background: #f0f0f0;
@@ -1925,6 +2530,34 @@ const BUFFER_ROWS = 10;
       margin-left: 8px;
     }
 
+    .live-progress {
+      margin-left: 4px;
+      font-size: 11px;
+      color: #666;
+    }
+
+    .live-error-count {
+      display: inline-block;
+      margin-left: 4px;
+      padding: 0 6px;
+      border-radius: 8px;
+      background: #f44336;
+      color: white;
+      font-size: 11px;
+      line-height: 16px;
+    }
+
+    .offline-badge {
+      display: inline-block;
+      margin-left: 4px;
+      padding: 0 6px;
+      border-radius: 8px;
+      background: #ffb300;
+      color: white;
+      font-size: 11px;
+      line-height: 16px;
+    }
+
     .btn-active {
       background: #e3f2fd !important;
       border-color: #2196f3 !important;
@@ -2043,10 +2676,15 @@ const BUFFER_ROWS = 10;
       font-size: 13px;
     }
 
-    .context-menu button:hover {
+    .context-menu button:hover:not(:disabled) {
       background: #f5f5f5;
     }
 
+    .context-menu button:disabled {
+      color: #9ca3af;
+      cursor: default;
+    }
+
     .context-menu hr {
       margin: 4px 0;
       border: none;
@@ -2093,7 +2731,8 @@ const BUFFER_ROWS = 10;
       color: #666;
     }
 
-    .dialog-form input {
+    .dialog-form input,
+    .dialog-form select {
       width: 100%;
       padding: 10px 12px;
       border: 1px solid #ddd;
@@ -2102,7 +2741,8 @@ const BUFFER_ROWS = 10;
       box-sizing: border-box;
     }
 
-    .dialog-form input:focus {
+    .dialog-form input:focus,
+    .dialog-form select:focus {
       outline: none;
       border-color: #1a237e;
       box-shadow: 0 0 0 2px rgba(26, 35, 126, 0.1);
@@ -2156,6 +2796,7 @@ const BUFFER_ROWS = 10;
 export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, OnDestroy {
   // Expose constant for template
   readonly ROW_HEIGHT = ROW_HEIGHT;
+  readonly LEADING_COLUMNS_WIDTH = LEADING_COLUMNS_WIDTH;
 
   // ============ Inputs ============
 
@@ -2191,6 +2832,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   // ============ View References ============
 
   @ViewChild('scrollContainer') scrollContainer!: ElementRef<HTMLDivElement>;
+  @ViewChild(SdrfFilterBarComponent) filterBar?: SdrfFilterBarComponent;
 
   // ============ State ============
 
@@ -2203,11 +2845,27 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   /** Loading message */
   loadingMessage = signal('Loading...');
 
+  /** Parse progress in percent (null when not known) */
+  loadingProgress = signal<number | null>(null);
+
+  /** Whether the current load can be cancelled */
+  canCancelLoading = signal(false);
+
   /** Current error message */
   error = signal<string | null>(null);
 
+  /** Cell and block selection of the grid */
+  readonly selection = new GridSelection({
+    rows: () => this.effectiveRows(),
+    columns: () => this.gridColumns.navigable(),
+    getValue: (row, col) => this.getCellValue(row, col),
+  });
+
   /** Currently selected cell */
-  selectedCell = signal<CellSelection | null>(null);
+  readonly selectedCell = this.selection.selectedCell;
+
+  /** Pasted values that failed the syntax check */
+  pasteIssues = signal<PasteIssue[]>([]);
 
   /** Cell being edited */
   editingCell = signal<CellSelection | null>(null);
@@ -2215,19 +2873,58 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   /** Column being edited */
   editingColumn = signal<SdrfColumn | null>(null);
 
+  /** Text typed over the cell that opened the editor (null = keep the value) */
+  editingInitialText = signal<string | null>(null);
+
   /** Editor popup position */
   editorPosition = signal({ top: 0, left: 0 });
 
-  /** Validation result */
-  validationResult = signal<ValidationResult | null>(null);
+  /** Whether edits are validated live (ontology lookups wait for the first edit) */
+  liveValidation = signal(true);
 
-  /** Current scroll position */
-  scrollTop = signal(0);
+  /** Live validation result (null while live validation is off) */
+  validationResult = computed((): ValidationResult | null =>
+    this.liveValidation() ? this.validationScheduler.result() : null
+  );
 
-  /** Container height */
-  containerHeight = signal(500);
+  /** Live validation errors by lowercase column name */
+  private validationErrorsByColumn = computed(() => {
+    const byColumn = new Map<string, ValidationResult['errors']>();
+    for (const error of this.validationResult()?.errors ?? []) {
+      if (!error.column) continue;
+      const key = error.column.toLowerCase();
+      if (!byColumn.has(key)) byColumn.set(key, []);
+      byColumn.get(key)!.push(error);
+    }
+    return byColumn;
+  });
 
-  /** Jump to row input */
+  liveErrorCount = computed(() => this.validationResult()?.errors.length ?? 0);
+
+  /** Whether ontology lookups are served from the offline cache */
+  readonly ontologyOffline = olsOfflineMode;
+  liveValidationPassMs = computed(() => this.validationScheduler.lastPassMs());
+
+  /** Progress of a full live validation pass, e.g. "columns 12/40" */
+  liveValidationProgress = computed(() => {
+    const progress = this.validationScheduler.progress();
+    if (!progress || !this.liveValidation()) return null;
+    return `${progress.phase} ${progress.completed}/${progress.total}`;
+  });
+
+  /** Current scroll position */
+  scrollTop = signal(0);
+
+  /** Container height */
+  containerHeight = signal(500);
+
+  /** Current horizontal scroll position */
+  scrollLeft = signal(0);
+
+  /** Container width */
+  containerWidth = signal(1200);
+
+  /** Jump to row input */
   jumpToRowInput = 1;
 
   // ============ Multi-Selection State ============
@@ -2265,6 +2962,24 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   /** Whether cache recovery panel is visible */
   showCacheRecovery = signal(false);
 
+  /** Whether the compare view is visible */
+  showCompare = signal(false);
+
+  /** Whether the merge dialog is visible */
+  showMerge = signal(false);
+
+  /** Whether the split dialog is visible */
+  showSplit = signal(false);
+
+  /** Filter captured when the split dialog opens */
+  splitFilter = signal<FilterGroup | null>(null);
+
+  /** Whether the find & replace dialog is visible */
+  showFindReplace = signal(false);
+
+  /** Column the find & replace dialog starts with (null = all columns) */
+  findReplaceColumn = signal<number | null>(null);
+
   /** Current cache ID (if loaded from cache) */
   currentCacheId = signal<string | null>(null);
 
@@ -2274,25 +2989,46 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   /** Current file name */
   fileName = signal('untitled.sdrf.tsv');
 
-  // ============ Pyodide Validation State ============
+  // ============ Undo/Redo State ============
+
+  /** Whether there is a change to undo */
+  canUndo = computed(() => this.history.canUndo());
+
+  /** Whether there is an undone change to redo */
+  canRedo = computed(() => this.history.canRedo());
+
+  /** Description of the change that would be undone next */
+  nextUndoDescription = computed(() => this.history.nextUndo()?.description ?? '');
+
+  /** Description of the change that would be redone next */
+  nextRedoDescription = computed(() => this.history.nextRedo()?.description ?? '');
+
+  // ============ Template Validation State ============
 
   private pyodideService: PyodideValidatorService;
   private cacheService: TableCacheService = tableCacheService;
+  private history: TableHistoryService = tableHistoryService;
+
+  /** Validator running the selected templates: sdrf-pipelines in Pyodide or TemplateValidatorService */
+  validatorEngine = signal<'pyodide' | 'native'>('pyodide');
 
-  /** Pyodide validation in progress */
-  pyodideValidating = signal(false);
+  /** Template validation in progress */
+  templateValidating = signal(false);
 
-  /** Pyodide validation errors */
-  pyodideErrors = signal<ValidationError[]>([]);
+  /** Template validation errors */
+  templateErrors = signal<ValidationError[]>([]);
 
-  /** Whether Pyodide validation has been run */
-  pyodideHasValidated = signal(false);
+  /** Whether template validation has been run */
+  templateHasValidated = signal(false);
 
   /** Selected templates for validation */
   selectedTemplates = signal<string[]>(['ms-proteomics']);
 
-  /** Aggregated validation errors (grouped by message) */
-  aggregatedErrors = computed(() => this.aggregateErrors(this.pyodideErrors()));
+  /** Aggregated validation errors (grouped by message), then live validation issues */
+  aggregatedErrors = computed(() => [
+    ...this.aggregateErrors(this.templateErrors(), this.validatorEngine()),
+    ...this.aggregateErrors(this.toPanelErrors(this.validationResult()), 'live'),
+  ]);
 
   /** Pyodide state computed signals */
   pyodideState = computed(() => this.pyodideService.state());
@@ -2300,8 +3036,33 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   pyodideIsLoading = computed(() => this.pyodideService.isLoading());
   pyodideLoadProgress = computed(() => this.pyodideService.loadProgress());
   pyodideAvailableTemplates = computed(() => this.pyodideService.availableTemplates());
-  pyodideErrorCount = computed(() => this.pyodideErrors().filter(e => e.level === 'error').length);
-  pyodideWarningCount = computed(() => this.pyodideErrors().filter(e => e.level === 'warning').length);
+
+  /** Templates offered by the selected validator */
+  availableTemplates = computed(() =>
+    this.validatorEngine() === 'native'
+      ? this.templateService.allTemplates().map(t => t.name)
+      : this.pyodideAvailableTemplates()
+  );
+
+  /** Whether the selected validator is loading its templates */
+  templatesLoading = computed(() =>
+    this.validatorEngine() === 'native' ? this.templateService.isLoading() : this.pyodideState() === 'loading'
+  );
+  templateErrorCount = computed(() => this.templateErrors().filter(e => e.level === 'error').length);
+  templateWarningCount = computed(() => this.templateErrors().filter(e => e.level === 'warning').length);
+
+  /** Rows (1-based) with validation errors, for row filters */
+  cellErrorIndex = computed((): CellErrorIndex =>
+    createCellErrorIndex([
+      // Template validation rows are 0-based (-1 when not row-specific)
+      ...this.templateErrors()
+        .filter((error) => error.level === 'error' && error.row >= 0)
+        .map((error) => ({ row: error.row + 1, column: error.column })),
+      ...(this.validationResult()?.errors ?? []).flatMap((error) =>
+        (error.rows ?? (error.row ? [error.row] : [])).map((row) => ({ row, column: error.column }))
+      ),
+    ])
+  );
 
   /** API fallback state */
   usingApiFallback = computed(() => this.pyodideService.usingApiFallback());
@@ -2316,6 +3077,9 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   /** URL input value on the landing page (Load URL) */
   loadUrlValue = '';
 
+  /** Pending workbook import waiting for the user to pick a sheet */
+  sheetPicker = signal<{ file: File; data: ArrayBuffer; sheets: string[]; selected: string } | null>(null);
+
   // ============ Filter State ============
 
   /** Whether filter bar is visible */
@@ -2324,28 +3088,48 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   /** Filtered row indices (empty = no filter) */
   filteredIndices = signal<number[]>([]);
 
-  // ============ Sorting State ============
+  /** Whether the sort & group bar is visible */
+  showSortGroupBar = signal(false);
 
-  /** Currently sorted column index (-1 = no sort) */
-  sortColumn = signal<number>(-1);
+  // ============ Sorting State ============
 
-  /** Sort direction */
-  sortDirection = signal<'asc' | 'desc'>('asc');
+  /** Sort keys, primary first (empty = no sort) */
+  sortKeys = signal<SortKey[]>([]);
 
   /** Sorted row indices (maps display order to actual sample index) */
   sortedIndices = signal<number[]>([]);
 
+  // ============ Grouping State ============
+
+  /** Column whose value groups the rows (null = no grouping) */
+  groupByColumn = signal<number | null>(null);
+
+  /** Keys of collapsed groups */
+  collapsedGroups = signal<Set<string>>(new Set());
+
+  /** Member rows of the group being edited from its header (null = single cell) */
+  editingGroup = signal<RowGroup | null>(null);
+
+  // ============ Column Layout State ============
+
+  /** Pinned, collapsed and rendered columns */
+  readonly gridColumns = new GridColumns({
+    table: () => this.table(),
+    viewportWidth: () => this.containerWidth(),
+    scrollLeft: () => this.scrollLeft(),
+  });
+
+  /** Whether "Sort to spec order" is resolving templates */
+  sortingColumns = signal(false);
+
   // ============ Computed (Virtual Scrolling) ============
 
-  /** Total scrollable height (accounts for filtering) */
+  /** Total scrollable height (accounts for filtering and group headers) */
   totalHeight = computed(() => {
     const t = this.table();
     if (!t) return 0;
 
-    // Use filtered count if filtering, otherwise full count
-    const rowCount = this.filteredIndices().length > 0
-      ? this.filteredIndices().length
-      : t.sampleCount;
+    const rowCount = this.displayItems().length;
 
     // Add extra height for header
     return (rowCount * ROW_HEIGHT) + ROW_HEIGHT + 100;
@@ -2370,13 +3154,13 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     // Calculate visible range
     const startRow = Math.max(1, Math.floor(scrollPos / ROW_HEIGHT) - BUFFER_ROWS);
     const visibleCount = Math.ceil(viewHeight / ROW_HEIGHT) + (BUFFER_ROWS * 2);
-    const endRow = Math.min(t.sampleCount, startRow + visibleCount);
+    const endRow = Math.min(this.displayItems().length, startRow + visibleCount);
 
     return { start: startRow, end: endRow };
   });
 
-  /** Effective row list (filtered and/or sorted) */
-  effectiveRows = computed(() => {
+  /** Row list in display order (filtered and/or sorted), before grouping */
+  orderedRows = computed(() => {
     const t = this.table();
     if (!t) return [];
 
@@ -2396,34 +3180,82 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     return rows;
   });
 
-  /** Array of visible row indices (accounts for filtering and sorting) */
-  visibleRows = computed(() => {
-    const range = this.visibleRange();
-    if (!range) return [];
-
-    const effective = this.effectiveRows();
-    const rows: number[] = [];
+  /** Row groups when grouping is active */
+  rowGroups = computed((): RowGroup[] | null => {
+    const t = this.table();
+    const column = this.groupByColumn();
+    if (!t || column === null || !t.columns[column]) return null;
+    return groupRows(t, this.orderedRows(), column);
+  });
 
-    // Get the slice of effective rows for this visible range
-    for (let i = range.start - 1; i < range.end && i < effective.length; i++) {
-      if (effective[i]) {
-        rows.push(effective[i]);
+  /** Rendered rows: sample indices, preceded by their group header when grouping */
+  displayItems = computed((): (number | RowGroup)[] => {
+    const groups = this.rowGroups();
+    if (!groups) return this.orderedRows();
+
+    const collapsed = this.collapsedGroups();
+    const items: (number | RowGroup)[] = [];
+    for (const group of groups) {
+      items.push(group);
+      if (!collapsed.has(group.key)) {
+        items.push(...group.rows);
       }
     }
+    return items;
+  });
 
-    return rows;
+  /** Rows shown to the user, in display order (excludes collapsed groups) */
+  effectiveRows = computed(() => {
+    const groups = this.rowGroups();
+    if (!groups) return this.orderedRows();
+    return this.displayItems().filter((item): item is number => typeof item === 'number');
   });
 
+  /** Selected block of cells (a single cell when nothing is extended) */
+  readonly selectedRange = this.selection.selectedRange;
+
+  /** Visible rows and group headers (accounts for filtering, sorting and grouping) */
+  visibleItems = computed(() => {
+    const range = this.visibleRange();
+    if (!range) return [];
+    return this.displayItems().slice(range.start - 1, range.end);
+  });
+
+  /** Array of visible row indices (accounts for filtering and sorting) */
+  visibleRows = computed(() =>
+    this.visibleItems().filter((item): item is number => typeof item === 'number')
+  );
+
   // ============ Services ============
 
   private parser = new SdrfParserService();
+  private parserWorker: SdrfParserWorkerService = sdrfParserWorkerService;
+  private parseAbort: AbortController | null = null;
   private validator = new SdrfValidatorService();
+  private validationScheduler = new ValidationScheduler(this.validator, {
+    worker: sdrfValidatorWorkerService,
+  });
   private exporter = new SdrfExportService();
 
+  private readonly templateService = inject(TemplateService);
+
   private resizeObserver?: ResizeObserver;
 
   constructor(private ngZone: NgZone) {
     this.pyodideService = pyodideValidatorService;
+
+    // Re-check edited columns whenever the table changes
+    effect(() => {
+      const t = this.table();
+      if (!this.liveValidation()) return;
+      untracked(() => {
+        if (t) {
+          this.validationScheduler.schedule(t);
+        } else {
+          this.validationScheduler.reset();
+        }
+      });
+    });
   }
 
   // ============ Lifecycle ============
@@ -2444,13 +3276,13 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   }
 
   ngAfterViewInit(): void {
-    // Set up resize observer for container height
+    // Set up resize observer for container size
     if (this.scrollContainer) {
-      this.updateContainerHeight();
+      this.updateContainerSize();
 
       this.resizeObserver = new ResizeObserver(() => {
         this.ngZone.run(() => {
-          this.updateContainerHeight();
+          this.updateContainerSize();
         });
       });
       this.resizeObserver.observe(this.scrollContainer.nativeElement);
@@ -2468,6 +3300,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
 
   ngOnDestroy(): void {
     this.resizeObserver?.disconnect();
+    this.validationScheduler.cancel();
   }
 
   // ============ Public Methods ============
@@ -2479,37 +3312,55 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     this.loading.set(true);
     this.loadingMessage.set('Fetching file...');
     this.error.set(null);
+    const signal = this.beginCancellableLoad();
 
     try {
-      const result = await this.parser.parseFromUrl(url);
+      const result = await this.parserWorker.parseFromUrl(
+        url,
+        {},
+        (progress) => this.onParseProgress('Parsing file...', progress),
+        signal
+      );
       this.handleParseResult(result);
     } catch (e) {
       this.error.set(`Failed to load: ${e instanceof Error ? e.message : String(e)}`);
     } finally {
-      this.loading.set(false);
+      this.endCancellableLoad();
     }
   }
 
   /**
    * Loads SDRF from content string.
+   * Parsing runs in a Web Worker so large files keep the UI responsive.
    */
   async loadFromContent(content: string): Promise<void> {
     this.loading.set(true);
     this.loadingMessage.set('Parsing file...');
     this.error.set(null);
+    const signal = this.beginCancellableLoad();
 
     try {
-      // Use setTimeout to allow UI to update before heavy parsing
-      await new Promise(resolve => setTimeout(resolve, 10));
-      const result = this.parser.parseFromContent(content);
+      const result = await this.parserWorker.parse(
+        content,
+        {},
+        (progress) => this.onParseProgress('Parsing file...', progress),
+        signal
+      );
       this.handleParseResult(result);
     } catch (e) {
       this.error.set(`Failed to parse: ${e instanceof Error ? e.message : String(e)}`);
     } finally {
-      this.loading.set(false);
+      this.endCancellableLoad();
     }
   }
 
+  /**
+   * Cancels the file load/parse in progress.
+   */
+  cancelLoading(): void {
+    this.parseAbort?.abort();
+  }
+
   /**
    * Gets the current table.
    */
@@ -2530,8 +3381,8 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     // Open the validation panel
     this.showValidationPanel.set(true);
 
-    // Run Pyodide validation automatically
-    await this.runPyodideValidation();
+    // Run template validation automatically
+    await this.runTemplateValidation();
 
     return null;
   }
@@ -2563,19 +3414,87 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     }
   }
 
+  /**
+   * Switch the validator running the selected templates
+   */
+  setValidatorEngine(engine: 'pyodide' | 'native'): void {
+    if (engine === this.validatorEngine()) return;
+
+    this.validatorEngine.set(engine);
+    this.templateErrors.set([]);
+    this.templateHasValidated.set(false);
+    if (engine === 'native') {
+      this.templateService.fetchTemplates().catch((err) => {
+        console.error('Failed to load templates:', err);
+      });
+    }
+  }
+
+  /**
+   * Run the selected templates with the selected validator
+   */
+  async runTemplateValidation(): Promise<void> {
+    if (this.validatorEngine() === 'native') {
+      await this.runNativeValidation();
+    } else {
+      await this.runPyodideValidation();
+    }
+  }
+
+  /**
+   * Run the selected templates with TemplateValidatorService. Ontology
+   * lookups are skipped, as in Pyodide validation.
+   */
+  async runNativeValidation(): Promise<void> {
+    if (!this.table() || this.templateValidating()) return;
+
+    this.templateValidating.set(true);
+    this.templateErrors.set([]);
+
+    try {
+      await this.templateService.fetchTemplates();
+
+      // Use only template names the template service knows
+      const available = this.availableTemplates();
+      let templatesToUse = this.selectedTemplates().filter(t => available.includes(t));
+      if (templatesToUse.length === 0 && available.length > 0) {
+        templatesToUse = [available.includes('ms-proteomics') ? 'ms-proteomics' : available[0]];
+        this.selectedTemplates.set(templatesToUse);
+      }
+
+      const templates = await Promise.all(templatesToUse.map(name => this.templateService.getResolvedTemplate(name)));
+      const result = await templateValidator.validate(this.table()!, templates, { validateOntology: false });
+
+      this.templateErrors.set(this.toPanelErrors(result));
+    } catch (err) {
+      console.error('Native validation failed:', err);
+      this.templateErrors.set([{
+        message: `Validation failed: ${err instanceof Error ? err.message : String(err)}`,
+        row: -1,
+        column: null,
+        value: null,
+        level: 'error',
+        suggestion: null
+      }]);
+    } finally {
+      this.templateValidating.set(false);
+      this.templateHasValidated.set(true);
+    }
+  }
+
   /**
    * Run Pyodide validation
    */
   async runPyodideValidation(): Promise<void> {
-    if (!this.table() || this.pyodideValidating()) return;
+    if (!this.table() || this.templateValidating()) return;
 
     // Initialize Pyodide if not ready
     if (!this.pyodideIsReady()) {
       await this.initPyodide();
     }
 
-    this.pyodideValidating.set(true);
-    this.pyodideErrors.set([]);
+    this.templateValidating.set(true);
+    this.templateErrors.set([]);
 
     try {
       // Convert table to TSV
@@ -2607,10 +3526,10 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
         { skipOntology: true }
       );
 
-      this.pyodideErrors.set(errors);
+      this.templateErrors.set(errors);
     } catch (err) {
       console.error('Pyodide validation failed:', err);
-      this.pyodideErrors.set([{
+      this.templateErrors.set([{
         message: `Validation failed: ${err instanceof Error ? err.message : String(err)}`,
         row: -1,
         column: null,
@@ -2619,15 +3538,18 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
         suggestion: null
       }]);
     } finally {
-      this.pyodideValidating.set(false);
-      this.pyodideHasValidated.set(true);
+      this.templateValidating.set(false);
+      this.templateHasValidated.set(true);
     }
   }
 
   /**
    * Aggregate errors by message for cleaner display
    */
-  private aggregateErrors(errors: ValidationError[]): AggregatedValidationError[] {
+  private aggregateErrors(
+    errors: ValidationError[],
+    source: AggregatedValidationError['source'] = 'pyodide'
+  ): AggregatedValidationError[] {
     const grouped = new Map<string, AggregatedValidationError>();
 
     for (const err of errors) {
@@ -2645,7 +3567,9 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
           level: err.level,
           column: err.column,
           cells: err.row >= 0 ? [{ row: err.row, value: err.value }] : [],
-          suggestion: err.suggestion
+          suggestion: err.suggestion,
+          source,
+          fix: err.fix && err.value !== null ? { value: err.value, replacement: err.fix } : null
         });
       }
     }
@@ -2657,6 +3581,27 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     });
   }
 
+  /**
+   * Live validation issues in the format of sdrf-pipelines errors, one per
+   * row involved (0-based).
+   */
+  private toPanelErrors(result: ValidationResult | null): ValidationError[] {
+    const issues: SdrfValidationIssue[] = result ? [...result.errors, ...result.warnings] : [];
+    return issues.flatMap((issue) => {
+      const error: ValidationError = {
+        message: issue.message,
+        row: -1,
+        column: issue.column ?? null,
+        value: issue.value ?? null,
+        level: issue.type === 'error' ? 'error' : 'warning',
+        suggestion: issue.suggestion ?? null,
+        fix: issue.fix,
+      };
+      const rows = issue.rows ?? (issue.row ? [issue.row] : []);
+      return rows.length > 0 ? rows.map((row) => ({ ...error, row: row - 1 })) : [error];
+    });
+  }
+
   /**
    * Toggle template selection
    */
@@ -2677,9 +3622,17 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   }
 
   /**
-   * Jump to a specific cell from validation error
+   * Jump to a specific cell from validation error. Given all cells of the
+   * error, jumps to the one after the selected cell instead, so repeated
+   * calls cycle through the affected rows.
    */
-  jumpToValidationCell(row: number, column: string | null): void {
+  jumpToValidationCell(row: number, column: string | null, cells: Array<{ row: number }> = []): void {
+    const selected = this.selectedCell();
+    const at = selected ? cells.findIndex((cell) => cell.row === selected.row - 1) : -1;
+    if (at >= 0) {
+      row = cells[(at + 1) % cells.length].row;
+    }
+
     if (row < 0) return;
 
     // Find column index
@@ -2701,6 +3654,34 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     }
   }
 
+  /**
+   * Replaces the value of a validation error with its corrected value in
+   * every cell of the error's column holding it.
+   */
+  applyValidationFix(error: AggregatedValidationError): void {
+    const t = this.table();
+    const fix = error.fix;
+    if (this.readonly || !t || !fix || !error.column) return;
+
+    const column = error.column.toLowerCase();
+    const columns = t.columns.flatMap((c, i) => (c.name.toLowerCase() === column ? [i] : []));
+    const matches = sdrfFindReplaceService.findMatches(t, {
+      find: fix.value,
+      replace: fix.replacement,
+      wholeCell: true,
+      caseSensitive: true,
+      columns,
+    });
+    if (matches.length === 0) return;
+
+    const newTable = sdrfFindReplaceService.applyMatches(t, matches);
+    this.table.set(newTable);
+    this.tableChange.emit(newTable);
+    this.recordChange('replace', `Fix "${fix.value}" to "${fix.replacement}" (${matches.length} cells)`, t);
+
+    this.autoSaveTable();
+  }
+
   /**
    * Send validation error to AI chat
    */
@@ -2742,17 +3723,91 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     const file = input.files?.[0];
     if (!file) return;
 
+    if (this.parser.isWorkbookFile(file)) {
+      this.loadWorkbookFile(file);
+      input.value = ''; // Reset input
+      return;
+    }
+
     this.loading.set(true);
     this.loadingMessage.set(`Parsing ${file.name}...`);
     this.error.set(null);
-
-    this.parser.parseFromFile(file).then((result) => {
+    const signal = this.beginCancellableLoad();
+
+    this.parserWorker.parse(
+      file,
+      {},
+      (progress) => this.onParseProgress(`Parsing ${file.name}...`, progress),
+      signal
+    ).then((result) => {
       this.handleParseResult(result);
-      this.loading.set(false);
+      this.endCancellableLoad();
       input.value = ''; // Reset input
     });
   }
 
+  /**
+   * Loads an XLSX/ODS workbook, asking which sheet to import when there are several.
+   */
+  private async loadWorkbookFile(file: File): Promise<void> {
+    this.loading.set(true);
+    this.loadingMessage.set(`Reading ${file.name}...`);
+    this.error.set(null);
+
+    try {
+      const data = await file.arrayBuffer();
+      const sheets = await this.parser.getWorkbookSheets(data);
+
+      if (sheets.length > 1) {
+        const selected = sheets.includes(EXCEL_SHEET_NAMES.main) ? EXCEL_SHEET_NAMES.main : sheets[0];
+        this.sheetPicker.set({ file, data, sheets, selected });
+        return;
+      }
+
+      await this.parseWorkbook(file, data, sheets[0]);
+    } catch (e) {
+      this.error.set(`Failed to read workbook: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  private async parseWorkbook(file: File, data: ArrayBuffer, sheetName?: string): Promise<void> {
+    this.loadingMessage.set(`Parsing ${sheetName ? `sheet "${sheetName}" of ` : ''}${file.name}...`);
+
+    const result = await this.parser.parseFromWorkbook(data, { sheetName });
+    if (result.success && result.table) {
+      result.table.metadata = { ...result.table.metadata, filename: file.name };
+    }
+    this.handleParseResult(result);
+  }
+
+  selectPickerSheet(sheet: string): void {
+    const picker = this.sheetPicker();
+    if (picker) {
+      this.sheetPicker.set({ ...picker, selected: sheet });
+    }
+  }
+
+  async confirmSheetPicker(): Promise<void> {
+    const picker = this.sheetPicker();
+    if (!picker) return;
+
+    this.sheetPicker.set(null);
+    this.loading.set(true);
+    this.error.set(null);
+
+    try {
+      await this.parseWorkbook(picker.file, picker.data, picker.selected);
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  cancelSheetPicker(): void {
+    this.sheetPicker.set(null);
+  }
+
   onLoadUrlClick(): void {
     const url = this.loadUrlValue?.trim();
     if (url) {
@@ -2767,6 +3822,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   onScroll(event: Event): void {
     const target = event.target as HTMLDivElement;
     this.scrollTop.set(target.scrollTop);
+    this.scrollLeft.set(target.scrollLeft);
   }
 
   selectCell(row: number, col: number): void {
@@ -2777,16 +3833,32 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     this.selectedCell.set({ row: 0, col });
   }
 
-  startEditing(row: number, col: number): void {
+  /**
+   * Opens the cell editor. `initialText` replaces the value, as when
+   * typing over a selected cell.
+   */
+  startEditing(row: number, col: number, initialText: string | null = null): void {
     if (this.readonly) return;
 
     const t = this.table();
     if (!t || col >= t.columns.length) return;
 
     // Get the cell element to position the editor
-    const cellSelector = `tr:nth-child(${row - (this.visibleRange()?.start ?? 1) + 1}) td:nth-child(${col + 2})`;
+    const cellSelector = `tr[data-row="${row}"] td[data-col="${col}"]`;
     const cell = this.scrollContainer?.nativeElement.querySelector(cellSelector) as HTMLElement;
 
+    this.positionEditor(cell);
+    this.editingGroup.set(null);
+    this.editingInitialText.set(initialText);
+    this.editingCell.set({ row, col });
+    this.editingColumn.set(t.columns[col]);
+  }
+
+  /**
+   * Places the cell editor popup below a cell, or centered when the cell
+   * isn't rendered.
+   */
+  private positionEditor(cell: HTMLElement | null): void {
     if (cell) {
       const cellRect = cell.getBoundingClientRect();
 
@@ -2819,26 +3891,52 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
         left: window.innerWidth / 2 - 200
       });
     }
-
-    this.editingCell.set({ row, col });
-    this.editingColumn.set(t.columns[col]);
   }
 
   onCellEditorSave(newValue: string): void {
+    this.commitEditing(newValue, null);
+  }
+
+  onCellEditorCommit(event: CellEditorCommitEvent): void {
+    this.commitEditing(event.value, event.move);
+  }
+
+  cancelEditing(): void {
+    const wasEditing = this.editingCell() !== null;
+    this.editingCell.set(null);
+    this.editingColumn.set(null);
+    this.editingGroup.set(null);
+    this.editingInitialText.set(null);
+
+    // Hand the keyboard back to the grid
+    if (wasEditing) {
+      this.scrollContainer?.nativeElement.focus({ preventScroll: true });
+    }
+  }
+
+  /**
+   * Saves the edited value, then optionally moves the selection
+   * (Enter moves down, Tab right).
+   */
+  private commitEditing(newValue: string, move: CellEditorMove | null): void {
     const editing = this.editingCell();
     if (!editing) {
       this.cancelEditing();
       return;
     }
 
-    this.setCellValue(editing.row, editing.col, newValue);
-    this.editingCell.set(null);
-    this.editingColumn.set(null);
-  }
+    const group = this.editingGroup();
+    if (group) {
+      this.setGroupValue(group, editing.col, newValue);
+    } else {
+      this.setCellValue(editing.row, editing.col, newValue);
+    }
+    this.cancelEditing();
 
-  cancelEditing(): void {
-    this.editingCell.set(null);
-    this.editingColumn.set(null);
+    if (move && !group) {
+      this.selectCell(editing.row, editing.col);
+      this.moveSelection(move);
+    }
   }
 
   clearError(): void {
@@ -2846,7 +3944,26 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   }
 
   clearValidation(): void {
-    this.validationResult.set(null);
+    this.validationScheduler.reset();
+  }
+
+  toggleLiveValidation(): void {
+    const enabled = !this.liveValidation();
+    if (!enabled) {
+      this.validationScheduler.cancel();
+    }
+    this.liveValidation.set(enabled);
+  }
+
+  toggleOntologyOffline(): void {
+    setOlsOfflineMode(!this.ontologyOffline());
+
+    // Re-check the ontology terms with the new source
+    const t = this.table();
+    if (t && this.liveValidation()) {
+      this.validationScheduler.reset();
+      this.validationScheduler.schedule(t);
+    }
   }
 
   jumpToRow(): void {
@@ -2875,50 +3992,34 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     const t = this.table();
     if (!t || col >= t.columns.length) return;
 
-    // Clone the table and update the value
-    const newTable = { ...t, columns: [...t.columns] };
-    const column = { ...newTable.columns[col], modifiers: [...newTable.columns[col].modifiers] };
+    if (getValueForSample(t.columns[col], row) === value) return;
 
-    // Update value using modifier utilities
-    if (value === column.value) {
-      // Remove from modifiers if setting to default
-      column.modifiers = column.modifiers.filter((m) => {
-        const samples = m.samples.split(',').map((s) => parseInt(s.trim(), 10));
-        return !samples.includes(row);
-      });
-    } else {
-      // Add or update modifier
-      const existingModifier = column.modifiers.find((m) => m.value === value);
-      if (existingModifier) {
-        existingModifier.samples = `${existingModifier.samples},${row}`;
-      } else {
-        column.modifiers.push({ samples: String(row), value });
-      }
-    }
+    // Clone the table and column (modifiers included) so the previous
+    // state stays intact for undo, then update via modifier utilities
+    const newTable = { ...t, columns: [...t.columns] };
+    const column = cloneColumn(newTable.columns[col]);
+    setValueForSample(column, row, value);
 
     newTable.columns[col] = column;
     this.table.set(newTable);
     this.tableChange.emit(newTable);
+    this.recordChange('cell_edit', `Edit ${column.name} (row ${row})`, t);
 
     // Auto-save after cell edit
     this.autoSaveTable();
   }
 
-  isSelected(row: number, col: number): boolean {
-    const sel = this.selectedCell();
-    return sel?.row === row && sel?.col === col;
-  }
-
   hasCellError(row: number, col: number): boolean {
-    const result = this.validationResult();
-    if (!result) return false;
-
     const t = this.table();
-    if (!t) return false;
+    if (!t || !t.columns[col]) return false;
 
-    const column = t.columns[col];
-    return result.errors.some(
-      (e) => e.column?.toLowerCase() === column.name.toLowerCase() && (!e.row || e.row === row)
+    const errors = this.validationErrorsByColumn().get(t.columns[col].name.toLowerCase());
+    if (!errors) return false;
+
+    // Errors about a value (without a row) mark the cells holding it
+    return errors.some((e) =>
+      e.rows ? e.rows.includes(row) :
+      e.row ? e.row === row : e.value === undefined || e.value === this.getCellValue(row, col)
     );
   }
 
@@ -2949,17 +4050,47 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     return value.toLowerCase().trim() === type.toLowerCase();
   }
 
-  private updateContainerHeight(): void {
+  private updateContainerSize(): void {
     if (this.scrollContainer) {
       this.containerHeight.set(this.scrollContainer.nativeElement.clientHeight);
+      this.containerWidth.set(this.scrollContainer.nativeElement.clientWidth);
     }
   }
 
+  private beginCancellableLoad(): AbortSignal {
+    this.parseAbort?.abort();
+    this.parseAbort = new AbortController();
+    this.canCancelLoading.set(true);
+    this.loadingProgress.set(null);
+    return this.parseAbort.signal;
+  }
+
+  private endCancellableLoad(): void {
+    this.parseAbort = null;
+    this.canCancelLoading.set(false);
+    this.loadingProgress.set(null);
+    this.loading.set(false);
+  }
+
+  private onParseProgress(message: string, progress: SdrfParseProgress): void {
+    const percent = progress.totalBytes > 0
+      ? Math.round((progress.bytesParsed / progress.totalBytes) * 100)
+      : null;
+
+    this.loadingMessage.set(`${message} ${progress.rowsParsed.toLocaleString()} rows`);
+    this.loadingProgress.set(percent);
+  }
+
   private handleParseResult(result: SdrfParseResult): void {
+    if (!result.success && result.error === PARSE_CANCELLED_ERROR) {
+      return;
+    }
+
     if (result.success && result.table) {
       this.table.set(result.table);
       this.tableChange.emit(result.table);
-      this.validationResult.set(null);
+      this.history.reset(result.table);
+      this.validationScheduler.reset();
       this.scrollTop.set(0);
       this.clearSelection();
 
@@ -3023,89 +4154,459 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
       return;
     }
 
-    const column = t.columns[event.columnIndex];
+    const newTable = { ...t, columns: [...t.columns] };
+    const column = cloneColumn(t.columns[event.columnIndex]);
+
+    // Apply the value to all selected samples
+    for (const sampleIndex of event.sampleIndices) {
+      if (sampleIndex >= 1 && sampleIndex <= t.sampleCount) {
+        setValueForSample(column, sampleIndex, event.value);
+      }
+    }
+
+    newTable.columns[event.columnIndex] = column;
+    this.table.set(newTable);
+    this.tableChange.emit(newTable);
+    this.recordChange('bulk_edit', `Bulk edit ${column.name} (${event.sampleIndices.length} samples)`, t);
+
+    // Auto-save
+    this.autoSaveTable();
+
+    console.log(`Bulk edited column "${column.name}" for ${event.sampleIndices.length} samples`);
+
+    // Close the panel
+    this.closeColumnEditor();
+  }
+
+  // ============ Cache Recovery Methods ============
+
+  onRecoverCache(event: RecoverCacheEvent): void {
+    const cached = this.cacheService.loadTable(event.cacheId);
+    if (!cached) {
+      console.error('Failed to load cached table:', event.cacheId);
+      return;
+    }
+
+    // Load the table
+    this.table.set(cached.table);
+    this.tableChange.emit(cached.table);
+    this.history.reset(cached.table);
+    this.currentCacheId.set(event.cacheId);
+    this.changeCount.set(cached.entry.changeCount);
+    this.fileName.set(cached.entry.fileName);
+
+    // Hide recovery panel
+    this.showCacheRecovery.set(false);
+
+    console.log(`Recovered table from cache: ${cached.entry.fileName}`);
+  }
+
+  dismissCacheRecovery(): void {
+    this.showCacheRecovery.set(false);
+  }
+
+  private autoSaveTable(): void {
+    const t = this.table();
+    const name = this.fileName();
+
+    if (!t || !name) return;
+
+    // Increment change count
+    const count = this.changeCount() + 1;
+    this.changeCount.set(count);
+
+    // Save to cache
+    const cacheId = this.cacheService.saveTable(
+      t,
+      name,
+      this.currentCacheId() || undefined,
+      count
+    );
+
+    if (cacheId && !this.currentCacheId()) {
+      this.currentCacheId.set(cacheId);
+    }
+  }
+
+  // ============ Keyboard Navigation Methods ============
+
+  /**
+   * Spreadsheet keyboard model for the grid (see getGridKeyAction).
+   */
+  onGridKeydown(event: KeyboardEvent): void {
+    if (!this.table() || this.editingCell()) return;
+    if (event.target !== event.currentTarget) return;
+
+    const action = getGridKeyAction(event);
+    if (!action) return;
+
+    const selected = this.selectedCell();
+    let target: CellSelection | null = null;
+
+    switch (action.type) {
+      case 'edit':
+        if (!selected || selected.row < 1) return;
+        event.preventDefault();
+        this.startEditing(selected.row, selected.col, action.text);
+        return;
+
+      case 'collapse':
+        this.selection.collapse();
+        return;
+
+      case 'clear':
+        event.preventDefault();
+        this.clearSelectedRange();
+        return;
+
+      case 'move':
+        target = this.selection.move(action.direction, action.toEdge);
+        break;
+
+      case 'extend':
+        target = this.selection.extendBy(action.direction, action.toEdge);
+        break;
+
+      case 'page': {
+        const page = Math.max(1, Math.floor((this.containerHeight() - HEADER_HEIGHT) / ROW_HEIGHT) - 1);
+        target = this.selection.move(action.direction, false, page);
+        break;
+      }
+
+      case 'line_end':
+        target = this.selection.moveToLineEnd(action.direction, action.allRows);
+        break;
+    }
+
+    event.preventDefault();
+    if (target) {
+      this.scrollCellIntoView(target.row, target.col);
+    }
+  }
+
+  /**
+   * Moves the selected cell, in display order (sorting, filtering,
+   * grouping and pinned columns respected).
+   */
+  moveSelection(direction: CellEditorMove): void {
+    const target = this.selection.move(direction);
+    if (target) {
+      this.scrollCellIntoView(target.row, target.col);
+    }
+  }
+
+  /**
+   * Clears every cell of the selected block.
+   */
+  clearSelectedRange(): void {
+    const t = this.table();
+    const range = this.selectedRange();
+    if (this.readonly || !t || !range) return;
+
+    const newTable = { ...t, columns: [...t.columns] };
+    let cleared = 0;
+
+    for (let col = range.startCol; col <= range.endCol; col++) {
+      const rows = range.rows.filter(row => this.getCellValue(row, col) !== '');
+      if (rows.length === 0) continue;
+
+      const column = cloneColumn(newTable.columns[col]);
+      for (const row of rows) {
+        setValueForSample(column, row, '');
+      }
+      newTable.columns[col] = column;
+      cleared += rows.length;
+    }
+
+    if (cleared === 0) return;
+
+    this.table.set(newTable);
+    this.tableChange.emit(newTable);
+    this.recordChange('bulk_edit', `Clear ${cleared} cell(s)`, t);
+    this.autoSaveTable();
+  }
+
+  /**
+   * Scrolls the grid so a cell is fully visible, rendering it if it was
+   * outside the virtualized range.
+   */
+  scrollCellIntoView(row: number, col: number): void {
+    const container = this.scrollContainer?.nativeElement;
+    if (!container) return;
+
+    const index = this.displayItems().indexOf(row);
+    if (index >= 0) {
+      const top = index * ROW_HEIGHT;
+      const viewHeight = this.containerHeight() - HEADER_HEIGHT;
+      if (top < container.scrollTop) {
+        container.scrollTop = top;
+      } else if (top + ROW_HEIGHT > container.scrollTop + viewHeight) {
+        container.scrollTop = top + ROW_HEIGHT - viewHeight;
+      }
+    }
+
+    container.scrollLeft = this.gridColumns.getScrollLeftToShow(col, container.scrollLeft);
+
+    this.scrollTop.set(container.scrollTop);
+    this.scrollLeft.set(container.scrollLeft);
+  }
+
+  // ============ Fill Methods ============
+
+  @HostListener('document:mouseup')
+  onDocumentMouseUp(): void {
+    const targets = this.selection.onMouseUp();
+    if (targets.length > 0) {
+      this.fillFromHandle(targets);
+    }
+  }
+
+  /**
+   * Continues the selected block's series into the rows covered by the
+   * fill handle drag.
+   */
+  private fillFromHandle(targets: number[]): void {
+    const range = this.selectedRange();
+    if (!range) return;
+
+    this.applyFill(
+      [...range.rows, ...targets],
+      range.startCol,
+      range.endCol,
+      () => range.rows.length,
+      `Fill ${targets.length} row(s)`
+    );
+  }
+
+  /**
+   * Continues the values at the top of the selected range down the rest
+   * of it. The seed is the leading run of non-empty cells in each column;
+   * when a column is already full, its first value is the seed.
+   */
+  fillSeries(): void {
+    const range = this.selectedRange();
+    this.closeContextMenu();
+    if (!range || range.rows.length < 2) return;
+
+    this.applyFill(
+      range.rows,
+      range.startCol,
+      range.endCol,
+      (values) => {
+        const filled = values.findIndex((v) => v.trim() === '');
+        return filled < 0 ? 1 : Math.max(filled, 1);
+      },
+      `Fill series (${range.rows.length} rows)`
+    );
+  }
+
+  /**
+   * Fills rows (display order) in each column from a seed at the top.
+   *
+   * @param seedLength Number of seed rows, given the column's values
+   */
+  private applyFill(
+    rows: number[],
+    startCol: number,
+    endCol: number,
+    seedLength: (values: string[]) => number,
+    description: string
+  ): void {
+    const t = this.table();
+    if (this.readonly || !t) return;
+
+    const { columns, changed } = fillColumns(t.columns, rows, startCol, endCol, seedLength);
+    const newTable = { ...t, columns };
+
+    // Select the filled block
+    this.selection.selectBlock({ row: rows[0], col: startCol }, rows[rows.length - 1], endCol);
+
+    if (changed === 0) return;
+
+    this.table.set(newTable);
+    this.tableChange.emit(newTable);
+    this.recordChange('fill', description, t);
+    this.autoSaveTable();
+  }
+
+  // ============ Clipboard Methods ============
+
+  /**
+   * Copies the selected block as TSV.
+   */
+  onCopy(event: ClipboardEvent): void {
+    const t = this.table();
+    const range = this.selectedRange();
+    if (!t || !range || this.editingCell() || !event.clipboardData) return;
+
+    event.clipboardData.setData('text/plain', sdrfClipboardService.copyBlock(t, range));
+    event.preventDefault();
+  }
+
+  /**
+   * Pastes a TSV block at the selected cell (see SdrfClipboardService).
+   */
+  onPaste(event: ClipboardEvent): void {
+    const t = this.table();
+    const range = this.selectedRange();
+    if (this.readonly || !t || !range || this.editingCell() || !event.clipboardData) return;
+
+    const result = sdrfClipboardService.pasteText(
+      t,
+      range,
+      this.effectiveRows(),
+      event.clipboardData.getData('text/plain')
+    );
+    if (!result) return;
 
-    // Apply the value to all selected samples
-    for (const sampleIndex of event.sampleIndices) {
-      if (sampleIndex >= 1 && sampleIndex <= t.sampleCount) {
-        setValueForSample(column, sampleIndex, event.value);
+    event.preventDefault();
+    this.pasteIssues.set(result.issues);
+    if (result.changed === 0 && result.added === 0) return;
+
+    // Keep appended rows visible under the current filter and sort
+    if (result.added > 0) {
+      const newRows = result.rows.slice(result.rows.length - result.added);
+      if (this.filteredIndices().length > 0) {
+        this.filteredIndices.set([...this.filteredIndices(), ...newRows]);
+      }
+      if (this.sortedIndices().length > 0) {
+        this.sortedIndices.set([...this.sortedIndices(), ...newRows]);
       }
     }
 
-    // Force update
-    this.table.set({ ...t });
-    this.tableChange.emit(t);
+    const height = result.rows.length;
+    this.table.set(result.table);
+    this.tableChange.emit(result.table);
+    this.recordChange(
+      'paste',
+      result.added > 0
+        ? `Paste ${height}×${result.width} cells (${result.added} new rows)`
+        : `Paste ${height}×${result.width} cells`,
+      t
+    );
 
-    // Auto-save
-    this.autoSaveTable();
+    // Select the pasted block
+    this.selection.selectBlock(
+      { row: result.rows[0], col: range.startCol },
+      result.rows[height - 1],
+      range.startCol + result.width - 1
+    );
 
-    console.log(`Bulk edited column "${column.name}" for ${event.sampleIndices.length} samples`);
+    this.autoSaveTable();
+  }
 
-    // Close the panel
-    this.closeColumnEditor();
+  clearPasteIssues(): void {
+    this.pasteIssues.set([]);
   }
 
-  // ============ Cache Recovery Methods ============
+  // ============ Undo/Redo Methods ============
 
-  onRecoverCache(event: RecoverCacheEvent): void {
-    const cached = this.cacheService.loadTable(event.cacheId);
-    if (!cached) {
-      console.error('Failed to load cached table:', event.cacheId);
+  /**
+   * Ctrl+Z undoes, Ctrl+Shift+Z / Ctrl+Y redoes.
+   * Ignored while typing in inputs so native text undo keeps working.
+   */
+  @HostListener('document:keydown', ['$event'])
+  onHistoryKeydown(event: KeyboardEvent): void {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+    if (!this.table() || this.editingCell()) return;
+
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
       return;
     }
 
-    // Load the table
-    this.table.set(cached.table);
-    this.tableChange.emit(cached.table);
-    this.currentCacheId.set(event.cacheId);
-    this.changeCount.set(cached.entry.changeCount);
-    this.fileName.set(cached.entry.fileName);
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      this.redo();
+    }
+  }
 
-    // Hide recovery panel
-    this.showCacheRecovery.set(false);
+  /**
+   * Reverts the last recorded table change.
+   */
+  undo(): void {
+    if (this.readonly) return;
 
-    console.log(`Recovered table from cache: ${cached.entry.fileName}`);
+    const command = this.history.undo();
+    if (!command) return;
+
+    this.restoreTable(command.before);
+    console.log(`Undo: ${command.description}`);
   }
 
-  dismissCacheRecovery(): void {
-    this.showCacheRecovery.set(false);
+  /**
+   * Re-applies the last undone table change.
+   */
+  redo(): void {
+    if (this.readonly) return;
+
+    const command = this.history.redo();
+    if (!command) return;
+
+    this.restoreTable(command.after);
+    console.log(`Redo: ${command.description}`);
   }
 
-  private autoSaveTable(): void {
-    const t = this.table();
-    const name = this.fileName();
+  /**
+   * Records a change that has just been applied via `table.set()`.
+   * `before` is the table as it was before the mutation.
+   */
+  private recordChange(type: TableCommandType, description: string, before: SdrfTable | null): void {
+    const after = this.table();
+    if (!before || !after) return;
 
-    if (!t || !name) return;
+    this.history.record(type, description, before, after);
+  }
 
-    // Increment change count
-    const count = this.changeCount() + 1;
-    this.changeCount.set(count);
+  /**
+   * Puts a table from the history back into the editor.
+   */
+  private restoreTable(table: SdrfTable): void {
+    this.cancelEditing();
+    this.closeContextMenu();
 
-    // Save to cache
-    const cacheId = this.cacheService.saveTable(
-      t,
-      name,
-      this.currentCacheId() || undefined,
-      count
-    );
+    // Column-based state follows its columns, which undo may have moved
+    const current = this.table();
+    const columnMap = current ? getColumnIndexMap(current.columns, table.columns) : new Map<number, number>();
 
-    if (cacheId && !this.currentCacheId()) {
-      this.currentCacheId.set(cacheId);
+    this.table.set(table);
+    this.tableChange.emit(table);
+
+    this.remapColumnState(index => columnMap.get(index));
+
+    // Drop selections that point past the end of the restored table
+    const selected = this.selectedCell();
+    if (selected && selected.row > table.sampleCount) {
+      this.selectedCell.set(null);
+    }
+    const samples = this.selectedSamples();
+    if (Array.from(samples).some(s => s > table.sampleCount)) {
+      this.clearSelection();
     }
+
+    this.applySorting();
+
+    this.autoSaveTable();
   }
 
   // ============ Recommendation Methods ============
 
   onApplyRecommendation(event: ApplyRecommendationEvent): void {
     const rec = event.recommendation;
+    const before = this.table();
 
     // Handle add_column type - create new column first
     if (rec.type === 'add_column') {
       this.addColumnWithValue(rec.column, rec.suggestedValue, rec.sampleIndices);
-      return;
+    } else {
+      this.applyRecommendationToTable(rec);
     }
 
-    this.applyRecommendationToTable(rec);
+    this.recordChange('apply_suggestion', `Apply suggestion to ${rec.column}`, before);
   }
 
   /**
@@ -3152,16 +4653,21 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
   }
 
   onBatchApplyRecommendations(event: BatchApplyEvent): void {
+    const before = this.table();
     for (const rec of event.recommendations) {
       this.applyRecommendationToTable(rec);
     }
+    this.recordChange('apply_suggestion', `Apply ${event.recommendations.length} suggestions`, before);
     console.log(`Applied ${event.recommendations.length} recommendations`);
   }
 
   onApplyFix(event: ApplyFixEvent): void {
+    const before = this.table();
+
     // Update the table with the cleaned version
     this.table.set(event.table);
     this.tableChange.emit(event.table);
+    this.recordChange('apply_fix', event.fix.description, before);
 
     // Reset scroll and selection state to avoid stale references
     this.selectedCell.set(null);
@@ -3339,7 +4845,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     if (!t || colIndex >= t.columns.length) return;
 
     const newTable = { ...t, columns: [...t.columns] };
-    const column = { ...newTable.columns[colIndex], modifiers: [...newTable.columns[colIndex].modifiers] };
+    const column = cloneColumn(newTable.columns[colIndex]);
 
     // Group samples: those setting to default vs those needing modifiers
     const sampleSet = new Set(sampleIndices);
@@ -3601,6 +5107,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     };
 
     this.table.set(newTable);
+    this.recordChange('row_insert', `Add row ${newTable.sampleCount}`, t);
     this.closeContextMenu();
   }
 
@@ -3629,43 +5136,10 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     const t = this.table();
     if (!t) return;
 
-    // Adjust all sample ranges in modifiers
+    // Shift values through each column's store and leave the new row empty
     const newColumns = t.columns.map((col) => {
-      if (col.modifiers.length === 0) {
-        // Single value column - add modifier for new row
-        return {
-          ...col,
-          modifiers: [
-            {
-              samples: `${position}`,
-              value: '',
-            },
-          ],
-        };
-      }
-
-      // Shift existing modifiers and add new row
-      const newModifiers = col.modifiers.map((mod) => {
-        const ranges = mod.samples.split(',').map((r: string) => {
-          if (r.includes('-')) {
-            const [start, end] = r.split('-').map(Number);
-            const newStart = start >= position ? start + 1 : start;
-            const newEnd = end >= position ? end + 1 : end;
-            return `${newStart}-${newEnd}`;
-          }
-          const idx = parseInt(r);
-          return idx >= position ? `${idx + 1}` : r;
-        });
-        return { ...mod, samples: ranges.join(',') };
-      });
-
-      // Add new row modifier
-      newModifiers.push({
-        samples: `${position}`,
-        value: '',
-      });
-
-      return { ...col, modifiers: newModifiers };
+      const store = insertSamplesIntoStore(getColumnStore(col), t.sampleCount, position, ['']);
+      return { ...col, ...columnStoreToModifiers(store) };
     });
 
     const newTable: SdrfTable = {
@@ -3675,6 +5149,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     };
 
     this.table.set(newTable);
+    this.recordChange('row_insert', `Insert row ${position}`, t);
     this.closeContextMenu();
   }
 
@@ -3689,50 +5164,14 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
       return;
     }
 
-    const rowsToDelete = Array.from(selected).sort((a, b) => b - a); // Delete from end first
-
     const newColumns = t.columns.map((col) => {
       if (col.modifiers.length === 0) {
         // Single value column - no change needed except sample count
         return col;
       }
 
-      // Filter and adjust modifiers
-      let newModifiers = col.modifiers.filter((mod) => {
-        // Check if this modifier covers any of the deleted rows
-        const ranges = mod.samples.split(',');
-        for (const range of ranges) {
-          if (range.includes('-')) {
-            const [start, end] = range.split('-').map(Number);
-            // If range is completely within deleted rows, filter it out
-            const allDeleted = Array.from({ length: end - start + 1 }, (_, i) => start + i)
-              .every((idx) => selected.has(idx));
-            if (!allDeleted) return true;
-          } else {
-            if (!selected.has(parseInt(range))) return true;
-          }
-        }
-        return false;
-      });
-
-      // Adjust remaining modifier ranges
-      for (const deletedRow of rowsToDelete) {
-        newModifiers = newModifiers.map((mod) => {
-          const ranges = mod.samples.split(',').map((r: string) => {
-            if (r.includes('-')) {
-              const [start, end] = r.split('-').map(Number);
-              const newStart = start > deletedRow ? start - 1 : start;
-              const newEnd = end > deletedRow ? end - 1 : end;
-              return `${newStart}-${newEnd}`;
-            }
-            const idx = parseInt(r);
-            return idx > deletedRow ? `${idx - 1}` : r;
-          });
-          return { ...mod, samples: ranges.join(',') };
-        });
-      }
-
-      return { ...col, modifiers: newModifiers };
+      const store = removeSamplesFromStore(getColumnStore(col), t.sampleCount, selected);
+      return { ...col, ...columnStoreToModifiers(store) };
     });
 
     const newSampleCount = t.sampleCount - selected.size;
@@ -3744,6 +5183,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     };
 
     this.table.set(newTable);
+    this.recordChange('row_delete', `Delete ${selected.size} row(s)`, t);
     this.clearSelection();
     this.closeContextMenu();
   }
@@ -3819,6 +5259,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     };
 
     this.table.set(newTable);
+    this.recordChange('column_insert', `Add column ${name}`, t);
     this.closeAddColumnDialog();
   }
 
@@ -3881,7 +5322,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     }
 
     const columnName = t.columns[colIndex].name;
-    if (!confirm(`Delete column "${columnName}"? This cannot be undone.`)) {
+    if (!confirm(`Delete column "${columnName}"? You can undo this with Ctrl+Z.`)) {
       this.closeContextMenu();
       return;
     }
@@ -3896,6 +5337,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     };
 
     this.table.set(newTable);
+    this.recordChange('column_delete', `Delete column ${columnName}`, t);
     this.closeContextMenu();
   }
 
@@ -3934,9 +5376,9 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     const t = this.table();
     if (!t || columnIndex >= t.columns.length) return;
 
-    // Clone the table
+    // Clone the table (and the column's modifiers, which setValueForSample mutates)
     const newTable = { ...t, columns: [...t.columns] };
-    const column = { ...newTable.columns[columnIndex], modifiers: [...newTable.columns[columnIndex].modifiers] };
+    const column = cloneColumn(newTable.columns[columnIndex]);
 
     // Apply value to all samples
     for (const sampleIndex of sampleIndices) {
@@ -3946,6 +5388,7 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     newTable.columns[columnIndex] = column;
     this.table.set(newTable);
     this.tableChange.emit(newTable);
+    this.recordChange('bulk_edit', `Bulk edit ${column.name} (${sampleIndices.length} samples)`, t);
 
     console.log(`Bulk updated ${sampleIndices.length} samples in column "${column.name}" to "${newValue}"`);
   }
@@ -4021,63 +5464,44 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
 
   // ============ Sorting Methods ============
 
+  /**
+   * Click sorts by the column (asc → desc → off). Shift+click adds the column
+   * as a further sort key or toggles it; Ctrl/Cmd+click selects the column.
+   */
   onHeaderClick(columnIndex: number, event: MouseEvent): void {
     // If clicking for selection (with modifier) don't sort
-    if (event.ctrlKey || event.metaKey || event.shiftKey) {
+    if (event.ctrlKey || event.metaKey) {
       this.selectColumn(columnIndex);
       return;
     }
 
-    // Toggle sort
-    if (this.sortColumn() === columnIndex) {
-      if (this.sortDirection() === 'asc') {
-        this.sortDirection.set('desc');
-      } else {
-        // Clear sort
-        this.sortColumn.set(-1);
-        this.sortedIndices.set([]);
-        return;
-      }
-    } else {
-      this.sortColumn.set(columnIndex);
-      this.sortDirection.set('asc');
-    }
+    this.setSortKeys(cycleSortKey(this.sortKeys(), columnIndex, event.shiftKey));
+  }
+
+  /** Position (1-based) of a column among the sort keys, or 0 when not sorted */
+  getSortKeyIndex(columnIndex: number): number {
+    return this.sortKeys().findIndex(k => k.column === columnIndex) + 1;
+  }
+
+  getSortDirection(columnIndex: number): 'asc' | 'desc' | null {
+    return this.sortKeys().find(k => k.column === columnIndex)?.direction ?? null;
+  }
 
+  setSortKeys(keys: SortKey[]): void {
+    this.sortKeys.set(keys);
     this.applySorting();
   }
 
   private applySorting(): void {
     const t = this.table();
-    const colIndex = this.sortColumn();
-    if (!t || colIndex < 0) {
+    const keys = this.sortKeys();
+    if (!t || keys.length === 0) {
       this.sortedIndices.set([]);
       return;
     }
 
-    // Build array of [sampleIndex, value] pairs
-    const pairs: [number, string][] = [];
-    for (let i = 1; i <= t.sampleCount; i++) {
-      pairs.push([i, this.getCellValue(i, colIndex)]);
-    }
-
-    // Sort by value
-    const dir = this.sortDirection() === 'asc' ? 1 : -1;
-    pairs.sort((a, b) => {
-      const valA = a[1].toLowerCase();
-      const valB = b[1].toLowerCase();
-
-      // Try numeric comparison first
-      const numA = parseFloat(valA);
-      const numB = parseFloat(valB);
-      if (!isNaN(numA) && !isNaN(numB)) {
-        return (numA - numB) * dir;
-      }
-
-      // Fall back to string comparison
-      return valA.localeCompare(valB) * dir;
-    });
-
-    this.sortedIndices.set(pairs.map(p => p[0]));
+    const rows = Array.from({ length: t.sampleCount }, (_, i) => i + 1);
+    this.sortedIndices.set(sortRows(t, rows, keys));
   }
 
   /**
@@ -4091,6 +5515,210 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     return sorted[displayIndex - 1] || displayIndex;
   }
 
+  // ============ Column Reorder Methods ============
+
+  onColumnDragStart(event: DragEvent, columnIndex: number): void {
+    if (this.readonly) {
+      event.preventDefault();
+      return;
+    }
+    this.gridColumns.onDragStart(event, columnIndex);
+  }
+
+  onColumnDrop(event: DragEvent): void {
+    const move = this.gridColumns.onDrop(event);
+    if (move) {
+      this.moveColumn(move.from, move.to);
+    }
+  }
+
+  /**
+   * Moves a column to another position.
+   */
+  moveColumn(from: number, to: number): void {
+    const t = this.table();
+    if (!t || from === to || from < 0 || from >= t.columns.length || to < 0 || to >= t.columns.length) return;
+
+    this.applyColumnOrder(getMovedColumnOrder(t.columns.length, from, to), `Move column ${t.columns[from].name}`);
+  }
+
+  /**
+   * Reorders columns to SDRF order: source name, characteristics, assay
+   * name, comments, factor values; within each section the order of the
+   * selected templates, then the official column order.
+   */
+  async sortColumnsToSpecOrder(): Promise<void> {
+    const t = this.table();
+    if (!t || this.readonly) return;
+
+    this.sortingColumns.set(true);
+    const templates: ResolvedTemplate[] = [];
+    try {
+      for (const name of this.selectedTemplates()) {
+        try {
+          templates.push(await this.templateService.getResolvedTemplate(name));
+        } catch (error) {
+          // Fall back to the official order for templates that can't be resolved
+          console.warn(`Could not resolve template "${name}" for column ordering:`, error);
+        }
+      }
+    } finally {
+      this.sortingColumns.set(false);
+    }
+
+    // The table may have changed while templates were loading
+    const current = this.table();
+    if (!current) return;
+
+    const order = getSpecColumnOrder(current.columns, templates);
+    if (order.every((index, position) => index === position)) return;
+    this.applyColumnOrder(order, 'Sort columns to spec order');
+  }
+
+  /**
+   * Applies a column order (new position → current index) and remaps
+   * column-based view state.
+   */
+  private applyColumnOrder(order: number[], description: string): void {
+    const t = this.table();
+    if (!t) return;
+
+    const newTable = reorderColumns(t, order);
+    const newIndex = new Map(order.map((oldIndex, position) => [oldIndex, position]));
+
+    this.table.set(newTable);
+    this.tableChange.emit(newTable);
+    this.recordChange('column_reorder', description, t);
+
+    this.remapColumnState(index => newIndex.get(index));
+
+    this.autoSaveTable();
+  }
+
+  /**
+   * Moves sort keys, grouping, filter conditions and the selected cell
+   * to new column indices; state on columns that map to undefined is
+   * dropped.
+   */
+  private remapColumnState(mapColumn: (columnIndex: number) => number | undefined): void {
+    this.sortKeys.set(
+      this.sortKeys()
+        .map(k => ({ ...k, column: mapColumn(k.column) }))
+        .filter((k): k is SortKey => k.column !== undefined)
+    );
+    const groupBy = this.groupByColumn();
+    if (groupBy !== null) {
+      const column = mapColumn(groupBy);
+      if (column === undefined) {
+        this.setGroupByColumn(null);
+      } else {
+        this.groupByColumn.set(column);
+      }
+    }
+    this.filterBar?.remapColumns(mapColumn);
+    const selected = this.selectedCell();
+    if (selected) {
+      const col = mapColumn(selected.col);
+      this.selectedCell.set(col === undefined ? null : { row: selected.row, col });
+    }
+  }
+
+  // ============ Grouping Methods ============
+
+  setGroupByColumn(columnIndex: number | null): void {
+    this.groupByColumn.set(columnIndex);
+    this.collapsedGroups.set(new Set());
+    this.cancelEditing();
+  }
+
+  isRowGroup(item: number | RowGroup): item is RowGroup {
+    return typeof item !== 'number';
+  }
+
+  trackDisplayItem(item: number | RowGroup): string | number {
+    return typeof item === 'number' ? item : `group:${item.key}`;
+  }
+
+  isGroupCollapsed(group: RowGroup): boolean {
+    return this.collapsedGroups().has(group.key);
+  }
+
+  toggleGroup(group: RowGroup): void {
+    const next = new Set(this.collapsedGroups());
+    if (next.has(group.key)) {
+      next.delete(group.key);
+    } else {
+      next.add(group.key);
+    }
+    this.collapsedGroups.set(next);
+  }
+
+  collapseAllGroups(): void {
+    this.collapsedGroups.set(new Set((this.rowGroups() ?? []).map(g => g.key)));
+  }
+
+  expandAllGroups(): void {
+    this.collapsedGroups.set(new Set());
+  }
+
+  /**
+   * Summary shown in a group header cell: the value shared by all members,
+   * or the number of distinct values.
+   */
+  getGroupSummary(group: RowGroup, columnIndex: number): string {
+    const values = getGroupValues(this.table()!, group, columnIndex);
+    return values.size === 1 ? values.values().next().value! : `(${values.size} values)`;
+  }
+
+  isGroupValueMixed(group: RowGroup, columnIndex: number): boolean {
+    return getGroupValues(this.table()!, group, columnIndex).size > 1;
+  }
+
+  isGroupSelected(group: RowGroup): boolean {
+    const selected = this.selectedSamples();
+    return group.rows.every(r => selected.has(r));
+  }
+
+  isGroupPartiallySelected(group: RowGroup): boolean {
+    const selected = this.selectedSamples();
+    return !this.isGroupSelected(group) && group.rows.some(r => selected.has(r));
+  }
+
+  toggleGroupSelection(group: RowGroup): void {
+    const next = new Set(this.selectedSamples());
+    if (this.isGroupSelected(group)) {
+      group.rows.forEach(r => next.delete(r));
+    } else {
+      group.rows.forEach(r => next.add(r));
+    }
+    this.selectedSamples.set(next);
+  }
+
+  /**
+   * Opens the cell editor on a group header cell; saving sets the value
+   * on every member row.
+   */
+  startGroupEditing(group: RowGroup, col: number, event: MouseEvent): void {
+    if (this.readonly) return;
+
+    const t = this.table();
+    if (!t || col >= t.columns.length || group.rows.length === 0) return;
+
+    this.positionEditor(event.currentTarget as HTMLElement);
+    this.editingGroup.set(group);
+    this.editingInitialText.set(null);
+    this.editingCell.set({ row: group.rows[0], col });
+    this.editingColumn.set(t.columns[col]);
+  }
+
+  private setGroupValue(group: RowGroup, col: number, value: string): void {
+    const rows = group.rows.filter(r => this.getCellValue(r, col) !== value);
+    if (rows.length === 0) return;
+
+    this.bulkSetValue(col, value, rows);
+    this.autoSaveTable();
+  }
+
   // ============ Filter Methods ============
 
   toggleFilterBar(): void {
@@ -4112,6 +5740,77 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
     }
   }
 
+  // ============ Compare Methods ============
+
+  openCompare(): void {
+    this.showCompare.set(true);
+  }
+
+  closeCompare(): void {
+    this.showCompare.set(false);
+  }
+
+  // ============ Merge Methods ============
+
+  openMerge(): void {
+    this.showMerge.set(true);
+  }
+
+  closeMerge(): void {
+    this.showMerge.set(false);
+  }
+
+  onMergeComplete(table: SdrfTable): void {
+    this.showMerge.set(false);
+    this.fileName.set(table.metadata?.filename || 'merged.sdrf.tsv');
+    this.openGeneratedTable(table);
+  }
+
+  // ============ Split Methods ============
+
+  openSplit(): void {
+    const filter = this.showFilterBar() ? this.filterBar?.filter() : undefined;
+    this.splitFilter.set(filter ? cloneFilterGroup(filter) : null);
+    this.showSplit.set(true);
+  }
+
+  closeSplit(): void {
+    this.showSplit.set(false);
+  }
+
+  // ============ Find & Replace Methods ============
+
+  openFindReplace(column: number | null = null): void {
+    this.closeContextMenu();
+    this.findReplaceColumn.set(column);
+    this.showFindReplace.set(true);
+  }
+
+  closeFindReplace(): void {
+    this.showFindReplace.set(false);
+  }
+
+  /**
+   * Applies all replacements as one history entry. Recording the change
+   * updates TableStateService, which marks pending suggestions stale.
+   */
+  onFindReplaceApply(event: FindReplaceApplyEvent): void {
+    const t = this.table();
+    this.showFindReplace.set(false);
+    if (this.readonly || !t || event.matches.length === 0) return;
+
+    const newTable = sdrfFindReplaceService.applyMatches(t, event.matches);
+    this.table.set(newTable);
+    this.tableChange.emit(newTable);
+    this.recordChange(
+      'replace',
+      `Replace "${event.options.find}" with "${event.options.replace}" (${event.matches.length} cells)`,
+      t
+    );
+
+    this.autoSaveTable();
+  }
+
   // ============ Wizard Methods ============
 
   openWizard(): void {
@@ -4124,8 +5823,16 @@ export class SdrfEditorComponent implements OnInit, OnChanges, AfterViewInit, On
 
   onWizardComplete(table: SdrfTable): void {
     this.showWizard.set(false);
+    this.openGeneratedTable(table);
+  }
+
+  /**
+   * Opens a table created in the app (wizard, merge) as a new document.
+   */
+  private openGeneratedTable(table: SdrfTable): void {
     this.table.set(table);
     this.tableChange.emit(table);
+    this.history.reset(table);
 
     // Reset any previous state
     this.selectedCell.set(null);
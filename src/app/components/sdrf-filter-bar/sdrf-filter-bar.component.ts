@@ -1,7 +1,10 @@
 /**
  * SDRF Filter Bar Component
  *
- * Provides row filtering by column values.
+ * Provides row filtering by column values. Quick filters are combined
+ * with AND; the builder allows nested AND/OR groups, negation, regex and
+ * numeric comparisons (see row-filter). Filters can be saved as named
+ * views per file.
  */
 
 import {
@@ -9,6 +12,8 @@ import {
   Input,
   Output,
   EventEmitter,
+  OnChanges,
+  SimpleChanges,
   signal,
   computed,
   effect,
@@ -17,17 +22,32 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 
 import { SdrfTable } from '../../core/models/sdrf-table';
-import { getValueForSample } from '../../core/models/sdrf-column';
-
-/**
- * Filter condition
- */
-export interface FilterCondition {
-  columnIndex: number;
-  columnName: string;
-  operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty';
-  value: string;
-}
+import { getColumnStore } from '../../core/models/column-store';
+import {
+  FilterCondition,
+  FilterGroup,
+  FilterNode,
+  FilterOperator,
+  CellErrorIndex,
+  ANY_COLUMN,
+  FILTER_OPERATORS,
+  isFilterGroup,
+  getOperatorInfo,
+  createFilterGroup,
+  cloneFilterGroup,
+  remapFilterColumns,
+  countFilterConditions,
+  filterUsesOperator,
+  getFilterError,
+  getFilterConditionError,
+  createRowPredicate,
+  describeFilter,
+} from '../../core/utils/row-filter';
+import {
+  FilterViewService,
+  filterViewService,
+  SavedFilterView,
+} from '../../core/services/filter-view.service';
 
 /**
  * Filter result
@@ -42,31 +62,34 @@ export interface FilterResult {
   standalone: true,
   imports: [CommonModule, FormsModule],
   template: `
-    <div class="filter-bar" [class.has-filters]="filters().length > 0">
+    <div class="filter-bar" [class.has-filters]="hasConditions()">
       <div class="filter-controls">
         <select
           [(ngModel)]="newFilterColumn"
           class="filter-select"
         >
-          <option value="-1">Select column...</option>
+          <option [ngValue]="null">Select column...</option>
+          <option [ngValue]="ANY_COLUMN">(any column)</option>
           @for (column of table?.columns; track column.columnPosition; let i = $index) {
-            <option [value]="i">{{ column.name }}</option>
+            <option [ngValue]="i">{{ column.name }}</option>
           }
         </select>
 
+        <label class="negate-toggle" title="Keep rows that do NOT match">
+          <input type="checkbox" [(ngModel)]="newFilterNegate" />
+          not
+        </label>
+
         <select
           [(ngModel)]="newFilterOperator"
           class="filter-select operator"
         >
-          <option value="equals">equals</option>
-          <option value="contains">contains</option>
-          <option value="starts_with">starts with</option>
-          <option value="ends_with">ends with</option>
-          <option value="is_empty">is empty</option>
-          <option value="is_not_empty">is not empty</option>
+          @for (op of operators; track op.value) {
+            <option [value]="op.value">{{ op.label }}</option>
+          }
         </select>
 
-        @if (newFilterOperator !== 'is_empty' && newFilterOperator !== 'is_not_empty') {
+        @if (getOperatorInfo(newFilterOperator).arity > 0) {
           <div class="value-input-wrapper">
             <input
               type="text"
@@ -74,12 +97,12 @@ export interface FilterResult {
               (focus)="showSuggestions = true"
               (blur)="onInputBlur()"
               (keydown.enter)="addFilter()"
-              placeholder="Value..."
+              [placeholder]="newFilterOperator === 'matches_regex' ? 'Regex...' : 'Value...'"
               class="filter-input"
             />
-            @if (showSuggestions && valueSuggestions().length > 0) {
+            @if (showSuggestions && !getOperatorInfo(newFilterOperator).numeric && getValueSuggestions().length > 0) {
               <div class="suggestions">
-                @for (suggestion of valueSuggestions().slice(0, 10); track suggestion) {
+                @for (suggestion of getValueSuggestions().slice(0, 10); track suggestion) {
                   <div
                     class="suggestion-item"
                     (mousedown)="selectSuggestion(suggestion)"
@@ -91,6 +114,16 @@ export interface FilterResult {
             }
           </div>
         }
+        @if (getOperatorInfo(newFilterOperator).arity === 2) {
+          <span class="filter-operator">and</span>
+          <input
+            type="text"
+            [(ngModel)]="newFilterValueTo"
+            (keydown.enter)="addFilter()"
+            placeholder="Upper bound..."
+            class="filter-input bound-input"
+          />
+        }
 
         <button
           class="btn btn-primary"
@@ -99,24 +132,159 @@ export interface FilterResult {
         >
           Add Filter
         </button>
+
+        <button class="btn btn-secondary" (click)="showBuilder.set(!showBuilder())">
+          {{ showBuilder() ? 'Hide builder' : 'Advanced...' }}
+        </button>
+
+        <select
+          class="filter-select views-select"
+          [ngModel]="''"
+          (ngModelChange)="applyViewByName($event)"
+          [disabled]="savedViews().length === 0"
+          title="Saved views for this file"
+        >
+          <option value="" disabled>Views ({{ savedViews().length }})</option>
+          @for (view of savedViews(); track view.name) {
+            <option [value]="view.name">{{ view.name }}</option>
+          }
+        </select>
       </div>
 
+      @if (newConditionError()) {
+        <div class="filter-error">{{ newConditionError() }}</div>
+      }
+
+      <!-- Filter builder -->
+      @if (showBuilder()) {
+        <div class="filter-builder">
+          <ng-container *ngTemplateOutlet="groupTemplate; context: { $implicit: filter(), parent: null, index: 0 }"></ng-container>
+        </div>
+      }
+
+      <ng-template #groupTemplate let-group let-parent="parent" let-index="index">
+        <div class="filter-group" [class.negated]="group.negate">
+          <div class="group-header">
+            <label class="negate-toggle">
+              <input type="checkbox" [checked]="group.negate" (change)="toggleNegate(group)" />
+              not
+            </label>
+            <select class="filter-select" [ngModel]="group.combinator" (ngModelChange)="setCombinator(group, $event)">
+              <option value="and">all of (AND)</option>
+              <option value="or">any of (OR)</option>
+            </select>
+            <button class="btn-link" (click)="addCondition(group)">+ Condition</button>
+            <button class="btn-link" (click)="addGroup(group)">+ Group</button>
+            @if (parent) {
+              <button class="remove-btn" (click)="removeChild(parent, index)" title="Remove group">×</button>
+            }
+          </div>
+          <div class="group-children">
+            @for (child of group.children; track $index; let i = $index) {
+              @if (isFilterGroup(child)) {
+                <ng-container *ngTemplateOutlet="groupTemplate; context: { $implicit: child, parent: group, index: i }"></ng-container>
+              } @else {
+                <div class="condition-row" [class.invalid]="getFilterConditionError(child)">
+                  <label class="negate-toggle">
+                    <input type="checkbox" [checked]="child.negate" (change)="toggleNegate(child)" />
+                    not
+                  </label>
+                  <select class="filter-select" [ngModel]="child.columnIndex" (ngModelChange)="setConditionColumn(child, $event)">
+                    <option [ngValue]="ANY_COLUMN">(any column)</option>
+                    @for (column of table?.columns; track column.columnPosition; let c = $index) {
+                      <option [ngValue]="c">{{ column.name }}</option>
+                    }
+                  </select>
+                  <select class="filter-select operator" [ngModel]="child.operator" (ngModelChange)="updateCondition(child, { operator: $event })">
+                    @for (op of operators; track op.value) {
+                      <option [value]="op.value">{{ op.label }}</option>
+                    }
+                  </select>
+                  @if (getOperatorInfo(child.operator).arity > 0) {
+                    <input
+                      type="text"
+                      class="filter-input condition-input"
+                      [value]="child.value"
+                      (change)="updateCondition(child, { value: $any($event.target).value })"
+                    />
+                  }
+                  @if (getOperatorInfo(child.operator).arity === 2) {
+                    <span class="filter-operator">and</span>
+                    <input
+                      type="text"
+                      class="filter-input condition-input"
+                      [value]="child.valueTo ?? ''"
+                      (change)="updateCondition(child, { valueTo: $any($event.target).value })"
+                    />
+                  }
+                  @if (getFilterConditionError(child)) {
+                    <span class="condition-error">{{ getFilterConditionError(child) }}</span>
+                  }
+                  <button class="remove-btn" (click)="removeChild(group, i)" title="Remove condition">×</button>
+                </div>
+              }
+            }
+            @if (group.children.length === 0) {
+              <div class="group-empty">No conditions</div>
+            }
+          </div>
+        </div>
+      </ng-template>
+
       <!-- Active filters -->
-      @if (filters().length > 0) {
+      @if (hasConditions()) {
         <div class="active-filters">
-          @for (filter of filters(); track $index) {
-            <span class="filter-chip">
-              <span class="filter-column">{{ filter.columnName }}</span>
-              <span class="filter-operator">{{ getOperatorLabel(filter.operator) }}</span>
-              @if (filter.value) {
-                <span class="filter-value">"{{ filter.value }}"</span>
+          @if (filter().children.length > 1 || filter().negate) {
+            <button
+              class="combinator-toggle"
+              (click)="setCombinator(filter(), filter().combinator === 'and' ? 'or' : 'and')"
+              title="Switch between matching all and any of the filters"
+            >
+              {{ filter().negate ? 'NOT ' : '' }}{{ filter().combinator === 'and' ? 'ALL' : 'ANY' }}
+            </button>
+          }
+          @for (child of filter().children; track $index) {
+            <span class="filter-chip" [class.negated]="child.negate">
+              @if (isFilterGroup(child)) {
+                <span class="filter-value">{{ describeFilter(child, true) }}</span>
+              } @else {
+                @if (child.negate) {
+                  <span class="filter-operator">not</span>
+                }
+                <span class="filter-column">{{ child.columnIndex === ANY_COLUMN ? 'any column' : child.columnName }}</span>
+                <span class="filter-operator">{{ getOperatorInfo(child.operator).label }}</span>
+                @if (getOperatorInfo(child.operator).arity > 0) {
+                  <span class="filter-value">"{{ child.value }}"</span>
+                }
+                @if (getOperatorInfo(child.operator).arity === 2) {
+                  <span class="filter-operator">and</span>
+                  <span class="filter-value">"{{ child.valueTo }}"</span>
+                }
               }
               <button class="remove-btn" (click)="removeFilter($index)">×</button>
             </span>
           }
           <button class="btn-link" (click)="clearFilters()">Clear all</button>
+          @if (showSaveView()) {
+            <input
+              type="text"
+              class="filter-input view-name-input"
+              [(ngModel)]="newViewName"
+              (keydown.enter)="saveView()"
+              (keydown.escape)="showSaveView.set(false)"
+              placeholder="View name..."
+            />
+            <button class="btn-link" (click)="saveView()" [disabled]="!newViewName.trim()">Save</button>
+          } @else {
+            <button class="btn-link" (click)="showSaveView.set(true)" [disabled]="!fileName">Save as view</button>
+          }
+          @if (activeView()) {
+            <button class="btn-link" (click)="deleteView(activeView()!)">Delete view "{{ activeView() }}"</button>
+          }
           <span class="filter-result">
-            @if (isFiltering()) {
+            @if (filterError()) {
+              <span class="filter-error-inline">{{ filterError() }}</span>
+            } @else if (isFiltering()) {
               <span class="filter-spinner"></span>
               Filtering...
             } @else {
@@ -125,6 +293,10 @@ export interface FilterResult {
           </span>
         </div>
       }
+
+      @if (viewNotice()) {
+        <div class="filter-error">{{ viewNotice() }}</div>
+      }
     </div>
   `,
   styles: [`
@@ -301,21 +473,155 @@ export interface FilterResult {
     @keyframes spin {
       to { transform: rotate(360deg); }
     }
+
+    .btn-secondary {
+      background: white;
+      color: #374151;
+      border: 1px solid #ccc;
+    }
+
+    .btn-secondary:hover {
+      background: #f0f0f0;
+    }
+
+    .btn-link:disabled {
+      color: #9ca3af;
+      cursor: default;
+      text-decoration: none;
+    }
+
+    .negate-toggle {
+      display: inline-flex;
+      align-items: center;
+      gap: 2px;
+      font-size: 12px;
+      color: #666;
+    }
+
+    .bound-input {
+      max-width: 120px;
+    }
+
+    .views-select {
+      margin-left: auto;
+    }
+
+    .filter-error,
+    .filter-error-inline,
+    .condition-error {
+      color: #b91c1c;
+      font-size: 12px;
+    }
+
+    .filter-error {
+      margin-top: 6px;
+    }
+
+    .filter-builder {
+      margin-top: 8px;
+    }
+
+    .filter-group {
+      padding: 6px 8px;
+      border: 1px solid #bbdefb;
+      border-left: 3px solid #2196f3;
+      border-radius: 4px;
+      background: white;
+    }
+
+    .filter-group.negated {
+      border-left-color: #d32f2f;
+    }
+
+    .group-header,
+    .condition-row {
+      display: flex;
+      gap: 8px;
+      align-items: center;
+      flex-wrap: wrap;
+    }
+
+    .group-children {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      margin: 6px 0 0 16px;
+    }
+
+    .condition-input {
+      width: 160px;
+    }
+
+    .condition-row.invalid .condition-input {
+      border-color: #d32f2f;
+    }
+
+    .group-empty {
+      font-size: 12px;
+      color: #999;
+      font-style: italic;
+    }
+
+    .combinator-toggle {
+      padding: 2px 8px;
+      border: 1px solid #1976d2;
+      border-radius: 4px;
+      background: #1976d2;
+      color: white;
+      font-size: 11px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .filter-chip.negated {
+      border-color: #d32f2f;
+    }
+
+    .view-name-input {
+      width: 160px;
+      padding: 2px 8px;
+    }
   `],
 })
-export class SdrfFilterBarComponent {
+export class SdrfFilterBarComponent implements OnChanges {
   @Input() table: SdrfTable | null = null;
 
+  /** File name that saved views belong to */
+  @Input() fileName = '';
+
+  /** Rows with validation errors, for the "has validation error" operator */
+  @Input() errorIndex: CellErrorIndex | null = null;
+
   @Output() filterChange = new EventEmitter<FilterResult>();
 
+  readonly operators = FILTER_OPERATORS;
+  readonly ANY_COLUMN = ANY_COLUMN;
+  readonly isFilterGroup = isFilterGroup;
+  readonly getOperatorInfo = getOperatorInfo;
+  readonly getFilterConditionError = getFilterConditionError;
+  readonly describeFilter = describeFilter;
+
+  private viewService: FilterViewService = filterViewService;
+
   // New filter form
-  newFilterColumn = -1;
-  newFilterOperator: FilterCondition['operator'] = 'equals';
+  newFilterColumn: number | null = null;
+  newFilterOperator: FilterOperator = 'equals';
   newFilterValue = '';
+  newFilterValueTo = '';
+  newFilterNegate = false;
   showSuggestions = false;
 
-  // Active filters
-  filters = signal<FilterCondition[]>([]);
+  // Active filter tree (quick filters are children of the root group)
+  filter = signal<FilterGroup>(createFilterGroup());
+
+  showBuilder = signal(false);
+
+  // Saved views
+  savedViews = signal<SavedFilterView[]>([]);
+  activeView = signal<string | null>(null);
+  showSaveView = signal(false);
+  viewNotice = signal<string | null>(null);
+  newViewName = '';
 
   // Loading state for filtering
   isFiltering = signal(false);
@@ -324,10 +630,20 @@ export class SdrfFilterBarComponent {
   // Filter result (uses cached value)
   filterResult = computed<FilterResult>(() => this.cachedFilterResult());
 
+  hasConditions = computed(() => countFilterConditions(this.filter()) > 0);
+
+  filterError = computed(() => getFilterError(this.filter()));
+
+  private errorIndexSignal = signal<CellErrorIndex | null>(null);
+
+  /** Whether the last emitted result was filtered */
+  private filterActive = false;
+
   constructor() {
     // Recompute filter results with loading indicator
     effect(() => {
-      const allFilters = this.filters();
+      const root = this.filter();
+      const errors = filterUsesOperator(root, 'has_error') ? this.errorIndexSignal() : null;
       const table = this.table;
 
       if (!table) {
@@ -335,10 +651,18 @@ export class SdrfFilterBarComponent {
         return;
       }
 
-      if (allFilters.length === 0) {
+      // Keep the last result until the filter can be applied
+      if (getFilterError(root)) return;
+
+      if (countFilterConditions(root) === 0) {
         // No filters - all rows match
         const allIndices = Array.from({ length: table.sampleCount }, (_, i) => i + 1);
-        this.cachedFilterResult.set({ matchingIndices: allIndices, totalCount: table.sampleCount });
+        const result = { matchingIndices: allIndices, totalCount: table.sampleCount };
+        this.cachedFilterResult.set(result);
+        if (this.filterActive) {
+          this.filterActive = false;
+          this.filterChange.emit(result);
+        }
         return;
       }
 
@@ -347,17 +671,33 @@ export class SdrfFilterBarComponent {
 
       // Defer computation to allow UI to update
       setTimeout(() => {
-        const result = this.computeFilterResult(allFilters, table);
+        const result = this.computeFilterResult(root, table, errors);
         this.cachedFilterResult.set(result);
         this.isFiltering.set(false);
+        this.filterActive = true;
+        this.filterChange.emit(result);
       }, 0);
     });
   }
 
-  private computeFilterResult(allFilters: FilterCondition[], table: SdrfTable): FilterResult {
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['errorIndex']) {
+      this.errorIndexSignal.set(this.errorIndex);
+    }
+    if (changes['fileName']) {
+      this.loadViews();
+    }
+  }
+
+  private computeFilterResult(
+    root: FilterGroup,
+    table: SdrfTable,
+    errors: CellErrorIndex | null
+  ): FilterResult {
+    const predicate = createRowPredicate(table, root, errors);
     const matchingIndices: number[] = [];
     for (let i = 1; i <= table.sampleCount; i++) {
-      if (this.rowMatchesAllFilters(i, allFilters)) {
+      if (predicate(i)) {
         matchingIndices.push(i);
       }
     }
@@ -365,58 +705,52 @@ export class SdrfFilterBarComponent {
   }
 
   // Value suggestions for autocomplete
-  valueSuggestions = computed<string[]>(() => {
-    if (!this.table || this.newFilterColumn < 0) return [];
+  getValueSuggestions(): string[] {
+    if (!this.table || this.newFilterColumn === null) return [];
 
     const column = this.table.columns[this.newFilterColumn];
     if (!column) return [];
 
-    const values = new Set<string>();
-    for (let i = 1; i <= this.table.sampleCount; i++) {
-      const value = getValueForSample(column, i);
-      if (value && value.toLowerCase().includes(this.newFilterValue.toLowerCase())) {
-        values.add(value);
-      }
-    }
+    const search = this.newFilterValue.toLowerCase();
+    return getColumnStore(column)
+      .dictionary.filter((value) => value && value.toLowerCase().includes(search))
+      .sort();
+  }
 
-    return Array.from(values).sort();
-  });
+  newConditionError(): string | null {
+    if (this.newFilterColumn === null || !this.newFilterValue.trim()) return null;
+    return getFilterConditionError(this.buildNewCondition());
+  }
 
   canAddFilter(): boolean {
-    if (this.newFilterColumn < 0) return false;
-    if (this.newFilterOperator === 'is_empty' || this.newFilterOperator === 'is_not_empty') {
-      return true;
-    }
-    return this.newFilterValue.trim().length > 0;
+    if (this.newFilterColumn === null) return false;
+
+    const info = getOperatorInfo(this.newFilterOperator);
+    if (info.arity === 0) return true;
+    if (!this.newFilterValue.trim()) return false;
+    return getFilterConditionError(this.buildNewCondition()) === null;
   }
 
   addFilter(): void {
     if (!this.canAddFilter() || !this.table) return;
 
-    const column = this.table.columns[this.newFilterColumn];
-    const newFilter: FilterCondition = {
-      columnIndex: this.newFilterColumn,
-      columnName: column.name,
-      operator: this.newFilterOperator,
-      value: this.newFilterValue.trim(),
-    };
-
-    this.filters.set([...this.filters(), newFilter]);
-    this.emitFilterChange();
+    const root = this.filter();
+    root.children.push(this.buildNewCondition());
+    this.commit();
 
     // Reset form
     this.newFilterValue = '';
+    this.newFilterValueTo = '';
+    this.newFilterNegate = false;
   }
 
   removeFilter(index: number): void {
-    const current = this.filters();
-    this.filters.set([...current.slice(0, index), ...current.slice(index + 1)]);
-    this.emitFilterChange();
+    this.removeChild(this.filter(), index);
   }
 
   clearFilters(): void {
-    this.filters.set([]);
-    this.emitFilterChange();
+    this.filter.set(createFilterGroup());
+    this.activeView.set(null);
   }
 
   selectSuggestion(value: string): void {
@@ -431,54 +765,144 @@ export class SdrfFilterBarComponent {
     }, 200);
   }
 
-  getOperatorLabel(operator: FilterCondition['operator']): string {
-    switch (operator) {
-      case 'equals': return '=';
-      case 'contains': return 'contains';
-      case 'starts_with': return 'starts with';
-      case 'ends_with': return 'ends with';
-      case 'is_empty': return 'is empty';
-      case 'is_not_empty': return 'is not empty';
+  /**
+   * Moves conditions along with their columns (e.g. after the columns
+   * were reordered); conditions on columns that are gone are dropped.
+   */
+  remapColumns(mapColumn: (columnIndex: number) => number | undefined): void {
+    if (this.newFilterColumn !== null) {
+      this.newFilterColumn = mapColumn(this.newFilterColumn) ?? null;
     }
+    this.filter.set(remapFilterColumns(this.filter(), mapColumn));
+  }
+
+  // ============ Builder ============
+
+  addCondition(group: FilterGroup): void {
+    group.children.push({
+      columnIndex: ANY_COLUMN,
+      columnName: '',
+      operator: 'contains',
+      value: '',
+    });
+    this.commit();
   }
 
-  private rowMatchesAllFilters(rowIndex: number, filters: FilterCondition[]): boolean {
-    if (!this.table) return false;
+  addGroup(group: FilterGroup): void {
+    group.children.push(createFilterGroup(group.combinator === 'and' ? 'or' : 'and'));
+    this.commit();
+  }
 
-    for (const filter of filters) {
-      const column = this.table.columns[filter.columnIndex];
-      if (!column) continue;
+  removeChild(group: FilterGroup, index: number): void {
+    group.children.splice(index, 1);
+    this.commit();
+  }
 
-      const value = getValueForSample(column, rowIndex);
-      if (!this.matchesFilter(value, filter)) {
-        return false;
-      }
-    }
+  toggleNegate(node: FilterNode): void {
+    node.negate = !node.negate;
+    this.commit();
+  }
 
-    return true;
+  setCombinator(group: FilterGroup, combinator: FilterGroup['combinator']): void {
+    group.combinator = combinator;
+    this.commit();
   }
 
-  private matchesFilter(value: string, filter: FilterCondition): boolean {
-    const v = value.toLowerCase();
-    const f = filter.value.toLowerCase();
-
-    switch (filter.operator) {
-      case 'equals':
-        return v === f;
-      case 'contains':
-        return v.includes(f);
-      case 'starts_with':
-        return v.startsWith(f);
-      case 'ends_with':
-        return v.endsWith(f);
-      case 'is_empty':
-        return value.trim() === '';
-      case 'is_not_empty':
-        return value.trim() !== '';
+  setConditionColumn(condition: FilterCondition, columnIndex: number): void {
+    condition.columnIndex = columnIndex;
+    condition.columnName = this.table?.columns[columnIndex]?.name ?? '';
+    this.commit();
+  }
+
+  updateCondition(condition: FilterCondition, patch: Partial<FilterCondition>): void {
+    Object.assign(condition, patch);
+    this.commit();
+  }
+
+  // ============ Saved Views ============
+
+  saveView(): void {
+    const name = this.newViewName.trim();
+    if (!name || !this.fileName) return;
+
+    this.viewService.saveView(this.fileName, name, cloneFilterGroup(this.filter()));
+    this.loadViews();
+    this.activeView.set(name);
+    this.showSaveView.set(false);
+    this.newViewName = '';
+  }
+
+  applyViewByName(name: string): void {
+    const view = this.savedViews().find((v) => v.name === name);
+    if (view) {
+      this.applyView(view);
     }
   }
 
-  private emitFilterChange(): void {
-    this.filterChange.emit(this.filterResult());
+  /**
+   * Applies a saved view. Columns are looked up by name, since they may
+   * have moved since the view was saved; conditions on columns that no
+   * longer exist are dropped.
+   */
+  applyView(view: SavedFilterView): void {
+    const columns = this.table?.columns ?? [];
+    let dropped = 0;
+
+    const resolve = (group: FilterGroup): FilterGroup => ({
+      ...group,
+      children: group.children
+        .map((child): FilterNode | null => {
+          if (isFilterGroup(child)) return resolve(child);
+          if (child.columnIndex === ANY_COLUMN) return { ...child };
+
+          const index = columns.findIndex((c) => c.name.toLowerCase() === child.columnName.toLowerCase());
+          if (index < 0) {
+            dropped++;
+            return null;
+          }
+          return { ...child, columnIndex: index, columnName: columns[index].name };
+        })
+        .filter((child): child is FilterNode => child !== null),
+    });
+
+    this.filter.set(resolve(view.filter));
+    this.activeView.set(view.name);
+    this.viewNotice.set(
+      dropped > 0 ? `${dropped} condition(s) of "${view.name}" refer to columns not in this file and were skipped` : null
+    );
+  }
+
+  deleteView(name: string): void {
+    if (!this.fileName) return;
+    this.viewService.deleteView(this.fileName, name);
+    this.loadViews();
+    this.activeView.set(null);
+  }
+
+  private loadViews(): void {
+    this.savedViews.set(this.fileName ? this.viewService.getViews(this.fileName) : []);
+    this.activeView.set(null);
+  }
+
+  private buildNewCondition(): FilterCondition {
+    const columnIndex = this.newFilterColumn ?? ANY_COLUMN;
+    const info = getOperatorInfo(this.newFilterOperator);
+
+    return {
+      columnIndex,
+      columnName: this.table?.columns[columnIndex]?.name ?? '',
+      operator: this.newFilterOperator,
+      value: info.arity > 0 ? this.newFilterValue.trim() : '',
+      valueTo: info.arity === 2 ? this.newFilterValueTo.trim() : undefined,
+      negate: this.newFilterNegate || undefined,
+    };
+  }
+
+  /**
+   * Publishes in-place edits of the filter tree as a new tree.
+   */
+  private commit(): void {
+    this.filter.set(cloneFilterGroup(this.filter()));
+    this.viewNotice.set(null);
   }
 }
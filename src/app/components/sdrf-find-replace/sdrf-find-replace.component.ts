@@ -0,0 +1,416 @@
+/**
+ * SDRF Find & Replace Component
+ *
+ * Dialog for finding and replacing values across all columns or a chosen
+ * subset, with regex, capture-group replacement and case sensitivity.
+ * Every affected cell is previewed before the replacement is applied.
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  OnInit,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { SdrfTable } from '../../core/models/sdrf-table';
+import {
+  SdrfFindReplaceService,
+  sdrfFindReplaceService,
+  FindReplaceOptions,
+  FindReplaceMatch,
+} from '../../core/services/sdrf-find-replace.service';
+
+/**
+ * Emitted when the user applies the replacement.
+ */
+export interface FindReplaceApplyEvent {
+  options: FindReplaceOptions;
+  matches: FindReplaceMatch[];
+}
+
+@Component({
+  selector: 'sdrf-find-replace',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="find-replace-overlay">
+      <div class="find-replace-container">
+        <div class="find-replace-header">
+          <h2>Find &amp; Replace</h2>
+          <button class="btn-close" (click)="close.emit()" title="Close">&times;</button>
+        </div>
+
+        <div class="find-replace-body">
+          <div class="form-grid">
+            <label for="fr-find">Find</label>
+            <input
+              id="fr-find"
+              type="text"
+              [value]="find()"
+              (input)="find.set($any($event.target).value)"
+              [placeholder]="regex() ? 'Regular expression, e.g. ^run_(\\\\d+)' : 'Text to find'"
+              autofocus
+            />
+            <label for="fr-replace">Replace with</label>
+            <input
+              id="fr-replace"
+              type="text"
+              [value]="replace()"
+              (input)="replace.set($any($event.target).value)"
+              [placeholder]="regex() ? 'Replacement, e.g. sample_$1' : 'Replacement text'"
+            />
+          </div>
+
+          <div class="option-row">
+            <label>
+              <input type="checkbox" [checked]="regex()" (change)="regex.set(!regex())" />
+              Regular expression
+            </label>
+            <label>
+              <input type="checkbox" [checked]="caseSensitive()" (change)="caseSensitive.set(!caseSensitive())" />
+              Match case
+            </label>
+            <label>
+              <input type="checkbox" [checked]="wholeCell()" (change)="wholeCell.set(!wholeCell())" />
+              Entire cell
+            </label>
+          </div>
+
+          <div class="columns-section">
+            <label class="columns-toggle">
+              <input type="checkbox" [checked]="allColumns()" (change)="allColumns.set(!allColumns())" />
+              Search all columns
+            </label>
+            @if (!allColumns()) {
+              <div class="column-list">
+                @for (column of table.columns; track $index; let i = $index) {
+                  <label class="column-option" [title]="column.name">
+                    <input type="checkbox" [checked]="selectedColumns().has(i)" (change)="toggleColumn(i)" />
+                    {{ column.name }}
+                  </label>
+                }
+              </div>
+            }
+          </div>
+
+          @if (patternError()) {
+            <div class="pattern-error">Invalid pattern: {{ patternError() }}</div>
+          } @else if (find()) {
+            <div class="section-title">
+              {{ matches().length }} cell(s) in {{ matchedColumnCount() }} column(s)
+            </div>
+            @if (matches().length > 0) {
+              <div class="preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Column</th>
+                      <th>Current</th>
+                      <th>New</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    @for (match of previewMatches(); track $index) {
+                      <tr>
+                        <td class="row-cell">{{ match.row }}</td>
+                        <td class="column-cell" [title]="match.columnName">{{ match.columnName }}</td>
+                        <td class="old-value">{{ match.oldValue }}</td>
+                        <td class="new-value">{{ match.newValue }}</td>
+                      </tr>
+                    }
+                  </tbody>
+                </table>
+              </div>
+              @if (matches().length > previewMatches().length) {
+                <div class="status">… and {{ matches().length - previewMatches().length }} more</div>
+              }
+            }
+          }
+        </div>
+
+        <div class="find-replace-footer">
+          <button class="btn btn-secondary" (click)="close.emit()">Cancel</button>
+          <button class="btn btn-primary" (click)="applyReplace()" [disabled]="matches().length === 0">
+            Replace {{ matches().length }} cell(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .find-replace-overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+
+    .find-replace-container {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 25px 80px rgba(0, 0, 0, 0.3);
+      width: 95%;
+      max-width: 800px;
+      max-height: 90vh;
+      display: flex;
+      flex-direction: column;
+    }
+
+    .find-replace-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 16px 24px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .find-replace-header h2 {
+      margin: 0;
+      font-size: 20px;
+      color: #111827;
+    }
+
+    .btn-close {
+      background: none;
+      border: none;
+      font-size: 24px;
+      cursor: pointer;
+      color: #6b7280;
+    }
+
+    .find-replace-body {
+      flex: 1;
+      overflow-y: auto;
+      padding: 16px 24px;
+      font-size: 13px;
+      color: #374151;
+    }
+
+    .find-replace-footer {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      padding: 12px 24px;
+      border-top: 1px solid #e5e7eb;
+    }
+
+    .form-grid {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 8px 12px;
+      align-items: center;
+    }
+
+    .form-grid input {
+      padding: 6px 8px;
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+      font-size: 13px;
+      font-family: monospace;
+    }
+
+    .option-row {
+      display: flex;
+      gap: 16px;
+      margin: 12px 0;
+    }
+
+    .option-row label,
+    .columns-toggle,
+    .column-option {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
+    .column-list {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+      gap: 2px 12px;
+      max-height: 140px;
+      overflow-y: auto;
+      margin-top: 6px;
+      padding: 6px 8px;
+      border: 1px solid #e5e7eb;
+      border-radius: 4px;
+    }
+
+    .column-option {
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .pattern-error {
+      margin-top: 12px;
+      padding: 6px 10px;
+      border-radius: 4px;
+      background: #fee2e2;
+      color: #b91c1c;
+    }
+
+    .section-title {
+      font-size: 12px;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: #6b7280;
+      margin: 16px 0 8px;
+    }
+
+    .preview {
+      max-height: 320px;
+      overflow: auto;
+      border: 1px solid #e5e7eb;
+      border-radius: 4px;
+    }
+
+    .preview table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .preview th,
+    .preview td {
+      padding: 4px 8px;
+      border-bottom: 1px solid #f3f4f6;
+      text-align: left;
+      white-space: nowrap;
+      max-width: 240px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .preview th {
+      position: sticky;
+      top: 0;
+      background: #f8f9fa;
+      font-weight: 600;
+    }
+
+    .row-cell {
+      color: #6b7280;
+    }
+
+    .old-value {
+      background: #fee2e2;
+      text-decoration: line-through;
+    }
+
+    .new-value {
+      background: #dcfce7;
+    }
+
+    .status {
+      margin-top: 4px;
+      color: #6b7280;
+      font-size: 12px;
+    }
+
+    .btn {
+      padding: 6px 12px;
+      border: none;
+      border-radius: 4px;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .btn-primary {
+      background: #2196f3;
+      color: white;
+    }
+
+    .btn-primary:hover:not(:disabled) {
+      background: #1976d2;
+    }
+
+    .btn-secondary {
+      background: #f5f5f5;
+      color: #374151;
+      border: 1px solid #ccc;
+    }
+
+    .btn-secondary:hover:not(:disabled) {
+      background: #e0e0e0;
+    }
+
+    .btn:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `],
+})
+export class SdrfFindReplaceComponent implements OnInit {
+  @Input({ required: true }) table!: SdrfTable;
+
+  /** Column to search initially (all columns when null) */
+  @Input() initialColumn: number | null = null;
+
+  @Output() apply = new EventEmitter<FindReplaceApplyEvent>();
+  @Output() close = new EventEmitter<void>();
+
+  readonly MAX_PREVIEW_ROWS = 1000;
+
+  private findReplaceService: SdrfFindReplaceService = sdrfFindReplaceService;
+
+  find = signal('');
+  replace = signal('');
+  regex = signal(false);
+  caseSensitive = signal(false);
+  wholeCell = signal(false);
+  allColumns = signal(true);
+  selectedColumns = signal<Set<number>>(new Set());
+
+  options = computed((): FindReplaceOptions => ({
+    find: this.find(),
+    replace: this.replace(),
+    regex: this.regex(),
+    caseSensitive: this.caseSensitive(),
+    wholeCell: this.wholeCell(),
+    columns: this.allColumns() ? undefined : Array.from(this.selectedColumns()).sort((a, b) => a - b),
+  }));
+
+  patternError = computed(() => this.findReplaceService.validatePattern(this.options()));
+
+  matches = computed((): FindReplaceMatch[] => {
+    if (this.patternError()) return [];
+    return this.findReplaceService.findMatches(this.table, this.options());
+  });
+
+  previewMatches = computed(() => this.matches().slice(0, this.MAX_PREVIEW_ROWS));
+
+  matchedColumnCount = computed(() => new Set(this.matches().map((m) => m.col)).size);
+
+  ngOnInit(): void {
+    if (this.initialColumn !== null && this.table.columns[this.initialColumn]) {
+      this.allColumns.set(false);
+      this.selectedColumns.set(new Set([this.initialColumn]));
+    }
+  }
+
+  toggleColumn(index: number): void {
+    const next = new Set(this.selectedColumns());
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    this.selectedColumns.set(next);
+  }
+
+  applyReplace(): void {
+    const matches = this.matches();
+    if (matches.length === 0) return;
+    this.apply.emit({ options: this.options(), matches });
+  }
+}
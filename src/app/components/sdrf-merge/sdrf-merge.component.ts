@@ -0,0 +1,503 @@
+/**
+ * SDRF Merge Component
+ *
+ * Dialog for combining several SDRF files (e.g. per-batch annotations)
+ * into one table. Lists the inputs in merge order, lets the user pick a
+ * template for filling absent columns, and reports conflicts before the
+ * merged table is opened in the editor.
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  OnInit,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { SdrfTable } from '../../core/models/sdrf-table';
+import { SdrfParserService } from '../../core/services/sdrf-parser.service';
+import { TemplateService } from '../../core/services/template.service';
+import {
+  SdrfMergeService,
+  sdrfMergeService,
+  SdrfMergeInput,
+  SdrfMergeResult,
+  SdrfFillValue,
+} from '../../core/services/sdrf-merge.service';
+
+/** Maximum number of conflicts listed in the dialog */
+const MAX_LISTED_CONFLICTS = 200;
+
+@Component({
+  selector: 'sdrf-merge',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="merge-overlay">
+      <div class="merge-container">
+        <div class="merge-header">
+          <h2>Merge SDRF Files</h2>
+          <button class="btn-close" (click)="cancel.emit()" title="Close">&times;</button>
+        </div>
+
+        <div class="merge-body">
+          <!-- Inputs -->
+          <div class="section-title">Files (merged in this order)</div>
+          @if (inputs().length === 0) {
+            <div class="empty-state">Add at least two files to merge.</div>
+          } @else {
+            <ul class="input-list">
+              @for (input of inputs(); track input; let i = $index; let last = $last) {
+                <li class="input-item">
+                  <span class="input-index">{{ i + 1 }}</span>
+                  <span class="input-name" [title]="input.name">{{ input.name }}</span>
+                  <span class="input-meta">{{ input.table.sampleCount }} samples, {{ input.table.columns.length }} columns</span>
+                  <button class="btn btn-icon" (click)="moveInput(i, -1)" [disabled]="i === 0" title="Move up">↑</button>
+                  <button class="btn btn-icon" (click)="moveInput(i, 1)" [disabled]="last" title="Move down">↓</button>
+                  <button class="btn btn-icon" (click)="removeInput(i)" title="Remove">✕</button>
+                </li>
+              }
+            </ul>
+          }
+          <div class="input-actions">
+            <button class="btn btn-secondary" (click)="fileInput.click()">Add files…</button>
+            @if (currentTable && !hasCurrentTable()) {
+              <button class="btn btn-secondary" (click)="addCurrentTable()">Add current table</button>
+            }
+            <input
+              type="file"
+              #fileInput
+              multiple
+              accept=".tsv,.txt,.sdrf,.xlsx,.xls,.ods"
+              style="display: none"
+              (change)="onFilesSelected($event)"
+            />
+          </div>
+
+          <!-- Options -->
+          <div class="merge-options">
+            <label>
+              Template
+              <select [value]="templateId()" (change)="templateId.set($any($event.target).value); result.set(null)">
+                <option value="">None</option>
+                @for (t of templates(); track t.id) {
+                  <option [value]="t.id">{{ t.name }}</option>
+                }
+              </select>
+            </label>
+            <label>
+              Fill missing columns with
+              <select [value]="defaultFill()" (change)="defaultFill.set($any($event.target).value); result.set(null)">
+                <option value="not available">not available</option>
+                <option value="not applicable">not applicable</option>
+              </select>
+            </label>
+          </div>
+          <p class="hint">
+            The template decides per column whether "not available" or "not applicable" is allowed;
+            the fill value above is used where both (or no template rule) apply.
+          </p>
+
+          @if (loading()) {
+            <div class="status">Working…</div>
+          }
+          @if (error()) {
+            <div class="error">{{ error() }}</div>
+          }
+
+          <!-- Result -->
+          @if (result(); as r) {
+            <div class="section-title">Result</div>
+            <div class="result-summary">
+              {{ r.table.sampleCount }} samples, {{ r.table.columns.length }} columns, {{ r.table.pools.length }} pools
+            </div>
+
+            @for (warning of r.warnings; track $index) {
+              <div class="warning">{{ warning }}</div>
+            }
+
+            @if (r.conflicts.length > 0) {
+              <div class="section-title">{{ r.conflicts.length }} conflict(s)</div>
+              <ul class="conflict-list">
+                @for (conflict of listedConflicts(); track $index) {
+                  <li class="conflict-item">
+                    <div class="conflict-message">{{ conflict.message }}</div>
+                    <div class="conflict-rows">
+                      @for (ref of conflict.rows; track $index) {
+                        <span class="conflict-row">
+                          {{ ref.input }} row {{ ref.row }} → merged row {{ ref.mergedRow }}
+                        </span>
+                      }
+                    </div>
+                  </li>
+                }
+              </ul>
+              @if (r.conflicts.length > listedConflicts().length) {
+                <div class="status">… and {{ r.conflicts.length - listedConflicts().length }} more</div>
+              }
+            } @else {
+              <div class="status">No conflicts found.</div>
+            }
+          }
+        </div>
+
+        <div class="merge-footer">
+          <button class="btn btn-secondary" (click)="cancel.emit()">Cancel</button>
+          <button class="btn btn-secondary" (click)="runMerge()" [disabled]="inputs().length < 2 || loading()">
+            Merge
+          </button>
+          <button class="btn btn-primary" (click)="openResult()" [disabled]="!result()">
+            Open Merged Table
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .merge-overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+
+    .merge-container {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 25px 80px rgba(0, 0, 0, 0.3);
+      width: 95%;
+      max-width: 800px;
+      max-height: 90vh;
+      display: flex;
+      flex-direction: column;
+    }
+
+    .merge-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 16px 24px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .merge-header h2 {
+      margin: 0;
+      font-size: 20px;
+      color: #111827;
+    }
+
+    .btn-close {
+      background: none;
+      border: none;
+      font-size: 24px;
+      cursor: pointer;
+      color: #6b7280;
+    }
+
+    .merge-body {
+      flex: 1;
+      overflow-y: auto;
+      padding: 16px 24px;
+    }
+
+    .merge-footer {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      padding: 12px 24px;
+      border-top: 1px solid #e5e7eb;
+    }
+
+    .section-title {
+      font-size: 12px;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: #6b7280;
+      margin: 16px 0 8px;
+    }
+
+    .section-title:first-child {
+      margin-top: 0;
+    }
+
+    .input-list,
+    .conflict-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .input-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px 12px;
+      background: #f8f9fa;
+      border: 1px solid #e0e0e0;
+      border-radius: 6px;
+      font-size: 13px;
+    }
+
+    .input-index {
+      font-weight: 600;
+      color: #6b7280;
+      width: 20px;
+    }
+
+    .input-name {
+      flex: 1;
+      min-width: 0;
+      font-weight: 500;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .input-meta {
+      color: #6b7280;
+      font-size: 12px;
+    }
+
+    .input-actions {
+      display: flex;
+      gap: 8px;
+      margin-top: 8px;
+    }
+
+    .merge-options {
+      display: flex;
+      gap: 16px;
+      margin-top: 16px;
+    }
+
+    .merge-options label {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      font-size: 13px;
+      color: #374151;
+    }
+
+    .merge-options select {
+      padding: 6px 8px;
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+      font-size: 13px;
+    }
+
+    .hint {
+      margin: 8px 0 0;
+      font-size: 12px;
+      color: #9ca3af;
+    }
+
+    .empty-state,
+    .status,
+    .result-summary {
+      font-size: 13px;
+      color: #6b7280;
+    }
+
+    .error,
+    .warning {
+      margin-top: 6px;
+      padding: 6px 10px;
+      border-radius: 4px;
+      font-size: 12px;
+    }
+
+    .error { background: #fee2e2; color: #991b1b; }
+    .warning { background: #fef3c7; color: #92400e; }
+
+    .conflict-item {
+      padding: 8px 12px;
+      border-left: 3px solid #f59e0b;
+      background: #fffbeb;
+      font-size: 13px;
+    }
+
+    .conflict-rows {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 12px;
+      margin-top: 4px;
+      font-size: 12px;
+      color: #6b7280;
+    }
+
+    .btn {
+      padding: 6px 12px;
+      border: none;
+      border-radius: 4px;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .btn-primary {
+      background: #2196f3;
+      color: white;
+    }
+
+    .btn-primary:hover:not(:disabled) {
+      background: #1976d2;
+    }
+
+    .btn-secondary {
+      background: #f5f5f5;
+      color: #374151;
+      border: 1px solid #ccc;
+    }
+
+    .btn-secondary:hover:not(:disabled) {
+      background: #e0e0e0;
+    }
+
+    .btn-icon {
+      background: none;
+      padding: 2px 6px;
+      color: #6b7280;
+    }
+
+    .btn-icon:hover:not(:disabled) {
+      color: #111827;
+    }
+
+    .btn:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `],
+})
+export class SdrfMergeComponent implements OnInit {
+  /** Table currently open in the editor */
+  @Input() currentTable: SdrfTable | null = null;
+
+  /** Display name of the current table */
+  @Input() currentName = 'Current table';
+
+  @Output() complete = new EventEmitter<SdrfTable>();
+  @Output() cancel = new EventEmitter<void>();
+
+  private readonly templateService = inject(TemplateService);
+  private parser = new SdrfParserService();
+  private mergeService: SdrfMergeService = sdrfMergeService;
+
+  inputs = signal<SdrfMergeInput[]>([]);
+  templateId = signal('');
+  defaultFill = signal<SdrfFillValue>('not available');
+  loading = signal(false);
+  error = signal<string | null>(null);
+  result = signal<SdrfMergeResult | null>(null);
+
+  templates = computed(() =>
+    this.templateService.allTemplates().length > 0 ? this.templateService.getTemplateInfoList() : []
+  );
+
+  hasCurrentTable = computed(() =>
+    this.inputs().some((input) => input.table === this.currentTable)
+  );
+
+  listedConflicts = computed(() =>
+    (this.result()?.conflicts ?? []).slice(0, MAX_LISTED_CONFLICTS)
+  );
+
+  ngOnInit(): void {
+    this.templateService.fetchTemplates();
+    if (this.currentTable) {
+      this.addCurrentTable();
+    }
+  }
+
+  addCurrentTable(): void {
+    if (!this.currentTable) return;
+    this.setInputs([{ name: this.currentName, table: this.currentTable }, ...this.inputs()]);
+  }
+
+  async onFilesSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (files.length === 0) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    const added: SdrfMergeInput[] = [];
+    const failures: string[] = [];
+
+    try {
+      for (const file of files) {
+        const result = await this.parser.parseFromFile(file);
+        if (result.success && result.table) {
+          added.push({ name: file.name, table: result.table });
+        } else {
+          failures.push(`${file.name}: ${result.error || 'Failed to parse file'}`);
+        }
+      }
+    } finally {
+      this.loading.set(false);
+    }
+
+    if (failures.length > 0) {
+      this.error.set(failures.join('; '));
+    }
+    this.setInputs([...this.inputs(), ...added]);
+  }
+
+  moveInput(index: number, delta: number): void {
+    const list = [...this.inputs()];
+    const target = index + delta;
+    if (target < 0 || target >= list.length) return;
+    [list[index], list[target]] = [list[target], list[index]];
+    this.setInputs(list);
+  }
+
+  removeInput(index: number): void {
+    this.setInputs(this.inputs().filter((_, i) => i !== index));
+  }
+
+  async runMerge(): Promise<void> {
+    if (this.inputs().length < 2) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    try {
+      const id = this.templateId();
+      const template = id ? await this.templateService.getResolvedTemplate(id) : undefined;
+      this.result.set(
+        this.mergeService.merge(this.inputs(), { template, defaultFill: this.defaultFill() })
+      );
+    } catch (error) {
+      this.error.set(`Merge failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  openResult(): void {
+    const r = this.result();
+    if (r) {
+      this.complete.emit(r.table);
+    }
+  }
+
+  /** Any change to the inputs invalidates a previous result */
+  private setInputs(inputs: SdrfMergeInput[]): void {
+    this.inputs.set(inputs);
+    this.result.set(null);
+  }
+}
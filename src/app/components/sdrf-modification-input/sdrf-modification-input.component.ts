@@ -39,7 +39,7 @@ import { UnimodService, UnimodEntry } from '../../core/services/unimod.service';
             [ngModel]="nt()"
             (ngModelChange)="updateNt($event)"
             (input)="onNtInput($event)"
-            placeholder="e.g., Oxidation, Carbamidomethyl"
+            placeholder="e.g., Oxidation, or a mass: +42.0106 ± 0.01 Da on K"
             class="field-input"
           />
           @if (suggestions().length > 0) {
@@ -84,6 +84,9 @@ const COLUMN_ONTOLOGY_MAP: Record<string, { ontologies: string[]; searchMethod?:
 
       @if (showDropdown() && suggestions().length > 0) {
         <div class="suggestions-dropdown">
+          @if (incomplete()) {
+            <div class="offline-notice">Offline: cached terms only, results may be incomplete</div>
+          }
           @for (suggestion of suggestions(); track suggestion.iri) {
             <div
               class="suggestion-item"
@@ -106,7 +109,9 @@ const COLUMN_ONTOLOGY_MAP: Record<string, { ontologies: string[]; searchMethod?:
 
       @if (showDropdown() && !loading() && suggestions().length === 0 && inputValue().length >= 2) {
         <div class="suggestions-dropdown">
-          <div class="no-results">No results found</div>
+          <div class="no-results">
+            {{ incomplete() ? 'No cached terms found (offline, results may be incomplete)' : 'No results found' }}
+          </div>
         </div>
       }
 
@@ -217,6 +222,14 @@ const COLUMN_ONTOLOGY_MAP: Record<string, { ontologies: string[]; searchMethod?:
       line-height: 1.3;
     }
 
+    .offline-notice {
+      padding: 6px 12px;
+      background: #fff8e1;
+      border-bottom: 1px solid #ffe082;
+      color: #8d6e00;
+      font-size: 12px;
+    }
+
     .no-results {
       padding: 12px;
       text-align: center;
@@ -337,6 +350,8 @@ export class SdrfOntologyInputComponent implements OnInit, OnChanges {
   loading = signal(false);
   selectedIndex = signal(-1);
   searchAllOntologies = signal(false);
+  /** Whether the suggestions come from the offline cache */
+  incomplete = signal(false);
 
   constructor(private elementRef: ElementRef) {}
 
@@ -381,6 +396,8 @@ export class SdrfOntologyInputComponent implements OnInit, OnChanges {
         }
         break;
       case 'Escape':
+        // Only close the dropdown, not a surrounding editor
+        event.preventDefault();
         this.showDropdown.set(false);
         break;
     }
@@ -446,6 +463,7 @@ export class SdrfOntologyInputComponent implements OnInit, OnChanges {
 
     try {
       let results: OntologySuggestion[];
+      let incomplete = false;
 
       // If user wants to search all ontologies, ignore recommendations
       if (this.searchAllOntologies()) {
@@ -454,11 +472,13 @@ export class SdrfOntologyInputComponent implements OnInit, OnChanges {
           rows: 15,
         });
         results = response.suggestions;
+        incomplete = response.incomplete ?? false;
       }
       // Use specialized search method if available and using recommended ontologies
       else if (ontologyConfig.searchMethod) {
         const method = ontologyConfig.searchMethod as keyof DirectOlsService;
         results = await (this.olsService[method] as (q: string, l?: number) => Promise<OntologySuggestion[]>)(query, 10);
+        incomplete = this.olsService.isOffline();
       } else if (ontologyConfig.ontologies.length > 0) {
         const response = await this.olsService.search({
           query,
@@ -466,6 +486,7 @@ export class SdrfOntologyInputComponent implements OnInit, OnChanges {
           rows: 10,
         });
         results = response.suggestions;
+        incomplete = response.incomplete ?? false;
       } else {
         // No ontology restriction - search all
         const response = await this.olsService.search({
@@ -473,9 +494,11 @@ export class SdrfOntologyInputComponent implements OnInit, OnChanges {
           rows: 10,
         });
         results = response.suggestions;
+        incomplete = response.incomplete ?? false;
       }
 
       this.suggestions.set(results);
+      this.incomplete.set(incomplete);
       this.showDropdown.set(true);
     } catch (error) {
       console.error('Ontology search error:', error);
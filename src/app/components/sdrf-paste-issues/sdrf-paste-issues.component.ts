@@ -0,0 +1,97 @@
+/**
+ * SDRF Paste Issues Banner
+ *
+ * Lists pasted values that do not match the SDRF syntax of their column.
+ * Clicking an issue selects its cell.
+ */
+
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { PasteIssue } from '../../core/services/sdrf-clipboard.service';
+import { CellSelection } from '../../core/services/grid-selection';
+
+/** Issues listed before "… and N more" */
+const MAX_ISSUES_SHOWN = 20;
+
+@Component({
+  selector: 'sdrf-paste-issues',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    @if (issues.length > 0) {
+      <div class="paste-issues-banner">
+        <div class="paste-issues-header">
+          <span>{{ issues.length }} pasted value(s) do not match the expected SDRF syntax</span>
+          <button class="btn-close" (click)="close.emit()">×</button>
+        </div>
+        <ul class="paste-issues-list">
+          @for (issue of issues.slice(0, MAX_ISSUES_SHOWN); track $index) {
+            <li (click)="selectCell.emit({ row: issue.row, col: issue.col })">
+              Row {{ issue.row }}, {{ issue.column }}: "{{ issue.value }}" – {{ issue.errors.join('; ') }}
+            </li>
+          }
+        </ul>
+        @if (issues.length > MAX_ISSUES_SHOWN) {
+          <div class="paste-issues-more">… and {{ issues.length - MAX_ISSUES_SHOWN }} more</div>
+        }
+      </div>
+    }
+  `,
+  styles: [`
+    .paste-issues-banner {
+      padding: 8px 16px;
+      background: #fff3e0;
+      color: #e65100;
+      border-bottom: 1px solid #ffb74d;
+      font-size: 13px;
+    }
+
+    .paste-issues-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      font-weight: 500;
+    }
+
+    .btn-close {
+      background: none;
+      border: none;
+      font-size: 20px;
+      cursor: pointer;
+      padding: 0 4px;
+    }
+
+    .paste-issues-list {
+      margin: 4px 0 0;
+      padding-left: 20px;
+      max-height: 120px;
+      overflow-y: auto;
+    }
+
+    .paste-issues-list li {
+      cursor: pointer;
+    }
+
+    .paste-issues-list li:hover {
+      text-decoration: underline;
+    }
+
+    .paste-issues-more {
+      margin-top: 4px;
+      color: #9a3412;
+    }
+  `],
+})
+export class SdrfPasteIssuesComponent {
+  readonly MAX_ISSUES_SHOWN = MAX_ISSUES_SHOWN;
+
+  /** Issues of the last paste */
+  @Input() issues: PasteIssue[] = [];
+
+  /** Emitted when the banner is dismissed */
+  @Output() close = new EventEmitter<void>();
+
+  /** Emitted when an issue is clicked, with its cell */
+  @Output() selectCell = new EventEmitter<CellSelection>();
+}
@@ -0,0 +1,181 @@
+/**
+ * SDRF Sort & Group Bar
+ *
+ * Edits the sort keys and the grouping column of the editor grid. Sort
+ * keys can also be added from the column headers (Shift+click).
+ */
+
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { SdrfColumn } from '../../core/models/sdrf-column';
+import { SortKey } from '../../core/utils/row-sort';
+
+@Component({
+  selector: 'sdrf-sort-group-bar',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="sort-group-bar">
+      <div class="sort-group-section">
+        <span class="sort-group-label">Sort by:</span>
+        @for (key of sortKeys; track key.column; let i = $index) {
+          <span class="sort-key-chip">
+            <span class="sort-key-order">{{ i + 1 }}.</span>
+            {{ columns[key.column].name }}
+            <button
+              class="sort-key-direction"
+              (click)="toggleSortKeyDirection(i)"
+              [title]="key.direction === 'asc' ? 'Ascending (click for descending)' : 'Descending (click for ascending)'"
+            >{{ key.direction === 'asc' ? '▲' : '▼' }}</button>
+            <button class="sort-key-remove" (click)="removeSortKey(i)" title="Remove sort key">×</button>
+          </span>
+        } @empty {
+          <span class="sort-group-hint">none (Shift+click headers to add keys)</span>
+        }
+        <select (change)="addSortKey(+$any($event.target).value); $any($event.target).value = '-1'">
+          <option value="-1">+ Add column...</option>
+          @for (column of columns; track $index; let colIdx = $index) {
+            @if (!isSortKey(colIdx)) {
+              <option [value]="colIdx">{{ column.name }}</option>
+            }
+          }
+        </select>
+        @if (sortKeys.length > 0) {
+          <button class="btn-link" (click)="sortKeysChange.emit([])">Clear sort</button>
+        }
+      </div>
+      <div class="sort-group-section">
+        <span class="sort-group-label">Group by:</span>
+        <select
+          [value]="groupByColumn ?? -1"
+          (change)="groupByColumnChange.emit(+$any($event.target).value < 0 ? null : +$any($event.target).value)"
+        >
+          <option value="-1">(no grouping)</option>
+          @for (column of columns; track $index; let colIdx = $index) {
+            <option [value]="colIdx" [selected]="groupByColumn === colIdx">{{ column.name }}</option>
+          }
+        </select>
+        @if (groupCount !== null) {
+          <span class="sort-group-hint">{{ groupCount }} groups</span>
+          <button class="btn-link" (click)="expandAll.emit()">Expand all</button>
+          <button class="btn-link" (click)="collapseAll.emit()">Collapse all</button>
+        }
+      </div>
+    </div>
+  `,
+  styles: [`
+    .sort-group-bar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px 24px;
+      padding: 8px 16px;
+      background: #f8f9fa;
+      border-bottom: 1px solid #ddd;
+      font-size: 13px;
+    }
+
+    .sort-group-section {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .sort-group-label {
+      font-weight: 500;
+      color: #374151;
+    }
+
+    .sort-group-hint {
+      color: #6b7280;
+    }
+
+    .sort-group-bar select {
+      padding: 3px 6px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      font-size: 13px;
+      max-width: 220px;
+    }
+
+    .sort-key-chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      padding: 2px 4px 2px 8px;
+      background: #e3f2fd;
+      border: 1px solid #90caf9;
+      border-radius: 12px;
+    }
+
+    .sort-key-order {
+      color: #1976d2;
+      font-weight: 600;
+    }
+
+    .sort-key-direction,
+    .sort-key-remove {
+      background: none;
+      border: none;
+      padding: 0 2px;
+      cursor: pointer;
+      color: #1976d2;
+      font-size: 12px;
+    }
+
+    .sort-key-remove {
+      color: #6b7280;
+      font-size: 14px;
+    }
+
+    .sort-group-bar .btn-link {
+      background: none;
+      border: none;
+      padding: 0;
+      color: #1976d2;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .sort-group-bar .btn-link:hover {
+      text-decoration: underline;
+    }
+  `],
+})
+export class SdrfSortGroupBarComponent {
+  @Input() columns: SdrfColumn[] = [];
+
+  /** Sort keys, primary first */
+  @Input() sortKeys: SortKey[] = [];
+
+  /** Column grouping the rows (null = no grouping) */
+  @Input() groupByColumn: number | null = null;
+
+  /** Number of row groups (null = no grouping) */
+  @Input() groupCount: number | null = null;
+
+  @Output() sortKeysChange = new EventEmitter<SortKey[]>();
+  @Output() groupByColumnChange = new EventEmitter<number | null>();
+  @Output() expandAll = new EventEmitter<void>();
+  @Output() collapseAll = new EventEmitter<void>();
+
+  isSortKey(columnIndex: number): boolean {
+    return this.sortKeys.some(k => k.column === columnIndex);
+  }
+
+  toggleSortKeyDirection(index: number): void {
+    this.sortKeysChange.emit(this.sortKeys.map((k, i) =>
+      i === index ? { ...k, direction: k.direction === 'asc' ? 'desc' : 'asc' } : k
+    ));
+  }
+
+  addSortKey(columnIndex: number): void {
+    if (columnIndex < 0 || this.isSortKey(columnIndex)) return;
+    this.sortKeysChange.emit([...this.sortKeys, { column: columnIndex, direction: 'asc' }]);
+  }
+
+  removeSortKey(index: number): void {
+    this.sortKeysChange.emit(this.sortKeys.filter((_, i) => i !== index));
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * SDRF Split Component
+ *
+ * Dialog for splitting the current table into several SDRF files, either
+ * by the values of a column (e.g. instrument, factor value) or by the
+ * active filter conditions. Outputs download as a zip of TSV files.
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  OnInit,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { SdrfTable } from '../../core/models/sdrf-table';
+import {
+  SdrfSplitService,
+  sdrfSplitService,
+  SplitGroup,
+} from '../../core/services/sdrf-split.service';
+import {
+  FilterGroup,
+  CellErrorIndex,
+  countFilterConditions,
+  createRowPredicate,
+  describeFilter,
+} from '../../core/utils/row-filter';
+
+type SplitMode = 'column' | 'filters';
+
+/** Column names suggested first in the column picker */
+const SUGGESTED_SPLIT_COLUMNS = ['comment[instrument]', 'comment[proteomexchange accession number]'];
+
+@Component({
+  selector: 'sdrf-split',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="split-overlay">
+      <div class="split-container">
+        <div class="split-header">
+          <h2>Split SDRF</h2>
+          <button class="btn-close" (click)="cancel.emit()" title="Close">&times;</button>
+        </div>
+
+        <div class="split-body">
+          <div class="mode-select">
+            <label>
+              <input type="radio" name="split-mode" [checked]="mode() === 'column'" (change)="mode.set('column')" />
+              By column value
+            </label>
+            <label [class.disabled]="filterCount === 0" [title]="filterCount === 0 ? 'No active filters' : ''">
+              <input
+                type="radio"
+                name="split-mode"
+                [checked]="mode() === 'filters'"
+                [disabled]="filterCount === 0"
+                (change)="mode.set('filters')"
+              />
+              By active filters ({{ filterCount }})
+            </label>
+          </div>
+
+          @if (mode() === 'column') {
+            <label class="field">
+              Column
+              <select [value]="columnIndex()" (change)="columnIndex.set(+$any($event.target).value)">
+                @for (col of columnOptions(); track col.index) {
+                  <option [value]="col.index">{{ col.name }} ({{ col.distinct }} values)</option>
+                }
+              </select>
+            </label>
+          } @else {
+            <div class="filter-description">{{ filterDescription }}</div>
+            <label class="checkbox">
+              <input type="checkbox" [checked]="includeRest()" (change)="includeRest.set(!includeRest())" />
+              Also write the rows that do not match
+            </label>
+          }
+
+          <div class="section-title">{{ groups().length }} file(s)</div>
+          @if (groups().length > MAX_PREVIEW_GROUPS) {
+            <div class="warning">
+              This creates {{ groups().length }} files; check that the chosen column is a grouping column.
+            </div>
+          }
+          <ul class="group-list">
+            @for (output of previewOutputs(); track output.filename) {
+              <li class="group-item">
+                <span class="group-name" [title]="output.group.name">{{ output.filename }}</span>
+                <span class="group-meta">
+                  {{ output.table.sampleCount }} samples, {{ output.table.columns.length }} columns,
+                  {{ output.table.pools.length }} pools
+                </span>
+                @if (output.droppedColumns.length > 0) {
+                  <span class="group-dropped" [title]="output.droppedColumns.join(', ')">
+                    −{{ output.droppedColumns.length }} empty columns
+                  </span>
+                }
+              </li>
+            }
+          </ul>
+          @if (groups().length > previewOutputs().length) {
+            <div class="status">… and {{ groups().length - previewOutputs().length }} more</div>
+          }
+        </div>
+
+        <div class="split-footer">
+          <button class="btn btn-secondary" (click)="cancel.emit()">Cancel</button>
+          <button class="btn btn-primary" (click)="download()" [disabled]="groups().length === 0 || downloading()">
+            {{ downloading() ? 'Preparing…' : 'Download ZIP' }}
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .split-overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+
+    .split-container {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 25px 80px rgba(0, 0, 0, 0.3);
+      width: 95%;
+      max-width: 700px;
+      max-height: 90vh;
+      display: flex;
+      flex-direction: column;
+    }
+
+    .split-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 16px 24px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .split-header h2 {
+      margin: 0;
+      font-size: 20px;
+      color: #111827;
+    }
+
+    .btn-close {
+      background: none;
+      border: none;
+      font-size: 24px;
+      cursor: pointer;
+      color: #6b7280;
+    }
+
+    .split-body {
+      flex: 1;
+      overflow-y: auto;
+      padding: 16px 24px;
+      font-size: 13px;
+      color: #374151;
+    }
+
+    .split-footer {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      padding: 12px 24px;
+      border-top: 1px solid #e5e7eb;
+    }
+
+    .mode-select {
+      display: flex;
+      gap: 16px;
+      margin-bottom: 12px;
+    }
+
+    .mode-select label,
+    .checkbox {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
+    .mode-select label.disabled {
+      color: #9ca3af;
+    }
+
+    .field {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .field select {
+      padding: 6px 8px;
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+      font-size: 13px;
+    }
+
+    .filter-description {
+      margin-bottom: 8px;
+      padding: 6px 10px;
+      background: #f8f9fa;
+      border-radius: 4px;
+      font-family: monospace;
+    }
+
+    .section-title {
+      font-size: 12px;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: #6b7280;
+      margin: 16px 0 8px;
+    }
+
+    .group-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .group-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 10px;
+      background: #f8f9fa;
+      border: 1px solid #e0e0e0;
+      border-radius: 4px;
+    }
+
+    .group-name {
+      flex: 1;
+      min-width: 0;
+      font-weight: 500;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .group-meta,
+    .status {
+      color: #6b7280;
+      font-size: 12px;
+    }
+
+    .group-dropped {
+      color: #92400e;
+      font-size: 12px;
+    }
+
+    .warning {
+      margin-bottom: 8px;
+      padding: 6px 10px;
+      border-radius: 4px;
+      background: #fef3c7;
+      color: #92400e;
+      font-size: 12px;
+    }
+
+    .btn {
+      padding: 6px 12px;
+      border: none;
+      border-radius: 4px;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .btn-primary {
+      background: #2196f3;
+      color: white;
+    }
+
+    .btn-primary:hover:not(:disabled) {
+      background: #1976d2;
+    }
+
+    .btn-secondary {
+      background: #f5f5f5;
+      color: #374151;
+      border: 1px solid #ccc;
+    }
+
+    .btn-secondary:hover:not(:disabled) {
+      background: #e0e0e0;
+    }
+
+    .btn:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `],
+})
+export class SdrfSplitComponent implements OnInit {
+  @Input({ required: true }) table!: SdrfTable;
+
+  /** Name of the current file, used for output names */
+  @Input() fileName = 'sdrf.tsv';
+
+  /** Active filter from the filter bar */
+  @Input() filter: FilterGroup | null = null;
+
+  /** Rows with validation errors, for "has validation error" conditions */
+  @Input() errorIndex: CellErrorIndex | null = null;
+
+  @Output() cancel = new EventEmitter<void>();
+
+  readonly MAX_PREVIEW_GROUPS = 50;
+
+  private splitService: SdrfSplitService = sdrfSplitService;
+
+  mode = signal<SplitMode>('column');
+  columnIndex = signal(0);
+  includeRest = signal(true);
+  downloading = signal(false);
+
+  columnOptions = computed(() =>
+    this.table.columns.map((column, index) => ({
+      index,
+      name: column.name,
+      distinct: new Set([column.value, ...column.modifiers.map((m) => m.value)]).size,
+    }))
+  );
+
+  groups = computed((): SplitGroup[] => {
+    if (this.mode() === 'column') {
+      return this.splitService.groupByColumn(this.table, this.columnIndex());
+    }
+
+    if (!this.filter) return [];
+    return this.splitService.groupByPredicate(
+      this.table,
+      createRowPredicate(this.table, this.filter, this.errorIndex),
+      { matching: 'filtered', rest: this.includeRest() ? 'rest' : undefined }
+    );
+  });
+
+  /** Outputs of the first groups (all outputs are only built on download) */
+  previewOutputs = computed(() =>
+    this.splitService.split(this.table, this.groups().slice(0, this.MAX_PREVIEW_GROUPS), this.baseName())
+  );
+
+  ngOnInit(): void {
+    this.columnIndex.set(this.defaultColumnIndex());
+  }
+
+  get filterCount(): number {
+    return this.filter ? countFilterConditions(this.filter) : 0;
+  }
+
+  get filterDescription(): string {
+    return this.filter ? describeFilter(this.filter) : '';
+  }
+
+  async download(): Promise<void> {
+    this.downloading.set(true);
+    try {
+      const outputs = this.splitService.split(this.table, this.groups(), this.baseName());
+      await this.splitService.downloadZip(outputs, `${this.baseName()}-split.zip`);
+    } finally {
+      this.downloading.set(false);
+    }
+  }
+
+  private baseName(): string {
+    return this.fileName.replace(/(\.sdrf)?\.[^.]+$/i, '') || 'sdrf';
+  }
+
+  /**
+   * Prefers an instrument or PXD column, then the first factor value.
+   */
+  private defaultColumnIndex(): number {
+    const names = this.table.columns.map((c) => c.name.toLowerCase());
+    for (const suggested of SUGGESTED_SPLIT_COLUMNS) {
+      const index = names.indexOf(suggested);
+      if (index >= 0) return index;
+    }
+    const factor = this.table.columns.findIndex((c) => c.type === 'factor_value');
+    return factor >= 0 ? factor : 0;
+  }
+}
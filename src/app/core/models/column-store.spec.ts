@@ -0,0 +1,154 @@
+import {
+  createColumnStore,
+  createColumnStoreFromValues,
+  getColumnStore,
+  invalidateColumnStore,
+  getStoreValue,
+  expandColumnStore,
+  columnStoreToModifiers,
+  insertSamplesIntoStore,
+  removeSamplesFromStore,
+} from './column-store';
+import { Modifier, SdrfColumn, createEmptyColumn } from './sdrf-column';
+
+function column(value: string, modifiers: Modifier[]): SdrfColumn {
+  return { ...createEmptyColumn('characteristics[organism]', 'characteristics', 0), value, modifiers };
+}
+
+describe('column-store', () => {
+  describe('createColumnStore', () => {
+    it('reads the default value and modifier ranges', () => {
+      const store = createColumnStore(
+        column('homo sapiens', [
+          { samples: '2-3', value: 'mus musculus' },
+          { samples: '5', value: 'rattus norvegicus' },
+        ]),
+        5
+      );
+
+      expect(expandColumnStore(store, 5)).toEqual([
+        'homo sapiens',
+        'mus musculus',
+        'mus musculus',
+        'homo sapiens',
+        'rattus norvegicus',
+      ]);
+      expect(store.dictionary).toEqual(['homo sapiens', 'mus musculus', 'rattus norvegicus']);
+    });
+
+    it('lets the first modifier win on overlapping samples', () => {
+      const store = createColumnStore(
+        column('a', [
+          { samples: '2', value: 'first' },
+          { samples: '1-3', value: 'second' },
+        ]),
+        3
+      );
+
+      expect(expandColumnStore(store, 3)).toEqual(['second', 'first', 'second']);
+    });
+
+    it('truncates ranges to sampleCount and skips invalid ranges', () => {
+      const store = createColumnStore(
+        column('a', [
+          { samples: '2-10', value: 'b' },
+          { samples: 'x,0', value: 'c' },
+        ]),
+        3
+      );
+
+      expect(store.indices.length).toBe(3);
+      expect(expandColumnStore(store, 3)).toEqual(['a', 'b', 'b']);
+      expect(store.dictionary).toEqual(['a', 'b']);
+    });
+
+    it('covers up to the highest referenced sample without sampleCount', () => {
+      const store = createColumnStore(column('a', [{ samples: '4', value: 'b' }]));
+
+      expect(store.indices).toEqual([0, 0, 0, 1]);
+    });
+  });
+
+  describe('createColumnStoreFromValues', () => {
+    it('uses the most common value as default', () => {
+      const store = createColumnStoreFromValues(['x', 'y', 'y', 'z']);
+
+      expect(store.dictionary[0]).toBe('y');
+      expect(expandColumnStore(store, 4)).toEqual(['x', 'y', 'y', 'z']);
+    });
+
+    it('accepts an explicit default', () => {
+      const store = createColumnStoreFromValues(['x', 'y', 'y'], 'x');
+
+      expect(store.dictionary).toEqual(['x', 'y']);
+      expect(store.indices).toEqual([0, 1, 1]);
+    });
+  });
+
+  describe('getStoreValue', () => {
+    it('returns the default past the end of the store', () => {
+      const store = createColumnStoreFromValues(['a', 'b'], 'a');
+
+      expect(getStoreValue(store, 2)).toBe('b');
+      expect(getStoreValue(store, 5)).toBe('a');
+    });
+  });
+
+  describe('columnStoreToModifiers', () => {
+    it('round-trips with createColumnStore', () => {
+      const original = column('a', [
+        { samples: '1-3,7', value: 'b' },
+        { samples: '5', value: 'c' },
+      ]);
+      const result = columnStoreToModifiers(createColumnStore(original, 8));
+
+      expect(result.value).toBe('a');
+      expect(result.modifiers).toEqual([
+        { samples: '1-3,7', value: 'b' },
+        { samples: '5', value: 'c' },
+      ]);
+    });
+  });
+
+  describe('getColumnStore', () => {
+    it('caches per column until its modifiers are replaced', () => {
+      const col = column('a', [{ samples: '2', value: 'b' }]);
+      const store = getColumnStore(col);
+
+      expect(getColumnStore(col)).toBe(store);
+
+      col.modifiers = [{ samples: '3', value: 'c' }];
+      expect(getStoreValue(getColumnStore(col), 3)).toBe('c');
+    });
+
+    it('rebuilds after invalidateColumnStore', () => {
+      const col = column('a', [{ samples: '2', value: 'b' }]);
+      getColumnStore(col);
+
+      col.modifiers[0].value = 'changed';
+      invalidateColumnStore(col);
+
+      expect(getStoreValue(getColumnStore(col), 2)).toBe('changed');
+    });
+  });
+
+  describe('insertSamplesIntoStore', () => {
+    it('inserts values before a sample, adding new ones to the dictionary', () => {
+      const store = createColumnStoreFromValues(['a', 'b', 'a'], 'a');
+      const result = insertSamplesIntoStore(store, 3, 2, ['c', 'b']);
+
+      expect(expandColumnStore(result, 5)).toEqual(['a', 'c', 'b', 'b', 'a']);
+      expect(store.indices.length).toBe(3);
+    });
+  });
+
+  describe('removeSamplesFromStore', () => {
+    it('removes samples and drops unused dictionary entries', () => {
+      const store = createColumnStoreFromValues(['a', 'b', 'c', 'a'], 'a');
+      const result = removeSamplesFromStore(store, 4, new Set([2]));
+
+      expect(expandColumnStore(result, 3)).toEqual(['a', 'c', 'a']);
+      expect(result.dictionary).toEqual(['a', 'c']);
+    });
+  });
+});
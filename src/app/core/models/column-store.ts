@@ -0,0 +1,303 @@
+/**
+ * Columnar Value Storage
+ *
+ * Indexed representation of a column's per-sample values: an interned
+ * dictionary of distinct values plus one dictionary index per sample.
+ * Reads are O(1) instead of re-parsing modifier range strings on every
+ * lookup. The store is plain JSON data and converts losslessly to and
+ * from the default value + modifiers form used by parsing and export.
+ */
+
+import type { Modifier, SdrfColumn } from './sdrf-column';
+import { encodeSampleRange } from '../utils/sample-range';
+
+/**
+ * Dictionary-encoded column values.
+ */
+export interface ColumnValueStore {
+  /** Distinct values; index 0 is always the column default */
+  dictionary: string[];
+
+  /** Dictionary index per sample (position 0 holds sample 1) */
+  indices: number[];
+}
+
+/**
+ * Cached store for a column, with the references it was built from.
+ */
+interface CachedStore {
+  value: string;
+  modifiers: Modifier[];
+  modifierCount: number;
+  store: ColumnValueStore;
+}
+
+const storeCache = new WeakMap<SdrfColumn, CachedStore>();
+
+/**
+ * Builds a value store from a column's default value and modifiers.
+ * When a sample is covered by several modifiers, the first one wins
+ * (same precedence as getValueForSample).
+ *
+ * @param column Column (or any default value + modifiers pair)
+ * @param sampleCount Pads/truncates the store to this many samples.
+ *   Without it, the store covers up to the highest referenced sample.
+ */
+export function createColumnStore(
+  column: Pick<SdrfColumn, 'value' | 'modifiers'>,
+  sampleCount?: number
+): ColumnValueStore {
+  const dictionary = [column.value];
+  const lookup = new Map<string, number>([[column.value, 0]]);
+  const indices: number[] = sampleCount !== undefined ? new Array(sampleCount).fill(0) : [];
+
+  // Apply modifiers last-to-first so earlier modifiers take precedence
+  for (let m = column.modifiers.length - 1; m >= 0; m--) {
+    const modifier = column.modifiers[m];
+
+    let index = lookup.get(modifier.value);
+    if (index === undefined) {
+      index = dictionary.length;
+      dictionary.push(modifier.value);
+      lookup.set(modifier.value, index);
+    }
+
+    for (const part of modifier.samples.split(',')) {
+      const trimmed = part.trim();
+      if (!trimmed) continue;
+
+      let start: number;
+      let end: number;
+      if (trimmed.includes('-')) {
+        [start, end] = trimmed.split('-').map(Number);
+      } else {
+        start = end = Number(trimmed);
+      }
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1) continue;
+      if (sampleCount !== undefined) {
+        end = Math.min(end, sampleCount);
+      }
+
+      for (let sample = start; sample <= end; sample++) {
+        indices[sample - 1] = index;
+      }
+    }
+  }
+
+  // Fill holes left when extending past the end without a sampleCount
+  for (let i = 0; i < indices.length; i++) {
+    if (indices[i] === undefined) indices[i] = 0;
+  }
+
+  // Modifiers are applied in reverse, so restore first-appearance order
+  return compactDictionary(dictionary, indices);
+}
+
+/**
+ * Builds a value store from a per-sample value array (0-indexed).
+ *
+ * @param defaultValue Value stored at dictionary index 0
+ *   (defaults to the most common value)
+ */
+export function createColumnStoreFromValues(
+  values: string[],
+  defaultValue: string = mostCommonValue(values)
+): ColumnValueStore {
+  const dictionary = [defaultValue];
+  const lookup = new Map<string, number>([[defaultValue, 0]]);
+  const indices = new Array<number>(values.length);
+
+  for (let i = 0; i < values.length; i++) {
+    let index = lookup.get(values[i]);
+    if (index === undefined) {
+      index = dictionary.length;
+      dictionary.push(values[i]);
+      lookup.set(values[i], index);
+    }
+    indices[i] = index;
+  }
+
+  return { dictionary, indices };
+}
+
+/**
+ * Gets the cached value store for a column, building it on first use.
+ * The cache is keyed by the column object and is rebuilt when the
+ * column's value or modifiers array is replaced. Code that mutates
+ * modifiers in place must call invalidateColumnStore().
+ */
+export function getColumnStore(column: SdrfColumn): ColumnValueStore {
+  const cached = storeCache.get(column);
+  if (
+    cached &&
+    cached.value === column.value &&
+    cached.modifiers === column.modifiers &&
+    cached.modifierCount === column.modifiers.length
+  ) {
+    return cached.store;
+  }
+
+  const store = createColumnStore(column);
+  storeCache.set(column, {
+    value: column.value,
+    modifiers: column.modifiers,
+    modifierCount: column.modifiers.length,
+    store,
+  });
+  return store;
+}
+
+/**
+ * Drops the cached value store for a column after an in-place mutation.
+ */
+export function invalidateColumnStore(column: SdrfColumn): void {
+  storeCache.delete(column);
+}
+
+/**
+ * Reads the value for a sample (1-based). Samples past the end of the
+ * store have the default value.
+ */
+export function getStoreValue(store: ColumnValueStore, sampleIndex: number): string {
+  return store.dictionary[store.indices[sampleIndex - 1] ?? 0];
+}
+
+/**
+ * Expands a store to one value per sample (0-indexed).
+ */
+export function expandColumnStore(store: ColumnValueStore, sampleCount: number): string[] {
+  const values = new Array<string>(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    values[i] = store.dictionary[store.indices[i] ?? 0];
+  }
+  return values;
+}
+
+/**
+ * Converts a store back to the default value + modifiers form.
+ * Modifiers are emitted per distinct non-default value, in order of
+ * first appearance, with compact range strings.
+ */
+export function columnStoreToModifiers(
+  store: ColumnValueStore
+): { value: string; modifiers: Modifier[] } {
+  const samplesByIndex = new Map<number, number[]>();
+
+  for (let i = 0; i < store.indices.length; i++) {
+    const index = store.indices[i];
+    if (index === 0) continue;
+
+    let samples = samplesByIndex.get(index);
+    if (!samples) {
+      samples = [];
+      samplesByIndex.set(index, samples);
+    }
+    samples.push(i + 1);
+  }
+
+  const modifiers: Modifier[] = [];
+  for (const [index, samples] of samplesByIndex) {
+    modifiers.push({
+      samples: encodeSampleRange(samples),
+      value: store.dictionary[index],
+    });
+  }
+
+  return { value: store.dictionary[0], modifiers };
+}
+
+/**
+ * Returns a new store with values inserted before a sample.
+ *
+ * @param position 1-based sample the new values are inserted before
+ * @param values Values for the inserted samples
+ */
+export function insertSamplesIntoStore(
+  store: ColumnValueStore,
+  sampleCount: number,
+  position: number,
+  values: string[]
+): ColumnValueStore {
+  const dictionary = [...store.dictionary];
+  const lookup = new Map<string, number>(dictionary.map((value, index) => [value, index]));
+
+  const inserted = values.map((value) => {
+    let index = lookup.get(value);
+    if (index === undefined) {
+      index = dictionary.length;
+      dictionary.push(value);
+      lookup.set(value, index);
+    }
+    return index;
+  });
+
+  const indices = padIndices(store, sampleCount);
+  indices.splice(position - 1, 0, ...inserted);
+
+  return { dictionary, indices };
+}
+
+/**
+ * Returns a new store without the given samples (1-based); later
+ * samples shift up.
+ */
+export function removeSamplesFromStore(
+  store: ColumnValueStore,
+  sampleCount: number,
+  samples: Set<number>
+): ColumnValueStore {
+  const indices = padIndices(store, sampleCount).filter((_, i) => !samples.has(i + 1));
+  return compactDictionary([...store.dictionary], indices);
+}
+
+/**
+ * Copies a store's indices, padded or truncated to sampleCount.
+ */
+function padIndices(store: ColumnValueStore, sampleCount: number): number[] {
+  const indices = new Array<number>(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    indices[i] = store.indices[i] ?? 0;
+  }
+  return indices;
+}
+
+/**
+ * Most common value of an array (first one wins on ties).
+ */
+function mostCommonValue(values: string[]): string {
+  const counts = new Map<string, number>();
+  let best = '';
+  let bestCount = 0;
+
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Renumbers dictionary entries in order of first use (default first)
+ * and drops entries no sample refers to.
+ */
+function compactDictionary(dictionary: string[], indices: number[]): ColumnValueStore {
+  const remap = new Array<number>(dictionary.length).fill(-1);
+  const compacted = [dictionary[0]];
+  remap[0] = 0;
+
+  for (let i = 0; i < indices.length; i++) {
+    const old = indices[i];
+    if (remap[old] === -1) {
+      remap[old] = compacted.length;
+      compacted.push(dictionary[old]);
+    }
+    indices[i] = remap[old];
+  }
+
+  return { dictionary: compacted, indices };
+}
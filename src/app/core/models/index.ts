@@ -3,6 +3,7 @@
  */
 
 export * from './sdrf-column';
+export * from './column-store';
 export * from './sdrf-table';
 export * from './sdrf-config';
 export * from './ontology';
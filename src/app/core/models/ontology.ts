@@ -46,6 +46,15 @@ export interface OntologySuggestion {
 
   /** Whether this is an exact match */
   isExactMatch?: boolean;
+
+  /** Whether the term is obsolete */
+  isObsolete?: boolean;
+
+  /** IRI or accession of the term replacing an obsolete one */
+  replacedBy?: string;
+
+  /** Accessions of the parent terms (is_a) */
+  parents?: string[];
 }
 
 /**
@@ -66,6 +75,9 @@ export interface OntologySearchParams {
 
   /** Maximum number of results */
   rows?: number;
+
+  /** Whether to include obsolete terms */
+  obsoletes?: boolean;
 }
 
 /**
@@ -86,6 +98,21 @@ export interface OntologySearchResponse {
 
   /** Ontologies searched */
   ontologies: string[];
+
+  /** Whether the results come from the offline cache and may be incomplete */
+  incomplete?: boolean;
+}
+
+/**
+ * Local source of ontology terms that DirectOlsService falls back to when
+ * OLS cannot be used (offline mode, network errors), e.g. bundled snapshots.
+ */
+export interface OntologySearchBackend {
+  /** Searches terms; `params.ontology` restricts the ontologies */
+  search(params: OntologySearchParams): Promise<OntologySuggestion[]>;
+
+  /** Gets a term by accession (e.g. MS:1000449) or IRI */
+  getTerm(idOrIri: string): Promise<OntologySuggestion | null>;
 }
 
 /**
@@ -117,6 +144,30 @@ export interface UnimodEntry {
   specifications: UnimodSpecification[];
 }
 
+/**
+ * Search by mass shift, e.g. "+42.0106 ± 0.01 Da on K".
+ */
+export interface UnimodMassQuery {
+  /** Delta monoisotopic mass (Da) */
+  mass: number;
+
+  /** Allowed difference (Da) */
+  tolerance: number;
+
+  /** Target site or position (e.g., "K", "N-term", "Protein N-term") */
+  site?: string;
+}
+
+/**
+ * Unimod entry matching a mass shift search.
+ */
+export interface UnimodMassMatch {
+  entry: UnimodEntry;
+
+  /** Searched mass minus the entry's delta monoisotopic mass (Da) */
+  massError: number;
+}
+
 /**
  * Unimod specification for a modification.
  */
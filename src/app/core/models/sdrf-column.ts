@@ -5,6 +5,8 @@
  * for sample-specific value overrides.
  */
 
+import { getColumnStore, getStoreValue } from './column-store';
+
 /**
  * Column types in SDRF format
  */
@@ -89,16 +91,11 @@ export function createEmptyColumn(
 
 /**
  * Gets the value for a specific sample index from a column.
- * Checks modifiers first, then falls back to default value.
+ * Modifiers take precedence over the default value; reads go through
+ * the column's cached value store (see column-store.ts).
  */
 export function getValueForSample(column: SdrfColumn, sampleIndex: number): string {
-  // Check modifiers first
-  for (const modifier of column.modifiers) {
-    if (isSampleInRange(sampleIndex, modifier.samples)) {
-      return modifier.value;
-    }
-  }
-  return column.value;
+  return getStoreValue(getColumnStore(column), sampleIndex);
 }
 
 /**
@@ -5,6 +5,7 @@
  */
 
 import { SdrfColumn } from './sdrf-column';
+import { getColumnStore } from './column-store';
 
 /**
  * Represents a pool of samples in SDRF.
@@ -114,23 +115,15 @@ export function getUniqueValuesForColumn(
  * Returns a 2D array where each row is a sample.
  */
 export function getTableDataMatrix(table: SdrfTable): string[][] {
+  const stores = table.columns.map((column) => getColumnStore(column));
   const matrix: string[][] = [];
 
-  for (let sampleIndex = 1; sampleIndex <= table.sampleCount; sampleIndex++) {
-    const row: string[] = [];
+  for (let i = 0; i < table.sampleCount; i++) {
+    const row = new Array<string>(stores.length);
 
-    for (const column of table.columns) {
-      let value = column.value;
-
-      // Check modifiers for sample-specific value
-      for (const modifier of column.modifiers) {
-        if (isSampleInModifierRange(sampleIndex, modifier.samples)) {
-          value = modifier.value;
-          break;
-        }
-      }
-
-      row.push(value);
+    for (let c = 0; c < stores.length; c++) {
+      const store = stores[c];
+      row[c] = store.dictionary[store.indices[i] ?? 0];
     }
 
     matrix.push(row);
@@ -139,29 +132,6 @@ export function getTableDataMatrix(table: SdrfTable): string[][] {
   return matrix;
 }
 
-/**
- * Helper to check if sample is in modifier range.
- */
-function isSampleInModifierRange(sampleIndex: number, rangeString: string): boolean {
-  const parts = rangeString.split(',');
-
-  for (const part of parts) {
-    const trimmed = part.trim();
-    if (trimmed.includes('-')) {
-      const [start, end] = trimmed.split('-').map(Number);
-      if (sampleIndex >= start && sampleIndex <= end) {
-        return true;
-      }
-    } else {
-      if (sampleIndex === Number(trimmed)) {
-        return true;
-      }
-    }
-  }
-
-  return false;
-}
-
 /**
  * Finds a column by name (case-insensitive).
  */
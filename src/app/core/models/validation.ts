@@ -15,6 +15,7 @@ export type ValidationSeverity = 'error' | 'warning' | 'info';
 export type ValidationErrorCode =
   // Required column errors
   | 'MISSING_REQUIRED_COLUMN'
+  | 'MISSING_RECOMMENDED_COLUMN'
   | 'EMPTY_REQUIRED_VALUE'
 
   // Format errors
@@ -25,15 +26,35 @@ export type ValidationErrorCode =
   | 'INVALID_CLEAVAGE_FORMAT'
   | 'INVALID_PATTERN'
 
+  // Modification errors
+  | 'MODIFICATION_NAME_MISMATCH'
+  | 'MODIFICATION_SITE_MISMATCH'
+  | 'MODIFICATION_MASS_MISMATCH'
+  | 'INVALID_MODIFICATION_TYPE'
+
+  // Template value errors
+  | 'INVALID_VALUE'
+  | 'RESERVED_VALUE_NOT_ALLOWED'
+
   // Ontology errors
   | 'ONTOLOGY_TERM_NOT_FOUND'
   | 'INVALID_ONTOLOGY_ACCESSION'
+  | 'ONTOLOGY_LABEL_MISMATCH'
+  | 'OBSOLETE_ONTOLOGY_TERM'
 
   // Structure errors
   | 'DUPLICATE_COLUMN_NAME'
   | 'INVALID_COLUMN_ORDER'
+  | 'INVALID_CARDINALITY'
+  | 'DUPLICATE_COLUMN_COMBINATION'
   | 'MISSING_DATA_FILE'
 
+  // Row identity errors
+  | 'DUPLICATE_ROW_KEY'
+  | 'ASSAY_NAME_FILE_CONFLICT'
+  | 'DATA_FILE_FRACTION_CONFLICT'
+  | 'SOURCE_CHARACTERISTICS_CONFLICT'
+
   // Pool errors
   | 'INVALID_POOL_REFERENCE'
   | 'POOL_SAMPLE_NOT_FOUND'
@@ -46,6 +67,13 @@ export type ValidationErrorCode =
   | 'FACTOR_CHARACTERISTIC_MISMATCH'
   | 'FACTOR_MISSING_CHARACTERISTIC'
 
+  // Multiplexing errors
+  | 'MULTIPLEX_CHANNEL_MISSING'
+  | 'MULTIPLEX_DUPLICATE_CHANNEL'
+  | 'MULTIPLEX_LABEL_MISMATCH'
+  | 'MULTIPLEX_MODIFICATION_MISSING'
+  | 'LABEL_FREE_LABEL_MISSING'
+
   // General
   | 'UNKNOWN_ERROR';
 
@@ -71,11 +99,17 @@ export interface ValidationError {
   /** Sample/row index (1-based) */
   row?: number;
 
+  /** All rows involved (1-based), e.g. every row sharing a duplicated key */
+  rows?: number[];
+
   /** The problematic value */
   value?: string;
 
   /** Suggested fix */
   suggestion?: string;
+
+  /** Corrected value replacing `value`, when the fix is unambiguous */
+  fix?: string;
 }
 
 /**
@@ -147,6 +181,24 @@ export interface ValidationOptions {
   schema?: string;
 }
 
+/**
+ * Phases of a full validation run, in order.
+ */
+export type ValidationPhase = 'structure' | 'columns' | 'ontology';
+
+/**
+ * Progress of a validation run.
+ */
+export interface ValidationProgress {
+  phase: ValidationPhase;
+
+  /** Steps done in the phase (one per column in the columns and ontology phases) */
+  completed: number;
+
+  /** Steps in the phase */
+  total: number;
+}
+
 /**
  * Creates an empty validation result.
  */
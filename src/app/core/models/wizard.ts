@@ -141,7 +141,8 @@ export interface WizardSampleEntry {
  */
 export type LabelType =
   | 'label free sample'
-  | 'TMT126' | 'TMT127N' | 'TMT127C' | 'TMT128N' | 'TMT128C' | 'TMT129N' | 'TMT129C' | 'TMT130N' | 'TMT130C' | 'TMT131' | 'TMT131C' | 'TMT132N' | 'TMT132C' | 'TMT133N' | 'TMT133C' | 'TMT134N' | 'TMT134C' | 'TMT135N'
+  | 'TMT126' | 'TMT127' | 'TMT128' | 'TMT129' | 'TMT130'
+  | 'TMT127N' | 'TMT127C' | 'TMT128N' | 'TMT128C' | 'TMT129N' | 'TMT129C' | 'TMT130N' | 'TMT130C' | 'TMT131' | 'TMT131C' | 'TMT132N' | 'TMT132C' | 'TMT133N' | 'TMT133C' | 'TMT134N' | 'TMT134C' | 'TMT135N'
   | 'iTRAQ4plex-114' | 'iTRAQ4plex-115' | 'iTRAQ4plex-116' | 'iTRAQ4plex-117'
   | 'iTRAQ8plex-113' | 'iTRAQ8plex-114' | 'iTRAQ8plex-115' | 'iTRAQ8plex-116' | 'iTRAQ8plex-117' | 'iTRAQ8plex-118' | 'iTRAQ8plex-119' | 'iTRAQ8plex-121'
   | 'SILAC light' | 'SILAC medium' | 'SILAC heavy'
@@ -161,14 +162,15 @@ export interface LabelPlexConfig {
  */
 export const LABEL_CONFIGS: LabelPlexConfig[] = [
   { id: 'lf', name: 'Label-free (LFQ)', labels: ['label free sample'] },
-  { id: 'tmt6', name: 'TMT 6-plex', labels: ['TMT126', 'TMT127N', 'TMT127C', 'TMT128N', 'TMT128C', 'TMT129N'] },
+  { id: 'tmt6', name: 'TMT 6-plex', labels: ['TMT126', 'TMT127', 'TMT128', 'TMT129', 'TMT130', 'TMT131'] },
   { id: 'tmt10', name: 'TMT 10-plex', labels: ['TMT126', 'TMT127N', 'TMT127C', 'TMT128N', 'TMT128C', 'TMT129N', 'TMT129C', 'TMT130N', 'TMT130C', 'TMT131'] },
   { id: 'tmt11', name: 'TMT 11-plex', labels: ['TMT126', 'TMT127N', 'TMT127C', 'TMT128N', 'TMT128C', 'TMT129N', 'TMT129C', 'TMT130N', 'TMT130C', 'TMT131', 'TMT131C'] },
   { id: 'tmt16', name: 'TMT 16-plex', labels: ['TMT126', 'TMT127N', 'TMT127C', 'TMT128N', 'TMT128C', 'TMT129N', 'TMT129C', 'TMT130N', 'TMT130C', 'TMT131', 'TMT131C', 'TMT132N', 'TMT132C', 'TMT133N', 'TMT133C', 'TMT134N'] },
   { id: 'tmt18', name: 'TMT 18-plex', labels: ['TMT126', 'TMT127N', 'TMT127C', 'TMT128N', 'TMT128C', 'TMT129N', 'TMT129C', 'TMT130N', 'TMT130C', 'TMT131', 'TMT131C', 'TMT132N', 'TMT132C', 'TMT133N', 'TMT133C', 'TMT134N', 'TMT134C', 'TMT135N'] },
   { id: 'itraq4', name: 'iTRAQ 4-plex', labels: ['iTRAQ4plex-114', 'iTRAQ4plex-115', 'iTRAQ4plex-116', 'iTRAQ4plex-117'] },
   { id: 'itraq8', name: 'iTRAQ 8-plex', labels: ['iTRAQ8plex-113', 'iTRAQ8plex-114', 'iTRAQ8plex-115', 'iTRAQ8plex-116', 'iTRAQ8plex-117', 'iTRAQ8plex-118', 'iTRAQ8plex-119', 'iTRAQ8plex-121'] },
-  { id: 'silac', name: 'SILAC', labels: ['SILAC light', 'SILAC medium', 'SILAC heavy'] },
+  { id: 'silac2', name: 'SILAC 2-plex', labels: ['SILAC light', 'SILAC heavy'] },
+  { id: 'silac', name: 'SILAC 3-plex', labels: ['SILAC light', 'SILAC medium', 'SILAC heavy'] },
 ];
 
 // ============ Modification ============
@@ -0,0 +1,87 @@
+/**
+ * Filter View Service
+ *
+ * Saves named filter views (see row-filter) per file in localStorage,
+ * so a curator can return to e.g. "human, no age" on the same file later.
+ */
+
+import { Injectable } from '@angular/core';
+import { FilterGroup } from '../utils/row-filter';
+
+export interface SavedFilterView {
+  name: string;
+  filter: FilterGroup;
+  savedAt: number;
+}
+
+const STORAGE_KEY = 'sdrf_filter_views';
+
+/** Maximum number of files with saved views */
+const MAX_FILES = 50;
+
+type FilterViewStore = Record<string, { views: SavedFilterView[]; lastUsed: number }>;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class FilterViewService {
+  /**
+   * Lists the saved views of a file, most recently saved first.
+   */
+  getViews(fileName: string): SavedFilterView[] {
+    const views = this.load()[fileName]?.views ?? [];
+    return [...views].sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /**
+   * Saves a view, replacing one with the same name.
+   */
+  saveView(fileName: string, name: string, filter: FilterGroup): void {
+    const store = this.load();
+    const views = (store[fileName]?.views ?? []).filter((v) => v.name !== name);
+    views.push({ name, filter, savedAt: Date.now() });
+    store[fileName] = { views, lastUsed: Date.now() };
+    this.save(store);
+  }
+
+  deleteView(fileName: string, name: string): void {
+    const store = this.load();
+    const entry = store[fileName];
+    if (!entry) return;
+
+    entry.views = entry.views.filter((v) => v.name !== name);
+    if (entry.views.length === 0) {
+      delete store[fileName];
+    }
+    this.save(store);
+  }
+
+  private load(): FilterViewStore {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      console.warn('Failed to read saved filter views:', error);
+      return {};
+    }
+  }
+
+  private save(store: FilterViewStore): void {
+    // Drop the least recently used files beyond the limit
+    const files = Object.keys(store).sort((a, b) => store[b].lastUsed - store[a].lastUsed);
+    for (const file of files.slice(MAX_FILES)) {
+      delete store[file];
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    } catch (error) {
+      console.warn('Failed to save filter views:', error);
+    }
+  }
+}
+
+/**
+ * Singleton instance for convenience in non-DI contexts.
+ */
+export const filterViewService = new FilterViewService();
@@ -0,0 +1,78 @@
+import { signal } from '@angular/core';
+import { GridColumns, LEADING_COLUMNS_WIDTH } from './grid-columns';
+import { SdrfTable, createEmptyTable } from '../models/sdrf-table';
+import { createEmptyColumn, detectColumnType } from '../models/sdrf-column';
+import { estimateColumnWidth } from '../utils/column-layout';
+
+function table(names: string[]): SdrfTable {
+  const t = createEmptyTable(1);
+  t.columns = names.map((name, i) => createEmptyColumn(name, detectColumnType(name), i));
+  return t;
+}
+
+describe('GridColumns', () => {
+  const names = ['source name', 'characteristics[organism]', 'characteristics[age]', 'assay name', 'comment[label]'];
+
+  const grid = (viewportWidth = 10000) => {
+    const scrollLeft = signal(0);
+    const columns = new GridColumns({ table: () => table(names), viewportWidth: () => viewportWidth, scrollLeft });
+    return { columns, scrollLeft };
+  };
+
+  it('pins the source name column and toggles pins by name', () => {
+    const { columns } = grid();
+    expect(columns.isPinned(0)).toBeTrue();
+
+    columns.togglePin(4);
+    columns.togglePin(0);
+
+    expect(columns.pinned()).toEqual(new Set(['comment[label]']));
+    expect(columns.navigable()).toEqual([4, 0, 1, 2, 3]);
+  });
+
+  it('leaves collapsed column types out of navigation', () => {
+    const { columns } = grid();
+    columns.toggleCollapsed('characteristics');
+
+    expect(columns.navigable()).toEqual([0, 3, 4]);
+    expect(columns.getCollapsedTitle(columns.rendered()[1])).toContain('(2 hidden)');
+
+    columns.toggleCollapsed('characteristics');
+    expect(columns.navigable()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('scrolls columns into view, except pinned ones', () => {
+    const pinnedWidth = estimateColumnWidth('source name');
+    const { columns } = grid(LEADING_COLUMNS_WIDTH + pinnedWidth + 200);
+    const layout = columns.layout()!;
+    const label = layout.scrolling[layout.scrolling.length - 1];
+
+    expect(columns.width()).toBe(LEADING_COLUMNS_WIDTH + pinnedWidth + layout.scrollingWidth);
+    expect(columns.getScrollLeftToShow(4, 0)).toBe(label.offset + label.width - 200);
+    expect(columns.getScrollLeftToShow(1, 500)).toBe(0);
+    expect(columns.getScrollLeftToShow(0, 500)).toBe(500);
+  });
+
+  it('drops a dragged column before or after the header under the pointer', () => {
+    const { columns } = grid();
+    const header = document.createElement('div');
+    header.style.cssText = 'position: fixed; left: 0; top: 0; width: 100px; height: 20px';
+    header.addEventListener('dragover', (event) => columns.onDragOver(event, 3));
+    document.body.appendChild(header);
+
+    try {
+      columns.onDragStart(new DragEvent('dragstart'), 1);
+      header.dispatchEvent(new DragEvent('dragover', { clientX: 80, cancelable: true }));
+      expect(columns.isDropTarget(3, 'after')).toBeTrue();
+      expect(columns.onDrop(new DragEvent('drop'))).toEqual({ from: 1, to: 3 });
+
+      columns.onDragStart(new DragEvent('dragstart'), 4);
+      header.dispatchEvent(new DragEvent('dragover', { clientX: 20, cancelable: true }));
+      expect(columns.onDrop(new DragEvent('drop'))).toEqual({ from: 4, to: 3 });
+      expect(columns.dragged()).toBeNull();
+      expect(columns.onDrop(new DragEvent('drop'))).toBeNull();
+    } finally {
+      header.remove();
+    }
+  });
+});
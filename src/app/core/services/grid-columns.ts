@@ -0,0 +1,195 @@
+/**
+ * Grid Columns
+ *
+ * Column layout of the editor grid, one per editor: pinned columns,
+ * collapsed column-type groups and the columns rendered for the
+ * horizontal scroll position (see the column-layout utils). Pinned
+ * columns are kept by lowercase name, so they stay pinned when columns
+ * move. Column headers can be dragged to move their column.
+ */
+
+import { signal, computed } from '@angular/core';
+import { SdrfTable } from '../models/sdrf-table';
+import { ColumnType } from '../models/sdrf-column';
+import {
+  ColumnLayoutItem,
+  buildColumnLayout,
+  getRenderedColumns,
+  getHeaderGroups,
+  getColumnTypeLabel,
+} from '../utils/column-layout';
+
+/** Width of the sticky checkbox and row number columns */
+export const LEADING_COLUMNS_WIDTH = 96;
+
+/** Number of columns to render outside visible area (buffer) */
+const BUFFER_COLUMNS = 2;
+
+/**
+ * The grid the columns are laid out in.
+ */
+export interface GridColumnsSource {
+  table: () => SdrfTable | null;
+
+  /** Width of the scroll container */
+  viewportWidth: () => number;
+
+  /** Horizontal scroll position */
+  scrollLeft: () => number;
+}
+
+export class GridColumns {
+  /** Lowercase names of columns pinned to the left */
+  readonly pinned = signal<Set<string>>(new Set(['source name']));
+
+  /** Column types whose header groups are collapsed */
+  readonly collapsedTypes = signal<Set<ColumnType>>(new Set());
+
+  /** Column being dragged to a new position */
+  readonly dragged = signal<number | null>(null);
+
+  /** Drop position while dragging a column */
+  readonly dropTarget = signal<{ col: number; side: 'before' | 'after' } | null>(null);
+
+  /** Pinned and scrolling columns with their widths */
+  readonly layout = computed(() => {
+    const t = this.grid.table();
+    if (!t) return null;
+    return buildColumnLayout(t, this.pinned(), this.collapsedTypes(), LEADING_COLUMNS_WIDTH);
+  });
+
+  /** Columns to render: pinned ones and those near the horizontal viewport */
+  readonly rendered = computed((): ColumnLayoutItem[] => {
+    const layout = this.layout();
+    if (!layout) return [];
+
+    return getRenderedColumns(layout, this.grid.scrollLeft(), this.scrollingViewWidth(), BUFFER_COLUMNS);
+  });
+
+  /** Data columns in display order (pinned first, collapsed groups left out) */
+  readonly navigable = computed((): number[] => {
+    const layout = this.layout();
+    if (!layout) return [];
+    return [...layout.pinned, ...layout.scrolling].filter(i => i.kind === 'column').map(i => i.index);
+  });
+
+  /** Column type bands above the column headers */
+  readonly headerGroups = computed(() => getHeaderGroups(this.rendered(), this.collapsedTypes()));
+
+  /** Full table width, including columns that aren't rendered */
+  readonly width = computed(() => {
+    const layout = this.layout();
+    return layout ? LEADING_COLUMNS_WIDTH + layout.pinnedWidth + layout.scrollingWidth : 0;
+  });
+
+  constructor(private grid: GridColumnsSource) {}
+
+  isPinned(columnIndex: number): boolean {
+    const column = this.grid.table()?.columns[columnIndex];
+    return !!column && this.pinned().has(column.name.toLowerCase());
+  }
+
+  togglePin(columnIndex: number): void {
+    const column = this.grid.table()?.columns[columnIndex];
+    if (!column) return;
+
+    const name = column.name.toLowerCase();
+    const next = new Set(this.pinned());
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    this.pinned.set(next);
+  }
+
+  toggleCollapsed(type: ColumnType): void {
+    const next = new Set(this.collapsedTypes());
+    if (next.has(type)) {
+      next.delete(type);
+    } else {
+      next.add(type);
+    }
+    this.collapsedTypes.set(next);
+  }
+
+  /**
+   * Tooltip of a collapsed group's stub column, listing its columns.
+   */
+  getCollapsedTitle(item: ColumnLayoutItem): string {
+    const t = this.grid.table();
+    const names = t ? item.columns.map(i => t.columns[i]?.name).filter(Boolean) : [];
+    return `${getColumnTypeLabel(item.type)} (${names.length} hidden) - click to expand\n${names.join('\n')}`;
+  }
+
+  /**
+   * Horizontal scroll position that brings a column into view, starting
+   * from `scrollLeft`. Pinned columns are always visible.
+   */
+  getScrollLeftToShow(columnIndex: number, scrollLeft: number): number {
+    const layout = this.layout();
+    const item = layout?.scrolling.find(i => i.kind === 'column' && i.index === columnIndex);
+    if (!item) return scrollLeft;
+
+    const viewWidth = this.scrollingViewWidth();
+    if (item.offset < scrollLeft) return item.offset;
+    if (item.offset + item.width > scrollLeft + viewWidth) return item.offset + item.width - viewWidth;
+    return scrollLeft;
+  }
+
+  // === Drag and Drop ===
+
+  onDragStart(event: DragEvent, columnIndex: number): void {
+    this.dragged.set(columnIndex);
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', String(columnIndex));
+    }
+  }
+
+  onDragOver(event: DragEvent, columnIndex: number): void {
+    if (this.dragged() === null) return;
+
+    // Allow dropping; the drop side follows the pointer
+    event.preventDefault();
+    const cell = event.currentTarget as HTMLElement;
+    const rect = cell.getBoundingClientRect();
+    const side = event.clientX < rect.left + rect.width / 2 ? 'before' : 'after';
+
+    const target = this.dropTarget();
+    if (target?.col !== columnIndex || target.side !== side) {
+      this.dropTarget.set({ col: columnIndex, side });
+    }
+  }
+
+  /**
+   * Ends the drag. Returns the column to move and its new index (counted
+   * after removing it), or null when nothing was dropped.
+   */
+  onDrop(event: DragEvent): { from: number; to: number } | null {
+    event.preventDefault();
+    const from = this.dragged();
+    const target = this.dropTarget();
+    this.onDragEnd();
+    if (from === null || !target) return null;
+
+    const to = target.side === 'before' ? target.col : target.col + 1;
+    return { from, to: from < to ? to - 1 : to };
+  }
+
+  onDragEnd(): void {
+    this.dragged.set(null);
+    this.dropTarget.set(null);
+  }
+
+  isDropTarget(columnIndex: number, side: 'before' | 'after'): boolean {
+    const target = this.dropTarget();
+    return target?.col === columnIndex && target.side === side;
+  }
+
+  /** Width available to the scrolling columns */
+  private scrollingViewWidth(): number {
+    const pinnedWidth = this.layout()?.pinnedWidth ?? 0;
+    return Math.max(0, this.grid.viewportWidth() - LEADING_COLUMNS_WIDTH - pinnedWidth);
+  }
+}
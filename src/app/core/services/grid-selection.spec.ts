@@ -0,0 +1,75 @@
+import { GridSelection } from './grid-selection';
+
+function mouse(type: string, init: MouseEventInit = {}): MouseEvent {
+  return new MouseEvent(type, { button: 0, buttons: 1, ...init });
+}
+
+describe('GridSelection', () => {
+  // Display order: sorted descending, column 2 pinned first
+  const grid = () =>
+    new GridSelection({
+      rows: () => [5, 4, 3, 2, 1],
+      columns: () => [2, 0, 1],
+      getValue: (row) => (row > 2 ? 'x' : ''),
+    });
+
+  it('spans the rows between the corners of a block in display order', () => {
+    const selection = grid();
+    selection.select(4, 1);
+    selection.extendTo(2, 3);
+
+    expect(selection.selectedRange()).toEqual({ rows: [4, 3, 2], startCol: 1, endCol: 3 });
+    expect(selection.isInRange(3, 2)).toBeTrue();
+    expect(selection.isInRange(1, 2)).toBeFalse();
+  });
+
+  it('drops the block when another cell is selected', () => {
+    const selection = grid();
+    selection.selectBlock({ row: 5, col: 0 }, 3, 1);
+    selection.select(2, 2);
+
+    expect(selection.selectedRange()).toEqual({ rows: [2], startCol: 2, endCol: 2 });
+  });
+
+  it('selects with the mouse, extending with Shift and by dragging', () => {
+    const selection = grid();
+    selection.onCellMouseDown(mouse('mousedown'), 5, 0);
+    selection.onCellMouseEnter(mouse('mouseenter'), 4, 1);
+    expect(selection.selectedRange()).toEqual({ rows: [5, 4], startCol: 0, endCol: 1 });
+
+    selection.onMouseUp();
+    selection.onCellMouseEnter(mouse('mouseenter'), 1, 1);
+    expect(selection.selectedRange()!.rows).toEqual([5, 4]);
+
+    selection.onCellMouseDown(mouse('mousedown', { shiftKey: true }), 3, 0);
+    expect(selection.selectedRange()).toEqual({ rows: [5, 4, 3], startCol: 0, endCol: 0 });
+  });
+
+  it('returns the rows below the block covered by a fill handle drag', () => {
+    const selection = grid();
+    selection.selectBlock({ row: 5, col: 0 }, 4, 1);
+    expect(selection.isFillHandleCell(4, 1)).toBeTrue();
+
+    selection.onFillHandleMouseDown(mouse('mousedown'));
+    selection.onCellMouseEnter(mouse('mouseenter'), 2, 0);
+    expect(selection.fillPreviewRows()).toEqual([3, 2]);
+    expect(selection.isInFillPreview(3, 1)).toBeTrue();
+    expect(selection.isInFillPreview(3, 2)).toBeFalse();
+
+    expect(selection.onMouseUp()).toEqual([3, 2]);
+    expect(selection.fillPreviewRows()).toEqual([]);
+    expect(selection.onMouseUp()).toEqual([]);
+  });
+
+  it('moves and extends the selection with the keyboard in display order', () => {
+    const selection = grid();
+    expect(selection.move('down')).toEqual({ row: 4, col: 2 });
+
+    selection.extendBy('right');
+    expect(selection.extendBy('down', true)).toEqual({ row: 3, col: 0 });
+    expect(selection.selectedRange()).toEqual({ rows: [4, 3], startCol: 0, endCol: 2 });
+
+    expect(selection.moveToLineEnd(1, true)).toEqual({ row: 1, col: 1 });
+    expect(selection.selectedRange()).toEqual({ rows: [1], startCol: 1, endCol: 1 });
+  });
+});
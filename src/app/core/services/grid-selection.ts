@@ -0,0 +1,284 @@
+/**
+ * Grid Selection
+ *
+ * Cell and block selection of the editor grid, one per editor. Rows are
+ * sample indices (1-based, row 0 selects a column header) and columns
+ * are table column indices. A block spans the rows between its corners
+ * in display order (sorting, filtering and grouping applied), as given
+ * by the `rows` of the grid. Dragging the fill handle of a block marks
+ * the rows below it for filling. The keyboard moves the selection as in
+ * spreadsheets (see the grid-navigation utils).
+ */
+
+import { signal, computed } from '@angular/core';
+import {
+  GridDirection,
+  NavigationGrid,
+  getFirstCell,
+  stepCell,
+  getLineEndCell,
+} from '../utils/grid-navigation';
+
+/**
+ * Cell selection state.
+ */
+export interface CellSelection {
+  row: number;
+  col: number;
+}
+
+/**
+ * Rectangular cell range. Rows are sample indices in display order.
+ */
+export interface CellRange {
+  rows: number[];
+  startCol: number;
+  endCol: number;
+}
+
+/**
+ * The grid a selection moves in.
+ */
+export interface GridSelectionSource {
+  /** Rows shown to the user, in display order */
+  rows: () => number[];
+
+  /** Columns the keyboard moves through, in display order */
+  columns: () => number[];
+
+  getValue: (row: number, col: number) => string;
+}
+
+export class GridSelection {
+  /** Currently selected cell */
+  readonly selectedCell = signal<CellSelection | null>(null);
+
+  /**
+   * Far corner of a block selection. Only applies while `anchor` is
+   * still the selected cell.
+   */
+  readonly selectionExtent = signal<{ anchor: CellSelection; row: number; col: number } | null>(null);
+
+  /** Selected block of cells (a single cell when nothing is extended) */
+  readonly selectedRange = computed((): CellRange | null => {
+    const sel = this.selectedCell();
+    if (!sel || sel.row < 1) return null;
+
+    const extent = this.selectionExtent();
+    if (!extent || extent.anchor !== sel) {
+      return { rows: [sel.row], startCol: sel.col, endCol: sel.col };
+    }
+
+    const rows = this.grid.rows();
+    const from = rows.indexOf(sel.row);
+    const to = rows.indexOf(extent.row);
+    if (from < 0 || to < 0) {
+      return { rows: [sel.row], startCol: sel.col, endCol: sel.col };
+    }
+
+    return {
+      rows: rows.slice(Math.min(from, to), Math.max(from, to) + 1),
+      startCol: Math.min(sel.col, extent.col),
+      endCol: Math.max(sel.col, extent.col),
+    };
+  });
+
+  /** Rows of the selected block, for fast lookup while rendering */
+  private selectedRangeRows = computed(() => new Set(this.selectedRange()?.rows ?? []));
+
+  /** Last row (in display order) covered while dragging the fill handle */
+  readonly fillTargetRow = signal<number | null>(null);
+
+  /** Rows the fill handle drag would fill, below the selected block */
+  readonly fillPreviewRows = computed((): number[] => {
+    const range = this.selectedRange();
+    const target = this.fillTargetRow();
+    if (!range || target === null) return [];
+
+    const rows = this.grid.rows();
+    const end = rows.indexOf(range.rows[range.rows.length - 1]);
+    const to = rows.indexOf(target);
+    if (end < 0 || to <= end) return [];
+
+    return rows.slice(end + 1, to + 1);
+  });
+
+  private fillPreviewRowSet = computed(() => new Set(this.fillPreviewRows()));
+
+  /** Whether a block selection is being dragged */
+  private dragSelecting = false;
+
+  /** Whether the fill handle is being dragged */
+  private fillDragging = false;
+
+  constructor(private grid: GridSelectionSource) {}
+
+  select(row: number, col: number): void {
+    this.selectedCell.set({ row, col });
+  }
+
+  /**
+   * Selects a block from its top-left cell to the cell at `row`, `col`.
+   */
+  selectBlock(anchor: CellSelection, row: number, col: number): void {
+    this.selectedCell.set(anchor);
+    this.selectionExtent.set({ anchor, row, col });
+  }
+
+  /**
+   * Extends the block selection from the selected cell to another cell.
+   */
+  extendTo(row: number, col: number): void {
+    const anchor = this.selectedCell();
+    if (!anchor) return;
+    this.selectionExtent.set({ anchor, row, col });
+  }
+
+  /**
+   * Collapses the block to the selected cell.
+   */
+  collapse(): void {
+    this.selectionExtent.set(null);
+  }
+
+  clear(): void {
+    this.selectedCell.set(null);
+  }
+
+  isSelected(row: number, col: number): boolean {
+    const sel = this.selectedCell();
+    return sel?.row === row && sel?.col === col;
+  }
+
+  isInRange(row: number, col: number): boolean {
+    const range = this.selectedRange();
+    if (!range || col < range.startCol || col > range.endCol) return false;
+    return this.selectedRangeRows().has(row);
+  }
+
+  /**
+   * Whether a cell is the bottom-right cell of the selected block,
+   * which carries the fill handle.
+   */
+  isFillHandleCell(row: number, col: number): boolean {
+    const range = this.selectedRange();
+    return !!range && col === range.endCol && row === range.rows[range.rows.length - 1];
+  }
+
+  isInFillPreview(row: number, col: number): boolean {
+    const range = this.selectedRange();
+    if (!range || col < range.startCol || col > range.endCol) return false;
+    return this.fillPreviewRowSet().has(row);
+  }
+
+  // === Keyboard ===
+
+  /**
+   * Moves the selected cell (from the first cell when nothing is
+   * selected). Returns the new cell, or null when the grid is empty.
+   */
+  move(direction: GridDirection, toEdge: boolean = false, steps: number = 1): CellSelection | null {
+    const grid = this.getNavigationGrid();
+    const from = this.selectedCell() ?? getFirstCell(grid);
+    if (!from) return null;
+
+    const target = stepCell(grid, from, direction, toEdge, steps);
+    if (target) this.select(target.row, target.col);
+    return target;
+  }
+
+  /**
+   * Moves the far corner of the selected block. Returns the new corner.
+   */
+  extendBy(direction: GridDirection, toEdge: boolean = false): CellSelection | null {
+    const selected = this.selectedCell();
+    if (!selected || selected.row < 1) return this.move(direction, toEdge);
+
+    const extent = this.selectionExtent();
+    const corner = extent && extent.anchor === selected ? { row: extent.row, col: extent.col } : selected;
+    const target = stepCell(this.getNavigationGrid(), corner, direction, toEdge);
+    if (target) this.extendTo(target.row, target.col);
+    return target;
+  }
+
+  /**
+   * Moves to the first or last cell of the row, or of the whole grid.
+   */
+  moveToLineEnd(direction: -1 | 1, allRows: boolean): CellSelection | null {
+    const grid = this.getNavigationGrid();
+    const from = this.selectedCell() ?? getFirstCell(grid);
+    if (!from) return null;
+
+    const target = getLineEndCell(grid, from, direction, allRows);
+    if (target) this.select(target.row, target.col);
+    return target;
+  }
+
+  // === Mouse ===
+
+  /**
+   * Selects a cell, or extends the block to it with Shift, and starts a
+   * drag selection.
+   */
+  onCellMouseDown(event: MouseEvent, row: number, col: number): void {
+    if (event.button !== 0) return;
+
+    if (event.shiftKey && this.selectedCell()) {
+      this.extendTo(row, col);
+      return;
+    }
+
+    this.select(row, col);
+    this.dragSelecting = true;
+  }
+
+  /**
+   * Starts dragging the fill handle.
+   */
+  onFillHandleMouseDown(event: MouseEvent): void {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    this.fillDragging = true;
+    this.fillTargetRow.set(null);
+  }
+
+  /**
+   * Extends a drag selection, or the fill handle drag, to the cell under
+   * the mouse.
+   */
+  onCellMouseEnter(event: MouseEvent, row: number, col: number): void {
+    if (!this.dragSelecting && !this.fillDragging) return;
+    if ((event.buttons & 1) === 0) {
+      this.dragSelecting = false;
+      this.fillDragging = false;
+      this.fillTargetRow.set(null);
+      return;
+    }
+
+    if (this.fillDragging) {
+      this.fillTargetRow.set(row);
+    } else {
+      this.extendTo(row, col);
+    }
+  }
+
+  /**
+   * Ends a drag. Returns the rows to fill when a fill handle drag ends
+   * below the selected block, and an empty list otherwise.
+   */
+  onMouseUp(): number[] {
+    this.dragSelecting = false;
+    if (!this.fillDragging) return [];
+
+    this.fillDragging = false;
+    const rows = this.fillPreviewRows();
+    this.fillTargetRow.set(null);
+    return rows;
+  }
+
+  private getNavigationGrid(): NavigationGrid {
+    return { rows: this.grid.rows(), cols: this.grid.columns(), getValue: this.grid.getValue };
+  }
+}
@@ -5,6 +5,8 @@
 export * from './sdrf-syntax.service';
 export * from './sdrf-parser.service';
 export * from './ols.service';
+export * from './ontology-cache.service';
+export * from './ontology-snapshot.service';
 export * from './unimod.service';
 export * from './sdrf-validator.service';
 export * from './sdrf-export.service';
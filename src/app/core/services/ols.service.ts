@@ -5,13 +5,24 @@
  * Replaces the backend proxy at /ontology/search/suggest/
  *
  * EBI OLS API: https://www.ebi.ac.uk/ols4/api/
+ *
+ * Results are kept in memory for a few minutes and persisted in IndexedDB
+ * (OntologyCacheService). In offline mode, or when OLS cannot be reached,
+ * searches and term lookups are served from the persistent cache and the
+ * fallback backends (by default the bundled snapshots, see
+ * OntologySnapshotService); such responses are marked `incomplete`.
  */
 
+import { signal } from '@angular/core';
 import {
   OntologySuggestion,
   OntologySearchParams,
   OntologySearchResponse,
+  OntologySearchBackend,
 } from '../models/ontology';
+import { searchTerms } from '../utils/term-match';
+import { OntologyCacheService, ontologyCacheService } from './ontology-cache.service';
+import { ontologySnapshotService } from './ontology-snapshot.service';
 
 /**
  * Configuration for the OLS service.
@@ -31,6 +42,36 @@ export interface OlsServiceConfig {
 
   /** Whether to enable caching */
   enableCache?: boolean;
+
+  /** Persistent cache shared across reloads (null = memory only) */
+  persistentCache?: OntologyCacheService | null;
+
+  /** Local term sources used when OLS cannot be used, e.g. bundled snapshots */
+  fallbackBackends?: OntologySearchBackend[];
+
+  /** Serve lookups from the cache only (default: olsOfflineMode, or no network) */
+  offline?: boolean;
+}
+
+/**
+ * Term as returned by the OLS API: a search document (select) or a term
+ * resource (terms/{iri}). Only the fields the service maps are listed.
+ */
+interface OlsTerm {
+  id?: string;
+  iri?: string;
+  short_form?: string;
+  obo_id?: string;
+  label?: string;
+  description?: string[];
+  ontology_prefix?: string;
+  /** Search documents */
+  synonym?: string[];
+  /** Term resources */
+  synonyms?: string[];
+  is_obsolete?: boolean;
+  is_defining_ontology?: boolean;
+  term_replaced_by?: string;
 }
 
 /**
@@ -47,8 +88,42 @@ const DEFAULT_CONFIG: OlsServiceConfig = {
   cacheTtlMs: 5 * 60 * 1000, // 5 minutes
   timeoutMs: 10000, // 10 seconds
   enableCache: true,
+  persistentCache: ontologyCacheService,
+  fallbackBackends: [ontologySnapshotService],
 };
 
+const OFFLINE_MODE_KEY = 'sdrf_ols_offline';
+
+/**
+ * Reads the stored offline mode (false where localStorage is unavailable,
+ * e.g. in workers).
+ */
+function readOfflineMode(): boolean {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage.getItem(OFFLINE_MODE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offline mode shared by all DirectOlsService instances: lookups never go
+ * to OLS and are answered from the cache and bundled snapshot.
+ */
+export const olsOfflineMode = signal(readOfflineMode());
+
+/**
+ * Switches offline mode on or off and remembers the choice.
+ */
+export function setOlsOfflineMode(enabled: boolean): void {
+  olsOfflineMode.set(enabled);
+  try {
+    localStorage.setItem(OFFLINE_MODE_KEY, String(enabled));
+  } catch {
+    // Not persisted (e.g. in workers)
+  }
+}
+
 /**
  * Direct OLS Service
  *
@@ -96,6 +171,23 @@ export class DirectOlsService {
       }
     }
 
+    const persistentCache = this.getPersistentCache();
+    if (this.isOffline()) {
+      return this.searchOffline(params, cacheKey);
+    }
+
+    const stored = await persistentCache?.getSearch(cacheKey);
+    if (stored && !stored.expired) {
+      this.addToCache(cacheKey, stored.suggestions);
+      return {
+        suggestions: stored.suggestions,
+        totalCount: stored.suggestions.length,
+        hasMore: stored.suggestions.length >= (params.rows || this.config.defaultRows!),
+        query,
+        ontologies: params.ontology || [],
+      };
+    }
+
     try {
       const url = this.buildSearchUrl(params);
       const response = await this.fetchWithTimeout(url);
@@ -107,9 +199,10 @@ export class DirectOlsService {
       const data = await response.json();
       const suggestions = this.mapOlsResponse(data, params);
 
-      // Cache results
+      // Cache results (persisted in the background)
       if (this.config.enableCache) {
         this.addToCache(cacheKey, suggestions);
+        persistentCache?.putSearch(cacheKey, suggestions);
       }
 
       return {
@@ -121,16 +214,21 @@ export class DirectOlsService {
       };
     } catch (error) {
       console.error('OLS search error:', error);
-      return {
-        suggestions: [],
-        totalCount: 0,
-        hasMore: false,
-        query,
-        ontologies: params.ontology || [],
-      };
+      return this.searchOffline(params, cacheKey);
     }
   }
 
+  /**
+   * Whether lookups are served from the cache only: offline mode is on
+   * (for this instance or globally) or the browser has no network.
+   */
+  isOffline(): boolean {
+    if (this.config.offline !== undefined) {
+      return this.config.offline;
+    }
+    return olsOfflineMode() || (typeof navigator !== 'undefined' && navigator.onLine === false);
+  }
+
   /**
    * Searches for organisms (NCBI Taxonomy).
    */
@@ -205,6 +303,8 @@ export class DirectOlsService {
 
   /**
    * Validates that a term exists in the specified ontologies.
+   * Offline, terms missing from the cache are not reported, as the cache
+   * may be incomplete.
    *
    * @param term The term label to validate
    * @param ontologies Ontologies to search in
@@ -222,7 +322,7 @@ export class DirectOlsService {
       rows: 1,
     });
 
-    return response.suggestions.length > 0;
+    return response.suggestions.length > 0 || response.incomplete === true;
   }
 
   /**
@@ -232,29 +332,18 @@ export class DirectOlsService {
    * @returns The term suggestion or null
    */
   async getTermByIri(iri: string): Promise<OntologySuggestion | null> {
-    try {
-      const encodedIri = encodeURIComponent(encodeURIComponent(iri));
-      const url = `${this.config.baseUrl}/terms/${encodedIri}`;
-
-      const response = await this.fetchWithTimeout(url);
-
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
+    const persistentCache = this.getPersistentCache();
+    const stored = await persistentCache?.getTerm(iri);
+    if (stored && (!stored.expired || this.isOffline())) {
+      return stored.term;
+    }
 
-      return {
-        id: data.obo_id || data.short_form || '',
-        label: data.label || '',
-        iri: data.iri || iri,
-        ontologyPrefix: data.ontology_prefix || '',
-        description: data.description?.[0] || '',
-        synonyms: data.synonyms || [],
-      };
-    } catch {
-      return null;
+    const term = this.isOffline() ? null : await this.fetchTermByIri(iri);
+    if (term) {
+      persistentCache?.putTerms([term]);
+      return term;
     }
+    return stored?.term ?? (await this.getFallbackTerm(iri));
   }
 
   /**
@@ -280,6 +369,81 @@ export class DirectOlsService {
 
   // ============ Private Methods ============
 
+  private getPersistentCache(): OntologyCacheService | null {
+    return this.config.enableCache ? this.config.persistentCache ?? null : null;
+  }
+
+  /**
+   * Answers a search without OLS: the stored result of the same search,
+   * or else the best matches among the cached terms and the fallback backends.
+   */
+  private async searchOffline(params: OntologySearchParams, cacheKey: string): Promise<OntologySearchResponse> {
+    const persistentCache = this.getPersistentCache();
+    const stored = await persistentCache?.getSearch(cacheKey);
+
+    let suggestions = stored?.suggestions;
+    if (!suggestions) {
+      const found = await Promise.all([
+        persistentCache?.searchOffline(params) ?? [],
+        ...(this.config.fallbackBackends ?? []).map((backend) => backend.search(params)),
+      ]);
+
+      // One term per accession, ranked together (backends filtered the ontologies)
+      const terms = new Map<string, OntologySuggestion>();
+      for (const term of found.flat()) {
+        if (!terms.has(term.id)) terms.set(term.id, term);
+      }
+      suggestions = searchTerms(terms.values(), { ...params, ontology: undefined });
+    }
+
+    return {
+      suggestions,
+      totalCount: suggestions.length,
+      hasMore: false,
+      query: params.query.trim(),
+      ontologies: params.ontology || [],
+      incomplete: true,
+    };
+  }
+
+  /**
+   * Fetches a term from OLS; null if it is unknown or OLS cannot be reached.
+   */
+  private async fetchTermByIri(iri: string): Promise<OntologySuggestion | null> {
+    try {
+      const encodedIri = encodeURIComponent(encodeURIComponent(iri));
+      const url = `${this.config.baseUrl}/terms/${encodedIri}`;
+
+      const response = await this.fetchWithTimeout(url);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const data = await response.json();
+
+      // The IRI may be imported by several ontologies; prefer the defining one
+      const terms: OlsTerm[] = data._embedded?.terms ?? [data];
+      const term = terms.find((t) => t.is_defining_ontology) ?? terms[0];
+      if (!term) {
+        return null;
+      }
+
+      return {
+        id: term.obo_id || term.short_form || '',
+        label: term.label || '',
+        iri: term.iri || iri,
+        ontologyPrefix: term.ontology_prefix || '',
+        description: term.description?.[0] || '',
+        synonyms: term.synonyms || [],
+        isObsolete: term.is_obsolete === true,
+        replacedBy: term.term_replaced_by || undefined,
+      };
+    } catch {
+      return null;
+    }
+  }
+
   private buildSearchUrl(params: OntologySearchParams): string {
     const searchParams = new URLSearchParams();
 
@@ -306,8 +470,16 @@ export class DirectOlsService {
       searchParams.set('type', params.type);
     }
 
+    // Obsolete terms are excluded by default
+    if (params.obsoletes) {
+      searchParams.set('obsoletes', 'true');
+    }
+
     // Additional parameters for better results
-    searchParams.set('fieldList', 'id,iri,short_form,obo_id,label,description,ontology_prefix,synonym');
+    searchParams.set(
+      'fieldList',
+      'id,iri,short_form,obo_id,label,description,ontology_prefix,synonym,is_obsolete,term_replaced_by'
+    );
     searchParams.set('queryFields', 'label,synonym,short_form,obo_id');
     searchParams.set('highlight', 'true');
 
@@ -318,9 +490,9 @@ export class DirectOlsService {
     data: any,
     params: OntologySearchParams
   ): OntologySuggestion[] {
-    const docs = data.response?.docs || [];
+    const docs: OlsTerm[] = data.response?.docs || [];
 
-    return docs.map((doc: any) => {
+    return docs.map((doc) => {
       const suggestion: OntologySuggestion = {
         id: doc.obo_id || doc.short_form || doc.id || '',
         label: doc.label || '',
@@ -331,6 +503,8 @@ export class DirectOlsService {
         isExactMatch:
           params.exact ||
           doc.label?.toLowerCase() === params.query.toLowerCase(),
+        isObsolete: doc.is_obsolete === true,
+        replacedBy: doc.term_replaced_by || undefined,
       };
 
       return suggestion;
@@ -342,6 +516,7 @@ export class DirectOlsService {
       query: params.query.toLowerCase(),
       ontology: params.ontology?.sort() || [],
       exact: params.exact || false,
+      obsoletes: params.obsoletes || false,
       rows: params.rows || this.config.defaultRows,
       type: params.type,
     });
@@ -377,6 +552,14 @@ export class DirectOlsService {
     }
   }
 
+  private async getFallbackTerm(iri: string): Promise<OntologySuggestion | null> {
+    for (const backend of this.config.fallbackBackends ?? []) {
+      const term = await backend.getTerm(iri);
+      if (term) return term;
+    }
+    return null;
+  }
+
   private async fetchWithTimeout(url: string): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(
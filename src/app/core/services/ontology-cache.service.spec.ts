@@ -0,0 +1,79 @@
+import { OntologyCacheService, OntologyCacheConfig } from './ontology-cache.service';
+import { OntologySuggestion } from '../models/ontology';
+
+function term(id: string, label: string): OntologySuggestion {
+  const [prefix, localId] = id.split(':');
+  const iri = `http://purl.obolibrary.org/obo/${prefix}_${localId}`;
+  return { id, label, iri, ontologyPrefix: prefix.toLowerCase() };
+}
+
+/** Lets the next access get a later timestamp */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('OntologyCacheService', () => {
+  let databases = 0;
+
+  /** Cache on a fresh IndexedDB database */
+  const cache = (config: OntologyCacheConfig = {}) =>
+    new OntologyCacheService({ dbName: `ontology_cache_spec_${Date.now()}_${databases++}`, ...config });
+
+  const HUMAN = term('NCBITaxon:9606', 'Homo sapiens');
+  const MOUSE = term('NCBITaxon:10090', 'Mus musculus');
+  const HCD = term('MS:1000422', 'beam-type collision-induced dissociation');
+
+  it('stores searches and their terms', async () => {
+    const service = cache();
+    await service.putSearch('human', [{ ...HUMAN, isExactMatch: true }]);
+
+    expect(await service.getSearch('human')).toEqual({
+      suggestions: [{ ...HUMAN, isExactMatch: true }],
+      expired: false,
+    });
+    expect((await service.getTerm('ncbitaxon:9606'))?.term).toEqual({ ...HUMAN, isExactMatch: undefined });
+    expect((await service.getTerm(HUMAN.iri))?.term.id).toBe(HUMAN.id);
+    expect(await service.getSearch('mouse')).toBeNull();
+    expect(await service.getStats()).toEqual({ searches: 1, terms: 1 });
+  });
+
+  it('marks entries older than the TTL as expired, still serving them', async () => {
+    const service = cache({ ttlMs: -1 });
+    await service.putSearch('human', [HUMAN]);
+
+    expect((await service.getSearch('human'))?.expired).toBeTrue();
+    expect(await service.getTerm(HUMAN.id)).toEqual({ term: { ...HUMAN, isExactMatch: undefined }, expired: true });
+  });
+
+  it('evicts the least recently used terms', async () => {
+    const service = cache({ maxTerms: 2 });
+    await service.putTerms([HUMAN]);
+    await tick();
+    await service.putTerms([MOUSE]);
+    await tick();
+    await service.getTerm(HUMAN.id);
+    await tick();
+    await service.putTerms([HCD]);
+
+    expect(await service.getTerm(MOUSE.id)).toBeNull();
+    expect(await service.getTerm(HUMAN.id)).not.toBeNull();
+    expect(await service.getTerm(HCD.id)).not.toBeNull();
+  });
+
+  it('searches cached terms offline, reading them once until they change', async () => {
+    const service = cache();
+    await service.putTerms([HUMAN, MOUSE]);
+    const getAll = spyOn(IDBObjectStore.prototype, 'getAll').and.callThrough();
+
+    expect((await service.searchOffline({ query: 'homo sap' })).map((t) => t.id)).toEqual([HUMAN.id]);
+    expect((await service.searchOffline({ query: 'mus', ontology: ['ncbitaxon'] })).map((t) => t.id)).toEqual([
+      MOUSE.id,
+    ]);
+    expect(getAll).toHaveBeenCalledTimes(1);
+
+    await service.putTerms([HCD]);
+    expect((await service.searchOffline({ query: 'collision' })).map((t) => t.id)).toEqual([HCD.id]);
+
+    await service.clear();
+    expect(await service.searchOffline({ query: 'homo' })).toEqual([]);
+    expect(getAll).toHaveBeenCalledTimes(3);
+  });
+});
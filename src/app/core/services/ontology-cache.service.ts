@@ -0,0 +1,285 @@
+/**
+ * Ontology Cache Service
+ *
+ * Persistent IndexedDB cache of OLS search results and terms, so
+ * autocomplete and term validation survive reloads and keep working
+ * offline. Entries are refreshed from OLS after a configurable TTL (offline,
+ * expired entries are still served) and the least recently used ones are
+ * evicted beyond the size limits.
+ *
+ * Offline searches run over the cached terms, read from IndexedDB once
+ * and kept in memory until terms are added or cleared. Without IndexedDB
+ * (e.g. outside the browser) every lookup misses.
+ */
+
+import { OntologySuggestion, OntologySearchParams } from '../models/ontology';
+import { searchTerms } from '../utils/term-match';
+
+/**
+ * Configuration for the ontology cache.
+ */
+export interface OntologyCacheConfig {
+  /** IndexedDB database name */
+  dbName?: string;
+
+  /** Age after which entries are refreshed from OLS (ms) */
+  ttlMs?: number;
+
+  /** Maximum number of cached searches */
+  maxSearches?: number;
+
+  /** Maximum number of cached terms */
+  maxTerms?: number;
+}
+
+/**
+ * A cached search result.
+ */
+export interface CachedSearch {
+  suggestions: OntologySuggestion[];
+
+  /** Whether the entry is older than the TTL */
+  expired: boolean;
+}
+
+/**
+ * Cache statistics.
+ */
+export interface OntologyCacheStats {
+  searches: number;
+  terms: number;
+}
+
+/**
+ * Stored record; `key` is the search key or the lowercase term id.
+ */
+interface CacheRecord<T> {
+  key: string;
+  value: T;
+  iri?: string;
+  timestamp: number;
+  lastAccess: number;
+}
+
+const DB_VERSION = 1;
+const SEARCH_STORE = 'searches';
+const TERM_STORE = 'terms';
+
+const DEFAULT_CONFIG: Required<OntologyCacheConfig> = {
+  dbName: 'sdrf_ontology_cache',
+  ttlMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+  maxSearches: 2000,
+  maxTerms: 20000,
+};
+
+/**
+ * Ontology Cache Service
+ *
+ * Stores OLS searches and terms in IndexedDB and searches them offline.
+ */
+export class OntologyCacheService {
+  private config: Required<OntologyCacheConfig>;
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  /** Cached terms for offline searches, dropped when the terms change */
+  private offlineTerms: Promise<OntologySuggestion[]> | null = null;
+
+  constructor(config: OntologyCacheConfig = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Gets a cached search result.
+   *
+   * @param key Search cache key
+   * @returns The cached suggestions or null
+   */
+  async getSearch(key: string): Promise<CachedSearch | null> {
+    const record = await this.withStore<CacheRecord<OntologySuggestion[]>>(SEARCH_STORE, 'readonly', (store) =>
+      store.get(key)
+    );
+    if (!record) {
+      return null;
+    }
+
+    this.touch(SEARCH_STORE, record);
+    return {
+      suggestions: record.value,
+      expired: Date.now() - record.timestamp > this.config.ttlMs,
+    };
+  }
+
+  /**
+   * Caches a search result and its terms.
+   */
+  async putSearch(key: string, suggestions: OntologySuggestion[]): Promise<void> {
+    const now = Date.now();
+    const record: CacheRecord<OntologySuggestion[]> = { key, value: suggestions, timestamp: now, lastAccess: now };
+    await this.withStore(SEARCH_STORE, 'readwrite', (store) => store.put(record));
+    await this.evict(SEARCH_STORE, this.config.maxSearches);
+    await this.putTerms(suggestions);
+  }
+
+  /**
+   * Gets a cached term by accession (e.g. MS:1000449) or IRI.
+   */
+  async getTerm(idOrIri: string): Promise<{ term: OntologySuggestion; expired: boolean } | null> {
+    const isIri = /^https?:\/\//.test(idOrIri);
+    const record = await this.withStore<CacheRecord<OntologySuggestion> | undefined>(TERM_STORE, 'readonly', (store) =>
+      isIri ? store.index('iri').get(idOrIri) : store.get(idOrIri.toLowerCase())
+    );
+    if (!record) {
+      return null;
+    }
+
+    this.touch(TERM_STORE, record);
+    return { term: record.value, expired: Date.now() - record.timestamp > this.config.ttlMs };
+  }
+
+  /**
+   * Caches terms by accession.
+   */
+  async putTerms(terms: OntologySuggestion[]): Promise<void> {
+    const now = Date.now();
+    const records: CacheRecord<OntologySuggestion>[] = terms
+      .filter((term) => term.id)
+      .map((term) => ({
+        key: term.id.toLowerCase(),
+        // Relative to the query it was found with
+        value: { ...term, isExactMatch: undefined },
+        iri: term.iri || undefined,
+        timestamp: now,
+        lastAccess: now,
+      }));
+    if (records.length === 0) return;
+
+    await this.withStore(TERM_STORE, 'readwrite', (store) => {
+      for (const record of records) store.put(record);
+    });
+    await this.evict(TERM_STORE, this.config.maxTerms);
+    this.offlineTerms = null;
+  }
+
+  /**
+   * Searches the cached terms, e.g. for autocomplete while offline
+   * (see searchTerms).
+   */
+  async searchOffline(params: OntologySearchParams): Promise<OntologySuggestion[]> {
+    this.offlineTerms ??= this.withStore<CacheRecord<OntologySuggestion>[]>(TERM_STORE, 'readonly', (store) =>
+      store.getAll()
+    ).then((records) => (records ?? []).map((record) => record.value));
+    return searchTerms(await this.offlineTerms, params);
+  }
+
+  /**
+   * Removes all cached searches and terms.
+   */
+  async clear(): Promise<void> {
+    await this.withStore(SEARCH_STORE, 'readwrite', (store) => store.clear());
+    await this.withStore(TERM_STORE, 'readwrite', (store) => store.clear());
+    this.offlineTerms = null;
+  }
+
+  /**
+   * Gets cache statistics.
+   */
+  async getStats(): Promise<OntologyCacheStats> {
+    return {
+      searches: (await this.withStore(SEARCH_STORE, 'readonly', (store) => store.count())) ?? 0,
+      terms: (await this.withStore(TERM_STORE, 'readonly', (store) => store.count())) ?? 0,
+    };
+  }
+
+  // === Private Methods ===
+
+  /**
+   * Opens the database once. Resolves to null without IndexedDB.
+   */
+  private openDb(): Promise<IDBDatabase | null> {
+    this.db ??= new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(this.config.dbName, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          for (const name of [SEARCH_STORE, TERM_STORE]) {
+            if (db.objectStoreNames.contains(name)) continue;
+            const store = db.createObjectStore(name, { keyPath: 'key' });
+            store.createIndex('lastAccess', 'lastAccess');
+            if (name === TERM_STORE) {
+              store.createIndex('iri', 'iri');
+            }
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+    return this.db;
+  }
+
+  /**
+   * Runs a request in a transaction and resolves to its result once the
+   * transaction completes. The cache is best effort: failures resolve to null.
+   */
+  private async withStore<T>(
+    name: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T> | void
+  ): Promise<T | null> {
+    const db = await this.openDb();
+    if (!db) return null;
+
+    return new Promise((resolve) => {
+      try {
+        const transaction = db.transaction(name, mode);
+        const request = action(transaction.objectStore(name));
+        transaction.oncomplete = () => resolve(request ? request.result : null);
+        transaction.onerror = () => resolve(null);
+        transaction.onabort = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+
+  /**
+   * Records an access for LRU eviction.
+   */
+  private touch<T>(name: string, record: CacheRecord<T>): void {
+    this.withStore(name, 'readwrite', (store) => store.put({ ...record, lastAccess: Date.now() }));
+  }
+
+  /**
+   * Deletes the least recently used records beyond `max`.
+   */
+  private async evict(name: string, max: number): Promise<void> {
+    await this.withStore(name, 'readwrite', (store) => {
+      const count = store.count();
+      count.onsuccess = () => {
+        let excess = count.result - max;
+        if (excess <= 0) return;
+
+        const cursorRequest = store.index('lastAccess').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || excess <= 0) return;
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        };
+      };
+    });
+  }
+}
+
+// Export singleton instance for convenience
+export const ontologyCacheService = new OntologyCacheService();
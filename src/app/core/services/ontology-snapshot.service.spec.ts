@@ -0,0 +1,78 @@
+import { OntologySnapshotService } from './ontology-snapshot.service';
+import fixture from './ontology-snapshot.fixture.json';
+
+describe('OntologySnapshotService', () => {
+  const files: Record<string, unknown> = fixture.files;
+
+  /** Service reading the fixture, recording the files it loads */
+  const snapshots = () => {
+    const loaded: string[] = [];
+    const service = new OntologySnapshotService({
+      load: async (file) => {
+        loaded.push(file);
+        return files[file] ?? null;
+      },
+    });
+    return { service, loaded };
+  };
+
+  it('searches the snapshots of the requested ontologies', async () => {
+    const { service, loaded } = snapshots();
+    const results = await service.search({ query: 'human', ontology: ['NCBITaxon'] });
+
+    expect(results.map((t) => [t.id, t.label, t.isExactMatch])).toEqual([['NCBITaxon:9606', 'Homo sapiens', true]]);
+    expect(results[0].iri).toBe('http://purl.obolibrary.org/obo/NCBITaxon_9606');
+    expect(loaded).toEqual(['index.json', 'ncbitaxon.json']);
+  });
+
+  it('searches all snapshots without ontologies', async () => {
+    const { service } = snapshots();
+    const results = await service.search({ query: 'cancer' });
+
+    expect(results.map((t) => t.id)).toEqual(['MONDO:0004992', 'MONDO:0007254']);
+  });
+
+  it('includes snapshots searched as another ontology', async () => {
+    const { service } = snapshots();
+    const results = await service.search({ query: 'hela', ontology: ['clo'] });
+
+    expect(results.map((t) => [t.id, t.iri])).toEqual([['CVCL_0030', 'https://www.cellosaurus.org/CVCL_0030']]);
+  });
+
+  it('finds terms despite typos', async () => {
+    const { service } = snapshots();
+
+    expect((await service.search({ query: 'brest cancer', ontology: ['mondo'] })).map((t) => t.label)).toEqual([
+      'breast cancer',
+    ]);
+    expect((await service.search({ query: 'Q Exactve', ontology: ['ms'], exact: true })).length).toBe(0);
+  });
+
+  it('gets terms by accession or IRI, loading each snapshot once', async () => {
+    const { service, loaded } = snapshots();
+
+    expect((await service.getTerm('MS:1000422'))?.synonyms).toEqual(['HCD']);
+    expect((await service.getTerm('http://purl.obolibrary.org/obo/MS_1001911'))?.label).toBe('Q Exactive');
+    expect((await service.getTerm('MONDO:0005148'))?.parents).toEqual(['MONDO:0005015']);
+    expect(await service.getTerm('MS:0000000')).toBeNull();
+    expect(loaded).toEqual(['index.json', 'ms.json', 'mondo.json']);
+  });
+
+  it('lists the bundled snapshots', async () => {
+    const { service } = snapshots();
+
+    expect(await service.getAvailableOntologies()).toEqual([
+      { ontology: 'ncbitaxon', termCount: 3 },
+      { ontology: 'mondo', termCount: 4 },
+      { ontology: 'ms', termCount: 5 },
+      { ontology: 'cellosaurus', termCount: 1 },
+    ]);
+  });
+
+  it('finds nothing without bundled snapshots', async () => {
+    const service = new OntologySnapshotService({ load: async () => null });
+
+    expect(await service.search({ query: 'human' })).toEqual([]);
+    expect(await service.getTerm('NCBITaxon:9606')).toBeNull();
+  });
+});
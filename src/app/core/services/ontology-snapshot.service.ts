@@ -0,0 +1,196 @@
+/**
+ * Ontology Snapshot Service
+ *
+ * Local search over the ontology snapshots (NCBITaxon subset,
+ * MONDO, EFO diseases, UBERON, CL, BTO, PRIDE, MS, Cellosaurus) built by
+ * scripts/build-ontology-snapshots.js. DirectOlsService falls back to it
+ * when OLS cannot be reached, so autocomplete and term checks keep
+ * working behind firewalls.
+ *
+ * Snapshots are listed in index.json and loaded per ontology on first use.
+ * They are not committed; without a build of them every search is empty.
+ */
+
+import {
+  OntologySuggestion,
+  OntologySearchParams,
+  OntologySearchBackend,
+} from '../models/ontology';
+import { searchTerms } from '../utils/term-match';
+
+/**
+ * Configuration for the snapshot service.
+ */
+export interface OntologySnapshotConfig {
+  /** URL of the snapshot directory, holding index.json */
+  baseUrl?: string;
+
+  /** Reads a snapshot file as JSON, or null if missing (default: fetch from baseUrl) */
+  load?: (file: string) => Promise<unknown | null>;
+}
+
+/**
+ * Entry of index.json.
+ */
+interface SnapshotManifestEntry {
+  /** OLS ontology id, e.g. "ms" */
+  ontology: string;
+
+  /** Accession prefix of its terms, e.g. "MS" */
+  prefix: string;
+
+  /** Snapshot file, relative to the snapshot directory */
+  file: string;
+
+  /** Base of the term IRIs (IRI = iriPrefix + accession with "_" for ":") */
+  iriPrefix: string;
+
+  /** Other ontology ids whose searches include this snapshot */
+  searchedAs?: string[];
+
+  termCount: number;
+}
+
+interface SnapshotManifest {
+  generatedAt: string;
+  snapshots: SnapshotManifestEntry[];
+}
+
+/**
+ * Compact term of a snapshot file.
+ */
+interface SnapshotTerm {
+  id: string;
+  label: string;
+  synonyms?: string[];
+  obsolete?: boolean;
+  replacedBy?: string;
+  parents?: string[];
+}
+
+const DEFAULT_BASE_URL = 'assets/ontology-snapshots';
+
+/**
+ * Ontology Snapshot Service
+ *
+ * Searches bundled ontology snapshots.
+ */
+export class OntologySnapshotService implements OntologySearchBackend {
+  private baseUrl: string;
+  private load: (file: string) => Promise<unknown | null>;
+  private manifest: Promise<SnapshotManifest | null> | null = null;
+  private snapshots = new Map<string, Promise<OntologySuggestion[]>>();
+
+  constructor(config: OntologySnapshotConfig = {}) {
+    this.baseUrl = config.baseUrl ?? DEFAULT_BASE_URL;
+    this.load = config.load ?? ((file) => this.fetchFile(file));
+  }
+
+  /**
+   * Searches the snapshots of `params.ontology` (all snapshots if none).
+   */
+  async search(params: OntologySearchParams): Promise<OntologySuggestion[]> {
+    const wanted = params.ontology?.map((o) => o.toLowerCase()) ?? [];
+    const entries = await this.getEntries((entry) =>
+      wanted.length === 0 || [entry.ontology, ...(entry.searchedAs ?? [])].some((o) => wanted.includes(o))
+    );
+
+    const terms = (await Promise.all(entries.map((entry) => this.loadSnapshot(entry)))).flat();
+    return searchTerms(terms, { ...params, ontology: undefined });
+  }
+
+  /**
+   * Gets a term by accession (e.g. MS:1000449) or IRI.
+   */
+  async getTerm(idOrIri: string): Promise<OntologySuggestion | null> {
+    const isIri = /^https?:\/\//.test(idOrIri);
+    const entries = await this.getEntries((entry) =>
+      isIri
+        ? idOrIri.startsWith(entry.iriPrefix + entry.prefix)
+        : idOrIri.toLowerCase().startsWith(entry.prefix.toLowerCase())
+    );
+
+    const key = idOrIri.toLowerCase();
+    for (const entry of entries) {
+      const terms = await this.loadSnapshot(entry);
+      const term = terms.find((t) => (isIri ? t.iri === idOrIri : t.id.toLowerCase() === key));
+      if (term) return term;
+    }
+    return null;
+  }
+
+  /**
+   * Lists the bundled snapshots.
+   */
+  async getAvailableOntologies(): Promise<{ ontology: string; termCount: number }[]> {
+    const entries = await this.getEntries(() => true);
+    return entries.map(({ ontology, termCount }) => ({ ontology, termCount }));
+  }
+
+  // === Private Methods ===
+
+  private async getEntries(filter: (entry: SnapshotManifestEntry) => boolean): Promise<SnapshotManifestEntry[]> {
+    this.manifest ??= this.load('index.json') as Promise<SnapshotManifest | null>;
+    const manifest = await this.manifest;
+    return (manifest?.snapshots ?? []).filter(filter);
+  }
+
+  /**
+   * Loads the terms of a snapshot once.
+   */
+  private loadSnapshot(entry: SnapshotManifestEntry): Promise<OntologySuggestion[]> {
+    let snapshot = this.snapshots.get(entry.ontology);
+    if (!snapshot) {
+      snapshot = (async () => {
+        const data = (await this.load(entry.file)) as { terms?: SnapshotTerm[] } | null;
+        return (data?.terms ?? []).map((term) => this.toSuggestion(term, entry));
+      })();
+      this.snapshots.set(entry.ontology, snapshot);
+    }
+    return snapshot;
+  }
+
+  private toSuggestion(term: SnapshotTerm, entry: SnapshotManifestEntry): OntologySuggestion {
+    return {
+      id: term.id,
+      label: term.label,
+      iri: entry.iriPrefix + term.id.replace(':', '_'),
+      ontologyPrefix: entry.ontology.toUpperCase(),
+      synonyms: term.synonyms ?? [],
+      isObsolete: term.obsolete === true,
+      replacedBy: term.replacedBy,
+      parents: term.parents ?? [],
+    };
+  }
+
+  /**
+   * Fetches a snapshot file, decompressing .gz files.
+   * Returns null if it is not bundled or decompression is not supported.
+   */
+  private async fetchFile(file: string): Promise<unknown | null> {
+    if (typeof fetch === 'undefined') {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/${file}`);
+      if (!response.ok || !response.body) {
+        return null;
+      }
+      if (!file.endsWith('.gz')) {
+        return await response.json();
+      }
+      if (typeof DecompressionStream === 'undefined') {
+        return null;
+      }
+
+      const decompressed = response.body.pipeThrough(new DecompressionStream('gzip'));
+      return await new Response(decompressed).json();
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance for convenience
+export const ontologySnapshotService = new OntologySnapshotService();
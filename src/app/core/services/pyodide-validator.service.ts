@@ -20,6 +20,8 @@ export interface ValidationError {
   value: string | null;
   level: 'error' | 'warning';
   suggestion: string | null;
+  /** Corrected value replacing `value` (live and native validation issues, see models/validation) */
+  fix?: string;
 }
 
 /**
@@ -0,0 +1,75 @@
+import { SdrfClipboardService } from './sdrf-clipboard.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfTable, getTableDataMatrix } from '../models/sdrf-table';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+describe('SdrfClipboardService', () => {
+  const service = new SdrfClipboardService();
+
+  const source = () =>
+    table([
+      ['source name', 'characteristics[organism]', 'characteristics[age]'],
+      ['s1', 'homo sapiens', '30Y'],
+      ['s2', 'mus musculus', '8W'],
+      ['s3', 'homo sapiens', '45Y'],
+    ]);
+
+  it('copies a block as TSV', () => {
+    const text = service.copyBlock(source(), { rows: [3, 1], startCol: 0, endCol: 1 });
+
+    expect(text).toBe('s3\thomo sapiens\ns1\thomo sapiens');
+  });
+
+  it('pastes in display order and appends rows for taller blocks', () => {
+    const result = service.pasteText(
+      source(),
+      { rows: [2], startCol: 0, endCol: 0 },
+      [3, 2, 1],
+      's2b\tmouse\ns1b\thuman\ns4\trat'
+    )!;
+
+    expect(result.rows).toEqual([2, 1, 4]);
+    expect(result.added).toBe(1);
+    expect(result.width).toBe(2);
+    expect(result.changed).toBe(6);
+    expect(getTableDataMatrix(result.table)).toEqual([
+      ['s1b', 'human', '30Y'],
+      ['s2b', 'mouse', '8W'],
+      ['s3', 'homo sapiens', '45Y'],
+      ['s4', 'rat', ''],
+    ]);
+  });
+
+  it('repeats a block over a selection it fits and drops columns past the last', () => {
+    const repeated = service.pasteText(source(), { rows: [1, 2, 3], startCol: 1, endCol: 1 }, [1, 2, 3], 'rat')!;
+    expect(repeated.rows).toEqual([1, 2, 3]);
+    expect(getTableDataMatrix(repeated.table).map((row) => row[1])).toEqual(['rat', 'rat', 'rat']);
+
+    const clipped = service.pasteText(source(), { rows: [1], startCol: 2, endCol: 2 }, [1, 2, 3], '1Y\textra')!;
+    expect(clipped.width).toBe(1);
+    expect(clipped.table.columns.length).toBe(3);
+  });
+
+  it('reports values that fail the column syntax, letting reserved values pass', () => {
+    const result = service.pasteText(
+      source(),
+      { rows: [1], startCol: 2, endCol: 2 },
+      [1, 2, 3],
+      'thirty\nnot available\n50Y'
+    )!;
+
+    expect(result.issues.length).toBe(1);
+    expect(result.issues[0]).toEqual(
+      jasmine.objectContaining({ row: 1, col: 2, column: 'characteristics[age]', value: 'thirty' })
+    );
+  });
+
+  it('ignores empty text and selections outside the displayed rows', () => {
+    expect(service.pasteText(source(), { rows: [1], startCol: 0, endCol: 0 }, [1, 2, 3], '')).toBeNull();
+    expect(service.pasteText(source(), { rows: [2], startCol: 0, endCol: 0 }, [1, 3], 'x')).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * SDRF Clipboard Service
+ *
+ * Copies blocks of cells as TSV and pastes TSV blocks into an SDRF
+ * table, as spreadsheets do. Pasted values are checked against the
+ * SDRF syntax of their column (see SdrfSyntaxService).
+ */
+
+import { Injectable } from '@angular/core';
+import { SdrfTable } from '../models/sdrf-table';
+import { getValueForSample } from '../models/sdrf-column';
+import {
+  getColumnStore,
+  columnStoreToModifiers,
+  createColumnStoreFromValues,
+  expandColumnStore,
+  insertSamplesIntoStore,
+} from '../models/column-store';
+import { parseClipboardTsv, formatClipboardTsv } from '../utils/clipboard-utils';
+import { sdrfSyntax, SyntaxType } from './sdrf-syntax.service';
+import { CellRange } from './grid-selection';
+
+// === Types ===
+
+/**
+ * Pasted cell whose value failed the SDRF syntax check.
+ */
+export interface PasteIssue {
+  row: number;
+  col: number;
+  column: string;
+  value: string;
+  errors: string[];
+}
+
+/**
+ * Outcome of a paste.
+ */
+export interface PasteResult {
+  table: SdrfTable;
+
+  /** Rows written, in display order (appended rows last) */
+  rows: number[];
+
+  /** Number of rows appended to the table */
+  added: number;
+
+  /** Number of columns written */
+  width: number;
+
+  /** Number of cells whose value changed */
+  changed: number;
+
+  issues: PasteIssue[];
+}
+
+/** Reserved SDRF values, which pass the syntax check */
+const RESERVED_VALUES = ['not available', 'not applicable', 'anonymized', 'pooled'];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SdrfClipboardService {
+  /**
+   * Formats a block of cells as TSV.
+   */
+  copyBlock(table: SdrfTable, range: CellRange): string {
+    const rows = range.rows.map((row) => {
+      const values: string[] = [];
+      for (let col = range.startCol; col <= range.endCol; col++) {
+        values.push(getValueForSample(table.columns[col], row));
+      }
+      return values;
+    });
+
+    return formatClipboardTsv(rows);
+  }
+
+  /**
+   * Pastes TSV text at the top-left cell of a selection.
+   * Returns null when the text holds no values.
+   *
+   * @param displayRows Rows in display order, which the block follows
+   */
+  pasteText(table: SdrfTable, range: CellRange, displayRows: number[], text: string): PasteResult | null {
+    const block = parseClipboardTsv(text);
+    if (block.length === 0 || block[0].length === 0) return null;
+    return this.pasteBlock(table, range, displayRows, block);
+  }
+
+  /**
+   * Writes a block of values into the table, starting at the top-left
+   * cell of the selection and following the display order. Rows are
+   * appended when the block is taller than the remaining rows; columns
+   * past the last one are dropped. A block that fits the selection a
+   * whole number of times is repeated over it.
+   *
+   * Returns null when the selection is not among the displayed rows.
+   */
+  pasteBlock(table: SdrfTable, range: CellRange, displayRows: number[], block: string[][]): PasteResult | null {
+    if (block.length === 0) return null;
+
+    const blockHeight = block.length;
+    const blockWidth = block[0].length;
+    const rangeHeight = range.rows.length;
+    const rangeWidth = range.endCol - range.startCol + 1;
+
+    let height = blockHeight;
+    let width = blockWidth;
+    if (rangeHeight % blockHeight === 0 && rangeWidth % blockWidth === 0) {
+      height = rangeHeight;
+      width = rangeWidth;
+    }
+    width = Math.min(width, table.columns.length - range.startCol);
+
+    const start = displayRows.indexOf(range.rows[0]);
+    if (start < 0) return null;
+
+    const rows = displayRows.slice(start, start + height);
+    const added = height - rows.length;
+    for (let i = 1; i <= added; i++) {
+      rows.push(table.sampleCount + i);
+    }
+
+    // New rows start empty in every column
+    const columns = added > 0
+      ? table.columns.map((col) => {
+          const store = insertSamplesIntoStore(
+            getColumnStore(col),
+            table.sampleCount,
+            table.sampleCount + 1,
+            Array(added).fill('')
+          );
+          return { ...col, ...columnStoreToModifiers(store) };
+        })
+      : [...table.columns];
+
+    const sampleCount = table.sampleCount + added;
+    const issues: PasteIssue[] = [];
+    let changed = 0;
+
+    // Each pasted column is expanded once, written and compacted again
+    for (let c = 0; c < width; c++) {
+      const colIdx = range.startCol + c;
+      const column = columns[colIdx];
+      const syntaxType = sdrfSyntax.detectSpecialSyntax(column.name);
+      const values = expandColumnStore(getColumnStore(column), sampleCount);
+      let columnChanged = false;
+
+      for (let r = 0; r < height; r++) {
+        const row = rows[r];
+        const value = block[r % blockHeight][c % blockWidth];
+
+        const errors = this.checkValue(syntaxType, value);
+        if (errors.length > 0) {
+          issues.push({ row, col: colIdx, column: column.name, value, errors });
+        }
+
+        if (values[row - 1] !== value) {
+          values[row - 1] = value;
+          columnChanged = true;
+          changed++;
+        }
+      }
+
+      if (columnChanged) {
+        columns[colIdx] = { ...column, ...columnStoreToModifiers(createColumnStoreFromValues(values)) };
+      }
+    }
+
+    return {
+      table: { ...table, sampleCount, columns },
+      rows,
+      added,
+      width,
+      changed,
+      issues,
+    };
+  }
+
+  /**
+   * Syntax errors for a pasted value (empty and reserved values pass).
+   */
+  private checkValue(syntaxType: SyntaxType | null, value: string): string[] {
+    if (!syntaxType || !value.trim() || RESERVED_VALUES.includes(value.toLowerCase().trim())) return [];
+
+    const parsed = sdrfSyntax.parseValue(syntaxType, value);
+    return sdrfSyntax.validateValue(syntaxType, parsed).errors;
+  }
+}
+
+// Export singleton instance for convenience
+export const sdrfClipboardService = new SdrfClipboardService();
@@ -0,0 +1,137 @@
+import { SdrfDiffService } from './sdrf-diff.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfTable } from '../models/sdrf-table';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+describe('SdrfDiffService', () => {
+  const service = new SdrfDiffService();
+
+  it('reports no changes for identical tables', () => {
+    const rows = [
+      ['source name', 'characteristics[organism]'],
+      ['s1', 'homo sapiens'],
+      ['s2', 'mus musculus'],
+    ];
+    const diff = service.compare(table(rows), table(rows));
+
+    expect(service.hasChanges(diff)).toBeFalse();
+    expect(diff.alignedByKey).toBeTrue();
+  });
+
+  it('matches rows by key and reports changed cells', () => {
+    const diff = service.compare(
+      table([
+        ['source name', 'characteristics[organism]'],
+        ['s1', 'homo sapiens'],
+        ['s2', 'mus musculus'],
+      ]),
+      table([
+        ['source name', 'characteristics[organism]'],
+        ['s2', 'rattus norvegicus'],
+        ['s1', 'homo sapiens'],
+      ])
+    );
+
+    expect(diff.summary.changedRows).toBe(1);
+    expect(diff.summary.changedCells).toBe(1);
+    const changed = diff.rows.find((r) => r.status === 'changed')!;
+    expect(changed.key).toBe('s2');
+    expect(changed.changes).toEqual([
+      { columnKey: 'characteristics[organism]', oldValue: 'mus musculus', newValue: 'rattus norvegicus' },
+    ]);
+  });
+
+  it('reports added and removed rows and columns', () => {
+    const diff = service.compare(
+      table([
+        ['source name', 'characteristics[organism]', 'characteristics[age]'],
+        ['s1', 'homo sapiens', '30Y'],
+        ['s2', 'homo sapiens', '40Y'],
+      ]),
+      table([
+        ['source name', 'characteristics[organism]', 'characteristics[sex]'],
+        ['s1', 'homo sapiens', 'female'],
+        ['s3', 'homo sapiens', 'male'],
+      ])
+    );
+
+    expect(diff.summary).toEqual(
+      jasmine.objectContaining({ addedColumns: 1, removedColumns: 1, addedRows: 1, removedRows: 1 })
+    );
+    expect(diff.columns.find((c) => c.status === 'added')!.name).toBe('characteristics[sex]');
+    expect(diff.rows.find((r) => r.status === 'removed')!.key).toBe('s2');
+  });
+
+  it('matches repeated keys by occurrence', () => {
+    const diff = service.compare(
+      table([
+        ['source name', 'characteristics[organism]'],
+        ['s1', 'a'],
+        ['s1', 'b'],
+      ]),
+      table([
+        ['source name', 'characteristics[organism]'],
+        ['s1', 'a'],
+        ['s1', 'c'],
+      ])
+    );
+
+    expect(diff.rows.map((r) => r.key)).toEqual(['s1', 's1 (2)']);
+    expect(diff.rows[1].status).toBe('changed');
+  });
+
+  it('keys rows only by the key columns present in both tables', () => {
+    const diff = service.compare(
+      table([
+        ['source name', 'characteristics[organism]'],
+        ['s1', 'homo sapiens'],
+        ['s2', 'homo sapiens'],
+      ]),
+      table([
+        ['source name', 'characteristics[organism]', 'comment[data file]'],
+        ['s1', 'homo sapiens', 'a.raw'],
+        ['s2', 'homo sapiens', 'b.raw'],
+      ])
+    );
+
+    expect(diff.rows.map((r) => r.key)).toEqual(['s1', 's2']);
+    expect(diff.summary.addedRows).toBe(0);
+    expect(diff.summary.removedRows).toBe(0);
+    expect(diff.summary.addedColumns).toBe(1);
+  });
+
+  it('aligns rows by position without key columns', () => {
+    const diff = service.compare(
+      table([['characteristics[organism]'], ['a'], ['b']]),
+      table([['characteristics[organism]'], ['a'], ['c']])
+    );
+
+    expect(diff.alignedByKey).toBeFalse();
+    expect(diff.rows.map((r) => r.key)).toEqual(['row 1', 'row 2']);
+    expect(diff.summary.changedCells).toBe(1);
+  });
+
+  it('exports changes as TSV and JSON Patch', () => {
+    const diff = service.compare(
+      table([
+        ['source name', 'characteristics[organism]'],
+        ['s1', 'homo sapiens'],
+      ]),
+      table([
+        ['source name', 'characteristics[organism]'],
+        ['s1', 'mus musculus'],
+      ])
+    );
+
+    expect(service.exportToTsv(diff).split('\n')[1]).toBe(
+      'cell_changed\ts1\t1\t1\tcharacteristics[organism]\thomo sapiens\tmus musculus'
+    );
+    expect(service.exportToJsonPatch(diff)).toEqual([
+      { op: 'replace', path: '/rows/s1/characteristics[organism]', value: 'mus musculus' },
+    ]);
+  });
+});
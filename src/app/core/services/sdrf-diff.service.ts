@@ -0,0 +1,477 @@
+/**
+ * SDRF Diff Service
+ *
+ * Computes a cell-level diff between two SDRF tables, e.g. a curated
+ * version and a revision sent back by a submitter.
+ *
+ * Alignment:
+ * - Columns are matched by name (case-insensitive). Repeated names such
+ *   as comment[modification parameters] are matched by occurrence.
+ * - Rows are matched by "source name" + "comment[data file]", using the
+ *   key columns present in both tables. Repeated keys are matched by
+ *   occurrence.
+ */
+
+import { Injectable } from '@angular/core';
+import { SdrfTable } from '../models/sdrf-table';
+import { getColumnStore, getStoreValue, ColumnValueStore } from '../models/column-store';
+
+// === Types ===
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * A column in the union of both tables.
+ */
+export interface ColumnDiff {
+  /** Stable key: column name, with " (n)" for the n-th repeat */
+  key: string;
+
+  /** Display name (from the revised table when present) */
+  name: string;
+
+  status: DiffStatus;
+
+  /** Column index in the base table */
+  baseIndex?: number;
+
+  /** Column index in the revised table */
+  revisedIndex?: number;
+
+  /** Number of changed cells in matched rows */
+  changedCells: number;
+}
+
+/**
+ * A changed cell in a row present in both tables.
+ */
+export interface CellChange {
+  columnKey: string;
+  oldValue: string;
+  newValue: string;
+}
+
+/**
+ * A row in the union of both tables.
+ */
+export interface RowDiff {
+  /** Stable key: "source name | data file", with " (n)" for the n-th repeat */
+  key: string;
+
+  status: DiffStatus;
+
+  /** Sample index in the base table (1-based) */
+  baseRow?: number;
+
+  /** Sample index in the revised table (1-based) */
+  revisedRow?: number;
+
+  /** Changed cells (matched columns only) */
+  changes: CellChange[];
+}
+
+export interface SdrfDiffSummary {
+  addedColumns: number;
+  removedColumns: number;
+  addedRows: number;
+  removedRows: number;
+  changedRows: number;
+  changedCells: number;
+}
+
+/**
+ * Result of comparing two tables.
+ */
+export interface SdrfDiff {
+  base: SdrfTable;
+  revised: SdrfTable;
+
+  /** Union of columns, in revised order with removed columns interleaved */
+  columns: ColumnDiff[];
+
+  /** Union of rows, in revised order with removed rows interleaved */
+  rows: RowDiff[];
+
+  /** Whether rows were aligned by key (false: by position) */
+  alignedByKey: boolean;
+
+  summary: SdrfDiffSummary;
+}
+
+/**
+ * A single RFC 6902 JSON Patch operation.
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+/** Columns identifying a row, in key order */
+const ROW_KEY_COLUMNS = ['source name', 'comment[data file]'];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SdrfDiffService {
+  /**
+   * Compares two tables.
+   *
+   * @param base The reference table (e.g. the curated version)
+   * @param revised The table to compare against the reference
+   */
+  compare(base: SdrfTable, revised: SdrfTable): SdrfDiff {
+    const baseColumnKeys = this.columnKeys(base);
+    const revisedColumnKeys = this.columnKeys(revised);
+
+    const columns = this.mergeOrder(baseColumnKeys, revisedColumnKeys).map(
+      ([baseIndex, revisedIndex]): ColumnDiff => {
+        const key = revisedIndex !== undefined ? revisedColumnKeys[revisedIndex] : baseColumnKeys[baseIndex!];
+        const name =
+          revisedIndex !== undefined ? revised.columns[revisedIndex].name : base.columns[baseIndex!].name;
+        return {
+          key,
+          name,
+          status: baseIndex === undefined ? 'added' : revisedIndex === undefined ? 'removed' : 'unchanged',
+          baseIndex,
+          revisedIndex,
+          changedCells: 0,
+        };
+      }
+    );
+
+    const keyColumns = ROW_KEY_COLUMNS.filter(
+      (name) => this.hasColumn(base, name) && this.hasColumn(revised, name)
+    );
+    const alignedByKey = keyColumns.length > 0;
+    const baseRowKeys = this.rowKeys(base, keyColumns);
+    const revisedRowKeys = this.rowKeys(revised, keyColumns);
+
+    const matchedColumns = columns.filter(
+      (c) => c.baseIndex !== undefined && c.revisedIndex !== undefined
+    );
+    const baseStores = new Map<ColumnDiff, ColumnValueStore>();
+    const revisedStores = new Map<ColumnDiff, ColumnValueStore>();
+    for (const column of matchedColumns) {
+      baseStores.set(column, getColumnStore(base.columns[column.baseIndex!]));
+      revisedStores.set(column, getColumnStore(revised.columns[column.revisedIndex!]));
+    }
+
+    const rows = this.mergeOrder(baseRowKeys, revisedRowKeys).map(
+      ([baseIndex, revisedIndex]): RowDiff => {
+        const key = revisedIndex !== undefined ? revisedRowKeys[revisedIndex] : baseRowKeys[baseIndex!];
+        const row: RowDiff = {
+          key,
+          status: baseIndex === undefined ? 'added' : revisedIndex === undefined ? 'removed' : 'unchanged',
+          baseRow: baseIndex !== undefined ? baseIndex + 1 : undefined,
+          revisedRow: revisedIndex !== undefined ? revisedIndex + 1 : undefined,
+          changes: [],
+        };
+
+        if (row.baseRow !== undefined && row.revisedRow !== undefined) {
+          for (const column of matchedColumns) {
+            const oldValue = getStoreValue(baseStores.get(column)!, row.baseRow);
+            const newValue = getStoreValue(revisedStores.get(column)!, row.revisedRow);
+            if (oldValue !== newValue) {
+              row.changes.push({ columnKey: column.key, oldValue, newValue });
+              column.changedCells++;
+            }
+          }
+          if (row.changes.length > 0) {
+            row.status = 'changed';
+          }
+        }
+
+        return row;
+      }
+    );
+
+    for (const column of matchedColumns) {
+      if (column.changedCells > 0) {
+        column.status = 'changed';
+      }
+    }
+
+    return {
+      base,
+      revised,
+      columns,
+      rows,
+      alignedByKey,
+      summary: {
+        addedColumns: columns.filter((c) => c.status === 'added').length,
+        removedColumns: columns.filter((c) => c.status === 'removed').length,
+        addedRows: rows.filter((r) => r.status === 'added').length,
+        removedRows: rows.filter((r) => r.status === 'removed').length,
+        changedRows: rows.filter((r) => r.status === 'changed').length,
+        changedCells: rows.reduce((sum, r) => sum + r.changes.length, 0),
+      },
+    };
+  }
+
+  /**
+   * Whether the diff found any difference.
+   */
+  hasChanges(diff: SdrfDiff): boolean {
+    const s = diff.summary;
+    return (
+      s.addedColumns + s.removedColumns + s.addedRows + s.removedRows + s.changedCells > 0
+    );
+  }
+
+  /**
+   * Gets the base and revised value of a cell in the union grid.
+   * Missing sides (added/removed row or column) are undefined.
+   */
+  getCellValues(
+    diff: SdrfDiff,
+    row: RowDiff,
+    column: ColumnDiff
+  ): { oldValue?: string; newValue?: string } {
+    const oldValue =
+      row.baseRow !== undefined && column.baseIndex !== undefined
+        ? getStoreValue(getColumnStore(diff.base.columns[column.baseIndex]), row.baseRow)
+        : undefined;
+    const newValue =
+      row.revisedRow !== undefined && column.revisedIndex !== undefined
+        ? getStoreValue(getColumnStore(diff.revised.columns[column.revisedIndex]), row.revisedRow)
+        : undefined;
+    return { oldValue, newValue };
+  }
+
+  // === Export ===
+
+  /**
+   * Exports the diff as TSV, one line per change.
+   * Columns: change, row, base_row, revised_row, column, old_value, new_value
+   */
+  exportToTsv(diff: SdrfDiff): string {
+    const lines: string[][] = [
+      ['change', 'row', 'base_row', 'revised_row', 'column', 'old_value', 'new_value'],
+    ];
+
+    for (const column of diff.columns) {
+      if (column.status === 'added' || column.status === 'removed') {
+        lines.push([`column_${column.status}`, '', '', '', column.name, '', '']);
+      }
+    }
+
+    const columnNames = new Map(diff.columns.map((c) => [c.key, c.name]));
+
+    for (const row of diff.rows) {
+      const baseRow = row.baseRow !== undefined ? String(row.baseRow) : '';
+      const revisedRow = row.revisedRow !== undefined ? String(row.revisedRow) : '';
+
+      if (row.status === 'added' || row.status === 'removed') {
+        lines.push([`row_${row.status}`, row.key, baseRow, revisedRow, '', '', '']);
+      }
+
+      for (const change of row.changes) {
+        lines.push([
+          'cell_changed',
+          row.key,
+          baseRow,
+          revisedRow,
+          columnNames.get(change.columnKey) ?? change.columnKey,
+          change.oldValue,
+          change.newValue,
+        ]);
+      }
+    }
+
+    return lines.map((fields) => fields.map((f) => this.escapeTsv(f)).join('\t')).join('\n') + '\n';
+  }
+
+  /**
+   * Exports the diff as an RFC 6902 JSON Patch that turns the keyed
+   * document of the base table into that of the revised table:
+   *
+   *   { "columns": [column keys...], "rows": { rowKey: { columnKey: value } } }
+   *
+   * Operations do not depend on each other's order except that the
+   * "/columns" replacement describes the final column order.
+   */
+  exportToJsonPatch(diff: SdrfDiff): JsonPatchOperation[] {
+    const ops: JsonPatchOperation[] = [];
+    const revisedColumns = diff.columns.filter((c) => c.revisedIndex !== undefined);
+    const addedColumns = diff.columns.filter((c) => c.status === 'added');
+    const removedColumns = diff.columns.filter((c) => c.status === 'removed');
+
+    if (addedColumns.length > 0 || removedColumns.length > 0 || !this.sameColumnOrder(diff)) {
+      ops.push({ op: 'replace', path: '/columns', value: revisedColumns.map((c) => c.key) });
+    }
+
+    for (const row of diff.rows) {
+      const rowPath = `/rows/${this.escapePointer(row.key)}`;
+
+      if (row.status === 'removed') {
+        ops.push({ op: 'remove', path: rowPath });
+        continue;
+      }
+
+      if (row.status === 'added') {
+        const value: Record<string, string> = {};
+        for (const column of revisedColumns) {
+          value[column.key] = this.getCellValues(diff, row, column).newValue ?? '';
+        }
+        ops.push({ op: 'add', path: rowPath, value });
+        continue;
+      }
+
+      for (const column of removedColumns) {
+        ops.push({ op: 'remove', path: `${rowPath}/${this.escapePointer(column.key)}` });
+      }
+      for (const column of addedColumns) {
+        ops.push({
+          op: 'add',
+          path: `${rowPath}/${this.escapePointer(column.key)}`,
+          value: this.getCellValues(diff, row, column).newValue ?? '',
+        });
+      }
+      for (const change of row.changes) {
+        ops.push({
+          op: 'replace',
+          path: `${rowPath}/${this.escapePointer(change.columnKey)}`,
+          value: change.newValue,
+        });
+      }
+    }
+
+    return ops;
+  }
+
+  /**
+   * Triggers download of the diff as TSV.
+   */
+  downloadTsv(diff: SdrfDiff, filename: string = 'sdrf-diff.tsv'): void {
+    const blob = new Blob([this.exportToTsv(diff)], {
+      type: 'text/tab-separated-values;charset=utf-8',
+    });
+    this.downloadBlob(blob, filename);
+  }
+
+  /**
+   * Triggers download of the diff as a JSON Patch.
+   */
+  downloadJsonPatch(diff: SdrfDiff, filename: string = 'sdrf-diff.patch.json'): void {
+    const content = JSON.stringify(this.exportToJsonPatch(diff), null, 2);
+    const blob = new Blob([content], { type: 'application/json-patch+json' });
+    this.downloadBlob(blob, filename);
+  }
+
+  // === Alignment ===
+
+  /**
+   * Keys for each column: lowercased name, with the occurrence number
+   * appended for repeated names.
+   */
+  private columnKeys(table: SdrfTable): string[] {
+    return this.numberRepeats(table.columns.map((c) => c.name.toLowerCase().trim()));
+  }
+
+  private hasColumn(table: SdrfTable, name: string): boolean {
+    return table.columns.some((c) => c.name.toLowerCase().trim() === name);
+  }
+
+  /**
+   * Keys for each row: the values of the key columns joined by " | ", with
+   * the occurrence number appended for repeated keys. Both tables must use
+   * the same key columns, so a column missing from one table is not part
+   * of the key. Falls back to the row number without key columns.
+   */
+  private rowKeys(table: SdrfTable, keyColumns: string[]): string[] {
+    if (keyColumns.length === 0) {
+      return Array.from({ length: table.sampleCount }, (_, i) => `row ${i + 1}`);
+    }
+
+    const stores = keyColumns.map((name) =>
+      getColumnStore(table.columns.find((c) => c.name.toLowerCase().trim() === name)!)
+    );
+
+    const keys: string[] = [];
+    for (let sample = 1; sample <= table.sampleCount; sample++) {
+      keys.push(stores.map((store) => getStoreValue(store, sample)).join(' | '));
+    }
+    return this.numberRepeats(keys);
+  }
+
+  private numberRepeats(keys: string[]): string[] {
+    const seen = new Map<string, number>();
+    return keys.map((key) => {
+      const count = (seen.get(key) ?? 0) + 1;
+      seen.set(key, count);
+      return count === 1 ? key : `${key} (${count})`;
+    });
+  }
+
+  /**
+   * Merges two key sequences into one union, following the revised order.
+   * Base-only keys are placed right after the preceding matched base key.
+   *
+   * @returns Pairs of [baseIndex, revisedIndex]; one side is undefined for
+   *   keys present in only one sequence
+   */
+  private mergeOrder(
+    baseKeys: string[],
+    revisedKeys: string[]
+  ): Array<[number | undefined, number | undefined]> {
+    const baseIndexByKey = new Map(baseKeys.map((key, i) => [key, i]));
+    const revisedKeySet = new Set(revisedKeys);
+    const result: Array<[number | undefined, number | undefined]> = [];
+    let nextBase = 0;
+
+    const flushRemovedBefore = (limit: number) => {
+      for (; nextBase < limit; nextBase++) {
+        if (!revisedKeySet.has(baseKeys[nextBase])) {
+          result.push([nextBase, undefined]);
+        }
+      }
+    };
+
+    revisedKeys.forEach((key, revisedIndex) => {
+      const baseIndex = baseIndexByKey.get(key);
+      if (baseIndex !== undefined) {
+        flushRemovedBefore(baseIndex);
+        nextBase = Math.max(nextBase, baseIndex + 1);
+      }
+      result.push([baseIndex, revisedIndex]);
+    });
+
+    flushRemovedBefore(baseKeys.length);
+
+    return result;
+  }
+
+  private sameColumnOrder(diff: SdrfDiff): boolean {
+    const matched = diff.columns.filter(
+      (c) => c.baseIndex !== undefined && c.revisedIndex !== undefined
+    );
+    return matched.every((c, i) => i === 0 || c.baseIndex! > matched[i - 1].baseIndex!);
+  }
+
+  // === Helpers ===
+
+  private escapeTsv(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\r?\n/g, '\\n');
+  }
+
+  private escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  private downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Singleton instance for convenience in non-DI contexts.
+ */
+export const sdrfDiffService = new SdrfDiffService();
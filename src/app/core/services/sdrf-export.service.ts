@@ -5,6 +5,7 @@
  */
 
 import { SdrfTable, getTableDataMatrix } from '../models/sdrf-table';
+import { loadXlsx } from '../utils/xlsx-loader';
 
 /**
  * Export options.
@@ -20,6 +21,16 @@ export interface SdrfExportOptions {
   includeBom?: boolean;
 }
 
+/**
+ * Sheet names used in Excel workbooks written by exportToExcel.
+ * The parser reads the same names back when importing a workbook.
+ */
+export const EXCEL_SHEET_NAMES = {
+  main: 'main',
+  columnMap: 'id_metadata_column_map',
+  poolMap: 'pool_object_map',
+} as const;
+
 const DEFAULT_OPTIONS: SdrfExportOptions = {
   includePools: true,
   lineEnding: 'unix',
@@ -116,7 +127,7 @@ export class SdrfExportService {
     options: SdrfExportOptions = {}
   ): Promise<Blob> {
     // Dynamic import of xlsx library
-    const XLSX = await this.loadXlsx();
+    const XLSX = await loadXlsx();
 
     const opts = { ...DEFAULT_OPTIONS, ...options };
 
@@ -129,35 +140,37 @@ export class SdrfExportService {
     const mainData = [headers, ...dataMatrix];
 
     const mainSheet = XLSX.utils.aoa_to_sheet(mainData);
-    XLSX.utils.book_append_sheet(wb, mainSheet, 'main');
+    XLSX.utils.book_append_sheet(wb, mainSheet, EXCEL_SHEET_NAMES.main);
 
     // Column mapping sheet
     const columnMapData = [
-      ['id', 'column', 'name', 'type', 'hidden'],
+      ['id', 'column', 'name', 'type', 'hidden', 'required'],
       ...table.columns.map((col, idx) => [
         idx,
         idx,
         col.name,
         col.type,
         col.hidden || false,
+        col.isRequired || false,
       ]),
     ];
     const columnMapSheet = XLSX.utils.aoa_to_sheet(columnMapData);
-    XLSX.utils.book_append_sheet(wb, columnMapSheet, 'id_metadata_column_map');
+    XLSX.utils.book_append_sheet(wb, columnMapSheet, EXCEL_SHEET_NAMES.columnMap);
 
     // Pools sheet if included
     if (opts.includePools && table.pools.length > 0) {
       const poolMapData = [
-        ['pool_name', 'pooled_only_samples', 'pooled_and_independent_samples', 'is_reference'],
+        ['pool_name', 'pooled_only_samples', 'pooled_and_independent_samples', 'is_reference', 'sdrf_value'],
         ...table.pools.map((pool) => [
           pool.poolName,
           JSON.stringify(pool.pooledOnlySamples),
           JSON.stringify(pool.pooledAndIndependentSamples),
           pool.isReference,
+          pool.sdrfValue,
         ]),
       ];
       const poolMapSheet = XLSX.utils.aoa_to_sheet(poolMapData);
-      XLSX.utils.book_append_sheet(wb, poolMapSheet, 'pool_object_map');
+      XLSX.utils.book_append_sheet(wb, poolMapSheet, EXCEL_SHEET_NAMES.poolMap);
     }
 
     // Convert to blob
@@ -221,15 +234,6 @@ export class SdrfExportService {
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   }
-
-  /**
-   * Dynamically loads the xlsx library.
-   */
-  private async loadXlsx(): Promise<any> {
-    // @ts-ignore - dynamic import
-    const XLSX = await import('xlsx');
-    return XLSX;
-  }
 }
 
 // Export singleton instance for convenience
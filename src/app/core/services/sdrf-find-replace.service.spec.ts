@@ -0,0 +1,75 @@
+import { SdrfFindReplaceService, FindReplaceOptions } from './sdrf-find-replace.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfTable, getTableDataMatrix } from '../models/sdrf-table';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+describe('SdrfFindReplaceService', () => {
+  const service = new SdrfFindReplaceService();
+
+  const samples = () =>
+    table([
+      ['source name', 'characteristics[organism]', 'comment[data file]'],
+      ['s1', 'Homo sapiens', 'run_1.raw'],
+      ['s2', 'Mus musculus', 'run_2.raw'],
+      ['s3', 'Mus musculus', 'run_3.RAW'],
+      ['s4', 'Mus musculus', 'run_4.raw'],
+      ['s5', 'homo sapiens', 'run_5.raw'],
+    ]);
+
+  const replaced = (options: FindReplaceOptions, t = samples()) =>
+    service.findMatches(t, options).map((m) => [m.row, m.col, m.newValue]);
+
+  it('treats plain text literally', () => {
+    expect(replaced({ find: '.raw', replace: '$1.mzML', columns: [2] })).toEqual([
+      [1, 2, 'run_1$1.mzML'],
+      [2, 2, 'run_2$1.mzML'],
+      [3, 2, 'run_3$1.mzML'],
+      [4, 2, 'run_4$1.mzML'],
+      [5, 2, 'run_5$1.mzML'],
+    ]);
+  });
+
+  it('replaces regex matches with capture groups', () => {
+    expect(replaced({ find: 'run_(\\d)\\.raw', replace: 'sample$1.raw', regex: true, caseSensitive: true })).toEqual([
+      [1, 2, 'sample1.raw'],
+      [2, 2, 'sample2.raw'],
+      [4, 2, 'sample4.raw'],
+      [5, 2, 'sample5.raw'],
+    ]);
+    expect(service.validatePattern({ find: 'run_(', replace: '', regex: true })).toBeTruthy();
+    expect(service.validatePattern({ find: 'run_(', replace: '' })).toBeNull();
+  });
+
+  it('matches case-insensitively unless asked', () => {
+    expect(replaced({ find: 'homo', replace: 'HOMO' }).map(([row]) => row)).toEqual([1, 5]);
+    expect(replaced({ find: 'homo', replace: 'Homo', caseSensitive: true })).toEqual([[5, 1, 'Homo sapiens']]);
+  });
+
+  it('replaces whole cells or substrings', () => {
+    expect(replaced({ find: 'mus', replace: 'rat', wholeCell: true })).toEqual([]);
+    expect(replaced({ find: 'mus musculus', replace: 'rat', wholeCell: true }).map(([row]) => row)).toEqual([2, 3, 4]);
+    expect(replaced({ find: 'mus', replace: 'x', columns: [1] })[0]).toEqual([2, 1, 'x xculus']);
+  });
+
+  it('changes only the matched rows of a column stored as ranges', () => {
+    const t = samples();
+    expect(t.columns[1].modifiers.length).toBeGreaterThan(0);
+
+    const matches = service.findMatches(t, { find: 'Mus', replace: 'Rattus', caseSensitive: true });
+    const result = service.applyMatches(t, matches.filter((m) => m.row !== 3));
+
+    expect(getTableDataMatrix(result).map((row) => row[1])).toEqual([
+      'Homo sapiens',
+      'Rattus musculus',
+      'Mus musculus',
+      'Rattus musculus',
+      'homo sapiens',
+    ]);
+    expect(result.columns[2]).toBe(t.columns[2]);
+    expect(getTableDataMatrix(t)[1][1]).toBe('Mus musculus');
+  });
+});
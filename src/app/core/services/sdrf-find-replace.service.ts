@@ -0,0 +1,172 @@
+/**
+ * SDRF Find & Replace Service
+ *
+ * Finds and replaces cell values across an SDRF table, as plain text or
+ * regular expressions (with $1 / $<name> capture-group references).
+ *
+ * Matching runs on each column's distinct values (see column-store), so
+ * a preview stays cheap on large tables where most values repeat.
+ */
+
+import { Injectable } from '@angular/core';
+import { SdrfTable } from '../models/sdrf-table';
+import {
+  getColumnStore,
+  createColumnStoreFromValues,
+  columnStoreToModifiers,
+  expandColumnStore,
+} from '../models/column-store';
+
+// === Types ===
+
+export interface FindReplaceOptions {
+  /** Text or regular expression to find */
+  find: string;
+
+  /** Replacement; with `regex`, may reference groups ($1, $<name>, $&) */
+  replace: string;
+
+  /** Treat `find` as a regular expression */
+  regex?: boolean;
+
+  caseSensitive?: boolean;
+
+  /** Only match when the whole cell matches */
+  wholeCell?: boolean;
+
+  /** Column indices to search (all columns when omitted) */
+  columns?: number[];
+}
+
+/**
+ * A cell whose value changes.
+ */
+export interface FindReplaceMatch {
+  /** Sample index (1-based) */
+  row: number;
+
+  /** Column index (0-based) */
+  col: number;
+
+  columnName: string;
+  oldValue: string;
+  newValue: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SdrfFindReplaceService {
+  /**
+   * Builds the search pattern.
+   *
+   * @throws SyntaxError when `find` is not a valid regular expression
+   */
+  buildPattern(options: FindReplaceOptions): RegExp {
+    let source = options.regex ? options.find : this.escapeRegex(options.find);
+    if (options.wholeCell) {
+      source = `^(?:${source})$`;
+    }
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  }
+
+  /**
+   * Checks a pattern, returning the error message or null when valid.
+   */
+  validatePattern(options: FindReplaceOptions): string | null {
+    if (!options.find) return null;
+    try {
+      this.buildPattern(options);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Replaces matches in a single value.
+   */
+  replaceValue(value: string, pattern: RegExp, options: FindReplaceOptions): string {
+    pattern.lastIndex = 0;
+    // Plain-text replacements are inserted literally ("$1" stays "$1")
+    return options.regex
+      ? value.replace(pattern, options.replace)
+      : value.replace(pattern, () => options.replace);
+  }
+
+  /**
+   * Lists every cell whose value would change, ordered by column, then row.
+   *
+   * @throws SyntaxError when `find` is not a valid regular expression
+   */
+  findMatches(table: SdrfTable, options: FindReplaceOptions): FindReplaceMatch[] {
+    if (!options.find) return [];
+
+    const pattern = this.buildPattern(options);
+    const columnIndices = options.columns ?? table.columns.map((_, i) => i);
+    const matches: FindReplaceMatch[] = [];
+
+    for (const col of columnIndices) {
+      const column = table.columns[col];
+      if (!column) continue;
+
+      const store = getColumnStore(column);
+      const replaced = store.dictionary.map((value) => {
+        const newValue = this.replaceValue(value, pattern, options);
+        return newValue === value ? null : newValue;
+      });
+      if (replaced.every((v) => v === null)) continue;
+
+      for (let row = 1; row <= table.sampleCount; row++) {
+        const entry = store.indices[row - 1] ?? 0;
+        const newValue = replaced[entry];
+        if (newValue !== null) {
+          matches.push({
+            row,
+            col,
+            columnName: column.name,
+            oldValue: store.dictionary[entry],
+            newValue,
+          });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Returns a new table with the matches applied. Changed columns get
+   * rebuilt modifiers; other columns are shared with the input table.
+   */
+  applyMatches(table: SdrfTable, matches: FindReplaceMatch[]): SdrfTable {
+    const byColumn = new Map<number, FindReplaceMatch[]>();
+    for (const match of matches) {
+      const list = byColumn.get(match.col) ?? [];
+      list.push(match);
+      byColumn.set(match.col, list);
+    }
+
+    const columns = table.columns.map((column, col) => {
+      const columnMatches = byColumn.get(col);
+      if (!columnMatches) return column;
+
+      const values = expandColumnStore(getColumnStore(column), table.sampleCount);
+      for (const match of columnMatches) {
+        values[match.row - 1] = match.newValue;
+      }
+      return { ...column, ...columnStoreToModifiers(createColumnStoreFromValues(values)) };
+    });
+
+    return { ...table, columns };
+  }
+
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+/**
+ * Singleton instance for convenience in non-DI contexts.
+ */
+export const sdrfFindReplaceService = new SdrfFindReplaceService();
@@ -0,0 +1,163 @@
+import { SdrfMergeService } from './sdrf-merge.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfTable, getTableDataMatrix } from '../models/sdrf-table';
+import { ResolvedTemplate } from '../models/template';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+describe('SdrfMergeService', () => {
+  const service = new SdrfMergeService();
+
+  it('concatenates rows and reports the range of each input', () => {
+    const result = service.merge([
+      { name: 'a', table: table([['source name', 'characteristics[organism]'], ['s1', 'homo sapiens']]) },
+      {
+        name: 'b',
+        table: table([
+          ['source name', 'characteristics[organism]'],
+          ['s2', 'mus musculus'],
+          ['s3', 'mus musculus'],
+        ]),
+      },
+    ]);
+
+    expect(result.table.sampleCount).toBe(3);
+    expect(getTableDataMatrix(result.table)).toEqual([
+      ['s1', 'homo sapiens'],
+      ['s2', 'mus musculus'],
+      ['s3', 'mus musculus'],
+    ]);
+    expect(result.ranges).toEqual([
+      { input: 'a', start: 1, end: 1 },
+      { input: 'b', start: 2, end: 3 },
+    ]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('orders the column union canonically and fills absent columns', () => {
+    const result = service.merge([
+      { name: 'a', table: table([['source name', 'comment[data file]'], ['s1', 'a.raw']]) },
+      { name: 'b', table: table([['source name', 'characteristics[organism]'], ['s2', 'homo sapiens']]) },
+    ]);
+
+    expect(result.table.columns.map((c) => c.name)).toEqual([
+      'source name',
+      'characteristics[organism]',
+      'comment[data file]',
+    ]);
+    expect(getTableDataMatrix(result.table)).toEqual([
+      ['s1', 'not available', 'a.raw'],
+      ['s2', 'homo sapiens', 'not available'],
+    ]);
+  });
+
+  it('fills absent columns with a value the template allows', () => {
+    const template = {
+      resolvedColumns: [
+        { name: 'characteristics[age]', description: '', requirement: 'required', allowNotApplicable: true },
+      ],
+    } as ResolvedTemplate;
+
+    const result = service.merge(
+      [
+        { name: 'a', table: table([['source name', 'characteristics[age]'], ['s1', '30Y']]) },
+        { name: 'b', table: table([['source name'], ['s2']]) },
+      ],
+      { template }
+    );
+
+    expect(getTableDataMatrix(result.table)[1]).toEqual(['s2', 'not applicable']);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('matches repeated column names by occurrence', () => {
+    const name = 'comment[modification parameters]';
+    const result = service.merge([
+      { name: 'a', table: table([['source name', name, name], ['s1', 'NT=Oxidation', 'NT=Carbamidomethyl']]) },
+      { name: 'b', table: table([['source name', name], ['s2', 'NT=Oxidation']]) },
+    ]);
+
+    expect(result.table.columns.filter((c) => c.name === name).length).toBe(2);
+    expect(getTableDataMatrix(result.table)[1]).toEqual(['s2', 'NT=Oxidation', 'not available']);
+  });
+
+  it('shifts pool samples to merged rows and renames repeated pool names', () => {
+    const pooled = () => {
+      const t = table([['source name'], ['s1'], ['s2']]);
+      t.pools = [
+        {
+          poolName: 'pool',
+          pooledOnlySamples: [1, 2],
+          pooledAndIndependentSamples: [],
+          isReference: false,
+          sdrfValue: 'SN=s1,s2',
+        },
+      ];
+      return t;
+    };
+
+    const result = service.merge([
+      { name: 'a', table: pooled() },
+      { name: 'b', table: pooled() },
+    ]);
+
+    expect(result.table.pools.map((p) => [p.poolName, p.pooledOnlySamples])).toEqual([
+      ['pool', [1, 2]],
+      ['pool (b)', [3, 4]],
+    ]);
+    expect(result.warnings.length).toBe(1);
+  });
+
+  it('renames the source name and SN= references of a renamed pool', () => {
+    const pooled = (suffix: string) =>
+      table([
+        ['source name', 'characteristics[pooled sample]'],
+        [`s1${suffix}`, 'pooled'],
+        [`s2${suffix}`, 'pooled'],
+        ['pool', `SN=s1${suffix},s2${suffix}`],
+        [`mix${suffix}`, 'SN=pool'],
+      ]);
+
+    const result = service.merge([
+      { name: 'a', table: pooled('a') },
+      { name: 'b', table: pooled('b') },
+    ]);
+
+    expect(getTableDataMatrix(result.table).slice(4)).toEqual([
+      ['s1b', 'pooled'],
+      ['s2b', 'pooled'],
+      ['pool (b)', 'SN=s1b,s2b'],
+      ['mixb', 'SN=pool (b)'],
+    ]);
+    expect(getTableDataMatrix(result.table)[3]).toEqual(['mixa', 'SN=pool']);
+    expect(result.table.pools.map((p) => [p.poolName, p.sdrfValue])).toEqual([
+      ['pool', 'SN=s1a,s2a'],
+      ['mixa', 'SN=pool'],
+      ['pool (b)', 'SN=s1b,s2b'],
+      ['mixb', 'SN=pool (b)'],
+    ]);
+  });
+
+  it('reports conflicting characteristics and duplicate rows', () => {
+    const result = service.merge([
+      {
+        name: 'a',
+        table: table([['source name', 'characteristics[sex]', 'comment[data file]'], ['s1', 'female', 'a.raw']]),
+      },
+      {
+        name: 'b',
+        table: table([['source name', 'characteristics[sex]', 'comment[data file]'], ['s1', 'male', 'a.raw']]),
+      },
+    ]);
+
+    expect(result.conflicts.map((c) => c.type)).toEqual(['conflicting_characteristics', 'duplicate_row']);
+    expect(result.conflicts[0].column).toBe('characteristics[sex]');
+    expect(result.conflicts[0].rows.map((r) => [r.input, r.mergedRow, r.value])).toEqual([
+      ['a', 1, 'female'],
+      ['b', 2, 'male'],
+    ]);
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * SDRF Merge Service
+ *
+ * Concatenates several SDRF tables (e.g. per-batch annotations of one
+ * project) into a single table:
+ * - Columns are the union of all inputs, in canonical SDRF order
+ *   (OFFICIAL_SDRF_COLUMNS); unknown columns follow the official
+ *   columns of the same type.
+ * - Columns absent from an input are filled with "not available" or
+ *   "not applicable", as allowed by the template.
+ * - Pool sample indices are shifted to the merged row numbers; pools
+ *   named in several inputs are renamed along with their source name
+ *   and SN= references.
+ * - Conflicts (same source name with different characteristics, the
+ *   same row in several inputs) are reported, not resolved.
+ */
+
+import { Injectable } from '@angular/core';
+import { SdrfTable, SamplePool } from '../models/sdrf-table';
+import { SdrfColumn } from '../models/sdrf-column';
+import { ResolvedTemplate, TemplateColumn } from '../models/template';
+import {
+  getColumnStore,
+  getStoreValue,
+  createColumnStoreFromValues,
+  columnStoreToModifiers,
+} from '../models/column-store';
+import { getOfficialColumnRank } from '../utils/column-order';
+
+// === Types ===
+
+/**
+ * A table to merge, with a name used in reports.
+ */
+export interface SdrfMergeInput {
+  name: string;
+  table: SdrfTable;
+}
+
+export type SdrfFillValue = 'not available' | 'not applicable';
+
+export interface SdrfMergeOptions {
+  /** Template deciding the fill value of absent columns */
+  template?: ResolvedTemplate;
+
+  /** Fill value for columns the template does not describe */
+  defaultFill?: SdrfFillValue;
+}
+
+export type MergeConflictType = 'conflicting_characteristics' | 'duplicate_row';
+
+/**
+ * A row location in the inputs.
+ */
+export interface MergeRowRef {
+  /** Input name */
+  input: string;
+
+  /** Row in the input (1-based) */
+  row: number;
+
+  /** Row in the merged table (1-based) */
+  mergedRow: number;
+
+  /** Value involved in the conflict, if any */
+  value?: string;
+}
+
+export interface MergeConflict {
+  type: MergeConflictType;
+  sourceName: string;
+  column?: string;
+  rows: MergeRowRef[];
+  message: string;
+}
+
+/**
+ * Rows contributed by one input.
+ */
+export interface MergeInputRange {
+  input: string;
+
+  /** First merged row (1-based) */
+  start: number;
+
+  /** Last merged row (1-based, inclusive) */
+  end: number;
+}
+
+export interface SdrfMergeResult {
+  table: SdrfTable;
+  conflicts: MergeConflict[];
+  warnings: string[];
+  ranges: MergeInputRange[];
+}
+
+/**
+ * A column of the merged table and where it comes from in each input.
+ */
+interface MergedColumnSlot {
+  key: string;
+  template: SdrfColumn;
+  rank: number;
+  firstSeen: number;
+
+  /** Column per input (undefined when absent) */
+  sources: Array<SdrfColumn | undefined>;
+}
+
+const SOURCE_NAME_COLUMN = 'source name';
+const POOLED_SAMPLE_COLUMN = 'characteristics[pooled sample]';
+const DATA_FILE_COLUMN = 'comment[data file]';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SdrfMergeService {
+  /**
+   * Merges tables in the given order.
+   */
+  merge(inputs: SdrfMergeInput[], options: SdrfMergeOptions = {}): SdrfMergeResult {
+    const warnings: string[] = [];
+    const defaultFill = options.defaultFill ?? 'not available';
+    const templateColumns = new Map<string, TemplateColumn>(
+      (options.template?.resolvedColumns ?? []).map((c) => [c.name.toLowerCase(), c])
+    );
+
+    const slots = this.alignColumns(inputs);
+
+    // Row ranges
+    const ranges: MergeInputRange[] = [];
+    let offset = 0;
+    for (const input of inputs) {
+      ranges.push({ input: input.name, start: offset + 1, end: offset + input.table.sampleCount });
+      offset += input.table.sampleCount;
+    }
+    const sampleCount = offset;
+
+    const poolRenames = this.renamePools(inputs, warnings);
+
+    // Columns
+    const columns: SdrfColumn[] = slots.map((slot, position) => {
+      const values: string[] = [];
+      const fill = this.fillValueFor(slot.template.name, templateColumns, defaultFill);
+
+      inputs.forEach((input, i) => {
+        const source = slot.sources[i];
+        if (source) {
+          const store = getColumnStore(source);
+          const rename = this.getPoolRenamer(source, poolRenames[i]);
+          for (let sample = 1; sample <= input.table.sampleCount; sample++) {
+            values.push(rename(getStoreValue(store, sample)));
+          }
+          return;
+        }
+
+        if (input.table.sampleCount === 0) return;
+
+        const templateColumn = templateColumns.get(slot.template.name.toLowerCase());
+        if (templateColumn && !templateColumn.allowNotAvailable && !templateColumn.allowNotApplicable) {
+          warnings.push(
+            `${input.name}: column "${slot.template.name}" is missing and the template allows neither ` +
+              `"not available" nor "not applicable"; filled with "${fill}"`
+          );
+        }
+        for (let sample = 1; sample <= input.table.sampleCount; sample++) {
+          values.push(fill);
+        }
+      });
+
+      const { value, modifiers } = columnStoreToModifiers(createColumnStoreFromValues(values));
+
+      return {
+        ...slot.template,
+        value,
+        modifiers,
+        columnPosition: position,
+      };
+    });
+
+    const table: SdrfTable = {
+      columns,
+      sampleCount,
+      pools: this.mergePools(inputs, ranges, poolRenames),
+      metadata: {
+        filename: 'merged.sdrf.tsv',
+        loadedAt: new Date(),
+        modifiedAt: new Date(),
+      },
+    };
+
+    return {
+      table,
+      conflicts: this.findConflicts(inputs, ranges),
+      warnings,
+      ranges,
+    };
+  }
+
+  // === Columns ===
+
+  /**
+   * Builds the union of columns in canonical order. Repeated names
+   * (e.g. several comment[modification parameters]) are matched by
+   * occurrence.
+   */
+  private alignColumns(inputs: SdrfMergeInput[]): MergedColumnSlot[] {
+    const slots = new Map<string, MergedColumnSlot>();
+
+    inputs.forEach((input, i) => {
+      const occurrences = new Map<string, number>();
+
+      for (const column of input.table.columns) {
+        const name = column.name.toLowerCase().trim();
+        const occurrence = (occurrences.get(name) ?? 0) + 1;
+        occurrences.set(name, occurrence);
+        const key = `${name}#${occurrence}`;
+
+        let slot = slots.get(key);
+        if (!slot) {
+          slot = {
+            key,
+            template: column,
+            rank: getOfficialColumnRank(name, column.type),
+            firstSeen: slots.size,
+            sources: new Array(inputs.length).fill(undefined),
+          };
+          slots.set(key, slot);
+        }
+        slot.sources[i] = column;
+      }
+    });
+
+    return Array.from(slots.values()).sort(
+      (a, b) => a.rank - b.rank || a.firstSeen - b.firstSeen
+    );
+  }
+
+  /**
+   * Fill value for a column absent from an input.
+   */
+  private fillValueFor(
+    name: string,
+    templateColumns: Map<string, TemplateColumn>,
+    defaultFill: SdrfFillValue
+  ): SdrfFillValue {
+    const templateColumn = templateColumns.get(name.toLowerCase());
+    if (!templateColumn) return defaultFill;
+
+    const allowed: SdrfFillValue[] = [];
+    if (templateColumn.allowNotAvailable) allowed.push('not available');
+    if (templateColumn.allowNotApplicable) allowed.push('not applicable');
+
+    return allowed.includes(defaultFill) ? defaultFill : allowed[0] ?? defaultFill;
+  }
+
+  // === Pools ===
+
+  /**
+   * New names of pools named in an earlier input (old → new, per input):
+   * the input name is appended.
+   */
+  private renamePools(inputs: SdrfMergeInput[], warnings: string[]): Array<Map<string, string>> {
+    const names = new Set<string>();
+
+    return inputs.map((input) => {
+      const renames = new Map<string, string>();
+      for (const pool of input.table.pools) {
+        let poolName = pool.poolName;
+        if (names.has(poolName)) {
+          poolName = `${pool.poolName} (${input.name})`;
+          renames.set(pool.poolName, poolName);
+          warnings.push(`Pool "${pool.poolName}" exists in several inputs; renamed to "${poolName}"`);
+        }
+        names.add(poolName);
+      }
+      return renames;
+    });
+  }
+
+  /**
+   * Shifts pool sample indices to merged row numbers and applies the
+   * pool renames.
+   */
+  private mergePools(
+    inputs: SdrfMergeInput[],
+    ranges: MergeInputRange[],
+    poolRenames: Array<Map<string, string>>
+  ): SamplePool[] {
+    const pools: SamplePool[] = [];
+
+    inputs.forEach((input, i) => {
+      const shift = ranges[i].start - 1;
+      const renames = poolRenames[i];
+
+      for (const pool of input.table.pools) {
+        pools.push({
+          ...pool,
+          poolName: renames.get(pool.poolName) ?? pool.poolName,
+          sdrfValue: this.renameSnReferences(pool.sdrfValue, renames),
+          pooledOnlySamples: pool.pooledOnlySamples.map((s) => s + shift),
+          pooledAndIndependentSamples: pool.pooledAndIndependentSamples.map((s) => s + shift),
+        });
+      }
+    });
+
+    return pools;
+  }
+
+  /**
+   * Renames pools in the values of a column: the pool rows' source names
+   * and the SN= lists of the pooled sample column.
+   */
+  private getPoolRenamer(column: SdrfColumn, renames: Map<string, string>): (value: string) => string {
+    const name = column.name.toLowerCase().trim();
+    if (renames.size > 0 && name === SOURCE_NAME_COLUMN) return (value) => renames.get(value) ?? value;
+    if (renames.size > 0 && name === POOLED_SAMPLE_COLUMN) return (value) => this.renameSnReferences(value, renames);
+    return (value) => value;
+  }
+
+  /**
+   * Applies renames to the source names of an SN=name1,name2 value;
+   * other values are returned unchanged.
+   */
+  private renameSnReferences(value: string, renames: Map<string, string>): string {
+    if (!value.startsWith('SN=')) return value;
+
+    const names = value.substring(3).split(',').map((name) => name.trim());
+    if (!names.some((name) => renames.has(name))) return value;
+    return `SN=${names.map((name) => renames.get(name) ?? name).join(',')}`;
+  }
+
+  // === Conflicts ===
+
+  /**
+   * Reports source names used in several inputs with different
+   * characteristics, and rows (source name + data file) present in
+   * several inputs.
+   */
+  private findConflicts(inputs: SdrfMergeInput[], ranges: MergeInputRange[]): MergeConflict[] {
+    const conflicts: MergeConflict[] = [];
+
+    // source name -> rows across inputs
+    const bySourceName = new Map<string, Array<MergeRowRef & { inputIndex: number }>>();
+
+    inputs.forEach((input, i) => {
+      const sourceColumn = this.findColumn(input.table, SOURCE_NAME_COLUMN);
+      if (!sourceColumn) return;
+      const store = getColumnStore(sourceColumn);
+
+      for (let row = 1; row <= input.table.sampleCount; row++) {
+        const sourceName = getStoreValue(store, row).trim();
+        if (!sourceName) continue;
+
+        let refs = bySourceName.get(sourceName);
+        if (!refs) {
+          refs = [];
+          bySourceName.set(sourceName, refs);
+        }
+        refs.push({ input: input.name, row, mergedRow: ranges[i].start + row - 1, inputIndex: i });
+      }
+    });
+
+    for (const [sourceName, refs] of bySourceName) {
+      const inputCount = new Set(refs.map((r) => r.inputIndex)).size;
+      if (inputCount < 2) continue;
+
+      conflicts.push(...this.characteristicConflicts(inputs, sourceName, refs));
+      conflicts.push(...this.duplicateRowConflicts(inputs, sourceName, refs));
+    }
+
+    return conflicts;
+  }
+
+  private characteristicConflicts(
+    inputs: SdrfMergeInput[],
+    sourceName: string,
+    refs: Array<MergeRowRef & { inputIndex: number }>
+  ): MergeConflict[] {
+    const conflicts: MergeConflict[] = [];
+    const characteristicNames = new Set<string>();
+
+    for (const ref of refs) {
+      for (const column of inputs[ref.inputIndex].table.columns) {
+        if (column.type === 'characteristics') {
+          characteristicNames.add(column.name.toLowerCase());
+        }
+      }
+    }
+
+    for (const name of characteristicNames) {
+      const rows: MergeRowRef[] = [];
+      const values = new Set<string>();
+
+      for (const ref of refs) {
+        const column = this.findColumn(inputs[ref.inputIndex].table, name);
+        if (!column) continue;
+        const value = getStoreValue(getColumnStore(column), ref.row);
+        rows.push({ input: ref.input, row: ref.row, mergedRow: ref.mergedRow, value });
+        values.add(value.toLowerCase().trim());
+      }
+
+      const inputsInvolved = new Set(rows.map((r) => r.input)).size;
+      if (values.size > 1 && inputsInvolved > 1) {
+        conflicts.push({
+          type: 'conflicting_characteristics',
+          sourceName,
+          column: name,
+          rows,
+          message: `Sample "${sourceName}" has different ${name} values: ${Array.from(
+            new Set(rows.map((r) => r.value))
+          ).join(', ')}`,
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  private duplicateRowConflicts(
+    inputs: SdrfMergeInput[],
+    sourceName: string,
+    refs: Array<MergeRowRef & { inputIndex: number }>
+  ): MergeConflict[] {
+    const byDataFile = new Map<string, Array<MergeRowRef & { inputIndex: number }>>();
+
+    for (const ref of refs) {
+      const column = this.findColumn(inputs[ref.inputIndex].table, DATA_FILE_COLUMN);
+      const dataFile = column ? getStoreValue(getColumnStore(column), ref.row).trim() : '';
+      const group = byDataFile.get(dataFile) ?? [];
+      group.push(ref);
+      byDataFile.set(dataFile, group);
+    }
+
+    const conflicts: MergeConflict[] = [];
+    for (const [dataFile, group] of byDataFile) {
+      if (new Set(group.map((r) => r.inputIndex)).size < 2) continue;
+
+      conflicts.push({
+        type: 'duplicate_row',
+        sourceName,
+        column: dataFile ? DATA_FILE_COLUMN : undefined,
+        rows: group.map(({ input, row, mergedRow }) => ({ input, row, mergedRow, value: dataFile })),
+        message: dataFile
+          ? `Sample "${sourceName}" with data file "${dataFile}" appears in ${group
+              .map((r) => r.input)
+              .filter((v, i, a) => a.indexOf(v) === i)
+              .join(', ')}`
+          : `Sample "${sourceName}" appears in several inputs without a data file`,
+      });
+    }
+
+    return conflicts;
+  }
+
+  private findColumn(table: SdrfTable, name: string): SdrfColumn | undefined {
+    return table.columns.find((c) => c.name.toLowerCase().trim() === name);
+  }
+}
+
+/**
+ * Singleton instance for convenience in non-DI contexts.
+ */
+export const sdrfMergeService = new SdrfMergeService();
@@ -0,0 +1,271 @@
+/**
+ * SDRF Parser Worker Service
+ *
+ * Parses SDRF files in a Web Worker, streaming the content in chunks
+ * so large files do not block the UI. Reports progress and supports
+ * cancellation. Falls back to SdrfParserService on the main thread
+ * when Web Workers are not available.
+ */
+
+import { Injectable, OnDestroy } from '@angular/core';
+import {
+  SdrfParserService,
+  SdrfParseOptions,
+  SdrfParseResult,
+} from './sdrf-parser.service';
+
+/**
+ * Request sent to the parser worker.
+ */
+export interface ParserWorkerRequest {
+  id: string;
+  type: 'parse' | 'cancel';
+  content?: string;
+  file?: File;
+  options?: SdrfParseOptions;
+}
+
+/**
+ * Response posted by the parser worker.
+ */
+export interface ParserWorkerResponse {
+  id: string;
+  type: 'progress' | 'result' | 'cancelled' | 'error';
+  progress?: SdrfParseProgress;
+  result?: SdrfParseResult;
+  error?: string;
+}
+
+/**
+ * Parsing progress reported while streaming.
+ */
+export interface SdrfParseProgress {
+  /** Data rows parsed so far */
+  rowsParsed: number;
+
+  /** Input consumed so far */
+  bytesParsed: number;
+
+  /** Total input size */
+  totalBytes: number;
+}
+
+/**
+ * Callbacks for a pending parse.
+ */
+interface PendingParse {
+  onProgress?: (progress: SdrfParseProgress) => void;
+  resolve: (result: SdrfParseResult) => void;
+}
+
+/** Error message of a parse result that was cancelled by the caller */
+export const PARSE_CANCELLED_ERROR = 'Parsing cancelled';
+
+const EMPTY_STATS = { rowCount: 0, columnCount: 0, poolCount: 0, parseTimeMs: 0 };
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SdrfParserWorkerService implements OnDestroy {
+  private worker: Worker | null = null;
+  private pendingParses = new Map<string, PendingParse>();
+  private fallbackParser = new SdrfParserService();
+
+  ngOnDestroy(): void {
+    this.terminate();
+  }
+
+  /**
+   * Initialize the parser worker (lazily, on first parse).
+   */
+  private initWorker(): Worker | null {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    if (typeof Worker === 'undefined') {
+      console.warn('Web Workers are not supported in this browser');
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(
+        new URL('../../workers/sdrf-parser.worker', import.meta.url),
+        { type: 'module' }
+      );
+
+      this.worker.onmessage = (event: MessageEvent<ParserWorkerResponse>) => {
+        this.handleWorkerMessage(event.data);
+      };
+
+      this.worker.onerror = (error) => {
+        console.error('Parser Worker error:', error);
+        // Fail all pending parses
+        for (const [id, pending] of this.pendingParses) {
+          pending.resolve(this.failure(`Worker error: ${error.message}`));
+          this.pendingParses.delete(id);
+        }
+      };
+    } catch (error) {
+      console.error('Failed to initialize Parser Worker:', error);
+      this.worker = null;
+    }
+
+    return this.worker;
+  }
+
+  /**
+   * Handle messages from the worker.
+   */
+  private handleWorkerMessage(response: ParserWorkerResponse): void {
+    const pending = this.pendingParses.get(response.id);
+    if (!pending) {
+      return;
+    }
+
+    switch (response.type) {
+      case 'progress':
+        if (response.progress) {
+          pending.onProgress?.(response.progress);
+        }
+        break;
+
+      case 'result':
+        pending.resolve(response.result ?? this.failure('Parser returned no result'));
+        this.pendingParses.delete(response.id);
+        break;
+
+      case 'cancelled':
+        pending.resolve(this.failure(PARSE_CANCELLED_ERROR));
+        this.pendingParses.delete(response.id);
+        break;
+
+      case 'error':
+        pending.resolve(this.failure(response.error || 'Unknown error'));
+        this.pendingParses.delete(response.id);
+        break;
+    }
+  }
+
+  /**
+   * Parses SDRF TSV content (a string or a File) in the worker.
+   *
+   * @param source TSV content or file to parse
+   * @param options Parse options
+   * @param onProgress Called after each streamed chunk
+   * @param signal Aborting resolves the parse with PARSE_CANCELLED_ERROR
+   * @returns Parse result with table or error (never rejects)
+   */
+  parse(
+    source: string | File,
+    options: SdrfParseOptions = {},
+    onProgress?: (progress: SdrfParseProgress) => void,
+    signal?: AbortSignal
+  ): Promise<SdrfParseResult> {
+    if (signal?.aborted) {
+      return Promise.resolve(this.failure(PARSE_CANCELLED_ERROR));
+    }
+
+    const worker = this.initWorker();
+    if (!worker) {
+      return typeof source === 'string'
+        ? Promise.resolve(this.fallbackParser.parseFromContent(source, options))
+        : this.fallbackParser.parseFromFile(source, options);
+    }
+
+    return new Promise((resolve) => {
+      const id = crypto.randomUUID();
+
+      this.pendingParses.set(id, { onProgress, resolve });
+      signal?.addEventListener('abort', () => this.cancel(id), { once: true });
+
+      const request: ParserWorkerRequest = {
+        id,
+        type: 'parse',
+        options,
+        ...(typeof source === 'string' ? { content: source } : { file: source }),
+      };
+
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Fetches an SDRF file and parses it in the worker.
+   */
+  async parseFromUrl(
+    url: string,
+    options: SdrfParseOptions = {},
+    onProgress?: (progress: SdrfParseProgress) => void,
+    signal?: AbortSignal
+  ): Promise<SdrfParseResult> {
+    try {
+      const response = await fetch(url, { signal });
+
+      if (!response.ok) {
+        return this.failure(`Failed to fetch: ${response.status} ${response.statusText}`);
+      }
+
+      const content = await response.text();
+      const result = await this.parse(content, options, onProgress, signal);
+
+      // Add source URL to metadata
+      if (result.success && result.table) {
+        result.table.metadata = {
+          ...result.table.metadata,
+          sourceUrl: url,
+        };
+      }
+
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        return this.failure(PARSE_CANCELLED_ERROR);
+      }
+      return this.failure(`Fetch error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Cancels a pending parse.
+   */
+  cancel(id: string): void {
+    if (!this.worker || !this.pendingParses.has(id)) return;
+
+    const request: ParserWorkerRequest = { id, type: 'cancel' };
+    this.worker.postMessage(request);
+  }
+
+  /**
+   * Cancels all pending parses.
+   */
+  cancelAll(): void {
+    for (const id of this.pendingParses.keys()) {
+      this.cancel(id);
+    }
+  }
+
+  /**
+   * Terminate the worker. Pending parses resolve as cancelled.
+   */
+  terminate(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+
+    for (const pending of this.pendingParses.values()) {
+      pending.resolve(this.failure(PARSE_CANCELLED_ERROR));
+    }
+    this.pendingParses.clear();
+  }
+
+  private failure(error: string): SdrfParseResult {
+    return { success: false, error, warnings: [], stats: { ...EMPTY_STATS } };
+  }
+}
+
+/**
+ * Singleton instance for convenience in non-DI contexts.
+ */
+export const sdrfParserWorkerService = new SdrfParserWorkerService();
@@ -0,0 +1,61 @@
+import * as XLSX from 'xlsx';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfExportService, EXCEL_SHEET_NAMES } from './sdrf-export.service';
+import { getTableDataMatrix } from '../models/sdrf-table';
+import { SdrfColumn } from '../models/sdrf-column';
+
+/** Workbook file contents with one sheet per entry */
+function workbook(sheets: Record<string, unknown[][]>): ArrayBuffer {
+  const wb = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+}
+
+describe('SdrfParserService', () => {
+  const parser = new SdrfParserService();
+
+  describe('parseFromWorkbook', () => {
+    it('reads dates as shown in the sheet and keeps raw numbers', async () => {
+      const data = workbook({
+        samples: [
+          ['source name', 'comment[collection date]', 'characteristics[age]', 'comment[collision energy]'],
+          ['s1', new Date(2024, 2, 5), '30Y', 27.5],
+        ],
+      });
+
+      const result = await parser.parseFromWorkbook(data);
+
+      expect(result.success).toBeTrue();
+      expect(getTableDataMatrix(result.table!)).toEqual([['s1', '3/5/24', '30Y', '27.5']]);
+    });
+
+    it('picks the main sheet unless another is requested', async () => {
+      const data = workbook({
+        notes: [['source name'], ['from notes']],
+        [EXCEL_SHEET_NAMES.main]: [['source name'], ['from main']],
+      });
+
+      expect(getTableDataMatrix((await parser.parseFromWorkbook(data)).table!)).toEqual([['from main']]);
+      expect(getTableDataMatrix((await parser.parseFromWorkbook(data, { sheetName: 'notes' })).table!)).toEqual([
+        ['from notes'],
+      ]);
+      expect((await parser.parseFromWorkbook(data, { sheetName: 'other' })).error).toBe('Sheet not found: other');
+      expect(await parser.getWorkbookSheets(data)).toEqual(['notes', EXCEL_SHEET_NAMES.main]);
+    });
+
+    it('restores column flags from workbooks written on export', async () => {
+      const table = parser.parseFromContent('source name\tcharacteristics[organism]\ns1\thomo sapiens').table!;
+      table.columns[1] = { ...table.columns[1], hidden: true, isRequired: true };
+      const blob = await new SdrfExportService().exportToExcel(table);
+
+      const result = await parser.parseFromWorkbook(await blob.arrayBuffer());
+
+      expect(await parser.getWorkbookSheets(await blob.arrayBuffer())).toEqual([EXCEL_SHEET_NAMES.main]);
+      const flags = (c: SdrfColumn) => [c.name, !!c.hidden, !!c.isRequired];
+      expect(result.table!.columns.map(flags)).toEqual(table.columns.map(flags));
+      expect(result.table!.columns[1].hidden).toBeTrue();
+    });
+  });
+});
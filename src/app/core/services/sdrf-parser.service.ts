@@ -8,6 +8,7 @@
  */
 
 import Papa from 'papaparse';
+import type { WorkSheet } from 'xlsx';
 import {
   SdrfTable,
   SamplePool,
@@ -18,6 +19,7 @@ import {
   Modifier,
   ColumnType,
   detectColumnType,
+  getValueForSample,
 } from '../models/sdrf-column';
 import {
   getSdrfColumnConfig,
@@ -25,6 +27,8 @@ import {
   getColumnOntologies,
 } from '../models/sdrf-config';
 import { encodeSampleRange } from '../utils/sample-range';
+import { loadXlsx, XlsxModule } from '../utils/xlsx-loader';
+import { EXCEL_SHEET_NAMES } from './sdrf-export.service';
 
 /**
  * Options for parsing SDRF files.
@@ -41,6 +45,9 @@ export interface SdrfParseOptions {
 
   /** Custom delimiter (default: tab) */
   delimiter?: string;
+
+  /** Worksheet to read when parsing a workbook (default: "main" or the first data sheet) */
+  sheetName?: string;
 }
 
 /**
@@ -68,6 +75,9 @@ export interface SdrfParseResult {
   };
 }
 
+/** File extensions handled as spreadsheet workbooks rather than TSV */
+const WORKBOOK_EXTENSIONS = /\.(xlsx|xlsm|xls|ods)$/i;
+
 const DEFAULT_OPTIONS: SdrfParseOptions = {
   detectPools: true,
   trimValues: true,
@@ -124,47 +134,100 @@ export class SdrfParserService {
         }
       }
 
-      const data = parseResult.data;
+      return this.parseRows(parseResult.data, opts, warnings, startTime);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Parse error: ${error instanceof Error ? error.message : String(error)}`,
+        warnings,
+        stats: { rowCount: 0, columnCount: 0, poolCount: 0, parseTimeMs: 0 },
+      };
+    }
+  }
+
+  /**
+   * Parses an SDRF worksheet from an XLSX/XLS/ODS workbook.
+   *
+   * Workbooks written by SdrfExportService.exportToExcel round-trip fully:
+   * hidden/required flags are restored from the column map sheet and
+   * sample pools from the pool sheet.
+   *
+   * @param data Workbook file contents
+   * @param options Parse options (use `sheetName` to pick a worksheet)
+   * @returns Parse result with table or error
+   */
+  async parseFromWorkbook(
+    data: ArrayBuffer,
+    options: SdrfParseOptions = {}
+  ): Promise<SdrfParseResult> {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const startTime = performance.now();
+    const warnings: string[] = [];
+
+    try {
+      const XLSX = await loadXlsx();
+      const workbook = XLSX.read(data, { type: 'array', cellDates: true });
 
-      if (data.length === 0) {
+      const sheetName = opts.sheetName ?? this.getDefaultSheet(workbook.SheetNames);
+      const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+      if (!sheet) {
         return {
           success: false,
-          error: 'Empty file',
+          error: sheetName ? `Sheet not found: ${sheetName}` : 'Workbook has no sheets',
           warnings,
           stats: { rowCount: 0, columnCount: 0, poolCount: 0, parseTimeMs: 0 },
         };
       }
 
-      // Extract headers and data rows
-      const headers = data[0];
-      const dataRows = data.slice(1);
+      const rows = this.readSheetRows(XLSX, sheet);
+      const result = this.parseRows(rows, opts, warnings, startTime);
 
-      // Build the table
-      const table = this.buildTable(headers, dataRows, opts, warnings);
+      if (result.success && result.table) {
+        const columnMap = workbook.Sheets[EXCEL_SHEET_NAMES.columnMap];
+        if (columnMap) {
+          this.applyColumnMap(result.table, this.readSheetRows(XLSX, columnMap), warnings);
+        }
 
-      const parseTimeMs = performance.now() - startTime;
+        const poolMap = workbook.Sheets[EXCEL_SHEET_NAMES.poolMap];
+        if (poolMap && opts.detectPools) {
+          result.table.pools = this.readPoolMap(result.table, this.readSheetRows(XLSX, poolMap), warnings);
+          result.stats.poolCount = result.table.pools.length;
+        }
 
-      return {
-        success: true,
-        table,
-        warnings,
-        stats: {
-          rowCount: table.sampleCount,
-          columnCount: table.columns.length,
-          poolCount: table.pools.length,
-          parseTimeMs,
-        },
-      };
+        result.stats.parseTimeMs = performance.now() - startTime;
+      }
+
+      return result;
     } catch (error) {
       return {
         success: false,
-        error: `Parse error: ${error instanceof Error ? error.message : String(error)}`,
+        error: `Workbook error: ${error instanceof Error ? error.message : String(error)}`,
         warnings,
         stats: { rowCount: 0, columnCount: 0, poolCount: 0, parseTimeMs: 0 },
       };
     }
   }
 
+  /**
+   * Lists the worksheets of a workbook that can hold SDRF data
+   * (the column map and pool sheets written on export are excluded).
+   *
+   * @param data Workbook file contents
+   * @returns Sheet names in workbook order
+   */
+  async getWorkbookSheets(data: ArrayBuffer): Promise<string[]> {
+    const XLSX = await loadXlsx();
+    const workbook = XLSX.read(data, { type: 'array', bookSheets: true });
+    return this.getDataSheets(workbook.SheetNames);
+  }
+
+  /**
+   * Whether a file should be parsed as a spreadsheet workbook.
+   */
+  isWorkbookFile(file: File): boolean {
+    return WORKBOOK_EXTENSIONS.test(file.name);
+  }
+
   /**
    * Parses SDRF content from a URL.
    *
@@ -221,6 +284,20 @@ export class SdrfParserService {
     file: File,
     options: SdrfParseOptions = {}
   ): Promise<SdrfParseResult> {
+    if (this.isWorkbookFile(file)) {
+      const result = await this.parseFromWorkbook(await file.arrayBuffer(), options);
+
+      // Add filename to metadata
+      if (result.success && result.table) {
+        result.table.metadata = {
+          ...result.table.metadata,
+          filename: file.name,
+        };
+      }
+
+      return result;
+    }
+
     return new Promise((resolve) => {
       const reader = new FileReader();
 
@@ -252,6 +329,46 @@ export class SdrfParserService {
     });
   }
 
+  /**
+   * Builds a parse result from raw rows (header row first).
+   */
+  private parseRows(
+    data: string[][],
+    opts: SdrfParseOptions,
+    warnings: string[],
+    startTime: number
+  ): SdrfParseResult {
+    if (data.length === 0) {
+      return {
+        success: false,
+        error: 'Empty file',
+        warnings,
+        stats: { rowCount: 0, columnCount: 0, poolCount: 0, parseTimeMs: 0 },
+      };
+    }
+
+    // Extract headers and data rows
+    const headers = data[0];
+    const dataRows = data.slice(1);
+
+    // Build the table
+    const table = this.buildTable(headers, dataRows, opts, warnings);
+
+    const parseTimeMs = performance.now() - startTime;
+
+    return {
+      success: true,
+      table,
+      warnings,
+      stats: {
+        rowCount: table.sampleCount,
+        columnCount: table.columns.length,
+        poolCount: table.pools.length,
+        parseTimeMs,
+      },
+    };
+  }
+
   /**
    * Builds an SdrfTable from parsed headers and data rows.
    */
@@ -261,14 +378,221 @@ export class SdrfParserService {
     options: SdrfParseOptions,
     warnings: string[]
   ): SdrfTable {
-    const table = createEmptyTable(dataRows.length);
+    const builder = new SdrfTableBuilder(options, warnings);
+    builder.setHeaders(headers);
+    builder.addRows(dataRows);
+    return builder.build();
+  }
+
+  // ============ Workbook Helpers ============
+
+  /**
+   * Reads a worksheet as rows of strings, skipping blank rows. Date cells
+   * are read as shown in the spreadsheet rather than as serial numbers;
+   * other cells keep their raw values.
+   */
+  private readSheetRows(XLSX: XlsxModule, sheet: WorkSheet): string[][] {
+    const cells: WorkSheet = { ...sheet };
+    for (const [address, cell] of Object.entries(sheet)) {
+      if (!address.startsWith('!') && cell?.t === 'd') {
+        cells[address] = { t: 's', v: cell.w ?? String(cell.v) };
+      }
+    }
+
+    const rows: unknown[][] = XLSX.utils.sheet_to_json(cells, {
+      header: 1,
+      raw: true,
+      defval: '',
+      blankrows: false,
+    });
+
+    return rows.map((row) => row.map((cell) => (cell == null ? '' : String(cell))));
+  }
+
+  /**
+   * Sheets that can hold SDRF data (excludes export metadata sheets).
+   */
+  private getDataSheets(sheetNames: string[]): string[] {
+    return sheetNames.filter(
+      (name) => name !== EXCEL_SHEET_NAMES.columnMap && name !== EXCEL_SHEET_NAMES.poolMap
+    );
+  }
+
+  /**
+   * Picks the sheet to parse when none was requested.
+   */
+  private getDefaultSheet(sheetNames: string[]): string | undefined {
+    const dataSheets = this.getDataSheets(sheetNames);
+    return dataSheets.includes(EXCEL_SHEET_NAMES.main) ? EXCEL_SHEET_NAMES.main : dataSheets[0];
+  }
+
+  /**
+   * Restores hidden/required flags (and column types) from the column map sheet.
+   * Rows are matched by column index, falling back to the column name.
+   */
+  private applyColumnMap(table: SdrfTable, rows: string[][], warnings: string[]): void {
+    if (rows.length < 2) return;
+
+    const header = rows[0].map((h) => h.toLowerCase().trim());
+    const idx = (key: string) => header.indexOf(key);
+    const columnIdx = idx('column');
+    const nameIdx = idx('name');
+    const typeIdx = idx('type');
+    const hiddenIdx = idx('hidden');
+    const requiredIdx = idx('required');
+
+    const validTypes: ColumnType[] = ['source_name', 'characteristics', 'comment', 'factor_value', 'special'];
+
+    for (const row of rows.slice(1)) {
+      const position = columnIdx >= 0 ? parseInt(row[columnIdx], 10) : NaN;
+      const name = nameIdx >= 0 ? row[nameIdx]?.toLowerCase().trim() : '';
+
+      let column = !isNaN(position) ? table.columns[position] : undefined;
+      if (column && name && column.name.toLowerCase() !== name) {
+        column = undefined;
+      }
+      if (!column && name) {
+        column = table.columns.find((c) => c.name.toLowerCase() === name);
+      }
+      if (!column) {
+        warnings.push(`Column map entry not found in sheet: "${name || row.join(', ')}"`);
+        continue;
+      }
+
+      if (hiddenIdx >= 0) {
+        column.hidden = this.parseBoolean(row[hiddenIdx]);
+      }
+      if (requiredIdx >= 0) {
+        column.isRequired = this.parseBoolean(row[requiredIdx]);
+      }
+      if (typeIdx >= 0 && validTypes.includes(row[typeIdx] as ColumnType)) {
+        column.type = row[typeIdx] as ColumnType;
+      }
+    }
+  }
+
+  /**
+   * Rebuilds SamplePool objects from the pool sheet.
+   */
+  private readPoolMap(table: SdrfTable, rows: string[][], warnings: string[]): SamplePool[] {
+    if (rows.length < 2) return [];
+
+    const header = rows[0].map((h) => h.toLowerCase().trim());
+    const idx = (key: string) => header.indexOf(key);
+    const sourceNameColumn = table.columns.find((c) => c.name === 'source name');
+
+    const pools: SamplePool[] = [];
+
+    for (const row of rows.slice(1)) {
+      const poolName = row[idx('pool_name')]?.trim() || `Pool ${pools.length + 1}`;
+      const pooledOnlySamples = this.parseSampleList(row[idx('pooled_only_samples')], table, poolName, warnings);
+      const pooledAndIndependentSamples = this.parseSampleList(
+        row[idx('pooled_and_independent_samples')],
+        table,
+        poolName,
+        warnings
+      );
+
+      // Older exports did not store the SN= value; derive it from source names
+      let sdrfValue = idx('sdrf_value') >= 0 ? row[idx('sdrf_value')]?.trim() || '' : '';
+      if (!sdrfValue && sourceNameColumn) {
+        const sourceNames = [...pooledOnlySamples, ...pooledAndIndependentSamples]
+          .sort((a, b) => a - b)
+          .map((sampleIndex) => getValueForSample(sourceNameColumn, sampleIndex))
+          .filter((name) => name);
+        sdrfValue = sourceNames.length > 0 ? `SN=${[...new Set(sourceNames)].join(',')}` : '';
+      }
+
+      pools.push({
+        poolName,
+        pooledOnlySamples,
+        pooledAndIndependentSamples,
+        isReference: this.parseBoolean(row[idx('is_reference')]),
+        sdrfValue,
+      });
+    }
+
+    return pools;
+  }
+
+  /**
+   * Parses a JSON sample index list from the pool sheet, dropping out-of-range indices.
+   */
+  private parseSampleList(
+    value: string | undefined,
+    table: SdrfTable,
+    poolName: string,
+    warnings: string[]
+  ): number[] {
+    if (!value || value.trim() === '') return [];
+
+    try {
+      const parsed = JSON.parse(value);
+      if (!Array.isArray(parsed)) throw new Error('not a list');
+
+      const samples = parsed.map(Number).filter((n) => Number.isInteger(n));
+      const valid = samples.filter((n) => n >= 1 && n <= table.sampleCount);
+      if (valid.length < samples.length) {
+        warnings.push(`Pool "${poolName}" references samples outside the sheet; they were dropped`);
+      }
+      return valid;
+    } catch {
+      warnings.push(`Pool "${poolName}": could not read sample list "${value}"`);
+      return [];
+    }
+  }
+
+  /**
+   * Parses a boolean cell value (TRUE/FALSE, true/false, 1/0).
+   */
+  private parseBoolean(value: string | undefined): boolean {
+    const v = (value || '').trim().toLowerCase();
+    return v === 'true' || v === '1' || v === 'yes';
+  }
+}
+
+/**
+ * Incrementally builds an SdrfTable from parsed rows.
+ *
+ * Rows can be added in chunks, so large files can be streamed without
+ * keeping every row in memory: only the per-column value index and the
+ * values needed for pool detection are retained.
+ */
+export class SdrfTableBuilder {
+  private headers: string[] = [];
+
+  /** Per column: value -> sample indices (1-based), in first-seen order */
+  private columnValues: Map<string, number[]>[] = [];
+  private hasNotApplicable: boolean[] = [];
+  private hasNotAvailable: boolean[] = [];
+
+  /** Values kept for pool detection (one entry per row) */
+  private pooledColumnIndex = -1;
+  private sourceNameColumnIndex = -1;
+  private pooledValues: string[] = [];
+  private sourceNames: string[] = [];
+
+  private rowCount = 0;
+
+  constructor(
+    private options: SdrfParseOptions,
+    private warnings: string[]
+  ) {}
+
+  /** Number of data rows added so far */
+  get sampleCount(): number {
+    return this.rowCount;
+  }
 
+  /**
+   * Sets the header row. Must be called before adding rows.
+   */
+  setHeaders(headers: string[]): void {
     // Track column name occurrences for duplicate handling
     const columnNameCounts = new Map<string, number>();
 
-    // Process each column
-    headers.forEach((header, colIndex) => {
-      const normalizedName = options.normalizeColumnNames
+    this.headers = headers.map((header) => {
+      const normalizedName = this.options.normalizeColumnNames
         ? header.toLowerCase().trim()
         : header.trim();
 
@@ -277,25 +601,78 @@ export class SdrfParserService {
       columnNameCounts.set(normalizedName, count);
 
       if (count > 1) {
-        warnings.push(
+        this.warnings.push(
           `Duplicate column name: "${normalizedName}" (occurrence ${count})`
         );
       }
 
-      // Create column
-      const column = this.createColumn(
-        normalizedName,
-        colIndex,
-        dataRows,
-        options
-      );
-
-      table.columns.push(column);
+      return normalizedName;
     });
 
+    this.columnValues = this.headers.map(() => new Map<string, number[]>());
+    this.hasNotApplicable = this.headers.map(() => false);
+    this.hasNotAvailable = this.headers.map(() => false);
+
+    this.pooledColumnIndex = this.headers.findIndex((name) => name.includes('pooled sample'));
+    this.sourceNameColumnIndex = this.headers.findIndex((name) => name === 'source name');
+  }
+
+  /**
+   * Adds data rows (in file order).
+   */
+  addRows(rows: string[][]): void {
+    for (const row of rows) {
+      this.rowCount++;
+      const sampleIndex = this.rowCount;
+
+      for (let colIndex = 0; colIndex < this.headers.length; colIndex++) {
+        let value = row[colIndex] || '';
+        if (this.options.trimValues) {
+          value = value.trim();
+        }
+
+        // Track special/reserved values (but still store them for display)
+        const lower = value.toLowerCase();
+        if (lower === 'not applicable') {
+          this.hasNotApplicable[colIndex] = true;
+        }
+        if (lower === 'not available') {
+          this.hasNotAvailable[colIndex] = true;
+        }
+
+        if (value === '') {
+          continue;
+        }
+
+        const valueMap = this.columnValues[colIndex];
+        const samples = valueMap.get(value);
+        if (samples) {
+          samples.push(sampleIndex);
+        } else {
+          valueMap.set(value, [sampleIndex]);
+        }
+      }
+
+      if (this.options.detectPools && this.pooledColumnIndex !== -1) {
+        this.pooledValues.push(row[this.pooledColumnIndex]?.trim() || '');
+        this.sourceNames.push(
+          this.sourceNameColumnIndex !== -1 ? row[this.sourceNameColumnIndex]?.trim() || '' : ''
+        );
+      }
+    }
+  }
+
+  /**
+   * Builds the table: compacts values into default + modifiers and detects pools.
+   */
+  build(): SdrfTable {
+    const table = createEmptyTable(this.rowCount);
+
+    table.columns = this.headers.map((name, colIndex) => this.createColumn(name, colIndex));
+
     // Detect pools if enabled
-    if (options.detectPools) {
-      table.pools = this.detectPools(table.columns, dataRows, warnings);
+    if (this.options.detectPools) {
+      table.pools = this.detectPools();
     }
 
     table.metadata = {
@@ -308,51 +685,10 @@ export class SdrfParserService {
   }
 
   /**
-   * Creates a column from parsed data with optimized modifiers.
+   * Creates a column with optimized modifiers.
    */
-  private createColumn(
-    name: string,
-    colIndex: number,
-    dataRows: string[][],
-    options: SdrfParseOptions
-  ): SdrfColumn {
-    // Collect all values for this column
-    const valueMap = new Map<string, number[]>();
-    let hasNotApplicable = false;
-    let hasNotAvailable = false;
-
-    dataRows.forEach((row, rowIndex) => {
-      let value = row[colIndex] || '';
-      if (options.trimValues) {
-        value = value.trim();
-      }
-
-      // Track special/reserved values (but still store them for display)
-      const lower = value.toLowerCase();
-      if (lower === 'not applicable') {
-        hasNotApplicable = true;
-      }
-      if (lower === 'not available') {
-        hasNotAvailable = true;
-      }
-      if (lower === 'anonymized') {
-        // Track anonymized values
-      }
-      if (lower === 'pooled') {
-        // Track pooled values
-      }
-
-      if (value === '') {
-        return;
-      }
-
-      // Add to value map (1-based sample index)
-      const sampleIndex = rowIndex + 1;
-      if (!valueMap.has(value)) {
-        valueMap.set(value, []);
-      }
-      valueMap.get(value)!.push(sampleIndex);
-    });
+  private createColumn(name: string, colIndex: number): SdrfColumn {
+    const valueMap = this.columnValues[colIndex];
 
     // Find most common value (default)
     let defaultValue = '';
@@ -390,44 +726,30 @@ export class SdrfParserService {
       isRequired: isSdrfColumnRequired(name),
       ontologyType: config?.ontologies?.[0],
       ontologyOptions: getColumnOntologies(name),
-      notApplicable: hasNotApplicable,
-      notAvailable: hasNotAvailable,
+      notApplicable: this.hasNotApplicable[colIndex],
+      notAvailable: this.hasNotAvailable[colIndex],
     };
   }
 
   /**
    * Detects sample pools from the pooled sample column.
    */
-  private detectPools(
-    columns: SdrfColumn[],
-    dataRows: string[][],
-    warnings: string[]
-  ): SamplePool[] {
+  private detectPools(): SamplePool[] {
     const pools: SamplePool[] = [];
 
-    // Find pooled sample column
-    const pooledColumnIndex = columns.findIndex((col) =>
-      col.name.includes('pooled sample')
-    );
-
-    if (pooledColumnIndex === -1) {
+    if (this.pooledColumnIndex === -1) {
       return pools;
     }
 
-    // Find source name column
-    const sourceNameColumnIndex = columns.findIndex(
-      (col) => col.name === 'source name'
-    );
+    const hasSourceNames = this.sourceNameColumnIndex !== -1;
 
     // Collect SN= rows and "pooled" rows
-    const snRows: { rowIndex: number; row: string[]; value: string }[] = [];
+    const snRows: { rowIndex: number; value: string }[] = [];
     const pooledSamples: number[] = [];
 
-    dataRows.forEach((row, rowIndex) => {
-      const pooledValue = row[pooledColumnIndex]?.trim() || '';
-
+    this.pooledValues.forEach((pooledValue, rowIndex) => {
       if (pooledValue.startsWith('SN=')) {
-        snRows.push({ rowIndex, row, value: pooledValue });
+        snRows.push({ rowIndex, value: pooledValue });
       } else if (pooledValue.toLowerCase() === 'pooled') {
         pooledSamples.push(rowIndex + 1);
       }
@@ -442,20 +764,18 @@ export class SdrfParserService {
         .filter((s) => s);
 
       // Get pool name from source name column
-      const poolName =
-        sourceNameColumnIndex !== -1
-          ? snRow.row[sourceNameColumnIndex]?.trim() || `Pool ${pools.length + 1}`
-          : `Pool ${pools.length + 1}`;
+      const poolName = hasSourceNames
+        ? this.sourceNames[snRow.rowIndex] || `Pool ${pools.length + 1}`
+        : `Pool ${pools.length + 1}`;
 
       // Find sample indices matching source names
       const pooledOnlySamples: number[] = [];
       const pooledAndIndependentSamples: number[] = [];
 
-      if (sourceNameColumnIndex !== -1) {
-        dataRows.forEach((row, rowIndex) => {
-          const sourceName = row[sourceNameColumnIndex]?.trim() || '';
+      if (hasSourceNames) {
+        this.sourceNames.forEach((sourceName, rowIndex) => {
           if (sourceNames.includes(sourceName)) {
-            const samplePooledValue = row[pooledColumnIndex]?.trim().toLowerCase() || '';
+            const samplePooledValue = this.pooledValues[rowIndex].toLowerCase();
 
             if (
               samplePooledValue === 'not pooled' ||
@@ -483,10 +803,9 @@ export class SdrfParserService {
     if (snRows.length === 0 && pooledSamples.length > 0) {
       const sourceNames: string[] = [];
 
-      if (sourceNameColumnIndex !== -1) {
+      if (hasSourceNames) {
         for (const sampleIndex of pooledSamples) {
-          const row = dataRows[sampleIndex - 1];
-          const sourceName = row[sourceNameColumnIndex]?.trim() || '';
+          const sourceName = this.sourceNames[sampleIndex - 1];
           if (sourceName) {
             sourceNames.push(sourceName);
           }
@@ -0,0 +1,106 @@
+import { SdrfSplitService, EMPTY_GROUP_NAME } from './sdrf-split.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfTable, getTableDataMatrix } from '../models/sdrf-table';
+import { SdrfColumn } from '../models/sdrf-column';
+import { createColumnStoreFromValues, columnStoreToModifiers } from '../models/column-store';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+/** Sets every value of a column (the parser fills empty cells with the default) */
+function setValues(column: SdrfColumn, values: string[]): void {
+  Object.assign(column, columnStoreToModifiers(createColumnStoreFromValues(values)));
+}
+
+describe('SdrfSplitService', () => {
+  const service = new SdrfSplitService();
+
+  const source = () => {
+    const t = table([
+      ['source name', 'characteristics[organism]', 'comment[instrument]'],
+      ['s1', 'homo sapiens', 'NT=Q Exactive'],
+      ['s2', 'mus musculus', 'NT=Q Exactive'],
+      ['s3', 'homo sapiens', 'NT=Q Exactive'],
+      ['s4', 'homo sapiens', 'NT=Q Exactive'],
+    ]);
+    setValues(t.columns[1], ['homo sapiens', 'mus musculus', 'homo sapiens', '']);
+    setValues(t.columns[2], ['NT=Q Exactive', '', 'NT=Q Exactive', '']);
+    return t;
+  };
+
+  it('groups rows by column value in order of first appearance', () => {
+    const groups = service.groupByColumn(source(), 1);
+
+    expect(groups).toEqual([
+      { name: 'homo sapiens', samples: [1, 3] },
+      { name: 'mus musculus', samples: [2] },
+      { name: EMPTY_GROUP_NAME, samples: [4] },
+    ]);
+  });
+
+  it('groups rows by predicate, skipping empty groups', () => {
+    const groups = service.groupByPredicate(source(), (sample) => sample <= 4, {
+      matching: 'all',
+      rest: 'none',
+    });
+
+    expect(groups).toEqual([{ name: 'all', samples: [1, 2, 3, 4] }]);
+  });
+
+  it('builds one table per group and drops columns left empty', () => {
+    const t = source();
+    const outputs = service.split(t, service.groupByColumn(t, 1), 'PXD000001');
+
+    expect(outputs.map((o) => o.filename)).toEqual([
+      'PXD000001-homo_sapiens.sdrf.tsv',
+      'PXD000001-mus_musculus.sdrf.tsv',
+      'PXD000001-empty.sdrf.tsv',
+    ]);
+    expect(getTableDataMatrix(outputs[0].table)).toEqual([
+      ['s1', 'homo sapiens', 'NT=Q Exactive'],
+      ['s3', 'homo sapiens', 'NT=Q Exactive'],
+    ]);
+    expect(outputs[1].droppedColumns).toEqual(['comment[instrument]']);
+    expect(outputs[1].table.columns.map((c) => c.columnPosition)).toEqual([0, 1]);
+  });
+
+  it('numbers file names that would collide', () => {
+    const outputs = service.split(source(), [
+      { name: 'a/b', samples: [1] },
+      { name: 'a b', samples: [2] },
+    ]);
+
+    expect(outputs.map((o) => o.filename)).toEqual(['sdrf-a_b.sdrf.tsv', 'sdrf-a_b-2.sdrf.tsv']);
+  });
+
+  it('keeps pools of the extracted samples with renumbered indices', () => {
+    const t = source();
+    t.pools = [
+      {
+        poolName: 'pool',
+        pooledOnlySamples: [1, 3],
+        pooledAndIndependentSamples: [2],
+        isReference: false,
+        sdrfValue: 'SN=s1,s3',
+      },
+    ];
+
+    const { table: extracted } = service.extractRows(t, [3, 4]);
+
+    expect(extracted.pools.length).toBe(1);
+    expect(extracted.pools[0].pooledOnlySamples).toEqual([1]);
+    expect(extracted.pools[0].pooledAndIndependentSamples).toEqual([]);
+    expect(service.extractRows(t, [4]).table.pools).toEqual([]);
+  });
+
+  it('writes the outputs into a zip', async () => {
+    const t = source();
+    const blob = await service.exportToZip(service.split(t, service.groupByColumn(t, 1)));
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+
+    expect(blob.type).toBe('application/zip');
+    expect(String.fromCharCode(bytes[0], bytes[1])).toBe('PK');
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * SDRF Split Service
+ *
+ * Splits one SDRF table into several, e.g. one file per instrument,
+ * per sub-dataset or per factor value level. Each output keeps only the
+ * pools that still reference its samples and drops columns that become
+ * entirely empty. Outputs can be downloaded as a zip of TSV files.
+ */
+
+import { Injectable } from '@angular/core';
+import { SdrfTable, SamplePool } from '../models/sdrf-table';
+import { SdrfColumn } from '../models/sdrf-column';
+import {
+  getColumnStore,
+  getStoreValue,
+  createColumnStoreFromValues,
+  columnStoreToModifiers,
+} from '../models/column-store';
+import { loadXlsx } from '../utils/xlsx-loader';
+import { SdrfExportService, SdrfExportOptions } from './sdrf-export.service';
+
+// === Types ===
+
+/**
+ * A set of rows that becomes one output file.
+ */
+export interface SplitGroup {
+  /** Group label (e.g. the column value) */
+  name: string;
+
+  /** Sample indices (1-based) in the source table */
+  samples: number[];
+}
+
+/**
+ * One output of a split.
+ */
+export interface SplitOutput {
+  group: SplitGroup;
+  table: SdrfTable;
+
+  /** File name used in the zip */
+  filename: string;
+
+  /** Names of columns dropped because all their values were empty */
+  droppedColumns: string[];
+}
+
+/** Label of the group of rows with an empty value */
+export const EMPTY_GROUP_NAME = '(empty)';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SdrfSplitService {
+  private exporter = new SdrfExportService();
+
+  /**
+   * Groups rows by their value in a column, in order of first appearance.
+   */
+  groupByColumn(table: SdrfTable, columnIndex: number): SplitGroup[] {
+    const column = table.columns[columnIndex];
+    if (!column) return [];
+
+    const store = getColumnStore(column);
+    const groups = new Map<string, SplitGroup>();
+
+    for (let sample = 1; sample <= table.sampleCount; sample++) {
+      const value = getStoreValue(store, sample).trim();
+      const name = value || EMPTY_GROUP_NAME;
+
+      let group = groups.get(name);
+      if (!group) {
+        group = { name, samples: [] };
+        groups.set(name, group);
+      }
+      group.samples.push(sample);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Groups rows by a predicate into a matching group and, optionally,
+   * a group with the remaining rows.
+   */
+  groupByPredicate(
+    table: SdrfTable,
+    predicate: (sampleIndex: number) => boolean,
+    names: { matching: string; rest?: string }
+  ): SplitGroup[] {
+    const matching: number[] = [];
+    const rest: number[] = [];
+
+    for (let sample = 1; sample <= table.sampleCount; sample++) {
+      (predicate(sample) ? matching : rest).push(sample);
+    }
+
+    const groups: SplitGroup[] = [{ name: names.matching, samples: matching }];
+    if (names.rest !== undefined) {
+      groups.push({ name: names.rest, samples: rest });
+    }
+    return groups.filter((g) => g.samples.length > 0);
+  }
+
+  /**
+   * Builds one table per group.
+   *
+   * @param baseName File name stem for the outputs (e.g. "PXD000001")
+   */
+  split(table: SdrfTable, groups: SplitGroup[], baseName: string = 'sdrf'): SplitOutput[] {
+    const usedNames = new Set<string>();
+
+    return groups.map((group) => {
+      const { table: subTable, droppedColumns } = this.extractRows(table, group.samples);
+
+      let filename = `${baseName}-${this.sanitizeFilename(group.name)}.sdrf.tsv`;
+      for (let n = 2; usedNames.has(filename.toLowerCase()); n++) {
+        filename = `${baseName}-${this.sanitizeFilename(group.name)}-${n}.sdrf.tsv`;
+      }
+      usedNames.add(filename.toLowerCase());
+
+      subTable.metadata = { ...subTable.metadata, filename };
+      return { group, table: subTable, filename, droppedColumns };
+    });
+  }
+
+  /**
+   * Builds a table from a subset of rows.
+   */
+  extractRows(
+    table: SdrfTable,
+    samples: number[]
+  ): { table: SdrfTable; droppedColumns: string[] } {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const droppedColumns: string[] = [];
+    const columns: SdrfColumn[] = [];
+
+    for (const column of table.columns) {
+      const store = getColumnStore(column);
+      const values = sorted.map((sample) => getStoreValue(store, sample));
+
+      if (values.every((v) => v.trim() === '')) {
+        droppedColumns.push(column.name);
+        continue;
+      }
+
+      const { value, modifiers } = columnStoreToModifiers(createColumnStoreFromValues(values));
+      columns.push({ ...column, value, modifiers, columnPosition: columns.length });
+    }
+
+    return {
+      table: {
+        columns,
+        sampleCount: sorted.length,
+        pools: this.extractPools(table.pools, sorted),
+        metadata: {
+          ...table.metadata,
+          loadedAt: new Date(),
+          modifiedAt: new Date(),
+        },
+      },
+      droppedColumns,
+    };
+  }
+
+  /**
+   * Writes the outputs into a zip of TSV files.
+   */
+  async exportToZip(outputs: SplitOutput[], options: SdrfExportOptions = {}): Promise<Blob> {
+    const XLSX = await loadXlsx();
+    const CFB = XLSX.CFB;
+    const zip = CFB.utils.cfb_new();
+    const encoder = new TextEncoder();
+
+    for (const output of outputs) {
+      const content = this.exporter.exportToTsv(output.table, options);
+      CFB.utils.cfb_add(zip, output.filename, encoder.encode(content));
+    }
+
+    const data: Uint8Array = CFB.write(zip, { fileType: 'zip', type: 'array', compression: true });
+    return new Blob([new Uint8Array(data)], { type: 'application/zip' });
+  }
+
+  /**
+   * Triggers download of the outputs as a zip.
+   */
+  async downloadZip(outputs: SplitOutput[], filename: string = 'sdrf-split.zip'): Promise<void> {
+    const blob = await this.exportToZip(outputs);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Keeps pools that reference at least one of the kept samples, with
+   * sample indices renumbered to the new table.
+   */
+  private extractPools(pools: SamplePool[], sortedSamples: number[]): SamplePool[] {
+    const newIndex = new Map(sortedSamples.map((sample, i) => [sample, i + 1]));
+    const remap = (indices: number[]) =>
+      indices.filter((s) => newIndex.has(s)).map((s) => newIndex.get(s)!);
+
+    return pools
+      .map((pool) => ({
+        ...pool,
+        pooledOnlySamples: remap(pool.pooledOnlySamples),
+        pooledAndIndependentSamples: remap(pool.pooledAndIndependentSamples),
+      }))
+      .filter((pool) => pool.pooledOnlySamples.length + pool.pooledAndIndependentSamples.length > 0);
+  }
+
+  private sanitizeFilename(name: string): string {
+    const safe = name
+      .replace(/[^A-Za-z0-9._-]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 80);
+    return safe || 'group';
+  }
+}
+
+/**
+ * Singleton instance for convenience in non-DI contexts.
+ */
+export const sdrfSplitService = new SdrfSplitService();
@@ -0,0 +1,127 @@
+import {
+  SdrfValidatorWorkerService,
+  ValidatorWorkerRequest,
+  ValidatorWorkerResponse,
+} from './sdrf-validator-worker.service';
+import { VALIDATION_CANCELLED_ERROR } from './sdrf-validator.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfTable } from '../models/sdrf-table';
+import { createEmptyValidationResult, createValidationWarning } from '../models/validation';
+
+function table(): SdrfTable {
+  const content = ['source name\tcharacteristics[age]', 's1\t30Y'].join('\n');
+  return new SdrfParserService().parseFromContent(content).table!;
+}
+
+/** Worker stand-in recording requests; the spec posts its responses */
+class FakeWorker {
+  static last: FakeWorker | null = null;
+
+  requests: ValidatorWorkerRequest[] = [];
+  onmessage: ((event: MessageEvent<ValidatorWorkerResponse>) => void) | null = null;
+  onerror: ((error: ErrorEvent) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    FakeWorker.last = this;
+  }
+
+  postMessage(request: ValidatorWorkerRequest): void {
+    this.requests.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  respond(response: Omit<ValidatorWorkerResponse, 'id'>, id = this.requests[0].id): void {
+    this.onmessage?.({ data: { id, ...response } } as MessageEvent<ValidatorWorkerResponse>);
+  }
+}
+
+describe('SdrfValidatorWorkerService', () => {
+  const globals = globalThis as { Worker?: unknown };
+  let realWorker: unknown;
+  let service: SdrfValidatorWorkerService;
+
+  beforeEach(() => {
+    realWorker = globals.Worker;
+    globals.Worker = FakeWorker;
+    FakeWorker.last = null;
+    service = new SdrfValidatorWorkerService();
+  });
+
+  afterEach(() => {
+    globals.Worker = realWorker;
+  });
+
+  it('passes progress and partial issues on, then resolves with the result', async () => {
+    const progress = jasmine.createSpy('onProgress');
+    const partial = jasmine.createSpy('onIssues');
+    const pending = service.validate(table(), { validateOntology: false }, { onProgress: progress, onIssues: partial });
+    const worker = FakeWorker.last!;
+
+    expect(worker.requests[0]).toEqual(
+      jasmine.objectContaining({ type: 'validate', options: { validateOntology: false } })
+    );
+
+    const issue = createValidationWarning('INVALID_AGE_FORMAT', 'age', { column: 'characteristics[age]' });
+    const result = { ...createEmptyValidationResult(), warnings: [issue] };
+    worker.respond({ type: 'progress', progress: { phase: 'columns', completed: 1, total: 2 } });
+    worker.respond({ type: 'partial', issues: [issue], phase: 'columns' });
+    worker.respond({ type: 'progress', progress: { phase: 'columns', completed: 1, total: 2 } }, 'other-run');
+    worker.respond({ type: 'result', result });
+
+    expect(await pending).toEqual(result);
+    expect(progress).toHaveBeenCalledOnceWith({ phase: 'columns', completed: 1, total: 2 });
+    expect(partial).toHaveBeenCalledOnceWith([issue], 'columns');
+  });
+
+  it('asks the worker to cancel when the run is aborted', async () => {
+    const controller = new AbortController();
+    const pending = service.validate(table(), {}, { signal: controller.signal });
+    const worker = FakeWorker.last!;
+
+    controller.abort();
+    expect(worker.requests[1]).toEqual({ id: worker.requests[0].id, type: 'cancel' });
+
+    worker.respond({ type: 'cancelled' });
+    await expectAsync(pending).toBeRejectedWithError(VALIDATION_CANCELLED_ERROR);
+
+    // Finished runs are not cancelled again
+    service.cancel(worker.requests[0].id);
+    expect(worker.requests.length).toBe(2);
+  });
+
+  it('rejects at once when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expectAsync(service.validate(table(), {}, { signal: controller.signal })).toBeRejectedWithError(
+      VALIDATION_CANCELLED_ERROR
+    );
+    expect(FakeWorker.last).toBeNull();
+  });
+
+  it('rejects worker errors and pending runs on terminate', async () => {
+    const failed = service.validate(table());
+    const worker = FakeWorker.last!;
+    worker.respond({ type: 'error', error: 'boom' });
+    await expectAsync(failed).toBeRejectedWithError('boom');
+
+    const pending = service.validate(table());
+    service.terminate();
+    await expectAsync(pending).toBeRejectedWithError(VALIDATION_CANCELLED_ERROR);
+    expect(worker.terminated).toBeTrue();
+  });
+
+  it('validates on the main thread without Web Workers', async () => {
+    globals.Worker = undefined;
+    const progress = jasmine.createSpy('onProgress');
+
+    const result = await service.validate(table(), { validateOntology: false }, { onProgress: progress });
+
+    expect(result.options).toEqual({ validateOntology: false });
+    expect(progress).toHaveBeenCalled();
+  });
+});
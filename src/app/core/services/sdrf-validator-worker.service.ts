@@ -0,0 +1,233 @@
+/**
+ * SDRF Validator Worker Service
+ *
+ * Runs SdrfValidatorService.validate in a Web Worker so validating large
+ * tables (and waiting for OLS) does not block scrolling. Reports progress
+ * per phase, streams issues as they are found and supports cancellation.
+ * Falls back to the validator on the main thread when Web Workers are
+ * not available.
+ */
+
+import { Injectable, OnDestroy } from '@angular/core';
+import { SdrfTable } from '../models/sdrf-table';
+import {
+  ValidationResult,
+  ValidationError,
+  ValidationOptions,
+  ValidationPhase,
+  ValidationProgress,
+} from '../models/validation';
+import {
+  SdrfValidatorService,
+  ValidationRunHooks,
+  VALIDATION_CANCELLED_ERROR,
+} from './sdrf-validator.service';
+import { olsOfflineMode } from './ols.service';
+
+/**
+ * Request sent to the validator worker.
+ */
+export interface ValidatorWorkerRequest {
+  id: string;
+  type: 'validate' | 'cancel';
+  table?: SdrfTable;
+  options?: ValidationOptions;
+  /** Offline mode of OLS lookups (olsOfflineMode of the page) */
+  offline?: boolean;
+}
+
+/**
+ * Response posted by the validator worker.
+ */
+export interface ValidatorWorkerResponse {
+  id: string;
+  type: 'progress' | 'partial' | 'result' | 'cancelled' | 'error';
+  progress?: ValidationProgress;
+  issues?: ValidationError[];
+  phase?: ValidationPhase;
+  result?: ValidationResult;
+  error?: string;
+}
+
+/**
+ * Callbacks for a pending validation.
+ */
+interface PendingValidation {
+  hooks: ValidationRunHooks;
+  resolve: (result: ValidationResult) => void;
+  reject: (error: Error) => void;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SdrfValidatorWorkerService implements OnDestroy {
+  private worker: Worker | null = null;
+  private pendingValidations = new Map<string, PendingValidation>();
+  private fallbackValidator = new SdrfValidatorService();
+
+  ngOnDestroy(): void {
+    this.terminate();
+  }
+
+  /**
+   * Initialize the validator worker (lazily, on first validation).
+   */
+  private initWorker(): Worker | null {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    if (typeof Worker === 'undefined') {
+      console.warn('Web Workers are not supported in this browser');
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(
+        new URL('../../workers/sdrf-validator.worker', import.meta.url),
+        { type: 'module' }
+      );
+
+      this.worker.onmessage = (event: MessageEvent<ValidatorWorkerResponse>) => {
+        this.handleWorkerMessage(event.data);
+      };
+
+      this.worker.onerror = (error) => {
+        console.error('Validator Worker error:', error);
+        // Fail all pending validations
+        for (const [id, pending] of this.pendingValidations) {
+          pending.reject(new Error(`Worker error: ${error.message}`));
+          this.pendingValidations.delete(id);
+        }
+      };
+    } catch (error) {
+      console.error('Failed to initialize Validator Worker:', error);
+      this.worker = null;
+    }
+
+    return this.worker;
+  }
+
+  /**
+   * Handle messages from the worker.
+   */
+  private handleWorkerMessage(response: ValidatorWorkerResponse): void {
+    const pending = this.pendingValidations.get(response.id);
+    if (!pending) {
+      return;
+    }
+
+    switch (response.type) {
+      case 'progress':
+        if (response.progress) {
+          pending.hooks.onProgress?.(response.progress);
+        }
+        break;
+
+      case 'partial':
+        if (response.issues && response.phase) {
+          pending.hooks.onIssues?.(response.issues, response.phase);
+        }
+        break;
+
+      case 'result':
+        if (response.result) {
+          pending.resolve(response.result);
+        } else {
+          pending.reject(new Error('Validator returned no result'));
+        }
+        this.pendingValidations.delete(response.id);
+        break;
+
+      case 'cancelled':
+        pending.reject(new Error(VALIDATION_CANCELLED_ERROR));
+        this.pendingValidations.delete(response.id);
+        break;
+
+      case 'error':
+        pending.reject(new Error(response.error || 'Unknown error'));
+        this.pendingValidations.delete(response.id);
+        break;
+    }
+  }
+
+  /**
+   * Validates a table in the worker.
+   *
+   * @param table The table to validate
+   * @param options Validation options
+   * @param hooks Progress and partial results; aborting `hooks.signal`
+   *   rejects with VALIDATION_CANCELLED_ERROR
+   * @returns Validation result with errors and warnings
+   */
+  validate(
+    table: SdrfTable,
+    options: ValidationOptions = {},
+    hooks: ValidationRunHooks = {}
+  ): Promise<ValidationResult> {
+    if (hooks.signal?.aborted) {
+      return Promise.reject(new Error(VALIDATION_CANCELLED_ERROR));
+    }
+
+    const worker = this.initWorker();
+    if (!worker) {
+      return this.fallbackValidator.validate(table, options, hooks);
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = crypto.randomUUID();
+
+      this.pendingValidations.set(id, { hooks, resolve, reject });
+      hooks.signal?.addEventListener('abort', () => this.cancel(id), { once: true });
+
+      const request: ValidatorWorkerRequest = {
+        id,
+        type: 'validate',
+        table,
+        options,
+        offline: olsOfflineMode(),
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Cancels a pending validation.
+   */
+  cancel(id: string): void {
+    if (!this.worker || !this.pendingValidations.has(id)) return;
+
+    const request: ValidatorWorkerRequest = { id, type: 'cancel' };
+    this.worker.postMessage(request);
+  }
+
+  /**
+   * Cancels all pending validations.
+   */
+  cancelAll(): void {
+    for (const id of this.pendingValidations.keys()) {
+      this.cancel(id);
+    }
+  }
+
+  /**
+   * Terminate the worker. Pending validations reject as cancelled.
+   */
+  terminate(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+
+    for (const pending of this.pendingValidations.values()) {
+      pending.reject(new Error(VALIDATION_CANCELLED_ERROR));
+    }
+    this.pendingValidations.clear();
+  }
+}
+
+/**
+ * Singleton instance for convenience in non-DI contexts.
+ */
+export const sdrfValidatorWorkerService = new SdrfValidatorWorkerService();
@@ -0,0 +1,303 @@
+import { SdrfValidatorService } from './sdrf-validator.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfTable } from '../models/sdrf-table';
+import { ValidationError } from '../models/validation';
+import { OntologySuggestion } from '../models/ontology';
+import { DirectOlsService } from './ols.service';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+function withCodes(issues: ValidationError[], prefix: string): ValidationError[] {
+  return issues.filter((issue) => issue.code.startsWith(prefix));
+}
+
+describe('SdrfValidatorService', () => {
+  const service = new SdrfValidatorService();
+
+  describe('modification parameters', () => {
+    const COLUMN = 'comment[modification parameters]';
+
+    const modificationIssues = (value: string) =>
+      service.validateColumnChecks(table([['source name', COLUMN], ['s1', value]]), new Set([COLUMN]));
+
+    it('accepts a modification matching its Unimod entry', async () => {
+      expect(await modificationIssues('NT=Oxidation;AC=UNIMOD:35;TA=M;MT=Variable')).toEqual([]);
+    });
+
+    it('warns about missing NT and TA fields', async () => {
+      const issues = await modificationIssues('AC=UNIMOD:35;MT=Variable');
+
+      expect(issues.map((i) => [i.code, i.type])).toEqual([
+        ['INVALID_MODIFICATION_FORMAT', 'warning'],
+        ['INVALID_MODIFICATION_FORMAT', 'warning'],
+      ]);
+    });
+
+    it('fixes the case of the modification type', async () => {
+      const issues = await modificationIssues('NT=Oxidation;AC=UNIMOD:35;TA=M;MT=fixed');
+
+      expect(issues.map((i) => [i.code, i.fix])).toEqual([
+        ['INVALID_MODIFICATION_TYPE', 'NT=Oxidation;AC=UNIMOD:35;TA=M;MT=Fixed'],
+      ]);
+    });
+
+    it('cross-checks name, site and mass against Unimod', async () => {
+      const issues = await modificationIssues('NT=Oxidation;AC=UNIMOD:21;TA=S;MT=Variable');
+
+      expect(issues.map((i) => [i.code, i.fix])).toEqual([
+        ['MODIFICATION_NAME_MISMATCH', 'NT=Phospho;AC=UNIMOD:21;TA=S;MT=Variable'],
+      ]);
+
+      const mismatches = await modificationIssues('NT=Oxidation;AC=UNIMOD:35;TA=A;MM=17;MT=Variable');
+      expect(mismatches.map((i) => i.code)).toEqual(['MODIFICATION_SITE_MISMATCH', 'MODIFICATION_MASS_MISMATCH']);
+    });
+
+    it('gives every issue of a value the same fix, correcting all of them', async () => {
+      const issues = await modificationIssues('NT=Acetyl;AC=UNIMOD:35;TA=M;MM=17;MT=variable');
+
+      expect(issues.map((i) => i.code)).toEqual([
+        'INVALID_MODIFICATION_TYPE',
+        'MODIFICATION_NAME_MISMATCH',
+        'MODIFICATION_MASS_MISMATCH',
+      ]);
+      expect(new Set(issues.map((i) => i.fix))).toEqual(
+        new Set(['NT=Oxidation;AC=UNIMOD:35;TA=M;MM=15.994915;MT=Variable'])
+      );
+    });
+  });
+
+  describe('row identity', () => {
+    const ROW_IDENTITY_CODES = [
+      'DUPLICATE_ROW_KEY',
+      'ASSAY_NAME_FILE_CONFLICT',
+      'DATA_FILE_FRACTION_CONFLICT',
+      'SOURCE_CHARACTERISTICS_CONFLICT',
+    ];
+    const header = [
+      'source name',
+      'characteristics[organism]',
+      'assay name',
+      'comment[label]',
+      'comment[fraction identifier]',
+      'comment[data file]',
+    ];
+
+    const identityIssues = (rows: string[][]) =>
+      service.validateTableChecks(table([header, ...rows])).filter((issue) => ROW_IDENTITY_CODES.includes(issue.code));
+
+    it('accepts rows with distinct keys', () => {
+      const issues = identityIssues([
+        ['s1', 'homo sapiens', 'run 1', 'TMT126', '1', 'a.raw'],
+        ['s2', 'homo sapiens', 'run 1', 'TMT127', '1', 'a.raw'],
+        ['s1', 'homo sapiens', 'run 2', 'TMT126', '2', 'b.raw'],
+      ]);
+
+      expect(issues).toEqual([]);
+    });
+
+    it('reports rows repeating source name, assay name, data file and label', () => {
+      const issues = identityIssues([
+        ['s1', 'homo sapiens', 'run 1', 'label free sample', '1', 'a.raw'],
+        ['s2', 'homo sapiens', 'run 2', 'label free sample', '1', 'b.raw'],
+        ['s1', 'homo sapiens', 'run 1', 'label free sample', '1', 'a.raw'],
+      ]);
+
+      expect(issues.map((i) => [i.code, i.rows])).toEqual([['DUPLICATE_ROW_KEY', [1, 3]]]);
+    });
+
+    it('reports an assay name mapped to several data files', () => {
+      const issues = identityIssues([
+        ['s1', 'homo sapiens', 'run 1', 'label free sample', '1', 'a.raw'],
+        ['s2', 'homo sapiens', 'run 1', 'label free sample', '1', 'b.raw'],
+      ]);
+
+      expect(issues.map((i) => [i.code, i.value])).toEqual([['ASSAY_NAME_FILE_CONFLICT', 'run 1']]);
+    });
+
+    it('reports a data file with several fraction identifiers', () => {
+      const issues = identityIssues([
+        ['s1', 'homo sapiens', 'run 1', 'TMT126', '1', 'a.raw'],
+        ['s2', 'homo sapiens', 'run 1', 'TMT127', '2', 'a.raw'],
+      ]);
+
+      expect(issues.map((i) => [i.code, i.column])).toEqual([
+        ['DATA_FILE_FRACTION_CONFLICT', 'comment[fraction identifier]'],
+      ]);
+    });
+
+    it('reports a source name with differing characteristics', () => {
+      const issues = identityIssues([
+        ['s1', 'homo sapiens', 'run 1', 'label free sample', '1', 'a.raw'],
+        ['s1', 'mus musculus', 'run 2', 'label free sample', '1', 'b.raw'],
+      ]);
+
+      expect(issues.map((i) => [i.code, i.column, i.rows])).toEqual([
+        ['SOURCE_CHARACTERISTICS_CONFLICT', 'characteristics[organism]', [1, 2]],
+      ]);
+    });
+  });
+
+  describe('multiplexing', () => {
+    const TMT6 = ['TMT126', 'TMT127', 'TMT128', 'TMT129', 'TMT130', 'TMT131'];
+    const TMT10 = ['TMT126', 'TMT127N', 'TMT127C', 'TMT128N', 'TMT128C', 'TMT129N', 'TMT129C', 'TMT130N', 'TMT130C', 'TMT131'];
+    const TMT11 = [...TMT10, 'TMT131C'];
+    const TMT16 = [...TMT11, 'TMT132N', 'TMT132C', 'TMT133N', 'TMT133C', 'TMT134N'];
+    const TMT6PLEX = 'NT=TMT6plex;AC=UNIMOD:737;TA=K;MT=Fixed';
+    const TMTPRO = 'NT=TMTpro;AC=UNIMOD:2016;TA=K;MT=Fixed';
+
+    /** One row per label of each data file */
+    const design = (files: Record<string, string[]>, modifications = [TMT6PLEX]) => {
+      const rows = [
+        ['source name', 'comment[label]', 'comment[data file]', ...modifications.map(() => 'comment[modification parameters]')],
+      ];
+      for (const [file, labels] of Object.entries(files)) {
+        labels.forEach((label, i) => rows.push([`${file}-${i + 1}`, label, file, ...modifications]));
+      }
+      return table(rows);
+    };
+
+    const multiplexIssues = (t: SdrfTable) => {
+      const issues = service.validateTableChecks(t);
+      return [...withCodes(issues, 'MULTIPLEX_'), ...withCodes(issues, 'LABEL_FREE_')];
+    };
+
+    it('accepts a TMT 6-plex design', () => {
+      expect(multiplexIssues(design({ 'a.raw': TMT6 }))).toEqual([]);
+    });
+
+    it('reports a missing TMT 6-plex channel', () => {
+      const issues = multiplexIssues(design({ 'a.raw': TMT6.slice(0, 5) }));
+
+      expect(issues.map((i) => i.code)).toEqual(['MULTIPLEX_CHANNEL_MISSING']);
+      expect(issues[0].message).toContain('TMT 6-plex channel TMT131');
+    });
+
+    it('accepts a SILAC light/heavy design', () => {
+      expect(multiplexIssues(design({ 'a.raw': ['SILAC light', 'SILAC heavy'] }))).toEqual([]);
+    });
+
+    it('infers the plex of each data file', () => {
+      const t = design({ 'a.raw': TMT10, 'b.raw': TMT16 });
+      const issues = multiplexIssues(t);
+
+      expect(issues.map((i) => i.code)).toEqual(['MULTIPLEX_MODIFICATION_MISSING']);
+      expect(issues[0].message).toContain("'TMTpro'");
+    });
+
+    it('accepts a TMT 10-plex and TMTpro design declaring both reagents', () => {
+      const t = design({ 'a.raw': TMT10, 'b.raw': TMT16 }, [TMT6PLEX, TMTPRO]);
+
+      expect(multiplexIssues(t)).toEqual([]);
+    });
+
+    it('checks a data file against the larger plex of the same reagent', () => {
+      const issues = multiplexIssues(design({ 'a.raw': TMT11, 'b.raw': TMT10 }));
+
+      expect(issues.map((i) => i.code)).toEqual(['MULTIPLEX_CHANNEL_MISSING']);
+      expect(issues[0].message).toBe("Data file 'b.raw' has no row for TMT 11-plex channel TMT131C");
+    });
+
+    it('reports data files mixing plexes', () => {
+      const issues = multiplexIssues(design({ 'a.raw': [...TMT6, 'TMT127N'] }));
+
+      expect(issues.map((i) => i.code)).toEqual(['MULTIPLEX_LABEL_MISMATCH']);
+    });
+
+    it('reports repeated channels', () => {
+      const issues = multiplexIssues(design({ 'a.raw': [...TMT6, 'TMT126'] }));
+
+      expect(issues.map((i) => [i.code, i.rows])).toEqual([['MULTIPLEX_DUPLICATE_CHANNEL', [1, 7]]]);
+    });
+
+    it('requires label-free files to use label free sample', () => {
+      const t = table([
+        ['source name', 'comment[label]', 'comment[data file]'],
+        ['s1', 'label free sample', 'a.raw'],
+        ['s2', 'unlabeled', 'b.raw'],
+      ]);
+
+      expect(multiplexIssues(t).map((i) => [i.code, i.row])).toEqual([['LABEL_FREE_LABEL_MISSING', 2]]);
+    });
+  });
+
+  describe('ontology accessions', () => {
+    const COLUMN = 'comment[instrument]';
+    const TERMS: Record<string, OntologySuggestion> = {
+      'MS:1001911': { id: 'MS:1001911', label: 'Q Exactive', iri: '', ontologyPrefix: 'ms', synonyms: [] },
+      'MS:0000001': {
+        id: 'MS:0000001',
+        label: 'retired instrument model',
+        iri: '',
+        ontologyPrefix: 'ms',
+        isObsolete: true,
+        replacedBy: 'MS:1001911',
+      },
+    };
+
+    /** OLS stand-in resolving OBO IRIs from TERMS (MS:0000001 is made up), or any MS:9... accession */
+    const fakeOls = () => {
+      const ols = {
+        lookups: [] as string[],
+        isOffline: () => false,
+        search: async () => ({ suggestions: [], total: 0 }),
+        getTermByIri: async (iri: string) => {
+          const accession = iri.split('/').pop()!.replace('_', ':');
+          ols.lookups.push(accession);
+          if (/^MS:9/.test(accession)) {
+            return { id: accession, label: `term ${accession}`, iri, ontologyPrefix: 'ms' };
+          }
+          return TERMS[accession] ?? null;
+        },
+      };
+      return ols;
+    };
+
+    const accessionIssues = (validator: SdrfValidatorService, values: string[]) =>
+      validator.validateOntologyTerms(table([['source name', COLUMN], ...values.map((v, i) => [`s${i}`, v])]), {});
+
+    it('checks NT against the term of AC', async () => {
+      const validator = new SdrfValidatorService(fakeOls() as unknown as DirectOlsService);
+      const issues = await accessionIssues(validator, [
+        'NT=Q Exactive;AC=MS:1001911',
+        'NT=Orbitrap;AC=MS:1001911',
+        'NT=Q Exactive;AC=MS:0000000',
+      ]);
+
+      expect(issues.map((i) => [i.code, i.fix])).toEqual([
+        ['ONTOLOGY_LABEL_MISMATCH', 'NT=Q Exactive;AC=MS:1001911'],
+        ['INVALID_ONTOLOGY_ACCESSION', undefined],
+      ]);
+    });
+
+    it('skips accessions it cannot look up while OLS is unreachable', async () => {
+      const ols = { ...fakeOls(), search: async () => ({ suggestions: [], total: 0, incomplete: true }) };
+      const validator = new SdrfValidatorService(ols as unknown as DirectOlsService);
+      const issues = await accessionIssues(validator, ['NT=Orbitrap;AC=MS:1001911', 'NT=Q Exactive;AC=MS:0000000']);
+
+      expect(issues.map((i) => i.code)).toEqual(['ONTOLOGY_LABEL_MISMATCH']);
+    });
+
+    it('replaces obsolete terms', async () => {
+      const validator = new SdrfValidatorService(fakeOls() as unknown as DirectOlsService);
+      const issues = await accessionIssues(validator, ['NT=retired instrument model;AC=MS:0000001']);
+
+      expect(issues.map((i) => [i.code, i.fix])).toEqual([['OBSOLETE_ONTOLOGY_TERM', 'NT=Q Exactive;AC=MS:1001911']]);
+    });
+
+    it('keeps a bounded number of resolved terms', async () => {
+      const ols = fakeOls();
+      const validator = new SdrfValidatorService(ols as unknown as DirectOlsService);
+      const values = Array.from({ length: 2001 }, (_, i) => `NT=term MS:${9000000 + i};AC=MS:${9000000 + i}`);
+
+      await accessionIssues(validator, values);
+      ols.lookups = [];
+      await accessionIssues(validator, [values[1], values[0]]);
+
+      // The first term was evicted, the second is still cached
+      expect(ols.lookups).toEqual(['MS:9000000']);
+    });
+  });
+});
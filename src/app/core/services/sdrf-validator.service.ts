@@ -5,7 +5,10 @@
  * - Required column checks
  * - Format validation (collision energy, age, mass tolerance, etc.)
  * - Ontology validation (via OLS API)
- * - Modification format validation
+ * - Modification format validation, cross-checked against Unimod
+ * - Ontology accession/label consistency and obsolete terms
+ * - Row identity (unique row keys, one file per assay, consistent sources)
+ * - Multiplexing consistency (channels per data file, label modifications)
  *
  * Based on SDRF-Proteomics specification v1.1.0
  */
@@ -13,16 +16,24 @@
 import { SdrfTable } from '../models/sdrf-table';
 import { SdrfColumn, getValueForSample } from '../models/sdrf-column';
 import { getRequiredSdrfColumns, getSdrfColumnConfig } from '../models/sdrf-config';
+import { getColumnStore, expandColumnStore } from '../models/column-store';
 import {
   ValidationResult,
   ValidationError,
   ValidationOptions,
+  ValidationPhase,
+  ValidationProgress,
+  ValidationErrorCode,
   createEmptyValidationResult,
   createValidationError,
   createValidationWarning,
 } from '../models/validation';
+import { LABEL_CONFIGS, LabelPlexConfig } from '../models/wizard';
+import { OntologySuggestion } from '../models/ontology';
 import { DirectOlsService } from './ols.service';
+import { UnimodService } from './unimod.service';
 import { decodeSampleRange } from '../utils/sample-range';
+import { findColumnOrderIssues } from '../utils/column-order';
 
 /**
  * Validation patterns for SDRF v1.1.0
@@ -75,6 +86,71 @@ const COLUMN_ONTOLOGIES: Record<string, string[]> = {
   'comment[fractionation method]': ['pride'],
 };
 
+/** Base IRI of OBO Foundry terms (PREFIX_ID) */
+const OBO_PURL = 'http://purl.obolibrary.org/obo/';
+
+/** Resolved ontology terms kept in memory; OLS also persists them in IndexedDB */
+const MAX_CACHED_ONTOLOGY_TERMS = 2000;
+
+/** Tolerance for MM= against the Unimod monoisotopic mass (Da) */
+const MODIFICATION_MASS_TOLERANCE = 0.01;
+
+/** Allowed MT= values */
+const MODIFICATION_TYPES = ['Fixed', 'Variable'];
+
+/** Label of label-free samples */
+const LABEL_FREE_SAMPLE = 'label free sample';
+
+/**
+ * Unimod label modification that a multiplexed design must declare,
+ * by LABEL_CONFIGS id
+ */
+const PLEX_LABEL_MODIFICATIONS: Record<string, { name: string; accession: string }> = {
+  tmt6: { name: 'TMT6plex', accession: 'UNIMOD:737' },
+  tmt10: { name: 'TMT6plex', accession: 'UNIMOD:737' },
+  tmt11: { name: 'TMT6plex', accession: 'UNIMOD:737' },
+  tmt16: { name: 'TMTpro', accession: 'UNIMOD:2016' },
+  tmt18: { name: 'TMTpro', accession: 'UNIMOD:2016' },
+  itraq4: { name: 'iTRAQ4plex', accession: 'UNIMOD:214' },
+  itraq8: { name: 'iTRAQ8plex', accession: 'UNIMOD:730' },
+};
+
+/**
+ * Rows of one data file, by lowercase label
+ */
+interface DataFileChannels {
+  file: string;
+  firstRow: number;
+  labels: Map<string, { label: string; rows: number[] }>;
+}
+
+/**
+ * Ontology term looked up by accession
+ */
+interface OntologyTermLookup {
+  term: OntologySuggestion | null;
+
+  /** OLS could not be asked, so a missing term may still exist */
+  unavailable: boolean;
+}
+
+/**
+ * Hooks for following (and stopping) a validation run.
+ */
+export interface ValidationRunHooks {
+  /** Aborting stops the run; validate() then rejects with VALIDATION_CANCELLED_ERROR */
+  signal?: AbortSignal;
+
+  /** Called when a phase starts and after each of its steps */
+  onProgress?: (progress: ValidationProgress) => void;
+
+  /** Called with the issues of each step as they are found */
+  onIssues?: (issues: ValidationError[], phase: ValidationPhase) => void;
+}
+
+/** Error message of a validation run that was cancelled by the caller */
+export const VALIDATION_CANCELLED_ERROR = 'Validation cancelled';
+
 /**
  * SDRF Validator Service
  *
@@ -82,69 +158,163 @@ const COLUMN_ONTOLOGIES: Record<string, string[]> = {
  */
 export class SdrfValidatorService {
   private olsService: DirectOlsService;
+  private unimodService: UnimodService;
+
+  /** OLS terms by lowercase accession, least recently used first */
+  private ontologyTerms = new Map<string, OntologySuggestion>();
 
-  constructor(olsService?: DirectOlsService) {
+  constructor(olsService?: DirectOlsService, unimodService?: UnimodService) {
     this.olsService = olsService || new DirectOlsService();
+    this.unimodService = unimodService || new UnimodService();
   }
 
   /**
    * Validates an entire SDRF table.
    *
+   * Runs in phases (structure, columns, ontology) with one step per column,
+   * reporting progress and issues through `hooks`. With an abort signal,
+   * the run yields to the event loop between steps so it can be stopped.
+   *
    * @param table The table to validate
    * @param options Validation options
+   * @param hooks Progress, partial results and cancellation
    * @returns Validation result with errors and warnings
    */
   async validate(
     table: SdrfTable,
-    options: ValidationOptions = {}
+    options: ValidationOptions = {},
+    hooks: ValidationRunHooks = {}
   ): Promise<ValidationResult> {
-    const result = createEmptyValidationResult();
-    result.options = options;
+    const issues: ValidationError[] = [];
 
-    const errors: ValidationError[] = [];
-    const warnings: ValidationError[] = [];
-
-    // 1. Validate required columns
-    const requiredErrors = this.validateRequiredColumns(table);
-    errors.push(...requiredErrors);
+    const report = (found: ValidationError[], phase: ValidationPhase) => {
+      if (found.length === 0) return;
+      issues.push(...found);
+      hooks.onIssues?.(found, phase);
+    };
 
-    // 2. Validate column formats
-    for (const column of table.columns) {
-      if (options.skipColumns?.includes(column.name)) {
-        continue;
+    const step = async (phase: ValidationPhase, completed: number, total: number) => {
+      hooks.onProgress?.({ phase, completed, total });
+      if (hooks.signal) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (hooks.signal.aborted) throw new Error(VALIDATION_CANCELLED_ERROR);
       }
+    };
 
-      const columnErrors = this.validateColumnFormat(column, table.sampleCount);
-      errors.push(...columnErrors.filter((e) => e.type === 'error'));
-      warnings.push(...columnErrors.filter((e) => e.type === 'warning'));
+    // 1. Table-level checks: required columns, pools, structure, row identity, multiplexing
+    await step('structure', 0, 1);
+    report(this.validateTableChecks(table), 'structure');
+    await step('structure', 1, 1);
+
+    // 2. Column checks: formats and whitespace per column, then factor-characteristic relationships
+    const columnNames = this.getColumnNames(table, options);
+    const columnSteps = columnNames.length + 1;
+    for (let i = 0; i < columnNames.length; i++) {
+      await step('columns', i, columnSteps);
+      report(await this.validateColumnValueChecks(table, new Set([columnNames[i]]), options), 'columns');
     }
+    await step('columns', columnNames.length, columnSteps);
+    report(this.validateFactorCharacteristicRelations(table), 'columns');
+    await step('columns', columnSteps, columnSteps);
 
     // 3. Validate ontology terms (if enabled)
     if (options.validateOntology !== false) {
-      const ontologyErrors = await this.validateOntologyTerms(table, options);
-      warnings.push(...ontologyErrors);
+      const ontologyColumns = columnNames.filter(
+        (name) => COLUMN_ONTOLOGIES[name] || this.hasTermAccessions(table, name)
+      );
+      for (let i = 0; i < ontologyColumns.length; i++) {
+        await step('ontology', i, ontologyColumns.length);
+        report(
+          await this.validateOntologyTerms(table, options, new Set([ontologyColumns[i]]), hooks.signal),
+          'ontology'
+        );
+      }
+      await step('ontology', ontologyColumns.length, ontologyColumns.length);
+    }
+
+    return this.buildResult(table, issues, options);
+  }
+
+  /**
+   * Checks that depend on the whole table rather than on column values:
+   * required columns, pools, structure (duplicates, column order), row
+   * identity and multiplexing.
+   */
+  validateTableChecks(table: SdrfTable): ValidationError[] {
+    return [
+      ...this.validateRequiredColumns(table),
+      ...this.validatePools(table),
+      ...this.validateStructure(table),
+      ...this.validateRowIdentity(table),
+      ...this.validateMultiplexing(table),
+    ];
+  }
+
+  /**
+   * Value checks of individual columns: formats, whitespace and
+   * factor-characteristic relationships. Every issue names its column.
+   *
+   * @param columnNames Lowercase names of the columns to check (null = all).
+   *   A factor value column is checked when it or its characteristics column is listed.
+   */
+  async validateColumnChecks(
+    table: SdrfTable,
+    columnNames: ReadonlySet<string> | null = null,
+    options: ValidationOptions = {}
+  ): Promise<ValidationError[]> {
+    return [
+      ...(await this.validateColumnValueChecks(table, columnNames, options)),
+      ...this.validateFactorCharacteristicRelations(table, columnNames),
+    ];
+  }
+
+  /**
+   * Format and whitespace checks of individual columns.
+   */
+  private async validateColumnValueChecks(
+    table: SdrfTable,
+    columnNames: ReadonlySet<string> | null,
+    options: ValidationOptions
+  ): Promise<ValidationError[]> {
+    const issues: ValidationError[] = [];
+    const included = (column: SdrfColumn) =>
+      !options.skipColumns?.includes(column.name) &&
+      (columnNames === null || columnNames.has(column.name.toLowerCase()));
+
+    for (const column of table.columns) {
+      if (included(column)) {
+        issues.push(...(await this.validateColumnFormat(column, table.sampleCount)));
+      }
     }
 
-    // 4. Validate pools
-    const poolErrors = this.validatePools(table);
-    errors.push(...poolErrors.filter((e) => e.type === 'error'));
-    warnings.push(...poolErrors.filter((e) => e.type === 'warning'));
+    issues.push(...this.validateWhitespace(table, columnNames));
+    return issues;
+  }
 
-    // 5. Check for duplicates and other structural issues
-    const structuralErrors = this.validateStructure(table);
-    errors.push(...structuralErrors.filter((e) => e.type === 'error'));
-    warnings.push(...structuralErrors.filter((e) => e.type === 'warning'));
+  /**
+   * Distinct lowercase column names, in table order.
+   */
+  private getColumnNames(table: SdrfTable, options: ValidationOptions): string[] {
+    const names = table.columns
+      .filter((column) => !options.skipColumns?.includes(column.name))
+      .map((column) => column.name.toLowerCase());
+    return Array.from(new Set(names));
+  }
 
-    // 6. Validate whitespace issues
-    const whitespaceErrors = this.validateWhitespace(table);
-    warnings.push(...whitespaceErrors);
+  /**
+   * Builds a validation result from a list of errors and warnings.
+   */
+  buildResult(
+    table: SdrfTable,
+    issues: ValidationError[],
+    options: ValidationOptions = {}
+  ): ValidationResult {
+    const result = createEmptyValidationResult();
+    result.options = options;
 
-    // 7. Validate factor-characteristic relationships
-    const factorErrors = this.validateFactorCharacteristicRelations(table);
-    warnings.push(...factorErrors.filter((e) => e.type === 'warning'));
-    errors.push(...factorErrors.filter((e) => e.type === 'error'));
+    const errors = issues.filter((e) => e.type === 'error');
+    const warnings = issues.filter((e) => e.type === 'warning');
 
-    // Build result
     result.errors = errors;
     result.warnings = warnings;
     result.isValid = errors.length === 0;
@@ -194,10 +364,10 @@ export class SdrfValidatorService {
   /**
    * Validates the format of a column's values.
    */
-  private validateColumnFormat(
+  private async validateColumnFormat(
     column: SdrfColumn,
     sampleCount: number
-  ): ValidationError[] {
+  ): Promise<ValidationError[]> {
     const errors: ValidationError[] = [];
     const name = column.name.toLowerCase();
 
@@ -276,7 +446,7 @@ export class SdrfValidatorService {
     else if (name === 'comment[modification parameters]') {
       for (const value of valuesToValidate) {
         if (value && value !== 'not available') {
-          const modErrors = this.validateModificationFormat(value, column.name);
+          const modErrors = await this.validateModificationFormat(value, column.name);
           errors.push(...modErrors);
         }
       }
@@ -322,22 +492,17 @@ export class SdrfValidatorService {
   }
 
   /**
-   * Validates modification parameters format.
+   * Validates modification parameters format, then cross-checks the fields
+   * against Unimod. Mismatches carry the corrected value as `fix`; when a
+   * value has several, each fix corrects all of them.
    */
-  private validateModificationFormat(
+  private async validateModificationFormat(
     value: string,
     columnName: string
-  ): ValidationError[] {
+  ): Promise<ValidationError[]> {
     const errors: ValidationError[] = [];
-    const pairs = value.split(';');
-
-    const keys: string[] = [];
-    for (const pair of pairs) {
-      const parts = pair.split('=');
-      if (parts.length >= 2) {
-        keys.push(parts[0].trim());
-      }
-    }
+    const fields = this.parseValueFields(value);
+    const keys = Array.from(fields.keys());
 
     // Check for recommended fields
     if (!keys.includes('NT')) {
@@ -360,9 +525,193 @@ export class SdrfValidatorService {
       );
     }
 
+    // Check modification type
+    const type = fields.get('MT');
+    if (type !== undefined && !MODIFICATION_TYPES.includes(type)) {
+      const corrected = MODIFICATION_TYPES.find((t) => t.toLowerCase() === type.toLowerCase()) ?? 'Variable';
+      errors.push(
+        createValidationError(
+          'INVALID_MODIFICATION_TYPE',
+          `Modification type 'MT=${type}' must be Fixed or Variable: '${value}'`,
+          {
+            column: columnName,
+            value,
+            suggestion: `Use MT=${corrected}`,
+            fix: this.setValueField(value, 'MT', corrected),
+          }
+        )
+      );
+    }
+
+    errors.push(...(await this.validateModificationEntry(value, fields, columnName)));
+    this.combineFixes(value, errors);
     return errors;
   }
 
+  /**
+   * Cross-checks modification fields against the Unimod entry of AC=
+   * (or NT=): the accession and name agree, TA/PP are sites of the entry's
+   * specifications and MM is its monoisotopic mass. Terms missing from the
+   * Unimod data are not reported.
+   */
+  private async validateModificationEntry(
+    value: string,
+    fields: Map<string, string>,
+    columnName: string
+  ): Promise<ValidationError[]> {
+    const errors: ValidationError[] = [];
+    const accession = fields.get('AC');
+    const name = fields.get('NT');
+    const isUnimodAccession = !!accession && /^UNIMOD:\d+$/i.test(accession);
+
+    const byAccession = isUnimodAccession ? await this.unimodService.getByAccession(accession!) : undefined;
+    const byName = name ? await this.unimodService.getByName(name) : undefined;
+    const entry = byAccession ?? byName;
+    if (!entry) return errors;
+
+    const mismatch = (
+      code: ValidationErrorCode,
+      message: string,
+      key: string,
+      corrected: string
+    ): ValidationError =>
+      createValidationError(code, `${message}: '${value}'`, {
+        column: columnName,
+        value,
+        suggestion: `Use ${key}=${corrected}`,
+        fix: this.setValueField(value, key, corrected),
+      });
+
+    // Accession and name refer to the same entry (the accession wins)
+    if (byAccession && name && name.toLowerCase() !== byAccession.name.toLowerCase()) {
+      errors.push(
+        mismatch(
+          'MODIFICATION_NAME_MISMATCH',
+          `NT=${name} does not match ${byAccession.accession} (${byAccession.name})`,
+          'NT',
+          byAccession.name
+        )
+      );
+    } else if (!byAccession && byName && isUnimodAccession) {
+      errors.push(
+        mismatch(
+          'MODIFICATION_NAME_MISMATCH',
+          `AC=${accession} does not match ${byName.name} (${byName.accession})`,
+          'AC',
+          byName.accession
+        )
+      );
+    }
+
+    // Target sites and position are Unimod specifications of the entry
+    const specifications = entry.specifications;
+    if (specifications.length > 0) {
+      const sites = Array.from(new Set(specifications.map((spec) => spec.site)));
+      const targets = (fields.get('TA') ?? '').split(',').map((t) => t.trim()).filter(Boolean);
+      const isSite = (target: string) => sites.some((site) => site.toLowerCase() === target.toLowerCase());
+      const validTargets = targets.filter(isSite);
+
+      if (validTargets.length < targets.length) {
+        const invalid = targets.filter((t) => !isSite(t));
+        errors.push(
+          mismatch(
+            'MODIFICATION_SITE_MISMATCH',
+            `${entry.name} (${entry.accession}) does not target ${invalid.join(', ')}; Unimod sites: ${sites.join(', ')}`,
+            'TA',
+            validTargets.length > 0 ? validTargets.join(',') : specifications[0].site
+          )
+        );
+      }
+
+      const position = fields.get('PP');
+      if (position !== undefined) {
+        const candidates = specifications.filter(
+          (spec) => validTargets.length === 0 || validTargets.some((t) => t.toLowerCase() === spec.site.toLowerCase())
+        );
+        const options = candidates.length > 0 ? candidates : specifications;
+        if (!options.some((spec) => spec.position.toLowerCase() === position.toLowerCase())) {
+          const positions = Array.from(new Set(options.map((spec) => spec.position)));
+          errors.push(
+            mismatch(
+              'MODIFICATION_SITE_MISMATCH',
+              `${entry.name} (${entry.accession}) has no '${position}' position` +
+                `${validTargets.length > 0 ? ` for ${validTargets.join(', ')}` : ''}; Unimod positions: ${positions.join(', ')}`,
+              'PP',
+              positions[0]
+            )
+          );
+        }
+      }
+    }
+
+    // Monoisotopic mass shift
+    const mass = fields.get('MM');
+    if (mass !== undefined) {
+      const parsed = Number(mass);
+      if (!mass || !Number.isFinite(parsed) || Math.abs(parsed - entry.deltaMonoMass) > MODIFICATION_MASS_TOLERANCE) {
+        errors.push(
+          mismatch(
+            'MODIFICATION_MASS_MISMATCH',
+            `MM=${mass} does not match the monoisotopic mass of ${entry.name} (${entry.deltaMonoMass})`,
+            'MM',
+            String(entry.deltaMonoMass)
+          )
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Key=value cell (modification, ontology term) with one field replaced,
+   * or appended when missing.
+   */
+  private setValueField(value: string, key: string, fieldValue: string): string {
+    const pairs = value.split(';');
+    const index = pairs.findIndex((pair) => pair.split('=')[0].trim() === key);
+    if (index >= 0) {
+      pairs[index] = `${key}=${fieldValue}`;
+    } else {
+      pairs.push(`${key}=${fieldValue}`);
+    }
+    return pairs.join(';');
+  }
+
+  /**
+   * Gives every issue of a key=value cell that has a fix the value with
+   * the corrected fields of all of them, so applying any one fix corrects
+   * the whole cell.
+   */
+  private combineFixes(value: string, issues: ValidationError[]): void {
+    const original = this.parseValueFields(value);
+    let combined = value;
+    for (const issue of issues) {
+      if (issue.fix === undefined) continue;
+      for (const [key, field] of this.parseValueFields(issue.fix)) {
+        if (original.get(key) !== field) combined = this.setValueField(combined, key, field);
+      }
+    }
+
+    for (const issue of issues) {
+      if (issue.fix !== undefined) issue.fix = combined;
+    }
+  }
+
+  /**
+   * Fields of a key=value cell (NT=...;AC=...), by key.
+   */
+  private parseValueFields(value: string): Map<string, string> {
+    const fields = new Map<string, string>();
+    for (const pair of value.split(';')) {
+      const parts = pair.split('=');
+      if (parts.length >= 2) {
+        fields.set(parts[0].trim(), parts.slice(1).join('=').trim());
+      }
+    }
+    return fields;
+  }
+
   /**
    * Validates cleavage agent format.
    */
@@ -396,23 +745,31 @@ export class SdrfValidatorService {
   }
 
   /**
-   * Validates ontology terms against OLS.
+   * Validates ontology terms against OLS. Plain values of known ontology
+   * columns are looked up by label; NT=...;AC=... values in any column are
+   * resolved by accession (see validateTermAccession).
+   *
+   * @param columnNames Lowercase names of the columns to check (null = all)
+   * @param signal Stops the lookups when aborted (the terms checked so far are returned)
    */
-  private async validateOntologyTerms(
+  async validateOntologyTerms(
     table: SdrfTable,
-    options: ValidationOptions
+    options: ValidationOptions,
+    columnNames: ReadonlySet<string> | null = null,
+    signal?: AbortSignal
   ): Promise<ValidationError[]> {
-    const warnings: ValidationError[] = [];
+    const issues: ValidationError[] = [];
     const validatedTerms = new Set<string>();
 
     for (const column of table.columns) {
       const ontologies = COLUMN_ONTOLOGIES[column.name.toLowerCase()];
-      if (!ontologies) continue;
+      if (columnNames && !columnNames.has(column.name.toLowerCase())) continue;
 
       // Get unique values
       const values = this.getUniqueValuesToValidate(column);
 
       for (const value of values) {
+        if (signal?.aborted) return issues;
         if (!value) continue;
 
         const lower = value.toLowerCase();
@@ -423,12 +780,20 @@ export class SdrfValidatorService {
         if (validatedTerms.has(cacheKey)) continue;
         validatedTerms.add(cacheKey);
 
+        // Label and accession given: resolve the accession
+        const fields = this.parseValueFields(value);
+        if (this.getTermAccession(fields)) {
+          issues.push(...(await this.validateTermAccession(value, fields, column.name)));
+          continue;
+        }
+        if (!ontologies) continue;
+
         // Validate against OLS
         try {
           const isValid = await this.olsService.validateTerm(value, ontologies);
 
           if (!isValid) {
-            warnings.push(
+            issues.push(
               createValidationWarning(
                 'ONTOLOGY_TERM_NOT_FOUND',
                 `Term '${value}' not found in ${ontologies.join('/')} ontologies`,
@@ -442,7 +807,142 @@ export class SdrfValidatorService {
       }
     }
 
-    return warnings;
+    return issues;
+  }
+
+  /**
+   * Checks an NT=...;AC=... value against the OLS term of its accession:
+   * the accession exists, NT is the term's label or one of its synonyms,
+   * and the term is not obsolete. Mismatches and obsolete terms with a
+   * replacement carry the corrected value as `fix`.
+   */
+  private async validateTermAccession(
+    value: string,
+    fields: Map<string, string>,
+    columnName: string
+  ): Promise<ValidationError[]> {
+    const accession = this.getTermAccession(fields)!;
+    const name = fields.get('NT') ?? '';
+
+    const { term, unavailable } = await this.resolveOntologyTerm(accession);
+    if (!term) {
+      // Offline or unreachable, the term may just be missing from the cache
+      if (unavailable) return [];
+      return [
+        createValidationWarning(
+          'INVALID_ONTOLOGY_ACCESSION',
+          `Accession AC=${accession} not found in OLS: '${value}'`,
+          { column: columnName, value, suggestion: 'Check the accession, e.g. MS:1000449' }
+        ),
+      ];
+    }
+
+    // Obsolete terms are replaced as a whole (their labels often read "obsolete ...")
+    if (term.isObsolete) {
+      const replacement = term.replacedBy ? await this.resolveReplacementTerm(term.replacedBy) : null;
+      return [
+        createValidationWarning(
+          'OBSOLETE_ONTOLOGY_TERM',
+          `${term.id} (${term.label}) is obsolete: '${value}'`,
+          replacement
+            ? {
+                column: columnName,
+                value,
+                suggestion: `Use NT=${replacement.label};AC=${replacement.id}`,
+                fix: this.setValueField(this.setValueField(value, 'NT', replacement.label), 'AC', replacement.id),
+              }
+            : { column: columnName, value, suggestion: 'Replace it with a current term' }
+        ),
+      ];
+    }
+
+    const labels = [term.label, ...(term.synonyms ?? [])].map((label) => label.toLowerCase());
+    if (!labels.includes(name.toLowerCase())) {
+      return [
+        createValidationError(
+          'ONTOLOGY_LABEL_MISMATCH',
+          `NT=${name} does not match ${term.id} (${term.label}): '${value}'`,
+          {
+            column: columnName,
+            value,
+            suggestion: `Use NT=${term.label}, or the accession of '${name}'`,
+            fix: this.setValueField(value, 'NT', term.label),
+          }
+        ),
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Ontology accession of an NT=...;AC=... value. Unimod accessions are
+   * cross-checked by the modification checks instead.
+   */
+  private getTermAccession(fields: Map<string, string>): string | null {
+    const accession = fields.get('AC');
+    if (!accession || !fields.has('NT') || /^UNIMOD:/i.test(accession)) return null;
+    return accession;
+  }
+
+  /**
+   * Whether a column holds NT=...;AC=... values with ontology accessions.
+   */
+  private hasTermAccessions(table: SdrfTable, name: string): boolean {
+    const column = table.columns.find((c) => c.name.toLowerCase() === name);
+    return (
+      !!column &&
+      this.getUniqueValuesToValidate(column).some((value) => this.getTermAccession(this.parseValueFields(value)))
+    );
+  }
+
+  /**
+   * Looks up an ontology term by accession (PREFIX:ID): by its OBO IRI
+   * first, then through a search that includes obsolete terms. A term
+   * is only known to be missing when OLS answered the search.
+   */
+  private async resolveOntologyTerm(accession: string): Promise<OntologyTermLookup> {
+    const key = accession.toLowerCase();
+    const cached = this.ontologyTerms.get(key);
+    if (cached) {
+      this.ontologyTerms.delete(key);
+      this.ontologyTerms.set(key, cached);
+      return { term: cached, unavailable: false };
+    }
+
+    const match = /^([A-Za-z][\w.]*):(\S+)$/.exec(accession);
+    if (!match) return { term: null, unavailable: false };
+
+    let term = await this.olsService.getTermByIri(`${OBO_PURL}${match[1]}_${match[2]}`);
+    let unavailable = false;
+    if (!term || term.id.toLowerCase() !== key) {
+      const response = await this.olsService.search({ query: accession, exact: true, obsoletes: true, rows: 10 });
+      term = response.suggestions.find((s) => s.id.toLowerCase() === key) ?? null;
+      // Offline results come from the cache when OLS is off or unreachable
+      unavailable = response.incomplete === true;
+    }
+
+    // Failed lookups are retried on the next pass
+    if (term) {
+      this.ontologyTerms.set(key, term);
+      if (this.ontologyTerms.size > MAX_CACHED_ONTOLOGY_TERMS) {
+        const oldestKey = this.ontologyTerms.keys().next().value;
+        if (oldestKey) {
+          this.ontologyTerms.delete(oldestKey);
+        }
+      }
+    }
+    return { term, unavailable: !term && unavailable };
+  }
+
+  /**
+   * Resolves the replacement of an obsolete term, given as IRI or accession.
+   */
+  private async resolveReplacementTerm(replacedBy: string): Promise<OntologySuggestion | null> {
+    if (/^https?:\/\//.test(replacedBy)) {
+      return this.olsService.getTermByIri(replacedBy);
+    }
+    return (await this.resolveOntologyTerm(replacedBy.replace('_', ':'))).term;
   }
 
   /**
@@ -510,6 +1010,17 @@ export class SdrfValidatorService {
       }
     }
 
+    // Check column order (characteristics before assay name, then comments, then factor values)
+    for (const issue of findColumnOrderIssues(table.columns)) {
+      errors.push(
+        createValidationWarning(
+          'INVALID_COLUMN_ORDER',
+          `Column '${issue.columnName}' should come before '${issue.afterColumn}'`,
+          { column: issue.columnName, suggestion: 'Use "Sort to spec order" to reorder the columns' }
+        )
+      );
+    }
+
     // Check for empty table
     if (table.columns.length === 0) {
       errors.push(
@@ -534,17 +1045,428 @@ export class SdrfValidatorService {
     return errors;
   }
 
+  /**
+   * Validates row identity: unique (source name, assay name, data file,
+   * label) keys, one data file per assay name, one fraction identifier per
+   * data file and consistent characteristics per source name. Each issue
+   * lists all the rows involved.
+   */
+  private validateRowIdentity(table: SdrfTable): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const sources = this.getColumnValues(table, 'source name');
+    const assays = this.getColumnValues(table, 'assay name');
+    const files = this.getColumnValues(table, 'comment[data file]');
+    const labels = this.getColumnValues(table, 'comment[label]');
+    const fractions = this.getColumnValues(table, 'comment[fraction identifier]');
+
+    // Duplicated row keys (a partial key repeats legitimately; missing columns are reported as required)
+    if (sources && assays && files && labels) {
+      const keyColumns = [sources, assays, files, labels];
+      const rowsByKey = this.groupRows(table.sampleCount, (i) =>
+        JSON.stringify(keyColumns.map((values) => values[i].trim()))
+      );
+      for (const rows of rowsByKey.values()) {
+        if (rows.length < 2) continue;
+        const i = rows[0] - 1;
+        errors.push(
+          createValidationError(
+            'DUPLICATE_ROW_KEY',
+            `Rows ${rows.join(', ')} share source name '${sources[i]}', assay name '${assays[i]}', ` +
+              `data file '${files[i]}' and label '${labels[i]}'`,
+            {
+              column: 'source name',
+              row: rows[0],
+              rows,
+              suggestion: 'Remove the duplicated rows, or give each one its own assay name or label',
+            }
+          )
+        );
+      }
+    }
+
+    // Each assay name is one MS run, i.e. one data file
+    if (assays && files) {
+      for (const [assay, rows] of this.groupRows(table.sampleCount, (i) => assays[i].trim())) {
+        const distinct = this.getDistinctValues(files, rows);
+        if (!assay || distinct.length < 2) continue;
+        errors.push(
+          createValidationError(
+            'ASSAY_NAME_FILE_CONFLICT',
+            `Assay name '${assay}' is mapped to ${distinct.length} data files: ${distinct.join(', ')}`,
+            {
+              column: 'assay name',
+              row: rows[0],
+              rows,
+              value: assay,
+              suggestion: 'Give each data file its own assay name',
+            }
+          )
+        );
+      }
+    }
+
+    // A data file holds a single fraction
+    if (files && fractions) {
+      for (const [file, rows] of this.groupRows(table.sampleCount, (i) => files[i].trim())) {
+        const distinct = this.getDistinctValues(fractions, rows);
+        if (!file || distinct.length < 2) continue;
+        errors.push(
+          createValidationError(
+            'DATA_FILE_FRACTION_CONFLICT',
+            `Data file '${file}' has ${distinct.length} fraction identifiers: ${distinct.join(', ')}`,
+            {
+              column: 'comment[fraction identifier]',
+              row: rows[0],
+              rows,
+              suggestion: `Use the same fraction identifier in every row of '${file}'`,
+            }
+          )
+        );
+      }
+    }
+
+    // A source name is one sample, so its characteristics cannot change between rows
+    if (sources) {
+      const characteristics = table.columns.filter((c) => c.name.toLowerCase().startsWith('characteristics['));
+      const sourceRows = Array.from(this.groupRows(table.sampleCount, (i) => sources[i].trim()))
+        .filter(([source, rows]) => source && rows.length > 1);
+
+      for (const column of characteristics) {
+        const store = getColumnStore(column);
+        for (const [source, rows] of sourceRows) {
+          const first = store.indices[rows[0] - 1] ?? 0;
+          if (rows.every((row) => (store.indices[row - 1] ?? 0) === first)) continue;
+
+          const values = this.getDistinctValues(expandColumnStore(store, table.sampleCount), rows);
+          if (values.length < 2) continue;
+          errors.push(
+            createValidationError(
+              'SOURCE_CHARACTERISTICS_CONFLICT',
+              `Source name '${source}' has different values in '${column.name}': ${values.join(', ')}`,
+              {
+                column: column.name,
+                row: rows[0],
+                rows,
+                suggestion: `Use one value for '${source}', or give the differing samples their own source names`,
+              }
+            )
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Values of the first column with the given lowercase name, one per
+   * sample (null when the column is missing).
+   */
+  private getColumnValues(table: SdrfTable, name: string): string[] | null {
+    const column = table.columns.find((c) => c.name.toLowerCase() === name);
+    return column ? expandColumnStore(getColumnStore(column), table.sampleCount) : null;
+  }
+
+  /**
+   * Rows (1-based) by key, in table order.
+   */
+  private groupRows(sampleCount: number, key: (index: number) => string): Map<string, number[]> {
+    const groups = new Map<string, number[]>();
+    for (let i = 0; i < sampleCount; i++) {
+      const k = key(i);
+      const rows = groups.get(k);
+      if (rows) {
+        rows.push(i + 1);
+      } else {
+        groups.set(k, [i + 1]);
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Distinct trimmed, non-empty values of the given rows (1-based).
+   */
+  private getDistinctValues(values: string[], rows: number[]): string[] {
+    const distinct = new Set<string>();
+    for (const row of rows) {
+      const value = values[row - 1].trim();
+      if (value) distinct.add(value);
+    }
+    return Array.from(distinct);
+  }
+
+  /**
+   * Validates labelled designs. Each data file must carry one row per
+   * channel of its plex, TMT and iTRAQ designs must declare their label
+   * modification, and label-free files must use 'label free sample'.
+   *
+   * The plex of a data file is the smallest LABEL_CONFIGS plex holding its
+   * channels, widened to a larger plex of the same reagent that another
+   * file uses and that holds those channels (a TMT 10-plex file next to
+   * TMT 11-plex files misses TMT131C). Files of different reagents, e.g.
+   * TMT 10-plex and TMTpro, keep their own plexes.
+   */
+  private validateMultiplexing(table: SdrfTable): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const fileColumn = table.columns.find((c) => c.name.toLowerCase() === 'comment[data file]');
+    const labelColumn = table.columns.find((c) => c.name.toLowerCase() === 'comment[label]');
+    if (!fileColumn || !labelColumn) return errors;
+
+    const files = this.getDataFileChannels(table, fileColumn, labelColumn);
+
+    const multiplexLabelsByFile = files.map((file) =>
+      Array.from(file.labels.keys()).filter((key) => this.isMultiplexLabel(key))
+    );
+    const ownPlexes = multiplexLabelsByFile.map((keys) => this.findPlex(keys));
+    const usedPlexes = new Set<LabelPlexConfig>();
+
+    files.forEach((file, fileIndex) => {
+      const multiplexLabels = multiplexLabelsByFile[fileIndex];
+
+      if (multiplexLabels.length === 0) {
+        for (const { label, rows } of file.labels.values()) {
+          if (label.toLowerCase() === LABEL_FREE_SAMPLE) continue;
+          errors.push(
+            createValidationError(
+              'LABEL_FREE_LABEL_MISSING',
+              `Label-free data file '${file.file}' has ${label ? `label '${label}'` : 'no label'} instead of '${LABEL_FREE_SAMPLE}'`,
+              {
+                column: labelColumn.name,
+                row: rows[0],
+                value: label,
+                suggestion: `Set '${labelColumn.name}' to '${LABEL_FREE_SAMPLE}'`,
+              }
+            )
+          );
+        }
+      } else {
+        const ownPlex = ownPlexes[fileIndex];
+        const plex = ownPlex && this.widenPlex(ownPlex, multiplexLabels, ownPlexes);
+        if (!plex) {
+          errors.push(
+            createValidationError(
+              'MULTIPLEX_LABEL_MISMATCH',
+              `Data file '${file.file}' mixes channels of different plexes: ${multiplexLabels.map((key) => file.labels.get(key)!.label).join(', ')}`,
+              {
+                column: labelColumn.name,
+                row: file.firstRow,
+                suggestion: 'Use the channels of a single plex (e.g. TMT 10-plex) in each data file',
+              }
+            )
+          );
+          return;
+        }
+        usedPlexes.add(plex);
+
+        const channels = new Set(plex.labels.map((l) => l.toLowerCase()));
+        for (const [key, { label, rows }] of file.labels) {
+          if (channels.has(key)) continue;
+          errors.push(
+            createValidationError(
+              'MULTIPLEX_LABEL_MISMATCH',
+              `${label ? `Label '${label}'` : 'Empty label'} in data file '${file.file}' is not a ${plex.name} channel`,
+              {
+                column: labelColumn.name,
+                row: rows[0],
+                value: label,
+                suggestion: `Use one of: ${plex.labels.join(', ')}`,
+              }
+            )
+          );
+        }
+
+        const missing = plex.labels.filter((l) => !file.labels.has(l.toLowerCase()));
+        if (missing.length > 0) {
+          errors.push(
+            createValidationWarning(
+              'MULTIPLEX_CHANNEL_MISSING',
+              `Data file '${file.file}' has no row for ${plex.name} channel${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`,
+              {
+                column: labelColumn.name,
+                row: file.firstRow,
+                suggestion: `Add a row for each ${plex.name} channel, e.g. for the reference channel`,
+              }
+            )
+          );
+        }
+      }
+
+      // One row per channel, label-free files hold a single sample
+      for (const { label, rows } of file.labels.values()) {
+        if (rows.length < 2) continue;
+        errors.push(
+          createValidationError(
+            'MULTIPLEX_DUPLICATE_CHANNEL',
+            `${label ? `Label '${label}'` : 'Empty label'} appears ${rows.length} times in data file '${file.file}' (rows ${rows.join(', ')})`,
+            {
+              column: labelColumn.name,
+              row: rows[1],
+              rows,
+              value: label,
+              suggestion: multiplexLabels.length === 0
+                ? `Give each sample its own data file, or label the samples with the channels of a plex`
+                : `Assign each sample of '${file.file}' a different channel`,
+            }
+          )
+        );
+      }
+    });
+
+    // Label modification of each TMT/iTRAQ plex
+    const modifications = this.getModificationFields(table);
+    const reported = new Set<string>();
+    for (const plex of usedPlexes) {
+      const required = PLEX_LABEL_MODIFICATIONS[plex.id];
+      if (!required || reported.has(required.name)) continue;
+
+      const declared =
+        modifications.has(`nt=${required.name.toLowerCase()}`) ||
+        modifications.has(`ac=${required.accession.toLowerCase()}`);
+      if (declared) continue;
+
+      reported.add(required.name);
+      errors.push(
+        createValidationError(
+          'MULTIPLEX_MODIFICATION_MISSING',
+          `${plex.name} design does not declare the '${required.name}' label modification`,
+          {
+            column: 'comment[modification parameters]',
+            suggestion:
+              `Add 'NT=${required.name};AC=${required.accession};TA=K;MT=Fixed' and ` +
+              `'NT=${required.name};AC=${required.accession};PP=Any N-term;TA=N-term;MT=Fixed'`,
+          }
+        )
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Groups the rows of each data file by label, in table order.
+   * Rows without a data file are skipped.
+   */
+  private getDataFileChannels(
+    table: SdrfTable,
+    fileColumn: SdrfColumn,
+    labelColumn: SdrfColumn
+  ): DataFileChannels[] {
+    const fileValues = this.getAllValuesForColumn(fileColumn, table.sampleCount);
+    const labelValues = this.getAllValuesForColumn(labelColumn, table.sampleCount);
+    const files = new Map<string, DataFileChannels>();
+
+    for (let i = 0; i < table.sampleCount; i++) {
+      const file = (fileValues[i] ?? '').trim();
+      if (!file) continue;
+
+      let channels = files.get(file);
+      if (!channels) {
+        channels = { file, firstRow: i + 1, labels: new Map() };
+        files.set(file, channels);
+      }
+
+      const label = (labelValues[i] ?? '').trim();
+      const key = label.toLowerCase();
+      const entry = channels.labels.get(key);
+      if (entry) {
+        entry.rows.push(i + 1);
+      } else {
+        channels.labels.set(key, { label, rows: [i + 1] });
+      }
+    }
+
+    return Array.from(files.values());
+  }
+
+  /**
+   * Whether a lowercase label is a channel of a multiplexing plex.
+   */
+  private isMultiplexLabel(key: string): boolean {
+    return LABEL_CONFIGS.some(
+      (config) => config.id !== 'lf' && config.labels.some((l) => l.toLowerCase() === key)
+    );
+  }
+
+  /**
+   * The first (smallest) multiplexing plex holding all the lowercase labels.
+   */
+  private findPlex(keys: string[]): LabelPlexConfig | null {
+    if (keys.length === 0) return null;
+    return (
+      LABEL_CONFIGS.find((config) => {
+        if (config.id === 'lf') return false;
+        const channels = new Set(config.labels.map((l) => l.toLowerCase()));
+        return keys.every((key) => channels.has(key));
+      }) ?? null
+    );
+  }
+
+  /**
+   * The largest of the candidate plexes with the reagent of `plex` that
+   * holds all the lowercase labels (`plex` itself when none is larger).
+   */
+  private widenPlex(
+    plex: LabelPlexConfig,
+    keys: string[],
+    candidates: (LabelPlexConfig | null)[]
+  ): LabelPlexConfig {
+    const reagent = this.getPlexReagent(plex);
+    let widest = plex;
+    for (const candidate of candidates) {
+      if (!candidate || candidate.labels.length <= widest.labels.length) continue;
+      if (this.getPlexReagent(candidate) !== reagent) continue;
+      const channels = new Set(candidate.labels.map((l) => l.toLowerCase()));
+      if (keys.every((key) => channels.has(key))) widest = candidate;
+    }
+    return widest;
+  }
+
+  /**
+   * Reagent of a plex: its label modification, or the plex family
+   * (e.g. 'silac') when it declares none.
+   */
+  private getPlexReagent(plex: LabelPlexConfig): string {
+    return PLEX_LABEL_MODIFICATIONS[plex.id]?.name ?? plex.id.replace(/\d+$/, '');
+  }
+
+  /**
+   * Lowercase `KEY=value` fields of all modification parameters values.
+   */
+  private getModificationFields(table: SdrfTable): Set<string> {
+    const fields = new Set<string>();
+    for (const column of table.columns) {
+      if (column.name.toLowerCase() !== 'comment[modification parameters]') continue;
+      for (const value of this.getUniqueValuesToValidate(column)) {
+        for (const pair of value.split(';')) {
+          const [key, ...rest] = pair.split('=');
+          if (rest.length > 0) fields.add(`${key.trim()}=${rest.join('=').trim()}`.toLowerCase());
+        }
+      }
+    }
+    return fields;
+  }
+
   /**
    * Validates factor value columns against corresponding characteristics columns.
    * Factor values should reference values that exist in the corresponding characteristics column.
    */
-  private validateFactorCharacteristicRelations(table: SdrfTable): ValidationError[] {
+  private validateFactorCharacteristicRelations(
+    table: SdrfTable,
+    columnNames: ReadonlySet<string> | null = null
+  ): ValidationError[] {
     const errors: ValidationError[] = [];
 
-    // Find all factor value columns
-    const factorColumns = table.columns.filter((c) =>
-      c.name.toLowerCase().startsWith('factor value[')
-    );
+    // Find the factor value columns to check (also when only their characteristics column changed)
+    const factorColumns = table.columns.filter((c) => {
+      const name = c.name.toLowerCase();
+      if (!name.startsWith('factor value[')) return false;
+      return (
+        columnNames === null ||
+        columnNames.has(name) ||
+        columnNames.has(name.replace(/^factor value\[/, 'characteristics['))
+      );
+    });
 
     // Build a map of characteristics columns
     const characteristicsMap = new Map<string, SdrfColumn>();
@@ -643,11 +1565,15 @@ export class SdrfValidatorService {
    * Validates whitespace issues in values.
    * Checks for leading/trailing whitespace which can cause issues with ontology matching.
    */
-  private validateWhitespace(table: SdrfTable): ValidationError[] {
+  private validateWhitespace(
+    table: SdrfTable,
+    columnNames: ReadonlySet<string> | null = null
+  ): ValidationError[] {
     const warnings: ValidationError[] = [];
 
     for (let colIdx = 0; colIdx < table.columns.length; colIdx++) {
       const column = table.columns[colIdx];
+      if (columnNames && !columnNames.has(column.name.toLowerCase())) continue;
 
       // Check column-level value
       if (column.value) {
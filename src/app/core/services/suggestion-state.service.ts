@@ -338,6 +338,8 @@ export class SuggestionStateService {
 
   /**
    * Updates the table state hash and invalidates stale suggestions.
+   * Pending suggestions created against the new hash become fresh again
+   * (e.g. after an undo restores the state they were generated for).
    */
   updateTableState(newHash: string): void {
     const oldHash = this._tableStateHash();
@@ -345,19 +347,24 @@ export class SuggestionStateService {
     if (newHash !== oldHash) {
       this._tableStateHash.set(newHash);
 
-      // Mark suggestions with old hash as stale
       this._suggestions.update(suggestions =>
         suggestions.map(s => {
-          if (s.validation.tableStateHash !== newHash && s.status === 'pending') {
-            return {
-              ...s,
-              validation: {
-                ...s.validation,
-                isStale: true,
-              },
-            };
+          if (s.status !== 'pending') {
+            return s;
           }
-          return s;
+
+          const isStale = s.validation.tableStateHash !== newHash;
+          if (s.validation.isStale === isStale) {
+            return s;
+          }
+
+          return {
+            ...s,
+            validation: {
+              ...s.validation,
+              isStale,
+            },
+          };
         })
       );
     }
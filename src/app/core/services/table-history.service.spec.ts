@@ -0,0 +1,88 @@
+import { TableHistoryService } from './table-history.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { tableStateService } from './table-state.service';
+import { suggestionStateService } from './suggestion-state.service';
+import { SdrfTable } from '../models/sdrf-table';
+
+function table(organism: string): SdrfTable {
+  const content = ['source name\tcharacteristics[organism]', `s1\t${organism}`].join('\n');
+  return new SdrfParserService().parseFromContent(content).table!;
+}
+
+describe('TableHistoryService', () => {
+  let history: TableHistoryService;
+
+  beforeEach(() => {
+    history = new TableHistoryService();
+  });
+
+  it('undoes and redoes recorded changes', () => {
+    const [a, b, c] = [table('a'), table('b'), table('c')];
+    history.record('cell_edit', 'Edit 1', a, b);
+    history.record('cell_edit', 'Edit 2', b, c);
+
+    expect(history.undoCount()).toBe(2);
+    expect(history.undo()?.before).toBe(b);
+    expect(history.undo()?.before).toBe(a);
+    expect(history.undo()).toBeNull();
+    expect(history.canRedo()).toBeTrue();
+
+    expect(history.redo()?.after).toBe(b);
+    expect(history.nextUndo()?.description).toBe('Edit 1');
+    expect(history.nextRedo()?.description).toBe('Edit 2');
+  });
+
+  it('ignores unchanged tables and clears the redo stack on a new change', () => {
+    const [a, b, c] = [table('a'), table('b'), table('c')];
+    expect(history.record('cell_edit', 'Nothing', a, a)).toBeNull();
+
+    history.record('cell_edit', 'Edit 1', a, b);
+    history.undo();
+    history.record('cell_edit', 'Edit 2', a, c);
+
+    expect(history.canRedo()).toBeFalse();
+    expect(history.redo()).toBeNull();
+    expect(history.undoCount()).toBe(1);
+  });
+
+  it('keeps the most recent 100 commands', () => {
+    const tables = Array.from({ length: 102 }, (_, i) => table(`t${i}`));
+    for (let i = 1; i < tables.length; i++) {
+      history.record('cell_edit', `Edit ${i}`, tables[i - 1], tables[i]);
+    }
+
+    expect(history.undoCount()).toBe(100);
+    for (let i = 0; i < 99; i++) history.undo();
+    expect(history.undo()?.description).toBe('Edit 2');
+    expect(history.canUndo()).toBeFalse();
+  });
+
+  it('resets both stacks', () => {
+    const [a, b] = [table('a'), table('b')];
+    history.record('cell_edit', 'Edit', a, b);
+    history.undo();
+    history.record('cell_edit', 'Edit', a, b);
+
+    history.reset(a);
+
+    expect(history.canUndo()).toBeFalse();
+    expect(history.canRedo()).toBeFalse();
+    expect(tableStateService.currentHash()).toBe(tableStateService.computeTableHash(a));
+  });
+
+  it('keeps the table and suggestion state hashes on the current table', () => {
+    const [a, b] = [table('a'), table('b')];
+    const command = history.record('cell_edit', 'Edit', a, b)!;
+
+    expect(command.beforeHash).not.toBe(command.afterHash);
+    expect(tableStateService.currentHash()).toBe(command.afterHash);
+    expect(suggestionStateService.tableStateHash()).toBe(command.afterHash);
+
+    history.undo();
+    expect(tableStateService.currentHash()).toBe(command.beforeHash);
+    expect(suggestionStateService.tableStateHash()).toBe(command.beforeHash);
+
+    history.redo();
+    expect(suggestionStateService.tableStateHash()).toBe(command.afterHash);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Table History Service
+ *
+ * Command-based undo/redo history for SDRF table mutations.
+ * Each command keeps the table before and after the change. Editor
+ * mutations produce new table objects (unchanged columns are shared),
+ * so storing both references is cheap even for large tables.
+ */
+
+import { Injectable, signal, computed } from '@angular/core';
+import { SdrfTable } from '../models/sdrf-table';
+import { TableStateService, tableStateService } from './table-state.service';
+import { SuggestionStateService, suggestionStateService } from './suggestion-state.service';
+
+/**
+ * Kinds of table mutations tracked in the history.
+ */
+export type TableCommandType =
+  | 'cell_edit'
+  | 'bulk_edit'
+  | 'row_insert'
+  | 'row_delete'
+  | 'column_insert'
+  | 'column_delete'
+  | 'apply_suggestion'
+  | 'apply_fix'
+  | 'paste'
+  | 'fill'
+  | 'replace'
+  | 'column_reorder';
+
+/**
+ * A single recorded table mutation.
+ */
+export interface TableCommand {
+  /** Kind of mutation */
+  type: TableCommandType;
+
+  /** Human-readable description (shown in undo/redo tooltips) */
+  description: string;
+
+  /** Table state before the mutation */
+  before: SdrfTable;
+
+  /** Table state after the mutation */
+  after: SdrfTable;
+
+  /** TableStateService hash of the state before the mutation */
+  beforeHash: string;
+
+  /** TableStateService hash of the state after the mutation */
+  afterHash: string;
+
+  /** When the mutation was recorded */
+  timestamp: Date;
+}
+
+/** Maximum number of commands kept on the undo stack */
+const MAX_HISTORY_SIZE = 100;
+
+/**
+ * Injectable service for undo/redo of table mutations.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TableHistoryService {
+  // === State ===
+
+  private readonly _undoStack = signal<TableCommand[]>([]);
+  private readonly _redoStack = signal<TableCommand[]>([]);
+
+  private tableState: TableStateService;
+  private suggestionState: SuggestionStateService;
+
+  // === Computed ===
+
+  /** Whether there is a command to undo */
+  readonly canUndo = computed(() => this._undoStack().length > 0);
+
+  /** Whether there is a command to redo */
+  readonly canRedo = computed(() => this._redoStack().length > 0);
+
+  /** The command that would be undone next */
+  readonly nextUndo = computed(() => {
+    const stack = this._undoStack();
+    return stack.length > 0 ? stack[stack.length - 1] : null;
+  });
+
+  /** The command that would be redone next */
+  readonly nextRedo = computed(() => {
+    const stack = this._redoStack();
+    return stack.length > 0 ? stack[stack.length - 1] : null;
+  });
+
+  /** Number of commands on the undo stack */
+  readonly undoCount = computed(() => this._undoStack().length);
+
+  constructor() {
+    this.tableState = tableStateService;
+    this.suggestionState = suggestionStateService;
+  }
+
+  // === Public Methods ===
+
+  /**
+   * Records a mutation that has already been applied to the table.
+   * Clears the redo stack. Returns null if nothing changed.
+   */
+  record(
+    type: TableCommandType,
+    description: string,
+    before: SdrfTable,
+    after: SdrfTable
+  ): TableCommand | null {
+    if (before === after) return null;
+
+    const command: TableCommand = {
+      type,
+      description,
+      before,
+      after,
+      beforeHash: this.tableState.computeTableHash(before),
+      afterHash: this.syncState(after),
+      timestamp: new Date(),
+    };
+
+    this._undoStack.update(stack => {
+      const next = [...stack, command];
+      return next.length > MAX_HISTORY_SIZE ? next.slice(next.length - MAX_HISTORY_SIZE) : next;
+    });
+    this._redoStack.set([]);
+
+    return command;
+  }
+
+  /**
+   * Pops the last command. The caller restores `command.before`.
+   */
+  undo(): TableCommand | null {
+    const command = this.nextUndo();
+    if (!command) return null;
+
+    this._undoStack.update(stack => stack.slice(0, -1));
+    this._redoStack.update(stack => [...stack, command]);
+    this.syncState(command.before);
+
+    return command;
+  }
+
+  /**
+   * Re-applies the last undone command. The caller restores `command.after`.
+   */
+  redo(): TableCommand | null {
+    const command = this.nextRedo();
+    if (!command) return null;
+
+    this._redoStack.update(stack => stack.slice(0, -1));
+    this._undoStack.update(stack => [...stack, command]);
+    this.syncState(command.after);
+
+    return command;
+  }
+
+  /**
+   * Clears the history (e.g. when a new file is loaded).
+   * If a table is given, it becomes the baseline state for staleness tracking.
+   */
+  reset(table?: SdrfTable | null): void {
+    this._undoStack.set([]);
+    this._redoStack.set([]);
+
+    if (table) {
+      this.syncState(table);
+    }
+  }
+
+  // === Private Helper Methods ===
+
+  /**
+   * Updates table state tracking so suggestion staleness follows the
+   * current table, including after undo/redo. Returns the new hash.
+   */
+  private syncState(table: SdrfTable): string {
+    const hash = this.tableState.updateState(table);
+    this.suggestionState.updateTableState(hash);
+    return hash;
+  }
+}
+
+/**
+ * Singleton instance for convenience in non-DI contexts.
+ */
+export const tableHistoryService = new TableHistoryService();
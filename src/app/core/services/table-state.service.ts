@@ -104,6 +104,10 @@ export class TableStateService {
     const valueSample = this.getValueSample(table);
     parts.push(`vals:${this.simpleHash(valueSample)}`);
 
+    // Include every column's default value and modifiers, so edits to
+    // rows or columns outside the value sample are detected too
+    parts.push(`mods:${this.simpleHash(this.getColumnFingerprint(table))}`);
+
     return parts.join('|');
   }
 
@@ -257,6 +261,15 @@ export class TableStateService {
     return parts.join('\n');
   }
 
+  /**
+   * Gets all column values in their compact (default + modifiers) form.
+   */
+  private getColumnFingerprint(table: SdrfTable): string {
+    return table.columns
+      .map(c => [c.value, ...c.modifiers.map(m => `${m.samples}=${m.value}`)].join('\t'))
+      .join('\n');
+  }
+
   /**
    * Gets sample indices for a given count.
    * Includes first, middle, and last rows for good coverage.
@@ -0,0 +1,87 @@
+import { TemplateValidatorService } from './template-validator.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { ErrorLevel, ResolvedTemplate, TemplateColumn, convertYamlToTemplateDefinition } from '../models/template';
+import { ValidationError } from '../models/validation';
+import parity from './template-validator.parity.json';
+
+interface ParityIssue {
+  level: string;
+  column: string | null;
+  value: string | null;
+}
+
+function resolve(yaml: unknown): ResolvedTemplate {
+  const definition = convertYamlToTemplateDefinition(yaml);
+  return {
+    ...definition,
+    resolvedColumns: definition.columns,
+    parentChain: [],
+    resolvedValidators: definition.validators || [],
+  };
+}
+
+/** Distinct level|column pairs; both validators report per value or row differently */
+function levelColumns(issues: { level: string; column?: string | null }[]): string[] {
+  return Array.from(new Set(issues.map((i) => `${i.level}|${i.column ?? ''}`))).sort();
+}
+
+function toParityIssue(issue: ValidationError): ParityIssue {
+  return { level: issue.type, column: issue.column ?? null, value: issue.value ?? null };
+}
+
+describe('TemplateValidatorService', () => {
+  const service = new TemplateValidatorService();
+  const parser = new SdrfParserService();
+
+  describe('parity with sdrf-pipelines', () => {
+    const template = resolve(parity.template);
+
+    for (const testCase of parity.cases) {
+      it(`reports the same issues for: ${testCase.name}`, async () => {
+        const table = parser.parseFromContent(testCase.sdrf).table!;
+        const result = await service.validate(table, [template], { validateOntology: false });
+
+        // sdrf-pipelines does not report missing recommended columns
+        const actual = [...result.errors, ...result.warnings]
+          .filter((issue) => issue.code !== 'MISSING_RECOMMENDED_COLUMN')
+          .map(toParityIssue);
+        const expected = testCase.expected as ParityIssue[];
+
+        expect(levelColumns(actual)).toEqual(levelColumns(expected));
+        for (const issue of expected.filter((i) => i.value !== null)) {
+          expect(actual).toContain(jasmine.objectContaining({ column: issue.column, value: issue.value }));
+        }
+      });
+    }
+  });
+
+  describe('reserved values', () => {
+    const column = (levels: (ErrorLevel | undefined)[]): TemplateColumn => ({
+      name: 'characteristics[disease]',
+      description: '',
+      requirement: 'required',
+      allowNotApplicable: false,
+      allowNotAvailable: true,
+      validators: levels.map((level) => ({ validatorName: 'ontology', params: { errorLevel: level } })),
+    });
+    const template = (templateColumn: TemplateColumn) =>
+      ({ resolvedColumns: [templateColumn], resolvedValidators: [] }) as unknown as ResolvedTemplate;
+    const table = () => parser.parseFromContent('source name\tcharacteristics[disease]\ns1\tnot applicable').table!;
+
+    it('reports at the level of the column validators', async () => {
+      const result = await service.validate(table(), [template(column(['warning']))], { validateOntology: false });
+
+      expect(result.errors).toEqual([]);
+      expect(result.warnings.map((w) => w.code)).toEqual(['RESERVED_VALUE_NOT_ALLOWED']);
+    });
+
+    it('reports an error when any validator is an error or sets no level', async () => {
+      const cases: (ErrorLevel | undefined)[][] = [['warning', 'error'], ['warning', undefined], []];
+      for (const levels of cases) {
+        const result = await service.validate(table(), [template(column(levels))], { validateOntology: false });
+
+        expect(result.errors.map((e) => e.code)).toEqual(['RESERVED_VALUE_NOT_ALLOWED']);
+      }
+    });
+  });
+});
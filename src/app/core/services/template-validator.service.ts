@@ -0,0 +1,550 @@
+/**
+ * Template Validator Service
+ *
+ * Runs the validators of resolved SDRF templates (see TemplateService)
+ * natively, mirroring the sdrf-pipelines template validators without
+ * loading Pyodide:
+ * - Column requirement (required / recommended) and cardinality
+ * - Reserved values (not applicable, not available, anonymized, pooled)
+ * - `ontology`, `pattern`, `values` and `single_cardinality_validator`
+ *   column validators
+ * - `min_columns` and `combination_of_columns_no_duplicate_validator`
+ *   template validators
+ *
+ * Each validator reports at its `errorLevel` (default: error; warning for
+ * `values`, as in sdrf-pipelines). Disallowed reserved values report at
+ * the strictest level of the column's validators. Value checks run once
+ * per distinct value and report its first row.
+ */
+
+import { SdrfTable } from '../models/sdrf-table';
+import { SdrfColumn } from '../models/sdrf-column';
+import { getColumnStore, getStoreValue } from '../models/column-store';
+import {
+  ResolvedTemplate,
+  TemplateColumn,
+  TemplateValidator,
+  RequirementLevel,
+  ErrorLevel,
+} from '../models/template';
+import {
+  ValidationResult,
+  ValidationError,
+  ValidationErrorCode,
+  ValidationOptions,
+  createEmptyValidationResult,
+  createValidationError,
+  createValidationWarning,
+} from '../models/validation';
+import { DirectOlsService } from './ols.service';
+
+/**
+ * A distinct value of a column with the rows (1-based) holding it.
+ */
+interface ColumnValueRows {
+  value: string;
+  rows: number[];
+}
+
+/**
+ * Reserved SDRF values and the template column flag allowing each.
+ */
+const RESERVED_VALUES: Record<string, keyof TemplateColumn> = {
+  'not applicable': 'allowNotApplicable',
+  'not available': 'allowNotAvailable',
+  'anonymized': 'allowAnonymized',
+  'pooled': 'allowPooled',
+};
+
+const REQUIREMENT_RANK: Record<RequirementLevel, number> = {
+  required: 2,
+  recommended: 1,
+  optional: 0,
+};
+
+/**
+ * Template Validator Service
+ *
+ * Validates SDRF tables against resolved templates.
+ */
+export class TemplateValidatorService {
+  private olsService: DirectOlsService;
+
+  constructor(olsService?: DirectOlsService) {
+    this.olsService = olsService || new DirectOlsService();
+  }
+
+  /**
+   * Validates a table against one or more resolved templates. Columns
+   * defined by several templates are checked once, with the strictest
+   * requirement and all of their validators.
+   *
+   * @param table The table to validate
+   * @param templates Resolved templates (e.g. from TemplateService.getResolvedTemplate)
+   * @param options Validation options; `validateOntology: false` skips OLS lookups
+   * @returns Validation result with errors and warnings
+   */
+  async validate(
+    table: SdrfTable,
+    templates: ResolvedTemplate[],
+    options: ValidationOptions = {}
+  ): Promise<ValidationResult> {
+    const result = createEmptyValidationResult();
+    result.options = options;
+
+    const issues: ValidationError[] = [];
+    const unsupported = new Set<string>();
+    const columns = this.mergeTemplateColumns(templates);
+
+    // 1. Column presence, cardinality and values
+    for (const templateColumn of columns) {
+      if (options.skipColumns?.includes(templateColumn.name)) continue;
+
+      const matches = this.findColumns(table, templateColumn.name);
+      if (matches.length === 0) {
+        issues.push(...this.validateMissingColumn(templateColumn));
+        continue;
+      }
+
+      issues.push(...this.validateCardinality(templateColumn, matches));
+
+      for (const { column, index } of matches) {
+        issues.push(
+          ...(await this.validateColumnValues(table, templateColumn, column, index, options, unsupported))
+        );
+      }
+    }
+
+    // 2. Template-level validators
+    const templateValidators = templates.flatMap((t) => t.resolvedValidators);
+    for (const validator of this.uniqueValidators(templateValidators)) {
+      issues.push(...this.validateTemplateRule(table, validator, unsupported));
+    }
+
+    for (const name of unsupported) {
+      result.info.push({
+        type: 'info',
+        code: 'UNKNOWN_ERROR',
+        message: `Validator '${name}' is not supported and was skipped`,
+      });
+    }
+
+    // Build result
+    result.errors = issues.filter((e) => e.type === 'error');
+    result.warnings = issues.filter((e) => e.type === 'warning');
+    result.isValid = result.errors.length === 0;
+    result.timestamp = new Date();
+
+    result.summary = {
+      errorCount: result.errors.length,
+      warningCount: result.warnings.length,
+      infoCount: result.info.length,
+      columnsValidated: table.columns.length,
+      samplesValidated: table.sampleCount,
+      ontologyValidated: options.validateOntology !== false,
+    };
+
+    if (options.strictMode && result.warnings.length > 0) {
+      result.isValid = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Combines the columns of several templates by name (case-insensitive),
+   * keeping the first template's order.
+   */
+  mergeTemplateColumns(templates: ResolvedTemplate[]): TemplateColumn[] {
+    const merged = new Map<string, TemplateColumn>();
+
+    for (const column of templates.flatMap((t) => t.resolvedColumns)) {
+      const key = column.name.toLowerCase().trim();
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...column, validators: [...(column.validators || [])] });
+        continue;
+      }
+
+      // Strictest requirement; reserved values only when every template allows them
+      if (REQUIREMENT_RANK[column.requirement] > REQUIREMENT_RANK[existing.requirement]) {
+        existing.requirement = column.requirement;
+      }
+      existing.allowNotApplicable = existing.allowNotApplicable && column.allowNotApplicable;
+      existing.allowNotAvailable = existing.allowNotAvailable && column.allowNotAvailable;
+      existing.allowAnonymized = existing.allowAnonymized && column.allowAnonymized;
+      existing.allowPooled = existing.allowPooled && column.allowPooled;
+      if (column.cardinality === 'single') {
+        existing.cardinality = 'single';
+      }
+      existing.validators = this.uniqueValidators([...existing.validators!, ...(column.validators || [])]);
+    }
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Reports a template column missing from the table.
+   */
+  private validateMissingColumn(templateColumn: TemplateColumn): ValidationError[] {
+    if (templateColumn.requirement === 'required') {
+      return [
+        createValidationError(
+          'MISSING_REQUIRED_COLUMN',
+          `Required column '${templateColumn.name}' is missing`,
+          { column: templateColumn.name, suggestion: templateColumn.description || undefined }
+        ),
+      ];
+    }
+
+    if (templateColumn.requirement === 'recommended') {
+      return [
+        createValidationWarning(
+          'MISSING_RECOMMENDED_COLUMN',
+          `Recommended column '${templateColumn.name}' is missing`,
+          { column: templateColumn.name, suggestion: templateColumn.description || undefined }
+        ),
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Reports a single-cardinality column that appears more than once.
+   * Columns are single unless the template says 'multiple'.
+   */
+  private validateCardinality(
+    templateColumn: TemplateColumn,
+    matches: { column: SdrfColumn; index: number }[]
+  ): ValidationError[] {
+    const cardinalityValidator = templateColumn.validators?.find(
+      (v) => v.validatorName === 'single_cardinality_validator'
+    );
+    const single = templateColumn.cardinality !== 'multiple' || cardinalityValidator !== undefined;
+    if (!single || matches.length <= 1) return [];
+
+    return matches.slice(1).map(({ column, index }) =>
+      this.createIssue(
+        cardinalityValidator?.params.errorLevel ?? 'error',
+        'INVALID_CARDINALITY',
+        `Column '${templateColumn.name}' may appear only once (found ${matches.length} times)`,
+        { column: column.name, columnIndex: index, suggestion: 'Merge or remove the duplicate columns' }
+      )
+    );
+  }
+
+  /**
+   * Checks the values of one table column: empty required cells,
+   * reserved values, then the column validators.
+   */
+  private async validateColumnValues(
+    table: SdrfTable,
+    templateColumn: TemplateColumn,
+    column: SdrfColumn,
+    columnIndex: number,
+    options: ValidationOptions,
+    unsupported: Set<string>
+  ): Promise<ValidationError[]> {
+    const issues: ValidationError[] = [];
+    const location = { column: column.name, columnIndex };
+    const valuesToCheck: ColumnValueRows[] = [];
+
+    for (const { value, rows } of this.getValueRows(column, table.sampleCount)) {
+      const trimmed = value.trim();
+
+      if (trimmed === '') {
+        if (templateColumn.requirement === 'required') {
+          issues.push(
+            createValidationError(
+              'EMPTY_REQUIRED_VALUE',
+              `Required column '${column.name}' is empty in ${rows.length} row(s)`,
+              { ...location, row: rows[0] }
+            )
+          );
+        }
+        continue;
+      }
+
+      const flag = RESERVED_VALUES[trimmed.toLowerCase()];
+      if (flag) {
+        if (!templateColumn[flag]) {
+          issues.push(
+            this.createIssue(
+              this.getColumnLevel(templateColumn),
+              'RESERVED_VALUE_NOT_ALLOWED',
+              `Value '${trimmed}' is not allowed in column '${column.name}'`,
+              { ...location, row: rows[0], value }
+            )
+          );
+        }
+        continue;
+      }
+
+      valuesToCheck.push({ value: trimmed, rows });
+    }
+
+    for (const validator of templateColumn.validators || []) {
+      switch (validator.validatorName) {
+        case 'pattern':
+          issues.push(...this.validatePatternRule(validator, valuesToCheck, location));
+          break;
+        case 'values':
+          issues.push(...this.validateValuesRule(validator, valuesToCheck, location));
+          break;
+        case 'ontology':
+          if (options.validateOntology !== false) {
+            issues.push(...(await this.validateOntologyRule(validator, valuesToCheck, location)));
+          }
+          break;
+        case 'single_cardinality_validator':
+          // Checked with the column cardinality
+          break;
+        default:
+          unsupported.add(validator.validatorName);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * `pattern` validator: values must match a regular expression.
+   */
+  private validatePatternRule(
+    validator: TemplateValidator,
+    values: ColumnValueRows[],
+    location: Partial<ValidationError>
+  ): ValidationError[] {
+    const { pattern, caseSensitive, errorLevel, description, examples } = validator.params;
+    if (!pattern) return [];
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, caseSensitive === false ? 'i' : '');
+    } catch {
+      return [
+        createValidationWarning('INVALID_PATTERN', `Template pattern '${pattern}' is not a valid regular expression`, location),
+      ];
+    }
+
+    const hint = description || (examples?.length ? `e.g. ${examples.join(', ')}` : `pattern ${pattern}`);
+    return values
+      .filter(({ value }) => !regex.test(value))
+      .map(({ value, rows }) =>
+        this.createIssue(errorLevel, 'INVALID_PATTERN', `Invalid value '${value}' in '${location.column}': expected ${hint}`, {
+          ...location,
+          row: rows[0],
+          value,
+          suggestion: examples?.length ? `Use a value like '${examples[0]}'` : undefined,
+        })
+      );
+  }
+
+  /**
+   * `values` validator: values must come from a fixed list.
+   */
+  private validateValuesRule(
+    validator: TemplateValidator,
+    values: ColumnValueRows[],
+    location: Partial<ValidationError>
+  ): ValidationError[] {
+    const allowed = validator.params.values || [];
+    if (allowed.length === 0) return [];
+
+    const caseSensitive = validator.params.caseSensitive === true;
+    const normalize = (v: string) => (caseSensitive ? v.trim() : v.trim().toLowerCase());
+    const allowedSet = new Set(allowed.map(normalize));
+
+    return values
+      .filter(({ value }) => !allowedSet.has(normalize(value)))
+      .map(({ value, rows }) => {
+        const close = allowed.find((a) => a.toLowerCase() === value.toLowerCase());
+        return this.createIssue(
+          validator.params.errorLevel ?? 'warning',
+          'INVALID_VALUE',
+          `Value '${value}' is not allowed in '${location.column}'. Allowed: ${allowed.join(', ')}`,
+          { ...location, row: rows[0], value, suggestion: close ? `Use '${close}'` : undefined }
+        );
+      });
+  }
+
+  /**
+   * `ontology` validator: values must be terms of the given ontologies.
+   * Key=value values (NT=...;AC=...) are looked up by their NT name.
+   * Network failures skip the check rather than report the term.
+   */
+  private async validateOntologyRule(
+    validator: TemplateValidator,
+    values: ColumnValueRows[],
+    location: Partial<ValidationError>
+  ): Promise<ValidationError[]> {
+    const ontologies = validator.params.ontologies || [];
+    if (ontologies.length === 0) return [];
+
+    const issues: ValidationError[] = [];
+    for (const { value, rows } of values) {
+      const term = this.getTermName(value);
+      try {
+        if (await this.olsService.validateTerm(term, ontologies)) continue;
+      } catch {
+        continue;
+      }
+
+      issues.push(
+        this.createIssue(
+          validator.params.errorLevel,
+          'ONTOLOGY_TERM_NOT_FOUND',
+          `Term '${term}' not found in ${ontologies.join('/')} ontologies`,
+          { ...location, row: rows[0], value }
+        )
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Template-level validators.
+   */
+  private validateTemplateRule(
+    table: SdrfTable,
+    validator: TemplateValidator,
+    unsupported: Set<string>
+  ): ValidationError[] {
+    switch (validator.validatorName) {
+      case 'min_columns': {
+        const minColumns = validator.params.minColumns ?? 0;
+        if (table.columns.length >= minColumns) return [];
+        return [
+          this.createIssue(
+            validator.params.errorLevel,
+            'MISSING_REQUIRED_COLUMN',
+            `Table has ${table.columns.length} columns; at least ${minColumns} are required`,
+            {}
+          ),
+        ];
+      }
+
+      case 'combination_of_columns_no_duplicate_validator':
+        return [
+          ...this.validateUniqueCombination(table, validator.params.columnName || [], 'error'),
+          ...this.validateUniqueCombination(table, validator.params.columnNameWarning || [], 'warning'),
+        ];
+
+      default:
+        unsupported.add(validator.validatorName);
+        return [];
+    }
+  }
+
+  /**
+   * Reports rows repeating an earlier row's values in all of the given
+   * columns. Skipped when any of the columns is missing.
+   */
+  private validateUniqueCombination(table: SdrfTable, columnNames: string[], level: ErrorLevel): ValidationError[] {
+    if (columnNames.length === 0) return [];
+
+    const columns = columnNames.map((name) => this.findColumns(table, name)[0]?.column);
+    if (columns.some((c) => !c)) return [];
+
+    const stores = columns.map((c) => getColumnStore(c!));
+    const firstRow = new Map<string, number>();
+    const issues: ValidationError[] = [];
+
+    for (let row = 1; row <= table.sampleCount; row++) {
+      const key = stores.map((store) => getStoreValue(store, row).trim().toLowerCase()).join('\t');
+      const first = firstRow.get(key);
+      if (first === undefined) {
+        firstRow.set(key, row);
+        continue;
+      }
+
+      issues.push(
+        this.createIssue(
+          level,
+          'DUPLICATE_COLUMN_COMBINATION',
+          `Row ${row} repeats row ${first} in ${columnNames.join(', ')}`,
+          { column: columnNames[0], row, suggestion: `Make the combination of ${columnNames.join(', ')} unique` }
+        )
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Table columns with a name (case-insensitive), with their indices.
+   */
+  private findColumns(table: SdrfTable, name: string): { column: SdrfColumn; index: number }[] {
+    const key = name.toLowerCase().trim();
+    const matches: { column: SdrfColumn; index: number }[] = [];
+    table.columns.forEach((column, index) => {
+      if (column.name.toLowerCase().trim() === key) {
+        matches.push({ column, index });
+      }
+    });
+    return matches;
+  }
+
+  /**
+   * Distinct values of a column with their rows, in order of first row.
+   */
+  private getValueRows(column: SdrfColumn, sampleCount: number): ColumnValueRows[] {
+    const store = getColumnStore(column);
+    const rowsByEntry = new Map<number, number[]>();
+
+    for (let row = 1; row <= sampleCount; row++) {
+      const entry = store.indices[row - 1] ?? 0;
+      let rows = rowsByEntry.get(entry);
+      if (!rows) {
+        rows = [];
+        rowsByEntry.set(entry, rows);
+      }
+      rows.push(row);
+    }
+
+    return Array.from(rowsByEntry, ([entry, rows]) => ({ value: store.dictionary[entry], rows }));
+  }
+
+  /**
+   * Name of a term written as key=value pairs (NT=name;AC=...), otherwise the value.
+   */
+  private getTermName(value: string): string {
+    const match = /(?:^|;)\s*NT=([^;]+)/i.exec(value);
+    return match ? match[1].trim() : value;
+  }
+
+  /**
+   * Strictest `errorLevel` of a column's validators. Unset levels and
+   * columns without validators count as error.
+   */
+  private getColumnLevel(templateColumn: TemplateColumn): ErrorLevel {
+    const levels = (templateColumn.validators || []).map((v) => v.params.errorLevel);
+    return levels.length > 0 && levels.every((level) => level === 'warning') ? 'warning' : 'error';
+  }
+
+  private uniqueValidators(validators: TemplateValidator[]): TemplateValidator[] {
+    const seen = new Set<string>();
+    return validators.filter((v) => {
+      const key = JSON.stringify(v);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private createIssue(
+    level: ErrorLevel | undefined,
+    code: ValidationErrorCode,
+    message: string,
+    options: Partial<ValidationError>
+  ): ValidationError {
+    return level === 'warning'
+      ? createValidationWarning(code, message, options)
+      : createValidationError(code, message, options);
+  }
+}
+
+// Export singleton instance for convenience
+export const templateValidator = new TemplateValidatorService();
@@ -0,0 +1,50 @@
+import { UnimodService } from './unimod.service';
+
+describe('UnimodService', () => {
+  describe('shipped catalogue', () => {
+    it('is a gzipped catalogue matching its metadata', async () => {
+      const response = await fetch('assets/unimod-data.json.gz');
+      expect(response.ok).toBeTrue();
+
+      const data = await new Response(response.body!.pipeThrough(new DecompressionStream('gzip'))).json();
+      expect(data.modifications.length).toBe(data.metadata.modificationCount);
+      expect(data.modifications.length).toBeGreaterThan(1000);
+    });
+
+    it('loads beyond the common modifications, keeping newer ones', async () => {
+      const service = new UnimodService();
+
+      expect(await service.getCount()).toBeGreaterThan(1000);
+      expect((await service.getByAccession('UNIMOD:1'))?.positions).toContain('Protein N-term');
+      expect((await service.getByName('Carbamidomethyl'))?.accession).toBe('UNIMOD:4');
+      expect((await service.getByAccession('UNIMOD:2016'))?.name).toBe('TMTpro');
+    });
+  });
+
+  describe('mass queries', () => {
+    const service = new UnimodService();
+
+    it('parses mass, tolerance and site', () => {
+      expect(service.parseMassQuery('+42.0106 ± 0.02 Da on K')).toEqual({ mass: 42.0106, tolerance: 0.02, site: 'K' });
+      expect(service.parseMassQuery('15.995 @M')).toEqual({ mass: 15.995, tolerance: 0.01, site: 'M' });
+      expect(service.parseMassQuery('Oxidation')).toBeNull();
+    });
+
+    it('accepts multi-word sites', () => {
+      expect(service.parseMassQuery('+42.01 on Protein N-term')).toEqual({
+        mass: 42.01,
+        tolerance: 0.01,
+        site: 'Protein N-term',
+      });
+    });
+
+    it('searches by mass and site or position', async () => {
+      const acetyl = await service.searchModifications('+42.0106 on Protein N-term');
+      expect(acetyl.map((m) => m.name)).toContain('Acetyl');
+
+      const oxidation = await service.searchByMass(15.9949, 0.001, 'M');
+      expect(oxidation[0].entry.accession).toBe('UNIMOD:35');
+      expect(await service.searchByMass(15.9949, 0.001, 'Protein C-term')).toEqual([]);
+    });
+  });
+});
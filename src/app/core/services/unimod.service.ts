@@ -4,18 +4,52 @@
  * Provides modification autocomplete using bundled Unimod data.
  * Unimod is the standard database for protein modifications.
  *
- * Note: The bundled data should be pre-processed from unimod.org
+ * The full catalogue is a gzipped asset generated from unimod.xml by
+ * scripts/build-unimod-data.js and fetched on first use. Modifications
+ * can also be searched by mass shift, e.g. "+42.0106 ± 0.01 Da on K".
  */
 
-import { UnimodEntry, UnimodSpecification } from '../models/ontology';
+import { UnimodEntry, UnimodMassMatch, UnimodMassQuery } from '../models/ontology';
 
 // Re-export types for convenience
-export type { UnimodEntry, UnimodSpecification } from '../models/ontology';
+export type { UnimodEntry, UnimodSpecification, UnimodMassMatch, UnimodMassQuery } from '../models/ontology';
+
+/**
+ * Full Unimod catalogue (see scripts/build-unimod-data.js).
+ */
+const UNIMOD_DATA_URL = 'assets/unimod-data.json.gz';
+
+/**
+ * Default tolerance of mass shift searches (Da).
+ */
+const DEFAULT_MASS_TOLERANCE = 0.01;
+
+/**
+ * Mass shift query: a signed or decimal mass, then optional "± tolerance",
+ * "Da" and "on <site or position>", e.g. "+42.0106 ± 0.01 Da on K",
+ * "15.995 @M" or "+42.01 on Protein N-term".
+ */
+const MASS_QUERY_PATTERN =
+  /^([+-]\d+(?:\.\d+)?|\d+\.\d+)\s*(?:(?:±|\+\/-|\+-)\s*(\d+(?:\.\d+)?)\s*)?(?:da\b)?\s*(?:(?:on|@)\s*(\S.*))?$/i;
+
+/**
+ * Content of the catalogue asset.
+ */
+interface UnimodDataFile {
+  metadata: {
+    generatedAt: string;
+    source: string;
+    /** Release date of the Unimod export, when known */
+    sourceDate?: string;
+    modificationCount: number;
+  };
+  modifications: UnimodEntry[];
+}
 
 /**
  * Bundled Unimod database subset.
- * This is a commonly-used subset of modifications.
- * Full database can be loaded from unimod-data.json if bundled.
+ * This is a commonly-used subset of modifications, available before
+ * (or without) the full catalogue.
  */
 const COMMON_MODIFICATIONS: UnimodEntry[] = [
   {
@@ -266,21 +300,40 @@ export class UnimodService {
       this.modificationsByName.set(mod.name.toLowerCase(), mod);
     }
 
-    // Try to load extended database if available
-    try {
-      // This would be replaced with actual dynamic import
-      // const extendedData = await import('../data/unimod-data.json');
-      // for (const mod of extendedData.modifications) {
-      //   this.modifications.set(mod.accession, mod);
-      //   this.modificationsByName.set(mod.name.toLowerCase(), mod);
-      // }
-    } catch {
-      // Extended data not available, use common modifications only
+    // Full catalogue replaces the common entries it also contains; entries
+    // newer than the catalogue's Unimod export stay available from the subset
+    const data = await this.loadCatalogue();
+    for (const mod of data?.modifications ?? []) {
+      this.modifications.set(mod.accession, mod);
+      this.modificationsByName.set(mod.name.toLowerCase(), mod);
     }
 
     this.loaded = true;
   }
 
+  /**
+   * Fetches and decompresses the full catalogue.
+   * Returns null if it is not bundled or decompression is not supported.
+   */
+  private async loadCatalogue(): Promise<UnimodDataFile | null> {
+    if (typeof fetch === 'undefined' || typeof DecompressionStream === 'undefined') {
+      return null;
+    }
+
+    try {
+      const response = await fetch(UNIMOD_DATA_URL);
+      if (!response.ok || !response.body) {
+        return null;
+      }
+
+      const decompressed = response.body.pipeThrough(new DecompressionStream('gzip'));
+      return await new Response(decompressed).json();
+    } catch (error) {
+      console.warn('Full Unimod catalogue not available, using common modifications:', error);
+      return null;
+    }
+  }
+
   /**
    * Searches for modifications by name or accession.
    *
@@ -295,6 +348,13 @@ export class UnimodService {
       return [];
     }
 
+    // Mass shift, e.g. "+42.0106 ± 0.01 Da on K"
+    const massQuery = this.parseMassQuery(query);
+    if (massQuery) {
+      const matches = await this.searchByMass(massQuery.mass, massQuery.tolerance, massQuery.site, limit);
+      return matches.map((match) => match.entry);
+    }
+
     const queryLower = query.toLowerCase().trim();
     const results: UnimodEntry[] = [];
     const seen = new Set<string>();
@@ -351,6 +411,69 @@ export class UnimodService {
     return results;
   }
 
+  /**
+   * Parses a mass shift query such as "+42.0106 ± 0.01 Da on K".
+   *
+   * @param query Search query
+   * @returns The mass, tolerance and site, or null if the query is not a mass
+   */
+  parseMassQuery(query: string): UnimodMassQuery | null {
+    const match = query.trim().match(MASS_QUERY_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      mass: Number(match[1]),
+      tolerance: match[2] !== undefined ? Number(match[2]) : DEFAULT_MASS_TOLERANCE,
+      site: match[3],
+    };
+  }
+
+  /**
+   * Finds modifications by delta monoisotopic mass.
+   *
+   * @param mass Mass shift (Da)
+   * @param tolerance Allowed difference (Da)
+   * @param site Only modifications with a specification for this site or
+   *   position (e.g., "K", "N-term", "Protein N-term")
+   * @param limit Maximum results
+   * @returns Matches, closest mass first
+   */
+  async searchByMass(
+    mass: number,
+    tolerance: number = DEFAULT_MASS_TOLERANCE,
+    site?: string,
+    limit: number = 50
+  ): Promise<UnimodMassMatch[]> {
+    await this.loadDatabase();
+
+    const siteLower = site?.toLowerCase();
+    const results: UnimodMassMatch[] = [];
+
+    for (const mod of this.modifications.values()) {
+      const massError = mass - mod.deltaMonoMass;
+      if (Math.abs(massError) > tolerance) continue;
+      if (siteLower && !this.hasSiteOrPosition(mod, siteLower)) continue;
+
+      results.push({ entry: mod, massError });
+    }
+
+    return results
+      .sort((a, b) => Math.abs(a.massError) - Math.abs(b.massError))
+      .slice(0, limit);
+  }
+
+  /**
+   * Whether a modification targets a site or position (lowercase).
+   */
+  private hasSiteOrPosition(mod: UnimodEntry, siteLower: string): boolean {
+    return (
+      mod.sites.some((s) => s.toLowerCase() === siteLower) ||
+      mod.positions.some((p) => p.toLowerCase() === siteLower)
+    );
+  }
+
   /**
    * Gets a modification by accession.
    *
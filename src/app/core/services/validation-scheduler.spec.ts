@@ -0,0 +1,174 @@
+import { ValidationScheduler } from './validation-scheduler';
+import { SdrfValidatorService, ValidationRunHooks, VALIDATION_CANCELLED_ERROR } from './sdrf-validator.service';
+import { SdrfValidatorWorkerService } from './sdrf-validator-worker.service';
+import { SdrfParserService } from './sdrf-parser.service';
+import { SdrfTable } from '../models/sdrf-table';
+import { ValidationError, ValidationProgress, createValidationWarning } from '../models/validation';
+
+function table(): SdrfTable {
+  const content = [
+    'source name\tcharacteristics[organism]\tcharacteristics[age]\tfactor value[organism]',
+    's1\thomo sapiens\t30Y\thomo sapiens',
+    's2\tmus musculus\t8W\tmus musculus',
+  ].join('\n');
+  return new SdrfParserService().parseFromContent(content).table!;
+}
+
+/** The table with new objects for the given columns, as edits produce */
+function edit(t: SdrfTable, ...columns: number[]): SdrfTable {
+  return { ...t, columns: t.columns.map((column, i) => (columns.includes(i) ? { ...column } : column)) };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** One warning per checked column, naming the pass that found it */
+const columnIssues = (names: ReadonlySet<string> | null | undefined, pass: string): ValidationError[] =>
+  Array.from(names ?? []).map((name) => createValidationWarning('INVALID_AGE_FORMAT', pass, { column: name }));
+
+describe('ValidationScheduler', () => {
+  let validator: SdrfValidatorService;
+  let checked: string[][];
+  let passes: number;
+
+  beforeEach(() => {
+    validator = new SdrfValidatorService();
+    checked = [];
+    passes = 0;
+    spyOn(validator, 'validateColumnChecks').and.callFake(async (_table, names) => {
+      checked.push(Array.from(names ?? []).sort());
+      return columnIssues(names, `pass ${++passes}`);
+    });
+    spyOn(validator, 'validateTableChecks').and.returnValue([]);
+    spyOn(validator, 'validateOntologyTerms').and.resolveTo([]);
+  });
+
+  const messages = (scheduler: ValidationScheduler) =>
+    scheduler.result()!.warnings.map((w) => `${w.column}: ${w.message}`).sort();
+
+  it('debounces changes and checks the columns changed since the last pass', async () => {
+    const scheduler = new ValidationScheduler(validator, { delay: 5, validation: { validateOntology: false } });
+    const t0 = table();
+    scheduler.schedule(t0);
+    await sleep(20);
+    expect(checked.length).toBe(1);
+
+    // Two edits before the delay: one pass over both columns
+    const t1 = edit(t0, 0);
+    scheduler.schedule(t1);
+    scheduler.schedule(edit(t1, 2));
+    await sleep(20);
+
+    expect(checked.length).toBe(2);
+    expect(checked[1]).toEqual(['characteristics[age]', 'factor value[age]', 'source name']);
+  });
+
+  it('replaces the issues of re-checked columns only', async () => {
+    const scheduler = new ValidationScheduler(validator, { delay: 5, validation: { validateOntology: false } });
+    const t0 = table();
+    scheduler.schedule(t0);
+    scheduler.flush();
+    await sleep(5);
+
+    scheduler.schedule(edit(t0, 1));
+    scheduler.flush();
+    await sleep(5);
+
+    expect(messages(scheduler)).toEqual([
+      'characteristics[age]: pass 1',
+      'characteristics[organism]: pass 2',
+      'factor value[organism]: pass 2',
+      'source name: pass 1',
+    ]);
+  });
+
+  it('looks up ontology terms after the longer delay, skipping the first pass', async () => {
+    const scheduler = new ValidationScheduler(validator, { delay: 5, ontologyDelay: 100 });
+    const t0 = table();
+    scheduler.schedule(t0);
+    await sleep(150);
+    expect(validator.validateOntologyTerms).not.toHaveBeenCalled();
+
+    scheduler.schedule(edit(t0, 1));
+    await sleep(20);
+    expect(validator.validateOntologyTerms).not.toHaveBeenCalled();
+    await sleep(150);
+
+    const names = (validator.validateOntologyTerms as jasmine.Spy).calls.mostRecent().args[2];
+    expect(Array.from(names).sort()).toEqual(['characteristics[organism]', 'factor value[organism]']);
+  });
+
+  it('keeps the result and drops pending checks when cancelled', async () => {
+    const scheduler = new ValidationScheduler(validator, { delay: 5, validation: { validateOntology: false } });
+    const t0 = table();
+    scheduler.schedule(t0);
+    await sleep(20);
+    const result = scheduler.result();
+
+    scheduler.schedule(edit(t0, 1));
+    scheduler.cancel();
+    await sleep(20);
+
+    expect(checked.length).toBe(1);
+    expect(scheduler.result()).toBe(result);
+  });
+
+  describe('with a worker', () => {
+    /** Worker stand-in whose runs finish when told to */
+    const fakeWorker = () => {
+      const runs: { hooks: ValidationRunHooks; finish: () => void }[] = [];
+      const worker = {
+        runs,
+        validate: (_table: SdrfTable, _options: unknown, hooks: ValidationRunHooks) =>
+          new Promise((resolve, reject) => {
+            hooks.signal?.addEventListener('abort', () => reject(new Error(VALIDATION_CANCELLED_ERROR)));
+            runs.push({ hooks, finish: () => resolve(null) });
+          }),
+      };
+      return worker;
+    };
+
+    it('runs full passes in the worker, publishing progress and issues as they come', async () => {
+      const worker = fakeWorker();
+      const scheduler = new ValidationScheduler(validator, {
+        delay: 5,
+        worker: worker as unknown as SdrfValidatorWorkerService,
+      });
+      scheduler.schedule(table());
+      await sleep(20);
+
+      const [run] = worker.runs;
+      const progress: ValidationProgress = { phase: 'columns', completed: 1, total: 4 };
+      run.hooks.onProgress!(progress);
+      run.hooks.onIssues!(columnIssues(new Set(['characteristics[age]']), 'worker'), 'columns');
+
+      expect(scheduler.progress()).toEqual(progress);
+      expect(messages(scheduler)).toEqual(['characteristics[age]: worker']);
+
+      run.finish();
+      await sleep(0);
+      expect(scheduler.progress()).toBeNull();
+      expect(validator.validateColumnChecks).not.toHaveBeenCalled();
+    });
+
+    it('restarts a cancelled full pass on the next change', async () => {
+      const worker = fakeWorker();
+      const scheduler = new ValidationScheduler(validator, {
+        delay: 5,
+        worker: worker as unknown as SdrfValidatorWorkerService,
+      });
+      const t0 = table();
+      scheduler.schedule(t0);
+      await sleep(20);
+      worker.runs[0].hooks.onProgress!({ phase: 'structure', completed: 0, total: 1 });
+
+      scheduler.cancel();
+      expect(worker.runs[0].hooks.signal!.aborted).toBeTrue();
+      expect(scheduler.progress()).toBeNull();
+
+      scheduler.schedule(edit(t0, 1));
+      await sleep(20);
+      expect(worker.runs.length).toBe(2);
+      expect(validator.validateColumnChecks).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Validation Scheduler
+ *
+ * Live validation while editing, one scheduler per editor. Each scheduled
+ * table is compared with the previously validated one; only columns whose
+ * objects changed (edits clone the column, see modifier-utils) are
+ * re-checked, and their issues replace the previous ones in the current
+ * ValidationResult.
+ *
+ * - Column checks (format, whitespace, factor-characteristic relations)
+ *   run shortly after an edit, so cell highlights follow within milliseconds
+ * - Table checks (required columns, pools, structure, row identity,
+ *   multiplexing) are cheap and rerun on every pass
+ * - Ontology lookups go to OLS, so they run after a longer pause and only
+ *   for the changed columns; the first pass of a table skips them
+ *
+ * Value checks run once per distinct column value, so the column (not the
+ * row) is the unit of re-validation.
+ *
+ * Full passes (first table, added or removed rows) run in the validator
+ * worker when one is given, publishing issues as they are found.
+ */
+
+import { signal } from '@angular/core';
+import { SdrfTable } from '../models/sdrf-table';
+import { SdrfColumn } from '../models/sdrf-column';
+import {
+  ValidationResult,
+  ValidationError,
+  ValidationOptions,
+  ValidationProgress,
+} from '../models/validation';
+import { SdrfValidatorService, VALIDATION_CANCELLED_ERROR } from './sdrf-validator.service';
+import { SdrfValidatorWorkerService } from './sdrf-validator-worker.service';
+
+export interface ValidationSchedulerOptions {
+  /** Delay before re-running column checks after a change (ms) */
+  delay?: number;
+
+  /** Delay before re-running ontology lookups after a change (ms) */
+  ontologyDelay?: number;
+
+  /** Options passed to the validator */
+  validation?: ValidationOptions;
+
+  /** Runs full passes off the UI thread */
+  worker?: SdrfValidatorWorkerService;
+}
+
+const DEFAULT_DELAY = 30;
+const DEFAULT_ONTOLOGY_DELAY = 1500;
+
+export class ValidationScheduler {
+  /** Current live validation result (null before the first pass) */
+  readonly result = signal<ValidationResult | null>(null);
+
+  /** Whether ontology lookups are running */
+  readonly checkingOntology = signal(false);
+
+  /** Duration of the last column checks pass (ms) */
+  readonly lastPassMs = signal(0);
+
+  /** Progress of the running full pass (null when none) */
+  readonly progress = signal<ValidationProgress | null>(null);
+
+  private validator: SdrfValidatorService;
+  private worker: SdrfValidatorWorkerService | null;
+  private delay: number;
+  private ontologyDelay: number;
+  private validationOptions: ValidationOptions;
+
+  /** Table the current issues were computed for */
+  private table: SdrfTable | null = null;
+
+  private tableIssues: ValidationError[] = [];
+
+  /** Column and ontology issues by lowercase column name */
+  private columnIssues = new Map<string, ValidationError[]>();
+  private ontologyIssues = new Map<string, ValidationError[]>();
+
+  /** Lowercase names of columns waiting to be re-checked */
+  private pendingColumns = new Set<string>();
+  private pendingOntology = new Set<string>();
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ontologyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Whether the next run must validate the whole table */
+  private needsFullRun = false;
+  private fullRun: AbortController | null = null;
+
+  /** Whether the first pass of the table is still to complete (it skips ontology lookups) */
+  private skipOntology = false;
+
+  constructor(validator?: SdrfValidatorService, options: ValidationSchedulerOptions = {}) {
+    this.validator = validator || new SdrfValidatorService();
+    this.delay = options.delay ?? DEFAULT_DELAY;
+    this.ontologyDelay = options.ontologyDelay ?? DEFAULT_ONTOLOGY_DELAY;
+    this.validationOptions = options.validation ?? {};
+    this.worker = options.worker ?? null;
+  }
+
+  /**
+   * Records the changes since the last scheduled table and re-validates
+   * the affected columns after a short delay.
+   */
+  schedule(table: SdrfTable): void {
+    const previous = this.table;
+    if (previous === table && !this.needsFullRun) return;
+    this.table = table;
+    if (!previous) this.skipOntology = true;
+
+    // A running full pass is restarted on the new table
+    const full =
+      this.needsFullRun || !previous || previous.sampleCount !== table.sampleCount || this.fullRun !== null;
+    if (this.worker && full) {
+      this.needsFullRun = true;
+    } else {
+      for (const name of this.getChangedColumns(previous, table)) {
+        this.pendingColumns.add(name);
+        if (!this.skipOntology) this.pendingOntology.add(name);
+      }
+      this.skipOntology = false;
+    }
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.run(), this.delay);
+  }
+
+  /**
+   * Runs the pending checks immediately.
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.run();
+    }
+  }
+
+  /**
+   * Stops pending and running passes, keeping the current result.
+   */
+  cancel(): void {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.ontologyTimer) clearTimeout(this.ontologyTimer);
+    this.timer = null;
+    this.ontologyTimer = null;
+
+    if (this.fullRun) {
+      this.fullRun.abort();
+      this.fullRun = null;
+      this.progress.set(null);
+      // Whatever the pass did not reach is checked on the next run
+      this.needsFullRun = this.worker !== null;
+    }
+  }
+
+  /**
+   * Forgets all results, e.g. when another file is loaded. The next
+   * scheduled table is validated in full.
+   */
+  reset(): void {
+    this.cancel();
+    this.needsFullRun = false;
+    this.skipOntology = false;
+    this.table = null;
+    this.tableIssues = [];
+    this.columnIssues.clear();
+    this.ontologyIssues.clear();
+    this.pendingColumns.clear();
+    this.pendingOntology.clear();
+    this.checkingOntology.set(false);
+    this.result.set(null);
+  }
+
+  // === Private Methods ===
+
+  /**
+   * Lowercase names of the columns to re-check: columns whose objects are
+   * new or gone, plus the factor values of changed characteristics.
+   * A change in sample count re-checks every column.
+   */
+  private getChangedColumns(previous: SdrfTable | null, table: SdrfTable): Set<string> {
+    const changed = new Set<string>();
+
+    if (!previous || previous.sampleCount !== table.sampleCount) {
+      for (const column of table.columns) changed.add(column.name.toLowerCase());
+      for (const name of this.columnIssues.keys()) changed.add(name);
+      for (const name of this.ontologyIssues.keys()) changed.add(name);
+      return changed;
+    }
+
+    const current = new Set<SdrfColumn>(table.columns);
+    const before = new Set<SdrfColumn>(previous.columns);
+
+    for (const column of table.columns) {
+      if (!before.has(column)) changed.add(column.name.toLowerCase());
+    }
+    for (const column of previous.columns) {
+      if (!current.has(column)) changed.add(column.name.toLowerCase());
+    }
+
+    for (const name of Array.from(changed)) {
+      if (name.startsWith('characteristics[')) {
+        changed.add(name.replace(/^characteristics\[/, 'factor value['));
+      }
+    }
+
+    return changed;
+  }
+
+  private run(): void {
+    this.timer = null;
+    if (this.needsFullRun) {
+      this.runFullValidation();
+    } else {
+      this.runColumnChecks().catch((error) => {
+        console.warn('Live validation failed:', error);
+      });
+    }
+  }
+
+  /**
+   * Validates the whole table in the worker, publishing issues as they come.
+   */
+  private async runFullValidation(): Promise<void> {
+    this.needsFullRun = false;
+    const table = this.table;
+    if (!table || !this.worker) return;
+
+    this.fullRun?.abort();
+    const controller = new AbortController();
+    this.fullRun = controller;
+
+    // Start over: the pass reports every column
+    if (this.ontologyTimer) clearTimeout(this.ontologyTimer);
+    this.ontologyTimer = null;
+    this.tableIssues = [];
+    this.columnIssues.clear();
+    this.ontologyIssues.clear();
+    this.pendingColumns.clear();
+    this.pendingOntology.clear();
+
+    const options = this.skipOntology ? { ...this.validationOptions, validateOntology: false } : this.validationOptions;
+
+    try {
+      await this.worker.validate(table, options, {
+        signal: controller.signal,
+        onProgress: (progress) => this.progress.set(progress),
+        onIssues: (issues, phase) => {
+          if (controller.signal.aborted) return;
+          if (phase === 'structure') {
+            this.tableIssues.push(...issues);
+          } else {
+            this.addIssues(phase === 'ontology' ? this.ontologyIssues : this.columnIssues, issues);
+          }
+          this.publish();
+        },
+      });
+      this.skipOntology = false;
+      this.publish();
+    } catch (error) {
+      if (!(error instanceof Error && error.message === VALIDATION_CANCELLED_ERROR)) {
+        console.warn('Live validation failed:', error);
+      }
+    } finally {
+      if (this.fullRun === controller) {
+        this.fullRun = null;
+        this.progress.set(null);
+      }
+    }
+  }
+
+  private async runColumnChecks(): Promise<void> {
+    const table = this.table;
+    if (!table) return;
+
+    const started = performance.now();
+    const names = new Set(this.pendingColumns);
+    this.pendingColumns.clear();
+
+    if (names.size > 0) {
+      const issues = await this.validator.validateColumnChecks(table, names, this.validationOptions);
+
+      // Reset or a full pass started meanwhile
+      if (!this.table || this.fullRun || this.needsFullRun) return;
+
+      // Edited again meanwhile: the next scheduled run checks these columns
+      if (this.table !== table) {
+        for (const name of names) this.pendingColumns.add(name);
+        this.timer ??= setTimeout(() => this.run(), this.delay);
+        return;
+      }
+
+      this.replaceIssues(this.columnIssues, names, issues);
+    }
+    this.tableIssues = this.validator.validateTableChecks(table);
+
+    this.lastPassMs.set(Math.round(performance.now() - started));
+    this.publish();
+
+    if (this.validationOptions.validateOntology !== false && this.pendingOntology.size > 0) {
+      if (this.ontologyTimer) clearTimeout(this.ontologyTimer);
+      this.ontologyTimer = setTimeout(() => this.runOntologyChecks(), this.ontologyDelay);
+    }
+  }
+
+  private async runOntologyChecks(): Promise<void> {
+    this.ontologyTimer = null;
+    const table = this.table;
+    if (!table) return;
+
+    const names = new Set(this.pendingOntology);
+    this.pendingOntology.clear();
+    this.checkingOntology.set(true);
+
+    try {
+      const issues = await this.validator.validateOntologyTerms(table, this.validationOptions, names);
+
+      // A full pass started meanwhile and covers these columns
+      if (this.fullRun) return;
+
+      // Edited again meanwhile: the lookups are stale, check these columns later
+      if (this.table !== table) {
+        for (const name of names) this.pendingOntology.add(name);
+        this.ontologyTimer ??= setTimeout(() => this.runOntologyChecks(), this.ontologyDelay);
+        return;
+      }
+
+      this.replaceIssues(this.ontologyIssues, names, issues);
+      this.publish();
+    } catch (error) {
+      console.warn('Ontology validation failed:', error);
+    } finally {
+      this.checkingOntology.set(false);
+    }
+  }
+
+  /**
+   * Replaces the issues of the re-checked columns.
+   */
+  private replaceIssues(
+    store: Map<string, ValidationError[]>,
+    names: ReadonlySet<string>,
+    issues: ValidationError[]
+  ): void {
+    for (const name of names) store.delete(name);
+    this.addIssues(store, issues);
+  }
+
+  private addIssues(store: Map<string, ValidationError[]>, issues: ValidationError[]): void {
+    for (const issue of issues) {
+      const name = (issue.column ?? '').toLowerCase();
+      const list = store.get(name);
+      if (list) {
+        list.push(issue);
+      } else {
+        store.set(name, [issue]);
+      }
+    }
+  }
+
+  private publish(): void {
+    if (!this.table) return;
+
+    const issues = [
+      ...this.tableIssues,
+      ...Array.from(this.columnIssues.values()).flat(),
+      ...Array.from(this.ontologyIssues.values()).flat(),
+    ];
+    this.result.set(this.validator.buildResult(this.table, issues, this.validationOptions));
+  }
+}
@@ -0,0 +1,57 @@
+import { formatClipboardTsv, parseClipboardTsv } from './clipboard-utils';
+
+describe('clipboard-utils', () => {
+  describe('formatClipboardTsv', () => {
+    it('joins cells with tabs and rows with line breaks', () => {
+      expect(formatClipboardTsv([['a', 'b'], ['c', 'd e']])).toBe('a\tb\nc\td e');
+    });
+
+    it('quotes cells with tabs, line breaks or quotes', () => {
+      expect(formatClipboardTsv([['x\ty', 'line\nbreak', 'say "hi"']])).toBe(
+        '"x\ty"\t"line\nbreak"\t"say ""hi"""'
+      );
+    });
+  });
+
+  describe('parseClipboardTsv', () => {
+    it('parses rows, ignoring one trailing line break', () => {
+      expect(parseClipboardTsv('a\tb\r\nc\td\r\n')).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+
+    it('parses quoted cells with line breaks and doubled quotes', () => {
+      expect(parseClipboardTsv('"x\ny"\tz')).toEqual([['x\ny', 'z']]);
+      expect(parseClipboardTsv('"say ""hi"""')).toEqual([['say "hi"']]);
+    });
+
+    it('keeps quotes inside unquoted cells', () => {
+      expect(parseClipboardTsv('5" disk\tb')).toEqual([['5" disk', 'b']]);
+    });
+
+    it('pads short rows to a rectangle', () => {
+      expect(parseClipboardTsv('a\tb\tc\nd')).toEqual([
+        ['a', 'b', 'c'],
+        ['d', '', ''],
+      ]);
+    });
+
+    it('keeps empty cells and lines', () => {
+      expect(parseClipboardTsv('a\t\n\nb')).toEqual([
+        ['a', ''],
+        ['', ''],
+        ['b', ''],
+      ]);
+      expect(parseClipboardTsv('')).toEqual([]);
+    });
+
+    it('round-trips with formatClipboardTsv', () => {
+      const block = [
+        ['a\tb', 'c'],
+        ['"quoted"', 'multi\nline'],
+      ];
+      expect(parseClipboardTsv(formatClipboardTsv(block))).toEqual(block);
+    });
+  });
+});
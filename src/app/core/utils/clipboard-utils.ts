@@ -0,0 +1,86 @@
+/**
+ * Clipboard Utilities
+ *
+ * Functions for converting cell blocks to and from the TSV text that
+ * spreadsheets (Excel, Google Sheets, LibreOffice) put on the clipboard.
+ * Cells containing tabs, line breaks or quotes are quoted, with inner
+ * quotes doubled.
+ */
+
+/**
+ * Formats a block of cells as clipboard TSV.
+ *
+ * @example
+ * formatClipboardTsv([['a', 'b'], ['c', 'd e']]) // "a\tb\nc\td e"
+ */
+export function formatClipboardTsv(rows: string[][]): string {
+  return rows.map((row) => row.map(quoteCell).join('\t')).join('\n');
+}
+
+/**
+ * Parses clipboard TSV into a block of cells.
+ * A single trailing line break (added by most spreadsheets) is ignored,
+ * and short rows are padded so the block is rectangular.
+ *
+ * @example
+ * parseClipboardTsv('a\tb\r\nc\td\r\n') // [['a', 'b'], ['c', 'd']]
+ * parseClipboardTsv('"x\ny"\tz')        // [['x\ny', 'z']]
+ */
+export function parseClipboardTsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let i = 0;
+
+  // Quotes only start a quoted cell at the beginning of the cell
+  let quoted = false;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      cell += ch;
+    }
+    i++;
+  }
+
+  // Last line (absent when the text ends with a line break)
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  return rows.map((r) => (r.length < width ? [...r, ...Array(width - r.length).fill('')] : r));
+}
+
+function quoteCell(value: string): string {
+  if (!/[\t\n\r"]/.test(value)) return value;
+  return `"${value.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,85 @@
+import {
+  COLLAPSED_COLUMN_WIDTH,
+  buildColumnLayout,
+  estimateColumnWidth,
+  getHeaderGroups,
+  getRenderedColumns,
+} from './column-layout';
+import { SdrfTable, createEmptyTable } from '../models/sdrf-table';
+import { ColumnType, createEmptyColumn, detectColumnType } from '../models/sdrf-column';
+
+function table(names: string[]): SdrfTable {
+  const t = createEmptyTable(1);
+  t.columns = names.map((name, i) => createEmptyColumn(name, detectColumnType(name), i));
+  return t;
+}
+
+describe('column-layout', () => {
+  const names = [
+    'source name',
+    'characteristics[organism]',
+    'characteristics[age]',
+    'assay name',
+    'comment[data file]',
+    'comment[label]',
+  ];
+  const none = new Set<string>();
+  const noneCollapsed = new Set<ColumnType>();
+
+  it('sizes columns to their names within bounds', () => {
+    expect(estimateColumnWidth('a')).toBe(120);
+    expect(estimateColumnWidth('x'.repeat(100))).toBe(300);
+  });
+
+  it('places pinned columns first with sticky offsets', () => {
+    const layout = buildColumnLayout(table(names), new Set(['comment[data file]']), noneCollapsed, 40);
+
+    expect(layout.pinned.map((item) => item.index)).toEqual([4]);
+    expect(layout.pinned[0].stickyLeft).toBe(40);
+    expect(layout.pinnedWidth).toBe(estimateColumnWidth('comment[data file]'));
+    expect(layout.scrolling.map((item) => item.index)).toEqual([0, 1, 2, 3, 5]);
+    expect(layout.scrolling[1].offset).toBe(estimateColumnWidth('source name'));
+  });
+
+  it('collapses consecutive columns of a collapsed type into one stub', () => {
+    const layout = buildColumnLayout(table(names), none, new Set<ColumnType>(['characteristics', 'comment']), 0);
+
+    expect(layout.scrolling.map((item) => [item.kind, item.columns])).toEqual([
+      ['column', [0]],
+      ['collapsed', [1, 2]],
+      ['column', [3]],
+      ['collapsed', [4, 5]],
+    ]);
+    expect(layout.scrolling[1].width).toBe(COLLAPSED_COLUMN_WIDTH);
+  });
+
+  it('renders the columns in view with spacers for the others', () => {
+    const many = Array.from({ length: 20 }, (_, i) => `comment[c${i}]`);
+    const layout = buildColumnLayout(table(many), new Set(['comment[c0]']), noneCollapsed, 0);
+    const width = layout.scrolling[0].width;
+
+    const rendered = getRenderedColumns(layout, width * 5, width * 2, 1);
+
+    expect(rendered[0].index).toBe(0);
+    expect(rendered[1].kind).toBe('spacer');
+    expect(rendered[1].width).toBe(width * 4);
+    expect(rendered.slice(2, -1).map((item) => item.index)).toEqual([5, 6, 7, 8]);
+    expect(rendered[rendered.length - 1].kind).toBe('spacer');
+    expect(rendered.reduce((sum, item) => sum + item.width, 0)).toBe(layout.pinnedWidth + layout.scrollingWidth);
+  });
+
+  it('builds header bands per pinned block and column type', () => {
+    const collapsed = new Set<ColumnType>(['comment']);
+    const layout = buildColumnLayout(table(names), new Set(['source name']), collapsed, 0);
+    const groups = getHeaderGroups([...layout.pinned, ...layout.scrolling], collapsed);
+
+    expect(groups.map((g) => [g.label, g.span, g.columnCount, g.collapsed])).toEqual([
+      ['Pinned', 1, 1, false],
+      ['Characteristics', 2, 2, false],
+      ['Other', 1, 1, false],
+      ['Comments', 1, 2, true],
+    ]);
+    expect(groups[1].collapsible).toBeTrue();
+    expect(groups[2].collapsible).toBeFalse();
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Column Layout Utilities
+ *
+ * Horizontal layout of the editor grid: pinned columns first, then the
+ * other columns in table order. Collapsed column-type groups (e.g. all
+ * characteristics) are shown as one narrow stub column.
+ *
+ * Columns have fixed widths, so only those in or near the viewport need
+ * to be rendered; spacer columns stand in for the rest.
+ */
+
+import { SdrfTable } from '../models/sdrf-table';
+import { ColumnType, detectColumnType } from '../models/sdrf-column';
+
+// === Types ===
+
+export type ColumnLayoutKind = 'column' | 'collapsed' | 'spacer';
+
+export interface ColumnLayoutItem {
+  kind: ColumnLayoutKind;
+
+  /** Stable key for rendering */
+  key: string;
+
+  /** Column index for 'column' items, first member for 'collapsed', -1 for spacers */
+  index: number;
+
+  /** Member columns of a collapsed group */
+  columns: number[];
+
+  type: ColumnType;
+  width: number;
+  pinned: boolean;
+
+  /** Sticky left position of pinned columns (px), null otherwise */
+  stickyLeft: number | null;
+
+  /** Left edge within the scrolling (unpinned) area (px) */
+  offset: number;
+}
+
+export interface ColumnLayout {
+  pinned: ColumnLayoutItem[];
+  scrolling: ColumnLayoutItem[];
+  pinnedWidth: number;
+  scrollingWidth: number;
+}
+
+/**
+ * Band above the column headers spanning consecutive columns of one type.
+ */
+export interface ColumnHeaderGroup {
+  key: string;
+
+  /** Column type, or null for pinned columns and spacers */
+  type: ColumnType | null;
+
+  label: string;
+  span: number;
+
+  /** Number of table columns in the band */
+  columnCount: number;
+
+  collapsible: boolean;
+  collapsed: boolean;
+  pinned: boolean;
+}
+
+/** Column types whose header groups can be collapsed */
+export const COLLAPSIBLE_COLUMN_TYPES: readonly ColumnType[] = ['characteristics', 'comment', 'factor_value'];
+
+/** Width of the stub shown for a collapsed group */
+export const COLLAPSED_COLUMN_WIDTH = 28;
+
+const MIN_COLUMN_WIDTH = 120;
+const MAX_COLUMN_WIDTH = 300;
+
+const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  source_name: 'Source',
+  characteristics: 'Characteristics',
+  comment: 'Comments',
+  factor_value: 'Factor values',
+  special: 'Other',
+};
+
+// === Public Functions ===
+
+export function getColumnTypeLabel(type: ColumnType): string {
+  return COLUMN_TYPE_LABELS[type];
+}
+
+/**
+ * Fixed width for a column, sized to fit its header name.
+ */
+export function estimateColumnWidth(name: string): number {
+  return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, Math.round(name.length * 7.5) + 48));
+}
+
+/**
+ * Lays out the columns of a table.
+ *
+ * @param pinnedNames Lowercase names of pinned columns
+ * @param collapsedTypes Column types whose groups are collapsed
+ * @param leadingWidth Width of the sticky columns before the data (checkbox, row number)
+ */
+export function buildColumnLayout(
+  table: SdrfTable,
+  pinnedNames: ReadonlySet<string>,
+  collapsedTypes: ReadonlySet<ColumnType>,
+  leadingWidth: number
+): ColumnLayout {
+  const pinned: ColumnLayoutItem[] = [];
+  const scrolling: ColumnLayoutItem[] = [];
+  let pinnedWidth = 0;
+  let scrollingWidth = 0;
+
+  table.columns.forEach((column, index) => {
+    const type = detectColumnType(column.name);
+    const width = estimateColumnWidth(column.name);
+
+    if (pinnedNames.has(column.name.toLowerCase())) {
+      pinned.push({
+        kind: 'column',
+        key: `col:${index}`,
+        index,
+        columns: [index],
+        type,
+        width,
+        pinned: true,
+        stickyLeft: leadingWidth + pinnedWidth,
+        offset: 0,
+      });
+      pinnedWidth += width;
+      return;
+    }
+
+    if (collapsedTypes.has(type)) {
+      // Consecutive columns of a collapsed type share one stub
+      const last = scrolling[scrolling.length - 1];
+      if (last?.kind === 'collapsed' && last.type === type && last.columns[last.columns.length - 1] === index - 1) {
+        last.columns.push(index);
+        return;
+      }
+      scrolling.push({
+        kind: 'collapsed',
+        key: `collapsed:${index}`,
+        index,
+        columns: [index],
+        type,
+        width: COLLAPSED_COLUMN_WIDTH,
+        pinned: false,
+        stickyLeft: null,
+        offset: scrollingWidth,
+      });
+      scrollingWidth += COLLAPSED_COLUMN_WIDTH;
+      return;
+    }
+
+    scrolling.push({
+      kind: 'column',
+      key: `col:${index}`,
+      index,
+      columns: [index],
+      type,
+      width,
+      pinned: false,
+      stickyLeft: null,
+      offset: scrollingWidth,
+    });
+    scrollingWidth += width;
+  });
+
+  return { pinned, scrolling, pinnedWidth, scrollingWidth };
+}
+
+/**
+ * Columns to render for a horizontal scroll position: all pinned columns,
+ * then the scrolling columns in view (plus `buffer` on each side), with
+ * spacers for the columns left out.
+ *
+ * @param viewWidth Width available to the scrolling columns
+ */
+export function getRenderedColumns(
+  layout: ColumnLayout,
+  scrollLeft: number,
+  viewWidth: number,
+  buffer: number
+): ColumnLayoutItem[] {
+  const items = layout.scrolling;
+  if (items.length === 0) return layout.pinned;
+
+  let first = items.findIndex((item) => item.offset + item.width > scrollLeft);
+  if (first < 0) first = items.length - 1;
+
+  let last = first;
+  while (last < items.length - 1 && items[last + 1].offset < scrollLeft + viewWidth) {
+    last++;
+  }
+
+  first = Math.max(0, first - buffer);
+  last = Math.min(items.length - 1, last + buffer);
+
+  const rendered = [...layout.pinned];
+  const leftPad = items[first].offset;
+  const rightPad = layout.scrollingWidth - (items[last].offset + items[last].width);
+
+  if (leftPad > 0) rendered.push(createSpacer('spacer:left', leftPad));
+  rendered.push(...items.slice(first, last + 1));
+  if (rightPad > 0) rendered.push(createSpacer('spacer:right', rightPad));
+
+  return rendered;
+}
+
+/**
+ * Header bands for rendered columns: one band over the pinned columns,
+ * then one per run of columns with the same type.
+ */
+export function getHeaderGroups(
+  items: ColumnLayoutItem[],
+  collapsedTypes: ReadonlySet<ColumnType>
+): ColumnHeaderGroup[] {
+  const groups: ColumnHeaderGroup[] = [];
+
+  for (const item of items) {
+    const last = groups[groups.length - 1];
+
+    if (item.pinned) {
+      if (last?.pinned) {
+        last.span++;
+        last.columnCount++;
+      } else {
+        groups.push({
+          key: 'pinned',
+          type: null,
+          label: 'Pinned',
+          span: 1,
+          columnCount: 1,
+          collapsible: false,
+          collapsed: false,
+          pinned: true,
+        });
+      }
+      continue;
+    }
+
+    if (item.kind === 'spacer') {
+      groups.push({
+        key: item.key,
+        type: null,
+        label: '',
+        span: 1,
+        columnCount: 0,
+        collapsible: false,
+        collapsed: false,
+        pinned: false,
+      });
+      continue;
+    }
+
+    if (last && !last.pinned && last.type === item.type) {
+      last.span++;
+      last.columnCount += item.columns.length;
+      continue;
+    }
+
+    groups.push({
+      key: `group:${item.key}`,
+      type: item.type,
+      label: getColumnTypeLabel(item.type),
+      span: 1,
+      columnCount: item.columns.length,
+      collapsible: COLLAPSIBLE_COLUMN_TYPES.includes(item.type),
+      collapsed: collapsedTypes.has(item.type),
+      pinned: false,
+    });
+  }
+
+  return groups;
+}
+
+// === Private Helpers ===
+
+function createSpacer(key: string, width: number): ColumnLayoutItem {
+  return {
+    kind: 'spacer',
+    key,
+    index: -1,
+    columns: [],
+    type: 'special',
+    width,
+    pinned: false,
+    stickyLeft: null,
+    offset: 0,
+  };
+}
@@ -0,0 +1,114 @@
+import {
+  findColumnOrderIssues,
+  getColumnIndexMap,
+  getMovedColumnOrder,
+  getOfficialColumnRank,
+  getSpecColumnOrder,
+  isInSpecColumnOrder,
+  reorderColumns,
+} from './column-order';
+import { SdrfColumn, createEmptyColumn, detectColumnType } from '../models/sdrf-column';
+import { createEmptyTable } from '../models/sdrf-table';
+import { ResolvedTemplate } from '../models/template';
+
+function columns(names: string[]): SdrfColumn[] {
+  return names.map((name, i) => createEmptyColumn(name, detectColumnType(name), i));
+}
+
+describe('column-order', () => {
+  describe('getOfficialColumnRank', () => {
+    it('ranks unknown columns after the official ones of their type', () => {
+      const organism = getOfficialColumnRank('characteristics[organism]', 'characteristics');
+      const custom = getOfficialColumnRank('characteristics[strain]', 'characteristics');
+      const assay = getOfficialColumnRank('assay name', 'special');
+
+      expect(organism).toBeLessThan(custom);
+      expect(custom).toBeLessThan(assay);
+      expect(getOfficialColumnRank('factor value[disease]', 'factor_value')).toBeGreaterThan(
+        getOfficialColumnRank('comment[data file]', 'comment')
+      );
+    });
+  });
+
+  describe('getSpecColumnOrder', () => {
+    it('orders sections, then official columns', () => {
+      const cols = columns([
+        'factor value[disease]',
+        'comment[data file]',
+        'assay name',
+        'characteristics[age]',
+        'source name',
+        'characteristics[organism]',
+      ]);
+
+      expect(getSpecColumnOrder(cols).map((i) => cols[i].name)).toEqual([
+        'source name',
+        'characteristics[organism]',
+        'characteristics[age]',
+        'assay name',
+        'comment[data file]',
+        'factor value[disease]',
+      ]);
+      expect(isInSpecColumnOrder(cols)).toBeFalse();
+    });
+
+    it('puts template columns first within their section', () => {
+      const cols = columns(['source name', 'characteristics[organism]', 'characteristics[strain]']);
+      const template = {
+        resolvedColumns: [{ name: 'characteristics[strain]', description: '', requirement: 'required' }],
+      } as ResolvedTemplate;
+
+      expect(getSpecColumnOrder(cols, [template])).toEqual([0, 2, 1]);
+    });
+
+    it('keeps repeated columns in their current order', () => {
+      const cols = columns(['source name', 'comment[modification parameters]', 'comment[modification parameters]']);
+      expect(getSpecColumnOrder(cols)).toEqual([0, 1, 2]);
+      expect(isInSpecColumnOrder(cols)).toBeTrue();
+    });
+  });
+
+  describe('findColumnOrderIssues', () => {
+    it('reports columns after a later section', () => {
+      const issues = findColumnOrderIssues(
+        columns(['source name', 'assay name', 'characteristics[age]', 'technology type', 'comment[label]'])
+      );
+
+      expect(issues).toEqual([{ columnIndex: 2, columnName: 'characteristics[age]', afterColumn: 'assay name' }]);
+    });
+  });
+
+  describe('reorderColumns and getMovedColumnOrder', () => {
+    it('moves a column and renumbers positions', () => {
+      const table = createEmptyTable(1);
+      table.columns = columns(['a', 'b', 'c']);
+
+      const order = getMovedColumnOrder(3, 0, 2);
+      const reordered = reorderColumns(table, order);
+
+      expect(order).toEqual([1, 2, 0]);
+      expect(reordered.columns.map((c) => [c.name, c.columnPosition])).toEqual([
+        ['b', 0],
+        ['c', 1],
+        ['a', 2],
+      ]);
+      expect(table.columns[0].name).toBe('a');
+    });
+  });
+
+  describe('getColumnIndexMap', () => {
+    it('follows columns by name, repeated names by occurrence', () => {
+      const from = columns(['source name', 'comment[x]', 'characteristics[age]', 'comment[x]']);
+      const to = columns(['source name', 'characteristics[age]', 'comment[x]', 'comment[x]']);
+
+      expect(Array.from(getColumnIndexMap(from, to))).toEqual([[0, 0], [1, 2], [2, 1], [3, 3]]);
+    });
+
+    it('leaves out deleted columns and keeps renamed ones in place', () => {
+      const from = columns(['source name', 'characteristics[age]', 'characteristics[sex]']);
+      const to = columns(['source name', 'characteristics[organism part]']);
+
+      expect(Array.from(getColumnIndexMap(from, to))).toEqual([[0, 0], [1, 1]]);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Column Order Utilities
+ *
+ * SDRF column ordering: source name, characteristics, assay name and
+ * technology type, comments, then factor values. Within a section the
+ * resolved templates' order applies, then OFFICIAL_SDRF_COLUMNS.
+ */
+
+import { SdrfTable } from '../models/sdrf-table';
+import { SdrfColumn, ColumnType, detectColumnType } from '../models/sdrf-column';
+import { OFFICIAL_SDRF_COLUMNS } from '../models/sdrf-config';
+import { ResolvedTemplate } from '../models/template';
+
+/**
+ * A column found out of SDRF order.
+ */
+export interface ColumnOrderIssue {
+  /** Index of the misplaced column */
+  columnIndex: number;
+  columnName: string;
+
+  /** Earlier column that should come after it */
+  afterColumn: string;
+}
+
+/** Section of each column type in SDRF order */
+const SECTION_ORDER: Record<ColumnType, number> = {
+  source_name: 0,
+  characteristics: 1,
+  special: 2,
+  comment: 3,
+  factor_value: 4,
+};
+
+const ASSAY_NAME_COLUMN = 'assay name';
+
+/** Official column index by lowercased name */
+const OFFICIAL_INDEX = new Map(
+  OFFICIAL_SDRF_COLUMNS.map((col, i) => [col.name.toLowerCase(), i])
+);
+
+/**
+ * Sort rank of a column: its index in OFFICIAL_SDRF_COLUMNS, or just
+ * after the last official column of the same type. Factor values go last.
+ */
+export function getOfficialColumnRank(name: string, type: ColumnType): number {
+  const official = OFFICIAL_INDEX.get(name.toLowerCase().trim());
+  if (official !== undefined) return official;
+
+  if (type === 'factor_value') return OFFICIAL_SDRF_COLUMNS.length + 1;
+
+  let lastOfType = -1;
+  OFFICIAL_SDRF_COLUMNS.forEach((col, i) => {
+    if (col.type === type) lastOfType = i;
+  });
+  return lastOfType >= 0 ? lastOfType + 0.5 : OFFICIAL_SDRF_COLUMNS.length;
+}
+
+/**
+ * Column indices in SDRF order (new position → current index).
+ * Columns the templates list come first within their section, in template
+ * order (earlier templates first); the rest follow in official order.
+ * Ties keep their current order.
+ */
+export function getSpecColumnOrder(columns: SdrfColumn[], templates: ResolvedTemplate[] = []): number[] {
+  const templateIndex = new Map<string, number>();
+  for (const col of templates.flatMap((t) => t.resolvedColumns)) {
+    const name = col.name.toLowerCase().trim();
+    if (!templateIndex.has(name)) templateIndex.set(name, templateIndex.size);
+  }
+
+  const keys = columns.map((column, index) => {
+    const name = column.name.toLowerCase().trim();
+    const type = detectColumnType(column.name);
+    return {
+      index,
+      section: SECTION_ORDER[type],
+      template: templateIndex.get(name) ?? Infinity,
+      official: getOfficialColumnRank(name, type),
+    };
+  });
+
+  return keys
+    .sort((a, b) =>
+      a.section - b.section ||
+      a.template - b.template ||
+      a.official - b.official ||
+      a.index - b.index
+    )
+    .map((key) => key.index);
+}
+
+/**
+ * Whether the columns are already in SDRF order.
+ */
+export function isInSpecColumnOrder(columns: SdrfColumn[], templates: ResolvedTemplate[] = []): boolean {
+  return getSpecColumnOrder(columns, templates).every((index, position) => index === position);
+}
+
+/**
+ * Columns placed after a column of a later section, e.g. a characteristic
+ * after assay name or a comment after a factor value. Assay name counts as
+ * the start of its section; other non-bracketed columns are not checked.
+ */
+export function findColumnOrderIssues(columns: SdrfColumn[]): ColumnOrderIssue[] {
+  const issues: ColumnOrderIssue[] = [];
+  let latest: { section: number; name: string } | null = null;
+
+  columns.forEach((column, index) => {
+    const type = detectColumnType(column.name);
+    const isAssayName = column.name.toLowerCase().trim() === ASSAY_NAME_COLUMN;
+    if (type === 'special' && !isAssayName) return;
+
+    const section = SECTION_ORDER[type];
+    if (latest && section < latest.section) {
+      issues.push({ columnIndex: index, columnName: column.name, afterColumn: latest.name });
+      return;
+    }
+    if (!latest || section > latest.section) {
+      latest = { section, name: column.name };
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Returns a table with its columns in a new order (new position → current
+ * index), renumbering columnPosition.
+ */
+export function reorderColumns(table: SdrfTable, order: number[]): SdrfTable {
+  return {
+    ...table,
+    columns: order.map((index, position) => ({ ...table.columns[index], columnPosition: position })),
+  };
+}
+
+/**
+ * Where each column of `from` is in `to` (index in `from` → index in
+ * `to`), e.g. to carry column-based view state across undo. Columns are
+ * matched by name, repeated names by occurrence; a column left unmatched
+ * is taken to be the one at the same index when that is unmatched too
+ * (a renamed column). Columns that are gone are left out.
+ */
+export function getColumnIndexMap(from: SdrfColumn[], to: SdrfColumn[]): Map<number, number> {
+  const positions = new Map<string, number[]>();
+  to.forEach((column, index) => {
+    const key = column.name.toLowerCase();
+    if (!positions.has(key)) positions.set(key, []);
+    positions.get(key)!.push(index);
+  });
+
+  const map = new Map<number, number>();
+  const matched = new Set<number>();
+  from.forEach((column, index) => {
+    const target = positions.get(column.name.toLowerCase())?.shift();
+    if (target !== undefined) {
+      map.set(index, target);
+      matched.add(target);
+    }
+  });
+
+  from.forEach((_, index) => {
+    if (!map.has(index) && index < to.length && !matched.has(index)) {
+      map.set(index, index);
+    }
+  });
+
+  return map;
+}
+
+/**
+ * Column order after moving one column to another position.
+ */
+export function getMovedColumnOrder(columnCount: number, from: number, to: number): number[] {
+  const order = Array.from({ length: columnCount }, (_, i) => i);
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+  return order;
+}
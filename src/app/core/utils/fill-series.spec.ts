@@ -0,0 +1,100 @@
+import { detectFillSeries, extendFillSeries, fillColumns } from './fill-series';
+import { SdrfParserService } from '../services/sdrf-parser.service';
+import { SdrfTable, getTableDataMatrix } from '../models/sdrf-table';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+describe('fill-series', () => {
+  describe('detectFillSeries', () => {
+    it('detects the kind of series', () => {
+      expect(detectFillSeries(['a', 'b', 'a', 'b']).kind).toBe('cycle');
+      expect(detectFillSeries(['1', '2']).kind).toBe('numeric');
+      expect(detectFillSeries(['run_01.raw']).kind).toBe('numbered_text');
+      expect(detectFillSeries(['homo sapiens']).kind).toBe('copy');
+    });
+
+    it('returns empty values for an empty seed', () => {
+      expect(detectFillSeries([]).valueAt(3)).toBe('');
+    });
+  });
+
+  describe('extendFillSeries', () => {
+    it('repeats cycles', () => {
+      expect(extendFillSeries(['1', '2', '3', '1', '2', '3'], 4)).toEqual(['1', '2', '3', '1']);
+    });
+
+    it('continues arithmetic number sequences', () => {
+      expect(extendFillSeries(['1', '2'], 2)).toEqual(['3', '4']);
+      expect(extendFillSeries(['10', '8'], 2)).toEqual(['6', '4']);
+      expect(extendFillSeries(['5'], 2)).toEqual(['6', '7']);
+      expect(extendFillSeries(['0.5', '1'], 2)).toEqual(['1.5', '2']);
+    });
+
+    it("keeps the seed's decimal places", () => {
+      expect(extendFillSeries(['1.10', '1.20'], 2)).toEqual(['1.30', '1.40']);
+      expect(extendFillSeries(['0.1', '0.2'], 2)).toEqual(['0.3', '0.4']);
+      expect(extendFillSeries(['-0.10', '-0.05'], 2)).toEqual(['0.00', '0.05']);
+    });
+
+    it('copies numbers that are not an arithmetic sequence', () => {
+      expect(extendFillSeries(['1', '2', '4'], 2)).toEqual(['1', '2']);
+    });
+
+    it('continues numeric suffixes, keeping zero padding', () => {
+      expect(extendFillSeries(['run_08.raw', 'run_09.raw'], 2)).toEqual(['run_10.raw', 'run_11.raw']);
+      expect(extendFillSeries(['F1'], 2)).toEqual(['F2', 'F3']);
+      expect(extendFillSeries(['01', '02'], 1)).toEqual(['03']);
+    });
+
+    it('copies numbered text with different prefixes', () => {
+      expect(extendFillSeries(['a1', 'b2'], 2)).toEqual(['a1', 'b2']);
+    });
+
+    it('falls back to copying when a counter would go negative', () => {
+      expect(extendFillSeries(['s2', 's1'], 2)).toEqual(['s0', 's1']);
+    });
+
+    it('repeats other values', () => {
+      expect(extendFillSeries(['homo sapiens', 'mus musculus', 'rattus'], 2)).toEqual([
+        'homo sapiens',
+        'mus musculus',
+      ]);
+    });
+  });
+
+  describe('fillColumns', () => {
+    const samples = () =>
+      table([
+        ['source name', 'comment[data file]', 'comment[fraction identifier]'],
+        ['s1', 'run_01.raw', '1'],
+        ['s2', 'run_02.raw', '2'],
+        ['s3', 'x', '1'],
+        ['s4', 'y', '2'],
+      ]);
+
+    it('continues each column from its seed, in the given row order', () => {
+      const t = samples();
+      const result = fillColumns(t.columns, [1, 2, 4, 3], 1, 2, () => 2);
+
+      expect(result.changed).toBe(4);
+      expect(getTableDataMatrix({ ...t, columns: result.columns })).toEqual([
+        ['s1', 'run_01.raw', '1'],
+        ['s2', 'run_02.raw', '2'],
+        ['s3', 'run_04.raw', '4'],
+        ['s4', 'run_03.raw', '3'],
+      ]);
+    });
+
+    it('keeps the columns outside the block', () => {
+      const t = samples();
+      const result = fillColumns(t.columns, [1, 2, 3], 2, 2, () => 1);
+
+      expect(result.columns[1]).toBe(t.columns[1]);
+      expect(result.columns[2]).not.toBe(t.columns[2]);
+      expect(getTableDataMatrix(t).map((row) => row[2])).toEqual(['1', '2', '1', '2']);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Fill Series Utilities
+ *
+ * Extends a column of seed values the way spreadsheet fill handles do:
+ * - Repeating cycles: "1,2,3,1,2,3" → "1,2,3,..."
+ * - Numbers: "1,2" → "3,4"; "0.5,1" → "1.5,2"; "1.10,1.20" → "1.30"
+ * - Numeric suffixes with zero padding: "run_01.raw,run_02.raw" → "run_03.raw"
+ * - Anything else is repeated as-is
+ */
+
+import { SdrfColumn, getValueForSample } from '../models/sdrf-column';
+import { setValueForSample, cloneColumn } from './modifier-utils';
+
+/**
+ * Kind of series detected in the seed values.
+ */
+export type FillSeriesKind = 'cycle' | 'numeric' | 'numbered_text' | 'copy';
+
+/**
+ * Series detected in the seed values.
+ */
+export interface FillSeries {
+  kind: FillSeriesKind;
+
+  /** Returns the value at a position (0 = first seed value) */
+  valueAt: (position: number) => string;
+}
+
+/** A plain (possibly decimal) number */
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/** Text with a number in it; the last number is the one that counts */
+const NUMBERED_TEXT_PATTERN = /^(.*?)(\d+)(\D*)$/;
+
+/**
+ * Detects the series formed by the seed values.
+ */
+export function detectFillSeries(seed: string[]): FillSeries {
+  if (seed.length === 0) {
+    return { kind: 'copy', valueAt: () => '' };
+  }
+
+  return detectCycle(seed) ?? detectNumeric(seed) ?? detectNumberedText(seed) ?? copySeries(seed);
+}
+
+/**
+ * Returns the next `count` values after the seed.
+ *
+ * @example
+ * extendFillSeries(['run_08.raw', 'run_09.raw'], 2) // ['run_10.raw', 'run_11.raw']
+ * extendFillSeries(['1', '2', '3', '1', '2', '3'], 4) // ['1', '2', '3', '1']
+ */
+export function extendFillSeries(seed: string[], count: number): string[] {
+  const series = detectFillSeries(seed);
+  return Array.from({ length: count }, (_, i) => series.valueAt(seed.length + i));
+}
+
+/**
+ * Fills rows in a block of columns from a seed at the top of each column.
+ * Filled columns are cloned; the others are kept.
+ *
+ * @param rows Sample indices in display order
+ * @param seedLength Number of seed rows, given the column's values
+ * @returns The new columns and the number of cells whose value changed
+ */
+export function fillColumns(
+  columns: SdrfColumn[],
+  rows: number[],
+  startCol: number,
+  endCol: number,
+  seedLength: (values: string[]) => number
+): { columns: SdrfColumn[]; changed: number } {
+  const result = [...columns];
+  let changed = 0;
+
+  for (let col = startCol; col <= endCol; col++) {
+    const column = cloneColumn(result[col]);
+    const values = rows.map((row) => getValueForSample(column, row));
+    const seed = values.slice(0, seedLength(values));
+    const filled = extendFillSeries(seed, rows.length - seed.length);
+
+    filled.forEach((value, i) => {
+      if (values[seed.length + i] !== value) {
+        setValueForSample(column, rows[seed.length + i], value);
+        changed++;
+      }
+    });
+
+    result[col] = column;
+  }
+
+  return { columns: result, changed };
+}
+
+/**
+ * Shortest period that repeats at least twice (e.g. "A,B,A,B").
+ * A single value is not a cycle, so "1" still counts up.
+ */
+function detectCycle(seed: string[]): FillSeries | null {
+  for (let period = 1; period * 2 <= seed.length; period++) {
+    if (seed.every((value, i) => i < period || value === seed[i - period])) {
+      const cycle = seed.slice(0, period);
+      return { kind: 'cycle', valueAt: (position) => cycle[position % period] };
+    }
+  }
+  return null;
+}
+
+function detectNumeric(seed: string[]): FillSeries | null {
+  if (!seed.every((value) => NUMBER_PATTERN.test(value.trim()))) return null;
+
+  // Zero-padded integers ("01") are handled as numbered text
+  if (seed.some((value) => /^-?0\d/.test(value.trim()))) return null;
+
+  const numbers = seed.map((value) => parseFloat(value));
+  const step = arithmeticStep(numbers);
+  if (step === null) return null;
+
+  const decimalCounts = seed.map((value) => value.trim().split('.')[1]?.length ?? 0);
+  const decimals = Math.max(...decimalCounts);
+  // Seeds written with the same decimal places ("1.10, 1.20") keep them
+  const fixed = decimalCounts.every((count) => count === decimals);
+  const first = numbers[0];
+
+  return {
+    kind: 'numeric',
+    valueAt: (position) => {
+      const value = (first + step * position).toFixed(decimals);
+      // Rounding errors around zero would print "-0.00"
+      return fixed ? value.replace(/^-(?=0(\.0+)?$)/, '') : String(Number(value));
+    },
+  };
+}
+
+/**
+ * Text around a counter, e.g. "run_01.raw", "F1", "sample 10".
+ * All seed values must share the text before and after the counter.
+ */
+function detectNumberedText(seed: string[]): FillSeries | null {
+  const parts = seed.map((value) => NUMBERED_TEXT_PATTERN.exec(value));
+  if (parts.some((p) => p === null)) return null;
+
+  const [, prefix, , suffix] = parts[0]!;
+  if (parts.some((p) => p![1] !== prefix || p![3] !== suffix)) return null;
+
+  const digits = parts.map((p) => p![2]);
+  const numbers = digits.map((d) => parseInt(d, 10));
+  const step = arithmeticStep(numbers);
+  if (step === null || !Number.isInteger(step)) return null;
+
+  // Zero padding is kept when any seed value is padded ("01", "007")
+  const padded = digits.some((d) => d.length > 1 && d.startsWith('0'));
+  const width = padded ? Math.max(...digits.map((d) => d.length)) : 0;
+  const first = numbers[0];
+  const fallback = copySeries(seed);
+
+  return {
+    kind: 'numbered_text',
+    valueAt: (position) => {
+      const n = first + step * position;
+      if (n < 0) return fallback.valueAt(position);
+      return `${prefix}${String(n).padStart(width, '0')}${suffix}`;
+    },
+  };
+}
+
+function copySeries(seed: string[]): FillSeries {
+  return { kind: 'copy', valueAt: (position) => seed[position % seed.length] };
+}
+
+/**
+ * Common difference of an arithmetic sequence (1 for a single number),
+ * or null when the differences vary.
+ */
+function arithmeticStep(numbers: number[]): number | null {
+  if (numbers.length === 1) return 1;
+
+  const step = numbers[1] - numbers[0];
+  for (let i = 2; i < numbers.length; i++) {
+    if (Math.abs(numbers[i] - numbers[i - 1] - step) > 1e-9) return null;
+  }
+  return step;
+}
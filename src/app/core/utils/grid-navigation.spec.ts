@@ -0,0 +1,73 @@
+import { NavigationGrid, getGridKeyAction, getFirstCell, getLineEndCell, stepCell } from './grid-navigation';
+
+function key(key: string, modifiers: Partial<Record<'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey', boolean>> = {}) {
+  return { key, shiftKey: false, ctrlKey: false, metaKey: false, altKey: false, ...modifiers };
+}
+
+describe('grid-navigation', () => {
+  describe('getGridKeyAction', () => {
+    it('maps arrows to moves, extending with Shift and jumping with Ctrl', () => {
+      expect(getGridKeyAction(key('ArrowDown'))).toEqual({ type: 'move', direction: 'down', toEdge: false });
+      expect(getGridKeyAction(key('ArrowLeft', { shiftKey: true, metaKey: true }))).toEqual({
+        type: 'extend',
+        direction: 'left',
+        toEdge: true,
+      });
+      expect(getGridKeyAction(key('Tab', { shiftKey: true }))).toEqual({ type: 'move', direction: 'left', toEdge: false });
+    });
+
+    it('maps editing, clearing and paging keys', () => {
+      expect(getGridKeyAction(key('F2'))).toEqual({ type: 'edit', text: null });
+      expect(getGridKeyAction(key('a'))).toEqual({ type: 'edit', text: 'a' });
+      expect(getGridKeyAction(key('Backspace'))).toEqual({ type: 'clear' });
+      expect(getGridKeyAction(key('Escape'))).toEqual({ type: 'collapse' });
+      expect(getGridKeyAction(key('End', { ctrlKey: true }))).toEqual({ type: 'line_end', direction: 1, allRows: true });
+      expect(getGridKeyAction(key('PageUp'))).toEqual({ type: 'page', direction: 'up' });
+    });
+
+    it('leaves shortcuts and Alt combinations to the browser', () => {
+      expect(getGridKeyAction(key('c', { ctrlKey: true }))).toBeNull();
+      expect(getGridKeyAction(key('ArrowDown', { altKey: true }))).toBeNull();
+      expect(getGridKeyAction(key('Shift', { shiftKey: true }))).toBeNull();
+    });
+  });
+
+  describe('stepCell', () => {
+    // Column 0: filled in rows 1-2 and 5; column 1: filled everywhere
+    const values: Record<number, string[]> = { 0: ['a', 'b', '', '', 'e'], 1: ['1', '2', '3', '4', '5'] };
+    const grid: NavigationGrid = {
+      rows: [1, 2, 3, 4, 5],
+      cols: [1, 0],
+      getValue: (row, col) => values[col][row - 1],
+    };
+
+    it('moves by steps within the grid', () => {
+      expect(stepCell(grid, { row: 2, col: 0 }, 'down', false, 2)).toEqual({ row: 4, col: 0 });
+      expect(stepCell(grid, { row: 2, col: 0 }, 'down', false, 10)).toEqual({ row: 5, col: 0 });
+      expect(stepCell(grid, { row: 2, col: 0 }, 'left', false)).toEqual({ row: 2, col: 1 });
+      expect(stepCell(grid, { row: 0, col: 0 }, 'up', false)).toEqual({ row: 1, col: 0 });
+    });
+
+    it('jumps to the edge of the data block, or to the next filled cell', () => {
+      expect(stepCell(grid, { row: 1, col: 0 }, 'down', true)).toEqual({ row: 2, col: 0 });
+      expect(stepCell(grid, { row: 2, col: 0 }, 'down', true)).toEqual({ row: 5, col: 0 });
+      expect(stepCell(grid, { row: 5, col: 0 }, 'up', true)).toEqual({ row: 2, col: 0 });
+      expect(stepCell(grid, { row: 1, col: 1 }, 'down', true)).toEqual({ row: 5, col: 1 });
+    });
+
+    it('returns null for an empty grid', () => {
+      expect(stepCell({ ...grid, rows: [] }, { row: 1, col: 0 }, 'down', false)).toBeNull();
+      expect(getFirstCell({ ...grid, cols: [] })).toBeNull();
+    });
+  });
+
+  describe('getLineEndCell', () => {
+    const grid: NavigationGrid = { rows: [3, 1, 2], cols: [2, 0, 1], getValue: () => '' };
+
+    it('goes to the ends of the row, or of the grid', () => {
+      expect(getLineEndCell(grid, { row: 1, col: 0 }, -1, false)).toEqual({ row: 1, col: 2 });
+      expect(getLineEndCell(grid, { row: 1, col: 0 }, 1, true)).toEqual({ row: 2, col: 1 });
+      expect(getLineEndCell(grid, { row: 0, col: 0 }, 1, false)).toEqual({ row: 3, col: 1 });
+    });
+  });
+});
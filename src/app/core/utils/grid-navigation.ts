@@ -0,0 +1,185 @@
+/**
+ * Grid Navigation Utilities
+ *
+ * Spreadsheet keyboard model for the editor grid:
+ * - Arrows / Tab / Shift+Tab move; Ctrl+arrows jump to the edge of the data
+ * - Shift+arrows extend the selected block (with Ctrl, to the edge of the data)
+ * - Home / End go to the first / last column (with Ctrl, also the first / last row)
+ * - PageUp / PageDown move by a screenful
+ * - Enter or F2 edits; typing a character starts overwriting the cell
+ * - Delete / Backspace clear the selected block; Escape collapses it
+ *
+ * Moves follow the display order of rows and columns (sorting,
+ * filtering, grouping and pinned columns applied).
+ */
+
+// === Types ===
+
+export type GridDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Grid cell. Rows are sample indices (1-based, row 0 is a column header
+ * selection) and columns are table column indices.
+ */
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+/**
+ * Rows and columns the keyboard moves through, in display order.
+ */
+export interface NavigationGrid {
+  rows: number[];
+  cols: number[];
+  getValue: (row: number, col: number) => string;
+}
+
+/**
+ * Command for a key pressed in the grid.
+ */
+export type GridKeyAction =
+  | { type: 'move'; direction: GridDirection; toEdge: boolean }
+  | { type: 'extend'; direction: GridDirection; toEdge: boolean }
+  | { type: 'page'; direction: 'up' | 'down' }
+  | { type: 'line_end'; direction: -1 | 1; allRows: boolean }
+  | { type: 'edit'; text: string | null }
+  | { type: 'collapse' }
+  | { type: 'clear' };
+
+/** Cell movement for each arrow key */
+const ARROW_KEY_MOVES: Record<string, GridDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+// === Public Functions ===
+
+/**
+ * The command for a key, or null when the grid doesn't handle it.
+ */
+export function getGridKeyAction(
+  event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey'>
+): GridKeyAction | null {
+  if (event.altKey) return null;
+
+  const ctrl = event.ctrlKey || event.metaKey;
+
+  const arrowMove = ARROW_KEY_MOVES[event.key];
+  if (arrowMove) {
+    return { type: event.shiftKey ? 'extend' : 'move', direction: arrowMove, toEdge: ctrl };
+  }
+
+  switch (event.key) {
+    case 'Tab':
+      return { type: 'move', direction: event.shiftKey ? 'left' : 'right', toEdge: false };
+    case 'Enter':
+    case 'F2':
+      return { type: 'edit', text: null };
+    case 'Escape':
+      return { type: 'collapse' };
+    case 'Delete':
+    case 'Backspace':
+      return { type: 'clear' };
+    case 'Home':
+    case 'End':
+      return { type: 'line_end', direction: event.key === 'Home' ? -1 : 1, allRows: ctrl };
+    case 'PageUp':
+    case 'PageDown':
+      return { type: 'page', direction: event.key === 'PageUp' ? 'up' : 'down' };
+  }
+
+  // Typing a character starts overwriting the selected cell
+  if (event.key.length === 1 && !ctrl) {
+    return { type: 'edit', text: event.key };
+  }
+
+  return null;
+}
+
+/**
+ * The top-left cell of the grid, or null when it is empty.
+ */
+export function getFirstCell(grid: NavigationGrid): GridCell | null {
+  return grid.rows.length > 0 && grid.cols.length > 0 ? { row: grid.rows[0], col: grid.cols[0] } : null;
+}
+
+/**
+ * The cell `steps` cells away in a direction, or the edge of the data
+ * block (Ctrl+arrow): the last filled cell before an empty one, or the
+ * next filled cell when starting next to an empty one.
+ */
+export function stepCell(
+  grid: NavigationGrid,
+  from: GridCell,
+  direction: GridDirection,
+  toEdge: boolean,
+  steps: number = 1
+): GridCell | null {
+  const { rows, cols } = grid;
+  if (rows.length === 0 || cols.length === 0) return null;
+
+  // Column header selections (row 0) and hidden rows start from the top
+  const rowPos = Math.max(0, rows.indexOf(from.row));
+  const colPos = Math.max(0, cols.indexOf(from.col));
+  const vertical = direction === 'up' || direction === 'down';
+  const delta = direction === 'up' || direction === 'left' ? -1 : 1;
+  const length = vertical ? rows.length : cols.length;
+  const start = vertical ? rowPos : colPos;
+
+  let pos: number;
+  if (toEdge) {
+    const filled = (p: number) => (vertical
+      ? grid.getValue(rows[p], cols[colPos])
+      : grid.getValue(rows[rowPos], cols[p])
+    ).trim() !== '';
+    pos = findDataEdge(start, delta, length, filled);
+  } else {
+    pos = Math.min(length - 1, Math.max(0, start + delta * steps));
+  }
+
+  return vertical
+    ? { row: rows[pos], col: cols[colPos] }
+    : { row: rows[rowPos], col: cols[pos] };
+}
+
+/**
+ * The first (direction -1) or last (1) cell of the row, or of the whole
+ * grid when `allRows` is set.
+ */
+export function getLineEndCell(
+  grid: NavigationGrid,
+  from: GridCell,
+  direction: -1 | 1,
+  allRows: boolean
+): GridCell | null {
+  const { rows, cols } = grid;
+  if (rows.length === 0 || cols.length === 0) return null;
+
+  const col = direction < 0 ? cols[0] : cols[cols.length - 1];
+  const row = allRows
+    ? (direction < 0 ? rows[0] : rows[rows.length - 1])
+    : (from.row >= 1 ? from.row : rows[0]);
+
+  return { row, col };
+}
+
+// === Private Helpers ===
+
+function findDataEdge(start: number, delta: number, length: number, filled: (pos: number) => boolean): number {
+  const last = delta > 0 ? length - 1 : 0;
+  if (start === last) return start;
+
+  let pos = start + delta;
+  if (filled(start) && filled(pos)) {
+    // Run to the end of the filled block
+    while (pos !== last && filled(pos + delta)) pos += delta;
+    return pos;
+  }
+
+  // Skip empty cells up to the next filled one
+  while (pos !== last && !filled(pos)) pos += delta;
+  return pos;
+}
@@ -4,3 +4,12 @@
 
 export * from './sample-range';
 export * from './modifier-utils';
+export * from './clipboard-utils';
+export * from './fill-series';
+export * from './row-filter';
+export * from './row-sort';
+export * from './column-layout';
+export * from './column-order';
+export * from './grid-navigation';
+export * from './term-match';
+export * from './xlsx-loader';
@@ -5,7 +5,14 @@
  * Ported from Python backend: ccv/tasks/import_utils.py
  */
 
-import { Modifier, SdrfColumn, getValueForSample } from '../models/sdrf-column';
+import { Modifier, SdrfColumn } from '../models/sdrf-column';
+import {
+  getColumnStore,
+  invalidateColumnStore,
+  expandColumnStore,
+  createColumnStoreFromValues,
+  columnStoreToModifiers,
+} from '../models/column-store';
 import { encodeSampleRange, decodeSampleRange, isSampleInRange } from './sample-range';
 
 /**
@@ -99,6 +106,9 @@ export function setValueForSample(
   sampleIndex: number,
   newValue: string
 ): void {
+  // Modifiers below are edited in place
+  invalidateColumnStore(column);
+
   // If the new value matches the default, remove from modifiers
   if (newValue === column.value) {
     // Remove this sample from all modifiers
@@ -159,19 +169,17 @@ export function setValueForSample(
  * @param sampleCount Total number of samples
  */
 export function optimizeColumnModifiers(column: SdrfColumn, sampleCount: number): void {
-  // Build full value map
-  const valueMap = new Map<number, string>();
-
-  for (let i = 1; i <= sampleCount; i++) {
-    valueMap.set(i, getValueForSample(column, i));
-  }
+  const values = expandColumnStore(getColumnStore(column), sampleCount);
 
   // Find new most common value
+  const valueMap = new Map<number, string>();
+  values.forEach((value, index) => valueMap.set(index + 1, value));
   const newDefault = findMostCommonValue(valueMap);
 
   // Rebuild modifiers
-  column.value = newDefault;
-  column.modifiers = createModifiersFromValueMap(valueMap, newDefault);
+  const rebuilt = columnStoreToModifiers(createColumnStoreFromValues(values, newDefault));
+  column.value = rebuilt.value;
+  column.modifiers = rebuilt.modifiers;
 }
 
 /**
@@ -182,13 +190,7 @@ export function optimizeColumnModifiers(column: SdrfColumn, sampleCount: number)
  * @returns Array of values, one per sample (0-indexed)
  */
 export function expandColumnToArray(column: SdrfColumn, sampleCount: number): string[] {
-  const values: string[] = [];
-
-  for (let i = 1; i <= sampleCount; i++) {
-    values.push(getValueForSample(column, i));
-  }
-
-  return values;
+  return expandColumnStore(getColumnStore(column), sampleCount);
 }
 
 /**
@@ -0,0 +1,222 @@
+import {
+  ANY_COLUMN,
+  FilterCondition,
+  FilterGroup,
+  createRowPredicate,
+  describeFilter,
+  getFilterError,
+  matchesFilterCondition,
+  parseNumericValue,
+  countFilterConditions,
+  cloneFilterGroup,
+  createCellErrorIndex,
+  remapFilterColumns,
+} from './row-filter';
+import { reorderColumns, getMovedColumnOrder } from './column-order';
+import { SdrfParserService } from '../services/sdrf-parser.service';
+import { SdrfTable } from '../models/sdrf-table';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+const COLUMN_NAMES = ['source name', 'characteristics[organism]', 'characteristics[age]'];
+
+function condition(
+  columnIndex: number,
+  operator: FilterCondition['operator'],
+  value = '',
+  extra: Partial<FilterCondition> = {}
+): FilterCondition {
+  return { columnIndex, columnName: COLUMN_NAMES[columnIndex] ?? '', operator, value, ...extra };
+}
+
+function matchingRows(t: SdrfTable, group: FilterGroup): number[] {
+  const predicate = createRowPredicate(t, group);
+  return Array.from({ length: t.sampleCount }, (_, i) => i + 1).filter(predicate);
+}
+
+describe('row-filter', () => {
+  const samples = () =>
+    table([
+      ['source name', 'characteristics[organism]', 'characteristics[age]'],
+      ['s1', 'Homo sapiens', '30Y'],
+      ['s2', 'Mus musculus', '8W'],
+      ['s3', 'Homo sapiens', '65Y6M'],
+      ['s4', 'Homo sapiens', 'not available'],
+    ]);
+
+  describe('parseNumericValue', () => {
+    it('reads SDRF ages in years and the first number of other text', () => {
+      expect(parseNumericValue('30Y')).toBe(30);
+      expect(parseNumericValue('30Y6M')).toBe(30.5);
+      expect(parseNumericValue('30 NCE')).toBe(30);
+      expect(parseNumericValue('-1.5e2')).toBe(-150);
+      expect(parseNumericValue('not available')).toBeNull();
+      expect(parseNumericValue('')).toBeNull();
+    });
+  });
+
+  describe('matchesFilterCondition', () => {
+    it('compares text case-insensitively', () => {
+      expect(matchesFilterCondition('Homo sapiens', condition(1, 'equals', 'homo SAPIENS'))).toBeTrue();
+      expect(matchesFilterCondition('Homo sapiens', condition(1, 'contains', 'SAP'))).toBeTrue();
+      expect(matchesFilterCondition('Homo sapiens', condition(1, 'starts_with', 'homo'))).toBeTrue();
+      expect(matchesFilterCondition('Homo sapiens', condition(1, 'ends_with', 'homo'))).toBeFalse();
+      expect(matchesFilterCondition(' ', condition(1, 'is_empty'))).toBeTrue();
+      expect(matchesFilterCondition('^x', condition(1, 'matches_regex', '^\\^'))).toBeTrue();
+    });
+
+    it('compares numbers', () => {
+      expect(matchesFilterCondition('30Y', condition(2, 'gt', '18'))).toBeTrue();
+      expect(matchesFilterCondition('18Y', condition(2, 'gte', '18'))).toBeTrue();
+      expect(matchesFilterCondition('30Y', condition(2, 'between', '18', { valueTo: '25' }))).toBeFalse();
+      expect(matchesFilterCondition('not available', condition(2, 'lt', '100'))).toBeFalse();
+    });
+
+    it('never matches an invalid regex', () => {
+      expect(matchesFilterCondition('a', condition(1, 'matches_regex', '('))).toBeFalse();
+    });
+  });
+
+  describe('createRowPredicate', () => {
+    it('combines conditions with AND and OR', () => {
+      const t = samples();
+
+      expect(
+        matchingRows(t, {
+          combinator: 'and',
+          children: [condition(1, 'equals', 'homo sapiens'), condition(2, 'gt', '40')],
+        })
+      ).toEqual([3]);
+      expect(
+        matchingRows(t, {
+          combinator: 'or',
+          children: [condition(1, 'equals', 'mus musculus'), condition(2, 'is_empty')],
+        })
+      ).toEqual([2]);
+    });
+
+    it('negates conditions and groups', () => {
+      const t = samples();
+
+      expect(
+        matchingRows(t, {
+          combinator: 'and',
+          children: [condition(1, 'equals', 'homo sapiens', { negate: true })],
+        })
+      ).toEqual([2]);
+      expect(
+        matchingRows(t, {
+          combinator: 'and',
+          negate: true,
+          children: [
+            condition(1, 'equals', 'homo sapiens'),
+            { combinator: 'or', children: [condition(2, 'lt', '40'), condition(2, 'gt', '60')] },
+          ],
+        })
+      ).toEqual([2, 4]);
+    });
+
+    it('matches any column and ignores conditions on missing columns', () => {
+      const t = samples();
+
+      expect(matchingRows(t, { combinator: 'and', children: [condition(ANY_COLUMN, 'contains', 'mus')] })).toEqual([
+        2,
+      ]);
+      expect(matchingRows(t, { combinator: 'and', children: [condition(7, 'equals', 'x')] })).toEqual([
+        1, 2, 3, 4,
+      ]);
+    });
+
+    it('filters rows with validation errors', () => {
+      const t = samples();
+      const errors = { rows: new Set([1, 3]), byColumn: new Map([['characteristics[age]', new Set([3])]]) };
+      const rows = (group: FilterGroup) => [1, 2, 3, 4].filter(createRowPredicate(t, group, errors));
+
+      expect(rows({ combinator: 'and', children: [condition(ANY_COLUMN, 'has_error')] })).toEqual([1, 3]);
+      expect(rows({ combinator: 'and', children: [condition(2, 'has_error')] })).toEqual([3]);
+    });
+  });
+
+  describe('createCellErrorIndex', () => {
+    it('indexes rows overall and by lowercase column name', () => {
+      const index = createCellErrorIndex([
+        { row: 3, column: 'Characteristics[age]' },
+        { row: 1 },
+        { row: 3, column: 'characteristics[age]' },
+      ]);
+
+      expect([...index.rows]).toEqual([3, 1]);
+      expect([...index.byColumn.keys()]).toEqual(['characteristics[age]']);
+      expect([...index.byColumn.get('characteristics[age]')!]).toEqual([3]);
+    });
+  });
+
+  describe('getFilterError', () => {
+    it('reports invalid regexes and missing numbers', () => {
+      expect(getFilterError({ combinator: 'and', children: [condition(1, 'matches_regex', '(')] })).toBeTruthy();
+      expect(getFilterError(condition(2, 'gt', 'abc'))).toBe('Enter a number');
+      expect(getFilterError(condition(2, 'between', '1'))).toBe('Enter an upper bound');
+      expect(getFilterError(condition(2, 'between', '1', { valueTo: '2' }))).toBeNull();
+    });
+  });
+
+  describe('describeFilter', () => {
+    it('describes nested groups', () => {
+      const group: FilterGroup = {
+        combinator: 'and',
+        children: [
+          condition(1, 'equals', 'human'),
+          { combinator: 'or', negate: true, children: [condition(2, 'lt', '18'), condition(2, 'is_empty')] },
+        ],
+      };
+
+      expect(describeFilter(group)).toBe('organism equals "human" AND NOT (age < 18 OR age is empty)');
+      expect(countFilterConditions(group)).toBe(3);
+    });
+  });
+
+  describe('cloneFilterGroup', () => {
+    it('copies the tree deeply', () => {
+      const group: FilterGroup = { combinator: 'and', children: [condition(1, 'equals', 'a')] };
+      const copy = cloneFilterGroup(group);
+      (copy.children[0] as FilterCondition).value = 'b';
+
+      expect((group.children[0] as FilterCondition).value).toBe('a');
+    });
+  });
+
+  describe('remapFilterColumns', () => {
+    it('keeps matching the same rows after columns are reordered', () => {
+      const t = samples();
+      const group: FilterGroup = {
+        combinator: 'and',
+        children: [
+          condition(1, 'equals', 'homo sapiens'),
+          { combinator: 'or', children: [condition(2, 'gt', '40'), condition(ANY_COLUMN, 'contains', 's4')] },
+        ],
+      };
+      const order = getMovedColumnOrder(3, 2, 0);
+      const newIndex = new Map(order.map((oldIndex, position) => [oldIndex, position]));
+
+      const remapped = remapFilterColumns(group, (i) => newIndex.get(i));
+
+      expect((remapped.children[0] as FilterCondition).columnIndex).toBe(2);
+      expect(matchingRows(reorderColumns(t, order), remapped)).toEqual(matchingRows(t, group));
+      expect(matchingRows(t, group)).toEqual([3, 4]);
+    });
+
+    it('drops conditions on columns that are gone', () => {
+      const group: FilterGroup = {
+        combinator: 'and',
+        children: [condition(0, 'equals', 's1'), condition(1, 'equals', 'mus musculus')],
+      };
+
+      const remapped = remapFilterColumns(group, (i) => (i === 1 ? 0 : undefined));
+
+      expect(remapped.children).toEqual([{ ...condition(1, 'equals', 'mus musculus'), columnIndex: 0 }]);
+    });
+  });
+});
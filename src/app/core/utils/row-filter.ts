@@ -0,0 +1,417 @@
+/**
+ * Row Filter Utilities
+ *
+ * Filter expressions for SDRF rows: conditions on column values combined
+ * in nested AND/OR groups, each of which can be negated.
+ *
+ * Text operators are case-insensitive. Numeric operators read the first
+ * number in a cell ("30 NCE" → 30) and SDRF ages in years ("30Y6M" → 30.5).
+ */
+
+import { SdrfTable } from '../models/sdrf-table';
+import { getColumnStore, getStoreValue, ColumnValueStore } from '../models/column-store';
+
+// === Types ===
+
+export type FilterOperator =
+  | 'equals'
+  | 'contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'matches_regex'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'has_error';
+
+/**
+ * A condition on one column (or on any column when `columnIndex` is -1).
+ */
+export interface FilterCondition {
+  columnIndex: number;
+  columnName: string;
+  operator: FilterOperator;
+  value: string;
+
+  /** Upper bound for 'between' */
+  valueTo?: string;
+
+  /** Inverts the condition */
+  negate?: boolean;
+}
+
+/**
+ * Conditions and sub-groups combined with AND or OR.
+ */
+export interface FilterGroup {
+  combinator: 'and' | 'or';
+  negate?: boolean;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+/**
+ * Rows (1-based) with validation errors, overall and per column
+ * (keyed by lowercase column name).
+ */
+export interface CellErrorIndex {
+  rows: Set<number>;
+  byColumn: Map<string, Set<number>>;
+}
+
+/**
+ * Operator metadata for building filter UIs.
+ */
+export interface FilterOperatorInfo {
+  value: FilterOperator;
+  label: string;
+  /** Number of values the operator takes */
+  arity: 0 | 1 | 2;
+  numeric?: boolean;
+}
+
+/** Column index meaning "any column" */
+export const ANY_COLUMN = -1;
+
+export const FILTER_OPERATORS: FilterOperatorInfo[] = [
+  { value: 'equals', label: 'equals', arity: 1 },
+  { value: 'contains', label: 'contains', arity: 1 },
+  { value: 'starts_with', label: 'starts with', arity: 1 },
+  { value: 'ends_with', label: 'ends with', arity: 1 },
+  { value: 'matches_regex', label: 'matches regex', arity: 1 },
+  { value: 'is_empty', label: 'is empty', arity: 0 },
+  { value: 'is_not_empty', label: 'is not empty', arity: 0 },
+  { value: 'gt', label: '>', arity: 1, numeric: true },
+  { value: 'gte', label: '≥', arity: 1, numeric: true },
+  { value: 'lt', label: '<', arity: 1, numeric: true },
+  { value: 'lte', label: '≤', arity: 1, numeric: true },
+  { value: 'between', label: 'between', arity: 2, numeric: true },
+  { value: 'has_error', label: 'has validation error', arity: 0 },
+];
+
+const OPERATOR_INFO = new Map(FILTER_OPERATORS.map((info) => [info.value, info]));
+
+/** SDRF age, e.g. "30Y", "30Y6M", "2M15D" */
+const AGE_PATTERN = /^(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?$/i;
+
+/** First number in a value */
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?:e[-+]?\d+)?/i;
+
+// === Public Functions ===
+
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return 'children' in node;
+}
+
+export function getOperatorInfo(operator: FilterOperator): FilterOperatorInfo {
+  return OPERATOR_INFO.get(operator)!;
+}
+
+export function createFilterGroup(combinator: FilterGroup['combinator'] = 'and'): FilterGroup {
+  return { combinator, children: [] };
+}
+
+/**
+ * Indexes cells with validation errors.
+ *
+ * @param cells Rows (1-based) with errors, with the column when known
+ */
+export function createCellErrorIndex(cells: Iterable<{ row: number; column?: string | null }>): CellErrorIndex {
+  const index: CellErrorIndex = { rows: new Set(), byColumn: new Map() };
+
+  for (const { row, column } of cells) {
+    index.rows.add(row);
+    if (!column) continue;
+    const key = column.toLowerCase();
+    if (!index.byColumn.has(key)) index.byColumn.set(key, new Set());
+    index.byColumn.get(key)!.add(row);
+  }
+
+  return index;
+}
+
+/**
+ * Deep copy of a filter tree.
+ */
+export function cloneFilterGroup(group: FilterGroup): FilterGroup {
+  return {
+    ...group,
+    children: group.children.map((child) =>
+      isFilterGroup(child) ? cloneFilterGroup(child) : { ...child }
+    ),
+  };
+}
+
+/**
+ * Filter tree with its conditions moved to other column indices, e.g.
+ * after reordering columns. Conditions whose column maps to undefined
+ * are dropped.
+ */
+export function remapFilterColumns(
+  group: FilterGroup,
+  mapColumn: (columnIndex: number) => number | undefined
+): FilterGroup {
+  return {
+    ...group,
+    children: group.children
+      .map((child): FilterNode | null => {
+        if (isFilterGroup(child)) return remapFilterColumns(child, mapColumn);
+        if (child.columnIndex === ANY_COLUMN) return { ...child };
+
+        const columnIndex = mapColumn(child.columnIndex);
+        return columnIndex === undefined ? null : { ...child, columnIndex };
+      })
+      .filter((child): child is FilterNode => child !== null),
+  };
+}
+
+/**
+ * Number of conditions in a filter tree.
+ */
+export function countFilterConditions(node: FilterNode): number {
+  return isFilterGroup(node)
+    ? node.children.reduce((sum, child) => sum + countFilterConditions(child), 0)
+    : 1;
+}
+
+/**
+ * Whether any condition in the tree uses an operator.
+ */
+export function filterUsesOperator(node: FilterNode, operator: FilterOperator): boolean {
+  return isFilterGroup(node)
+    ? node.children.some((child) => filterUsesOperator(child, operator))
+    : node.operator === operator;
+}
+
+/**
+ * Reads a number from a cell value: SDRF ages in years, otherwise the
+ * first number in the text. Returns null when there is none.
+ */
+export function parseNumericValue(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const age = AGE_PATTERN.exec(trimmed);
+  if (age && (age[1] || age[2] || age[3])) {
+    return (
+      parseInt(age[1] || '0', 10) +
+      parseInt(age[2] || '0', 10) / 12 +
+      parseInt(age[3] || '0', 10) / 365
+    );
+  }
+
+  const match = NUMBER_PATTERN.exec(trimmed);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Problem with a condition's values (e.g. an invalid regex), or null.
+ */
+export function getFilterConditionError(condition: FilterCondition): string | null {
+  const info = getOperatorInfo(condition.operator);
+
+  if (condition.operator === 'matches_regex') {
+    try {
+      new RegExp(condition.value, 'i');
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression';
+    }
+  }
+
+  if (info.numeric) {
+    if (parseNumericValue(condition.value) === null) return 'Enter a number';
+    if (info.arity === 2 && parseNumericValue(condition.valueTo ?? '') === null) {
+      return 'Enter an upper bound';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * First problem found in a filter tree, or null when it can be applied.
+ */
+export function getFilterError(node: FilterNode): string | null {
+  if (!isFilterGroup(node)) return getFilterConditionError(node);
+
+  for (const child of node.children) {
+    const error = getFilterError(child);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Checks a cell value against a value condition. Always false for
+ * 'has_error', which depends on validation results rather than the value.
+ */
+export function matchesFilterCondition(value: string, filter: FilterCondition): boolean {
+  return createValueMatcher(filter)(value);
+}
+
+/**
+ * Builds a predicate telling whether a row (1-based) passes the filter.
+ * Regexes and column stores are prepared once per call.
+ */
+export function createRowPredicate(
+  table: SdrfTable,
+  root: FilterGroup,
+  errors: CellErrorIndex | null = null
+): (sampleIndex: number) => boolean {
+  const stores = new Map<number, ColumnValueStore>();
+  const storeFor = (columnIndex: number): ColumnValueStore | null => {
+    const column = table.columns[columnIndex];
+    if (!column) return null;
+    let store = stores.get(columnIndex);
+    if (!store) {
+      store = getColumnStore(column);
+      stores.set(columnIndex, store);
+    }
+    return store;
+  };
+
+  const compile = (node: FilterNode): ((sample: number) => boolean) => {
+    if (isFilterGroup(node)) {
+      const children = node.children.map(compile);
+      const test =
+        node.combinator === 'and'
+          ? (sample: number) => children.every((child) => child(sample))
+          : (sample: number) => children.length === 0 || children.some((child) => child(sample));
+      return node.negate ? (sample) => !test(sample) : test;
+    }
+
+    const test = compileCondition(node, table, storeFor, errors);
+    return node.negate ? (sample) => !test(sample) : test;
+  };
+
+  return compile(root);
+}
+
+/**
+ * Short human-readable form of a filter tree.
+ *
+ * @example
+ * describeFilter(group) // 'organism = "human" AND NOT (age < 18 OR age is empty)'
+ */
+export function describeFilter(node: FilterNode, nested: boolean = false): string {
+  if (!isFilterGroup(node)) {
+    const info = getOperatorInfo(node.operator);
+    const column = node.columnIndex === ANY_COLUMN ? 'any column' : shortColumnName(node.columnName);
+    const values =
+      info.arity === 0
+        ? ''
+        : info.arity === 2
+          ? ` ${node.value}–${node.valueTo ?? ''}`
+          : info.numeric
+            ? ` ${node.value}`
+            : ` "${node.value}"`;
+    return `${node.negate ? 'NOT ' : ''}${column} ${info.label}${values}`;
+  }
+
+  const parts = node.children.map((child) => describeFilter(child, true));
+  let text = parts.join(node.combinator === 'and' ? ' AND ' : ' OR ');
+  if (parts.length > 1 && (nested || node.negate)) {
+    text = `(${text})`;
+  }
+  return node.negate ? `NOT ${text}` : text;
+}
+
+// === Private Helpers ===
+
+function compileCondition(
+  condition: FilterCondition,
+  table: SdrfTable,
+  storeFor: (columnIndex: number) => ColumnValueStore | null,
+  errors: CellErrorIndex | null
+): (sample: number) => boolean {
+  if (condition.operator === 'has_error') {
+    if (!errors) return () => false;
+    const rows =
+      condition.columnIndex === ANY_COLUMN
+        ? errors.rows
+        : errors.byColumn.get(condition.columnName.toLowerCase());
+    return rows ? (sample) => rows.has(sample) : () => false;
+  }
+
+  const matcher = createValueMatcher(condition);
+
+  if (condition.columnIndex === ANY_COLUMN) {
+    const columnStores = table.columns.map((_, i) => storeFor(i)!);
+    return (sample) => columnStores.some((store) => matcher(getStoreValue(store, sample)));
+  }
+
+  const store = storeFor(condition.columnIndex);
+
+  // Conditions on missing columns don't restrict the rows
+  if (!store) return () => true;
+
+  // Each distinct value is tested once
+  const results = store.dictionary.map(matcher);
+  return (sample) => results[store.indices[sample - 1] ?? 0];
+}
+
+function createValueMatcher(filter: FilterCondition): (value: string) => boolean {
+  const f = filter.value.toLowerCase();
+
+  switch (filter.operator) {
+    case 'equals':
+      return (value) => value.toLowerCase() === f;
+    case 'contains':
+      return (value) => value.toLowerCase().includes(f);
+    case 'starts_with':
+      return (value) => value.toLowerCase().startsWith(f);
+    case 'ends_with':
+      return (value) => value.toLowerCase().endsWith(f);
+    case 'is_empty':
+      return (value) => value.trim() === '';
+    case 'is_not_empty':
+      return (value) => value.trim() !== '';
+    case 'matches_regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(filter.value, 'i');
+      } catch {
+        return () => false;
+      }
+      return (value) => pattern.test(value);
+    }
+    case 'has_error':
+      return () => false;
+  }
+
+  // Numeric operators
+  const bound = parseNumericValue(filter.value);
+  const upper = parseNumericValue(filter.valueTo ?? '');
+  if (bound === null) return () => false;
+
+  const compare = (test: (n: number) => boolean) => (value: string) => {
+    const n = parseNumericValue(value);
+    return n !== null && test(n);
+  };
+
+  switch (filter.operator) {
+    case 'gt':
+      return compare((n) => n > bound);
+    case 'gte':
+      return compare((n) => n >= bound);
+    case 'lt':
+      return compare((n) => n < bound);
+    case 'lte':
+      return compare((n) => n <= bound);
+    case 'between':
+      return upper === null ? () => false : compare((n) => n >= bound && n <= upper);
+  }
+}
+
+/**
+ * "characteristics[organism]" → "organism"
+ */
+function shortColumnName(name: string): string {
+  const match = /\[(.+)\]$/.exec(name);
+  return match ? match[1] : name;
+}
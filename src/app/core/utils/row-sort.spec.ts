@@ -0,0 +1,97 @@
+import { compareSortValues, cycleSortKey, sortRows, groupRows, getGroupValues, SortKey } from './row-sort';
+import { SdrfParserService } from '../services/sdrf-parser.service';
+import { SdrfTable } from '../models/sdrf-table';
+
+function table(rows: string[][]): SdrfTable {
+  const result = new SdrfParserService().parseFromContent(rows.map((row) => row.join('\t')).join('\n'));
+  return result.table!;
+}
+
+describe('row-sort', () => {
+  const samples = () =>
+    table([
+      ['source name', 'characteristics[organism]', 'comment[fraction identifier]'],
+      ['s1', 'mus musculus', '10'],
+      ['s2', 'Homo sapiens', '2'],
+      ['s3', 'homo sapiens', '1'],
+      ['s4', 'mus musculus', '2'],
+    ]);
+
+  describe('compareSortValues', () => {
+    it('compares numbers numerically and text in natural order', () => {
+      expect(compareSortValues('2', '10')).toBeLessThan(0);
+      expect(compareSortValues('F2', 'F10')).toBeLessThan(0);
+      expect(compareSortValues('abc', 'ABC')).toBe(0);
+      expect(compareSortValues('b', 'a')).toBeGreaterThan(0);
+    });
+  });
+
+  describe('cycleSortKey', () => {
+    const keys: SortKey[] = [
+      { column: 1, direction: 'asc' },
+      { column: 2, direction: 'desc' },
+    ];
+
+    it('sorts by the clicked column alone, cycling asc, desc and off', () => {
+      expect(cycleSortKey(keys, 2, false)).toEqual([{ column: 2, direction: 'asc' }]);
+      expect(cycleSortKey([{ column: 2, direction: 'asc' }], 2, false)).toEqual([{ column: 2, direction: 'desc' }]);
+      expect(cycleSortKey([{ column: 2, direction: 'desc' }], 2, false)).toEqual([]);
+    });
+
+    it('adds and cycles further keys on additive clicks', () => {
+      expect(cycleSortKey(keys, 0, true)).toEqual([...keys, { column: 0, direction: 'asc' }]);
+      expect(cycleSortKey(keys, 1, true)).toEqual([
+        { column: 1, direction: 'desc' },
+        { column: 2, direction: 'desc' },
+      ]);
+      expect(cycleSortKey(keys, 2, true)).toEqual([{ column: 1, direction: 'asc' }]);
+    });
+  });
+
+  describe('sortRows', () => {
+    it('sorts by several keys', () => {
+      const t = samples();
+
+      expect(
+        sortRows(t, [1, 2, 3, 4], [
+          { column: 1, direction: 'asc' },
+          { column: 2, direction: 'desc' },
+        ])
+      ).toEqual([2, 3, 1, 4]);
+    });
+
+    it('keeps the order of rows that tie on every key', () => {
+      expect(sortRows(samples(), [4, 3, 2, 1], [{ column: 1, direction: 'asc' }])).toEqual([3, 2, 4, 1]);
+    });
+
+    it('ignores keys on missing columns', () => {
+      expect(sortRows(samples(), [2, 1], [{ column: 9, direction: 'asc' }])).toEqual([2, 1]);
+    });
+  });
+
+  describe('groupRows', () => {
+    it('groups rows case-insensitively in order of first row', () => {
+      const groups = groupRows(samples(), [3, 1, 2, 4], 1);
+
+      expect(groups.map((g) => [g.key, g.value, g.rows])).toEqual([
+        ['homo sapiens', 'homo sapiens', [3, 2]],
+        ['mus musculus', 'mus musculus', [1, 4]],
+      ]);
+    });
+
+    it('returns no groups for a missing column', () => {
+      expect(groupRows(samples(), [1, 2], 5)).toEqual([]);
+    });
+  });
+
+  describe('getGroupValues', () => {
+    it('collects the distinct values of a column in a group', () => {
+      const t = samples();
+      const [mouse] = groupRows(t, [1, 4], 1);
+
+      expect([...getGroupValues(t, mouse, 2)]).toEqual(['10', '2']);
+      expect([...getGroupValues(t, mouse, 1)]).toEqual(['mus musculus']);
+      expect(getGroupValues(t, mouse, 9).size).toBe(0);
+    });
+  });
+});
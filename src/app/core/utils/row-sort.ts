@@ -0,0 +1,155 @@
+/**
+ * Row Sort Utilities
+ *
+ * Multi-key sorting and grouping of SDRF rows, e.g. by organism, then
+ * source name, then fraction identifier.
+ *
+ * Sorting is stable: rows that tie on every key keep their relative order.
+ * Values compare numerically when both are numbers, otherwise as text with
+ * embedded numbers in natural order ("F2" before "F10").
+ */
+
+import { SdrfTable } from '../models/sdrf-table';
+import { getColumnStore, getStoreValue } from '../models/column-store';
+
+// === Types ===
+
+export interface SortKey {
+  /** Column index (0-based) */
+  column: number;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Consecutive rows sharing a value in the grouping column.
+ */
+export interface RowGroup {
+  /** Grouping value, lowercased and trimmed */
+  key: string;
+
+  /** Grouping value as first seen */
+  value: string;
+
+  /** Member rows (1-based), in display order */
+  rows: number[];
+}
+
+// === Public Functions ===
+
+/**
+ * Compares two cell values: numerically when both parse as numbers,
+ * otherwise case-insensitively with natural number ordering.
+ */
+export function compareSortValues(a: string, b: string): number {
+  const numA = parseFloat(a);
+  const numB = parseFloat(b);
+  if (!isNaN(numA) && !isNaN(numB) && numA !== numB) {
+    return numA - numB;
+  }
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Sort keys after clicking a column header: a click sorts by the column
+ * alone (asc → desc → off); an additive (Shift) click keeps the other
+ * keys and cycles this one.
+ */
+export function cycleSortKey(keys: SortKey[], column: number, additive: boolean): SortKey[] {
+  const existing = keys.find((k) => k.column === column);
+
+  if (additive) {
+    if (!existing) return [...keys, { column, direction: 'asc' }];
+    if (existing.direction === 'asc') {
+      return keys.map((k) => (k === existing ? { ...k, direction: 'desc' } : k));
+    }
+    return keys.filter((k) => k !== existing);
+  }
+
+  if (existing && keys.length === 1) {
+    return existing.direction === 'asc' ? [{ ...existing, direction: 'desc' }] : [];
+  }
+  return [{ column, direction: 'asc' }];
+}
+
+/**
+ * Sorts rows (1-based) by several keys, the first key being the primary one.
+ * Keys on missing columns are ignored.
+ *
+ * @example
+ * sortRows(table, [1, 2, 3, 4], [
+ *   { column: organismCol, direction: 'asc' },
+ *   { column: fractionCol, direction: 'desc' },
+ * ])
+ */
+export function sortRows(table: SdrfTable, rows: number[], keys: SortKey[]): number[] {
+  // Rank each distinct value once, then compare ranks per row
+  const rankers = keys
+    .filter((key) => table.columns[key.column])
+    .map((key) => {
+      const store = getColumnStore(table.columns[key.column]);
+      const order = store.dictionary
+        .map((value, entry) => ({ value, entry }))
+        .sort((a, b) => compareSortValues(a.value, b.value));
+
+      const ranks = new Array<number>(store.dictionary.length);
+      order.forEach(({ entry }, i) => {
+        // Equal values share a rank so later keys can break the tie
+        const previous = order[i - 1];
+        ranks[entry] =
+          previous && compareSortValues(previous.value, order[i].value) === 0
+            ? ranks[previous.entry]
+            : i;
+      });
+
+      const dir = key.direction === 'asc' ? 1 : -1;
+      return { ranks, indices: store.indices, dir };
+    });
+
+  if (rankers.length === 0) return [...rows];
+
+  const position = new Map(rows.map((row, i) => [row, i]));
+
+  return [...rows].sort((a, b) => {
+    for (const { ranks, indices, dir } of rankers) {
+      const diff = ranks[indices[a - 1] ?? 0] - ranks[indices[b - 1] ?? 0];
+      if (diff !== 0) return diff * dir;
+    }
+    return position.get(a)! - position.get(b)!;
+  });
+}
+
+/**
+ * Groups rows by a column's value (case-insensitive). Groups appear in
+ * the order of their first row; members keep their order in `rows`.
+ */
+export function groupRows(table: SdrfTable, rows: number[], column: number): RowGroup[] {
+  const col = table.columns[column];
+  if (!col) return [];
+
+  const store = getColumnStore(col);
+  const groups = new Map<string, RowGroup>();
+
+  for (const row of rows) {
+    const value = getStoreValue(store, row);
+    const key = value.trim().toLowerCase();
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, value, rows: [] };
+      groups.set(key, group);
+    }
+    group.rows.push(row);
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Distinct values of a column among a group's rows.
+ */
+export function getGroupValues(table: SdrfTable, group: RowGroup, column: number): Set<string> {
+  const col = table.columns[column];
+  if (!col) return new Set();
+
+  const store = getColumnStore(col);
+  return new Set(group.rows.map((row) => getStoreValue(store, row)));
+}
@@ -0,0 +1,61 @@
+import { rankTermMatch, searchTerms } from './term-match';
+import { OntologySuggestion } from '../models/ontology';
+
+function term(id: string, label: string, synonyms: string[] = [], extra: Partial<OntologySuggestion> = {}) {
+  return { id, label, iri: '', ontologyPrefix: id.split(':')[0], synonyms, ...extra } as OntologySuggestion;
+}
+
+describe('term-match', () => {
+  const orbitrap = term('MS:1000449', 'LTQ Orbitrap');
+  const hcd = term('MS:1000422', 'beam-type collision-induced dissociation', ['HCD']);
+
+  describe('rankTermMatch', () => {
+    it('ranks accessions and labels, then synonyms, prefixes, words and substrings', () => {
+      expect(rankTermMatch(orbitrap, 'ltq orbitrap')).toBe(0);
+      expect(rankTermMatch(orbitrap, 'ms:1000449')).toBe(0);
+      expect(rankTermMatch(hcd, 'hcd')).toBe(1);
+      expect(rankTermMatch(orbitrap, 'ltq')).toBe(2);
+      expect(rankTermMatch(hcd, 'hc')).toBe(3);
+      expect(rankTermMatch(orbitrap, 'orbi')).toBe(4);
+      expect(rankTermMatch(hcd, 'induced')).toBe(4);
+      expect(rankTermMatch(hcd, 'ision-ind')).toBe(5);
+    });
+
+    it('tolerates typos growing with the query length', () => {
+      expect(rankTermMatch(orbitrap, 'ltq orbitrpa')).toBe(7);
+      expect(rankTermMatch(orbitrap, 'ltq orbtrp')).toBe(8);
+      expect(rankTermMatch(orbitrap, 'lqt')).toBeNull();
+    });
+
+    it('matches only equal names when exact', () => {
+      expect(rankTermMatch(hcd, 'hcd', true)).toBe(1);
+      expect(rankTermMatch(orbitrap, 'ltq', true)).toBeNull();
+    });
+  });
+
+  describe('searchTerms', () => {
+    const terms = [
+      term('MS:1002523', 'Q Exactive HF'),
+      term('MS:1001911', 'Q Exactive'),
+      term('MS:0000001', 'Q Exactive prototype', [], { isObsolete: true }),
+      term('PRIDE:0000001', 'Q Exactive sample'),
+    ];
+
+    it('orders by rank, then by label length, marking exact matches', () => {
+      const results = searchTerms(terms, { query: 'q exactive', ontology: ['ms'] });
+
+      expect(results.map((t) => [t.id, t.isExactMatch])).toEqual([
+        ['MS:1001911', true],
+        ['MS:1002523', false],
+      ]);
+    });
+
+    it('includes obsolete terms on request and limits the results', () => {
+      const results = searchTerms(terms, { query: 'q exactive', obsoletes: true, rows: 3 });
+
+      expect(results.map((t) => t.id)).toEqual(['MS:1001911', 'MS:1002523', 'PRIDE:0000001']);
+      expect(searchTerms(terms, { query: 'prototype', obsoletes: true }).length).toBe(1);
+      expect(searchTerms(terms, { query: '  ' })).toEqual([]);
+    });
+  });
+});
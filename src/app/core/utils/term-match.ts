@@ -0,0 +1,94 @@
+/**
+ * Term Matching
+ *
+ * Local ontology search over in-memory terms (offline cache, bundled
+ * snapshots): exact, prefix and substring matches on accessions, labels
+ * and synonyms, then labels within a small edit distance of the query so
+ * typos still find the term.
+ */
+
+import { OntologySuggestion, OntologySearchParams } from '../models/ontology';
+
+/**
+ * Rank of a term for a lowercase query (lower is better), or null if it
+ * does not match. With `exact`, only accessions, labels and synonyms
+ * equal to the query match.
+ */
+export function rankTermMatch(term: OntologySuggestion, query: string, exact = false): number | null {
+  const label = term.label.toLowerCase();
+  const synonyms = (term.synonyms ?? []).map((s) => s.toLowerCase());
+
+  if (label === query || term.id.toLowerCase() === query) return 0;
+  if (synonyms.includes(query)) return 1;
+  if (exact) return null;
+
+  if (label.startsWith(query)) return 2;
+  if (synonyms.some((s) => s.startsWith(query))) return 3;
+  if (label.split(/[\s,()-]+/).some((word) => word.startsWith(query))) return 4;
+  if (label.includes(query)) return 5;
+  if (synonyms.some((s) => s.includes(query))) return 6;
+
+  // Typos: the whole label, or its start while the query is being typed
+  const maxDistance = query.length >= 8 ? 2 : query.length >= 4 ? 1 : 0;
+  if (maxDistance === 0) return null;
+  const distance = Math.min(
+    editDistance(query, label, maxDistance),
+    editDistance(query, label.slice(0, query.length), maxDistance)
+  );
+  return distance <= maxDistance ? 6 + distance : null;
+}
+
+/**
+ * Best-matching terms for a search, at most `params.rows` (default 10).
+ * Terms of other ontologies than `params.ontology` and obsolete terms
+ * (unless `params.obsoletes`) are skipped.
+ */
+export function searchTerms(terms: Iterable<OntologySuggestion>, params: OntologySearchParams): OntologySuggestion[] {
+  const query = params.query.trim().toLowerCase();
+  if (!query) return [];
+
+  const ontologies = params.ontology?.map((o) => o.toLowerCase()) ?? [];
+  const ranked: { term: OntologySuggestion; rank: number }[] = [];
+
+  for (const term of terms) {
+    if (ontologies.length > 0 && !ontologies.includes(term.ontologyPrefix.toLowerCase())) continue;
+    if (term.isObsolete && !params.obsoletes) continue;
+
+    const rank = rankTermMatch(term, query, params.exact ?? false);
+    if (rank !== null) ranked.push({ term, rank });
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.term.label.length - b.term.label.length)
+    .slice(0, params.rows || 10)
+    .map(({ term, rank }) => ({ ...term, isExactMatch: rank <= 1 }));
+}
+
+/**
+ * Edit distance with adjacent transpositions, or `max + 1` once it is
+ * known to exceed `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,22 @@
+/**
+ * XLSX Loader
+ *
+ * Lazy loading of the xlsx (SheetJS) library, which is only downloaded
+ * once a workbook is read or written.
+ */
+
+export type XlsxModule = typeof import('xlsx');
+
+let xlsxModule: Promise<XlsxModule> | null = null;
+
+/**
+ * Dynamically loads the xlsx library. The module is loaded once; a failed
+ * load is retried on the next call.
+ */
+export function loadXlsx(): Promise<XlsxModule> {
+  xlsxModule ??= import('xlsx').catch((error) => {
+    xlsxModule = null;
+    throw error;
+  });
+  return xlsxModule;
+}
@@ -0,0 +1,67 @@
+import { parseSdrfStream, cancelSdrfStream } from './sdrf-parser-stream';
+import type {
+  ParserWorkerRequest,
+  ParserWorkerResponse,
+} from '../core/services/sdrf-parser-worker.service';
+
+function run(request: ParserWorkerRequest, chunkSize?: number): Promise<ParserWorkerResponse[]> {
+  return new Promise((resolve) => {
+    const responses: ParserWorkerResponse[] = [];
+    parseSdrfStream(
+      request,
+      (response) => {
+        responses.push(response);
+        if (response.type !== 'progress') resolve(responses);
+      },
+      chunkSize
+    );
+  });
+}
+
+function content(rowCount: number, badRow = -1): string {
+  const lines = ['source name\tcharacteristics[organism]'];
+  for (let i = 1; i <= rowCount; i++) {
+    lines.push(i === badRow ? `s${i}\t"homo sapiens` : `s${i}\thomo sapiens`);
+  }
+  return lines.join('\n');
+}
+
+describe('parseSdrfStream', () => {
+  it('parses in chunks, posting progress before the result', async () => {
+    const responses = await run({ id: 'ok', type: 'parse', content: content(200) }, 1024);
+    const result = responses[responses.length - 1];
+
+    expect(responses.filter((r) => r.type === 'progress').length).toBeGreaterThan(1);
+    expect(result.type).toBe('result');
+    expect(result.result?.success).toBeTrue();
+    expect(result.result?.table?.sampleCount).toBe(200);
+  });
+
+  it('reports a bad quote in the first chunk as a parse error', async () => {
+    const responses = await run({ id: 'first', type: 'parse', content: content(3, 2) });
+    const result = responses[responses.length - 1];
+
+    expect(responses.length).toBe(1);
+    expect(result.result?.success).toBeFalse();
+    expect(result.result?.error).toContain('Parse error');
+    expect(result.result?.error).not.toContain('Empty file');
+  });
+
+  it('reports a bad quote in a later chunk instead of a truncated table', async () => {
+    const responses = await run({ id: 'later', type: 'parse', content: content(200, 190) }, 1024);
+    const results = responses.filter((r) => r.type !== 'progress');
+
+    expect(results.length).toBe(1);
+    expect(results[0].result?.success).toBeFalse();
+    expect(results[0].result?.error).toContain('Parse error');
+  });
+
+  it('stops at the next chunk when cancelled', async () => {
+    const request: ParserWorkerRequest = { id: 'cancel', type: 'parse', content: content(200) };
+    const pending = run(request, 1024);
+    cancelSdrfStream('cancel');
+    const responses = await pending;
+
+    expect(responses[responses.length - 1].type).toBe('cancelled');
+  });
+});
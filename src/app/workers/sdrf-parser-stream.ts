@@ -0,0 +1,190 @@
+/**
+ * SDRF Stream Parser
+ *
+ * Chunked PapaParse parsing behind the parser worker. Modifier/range
+ * compaction and pool detection run here as well; only the finished
+ * SdrfTable is posted back.
+ */
+
+import Papa from 'papaparse';
+import { SdrfParseOptions, SdrfTableBuilder } from '../core/services/sdrf-parser.service';
+import type {
+  ParserWorkerRequest,
+  ParserWorkerResponse,
+} from '../core/services/sdrf-parser-worker.service';
+
+// ============ Constants ============
+
+const DEFAULT_OPTIONS: SdrfParseOptions = {
+  detectPools: true,
+  trimValues: true,
+  normalizeColumnNames: true,
+  delimiter: '\t',
+};
+
+/** Size of each streamed chunk (characters for strings, bytes for files) */
+const CHUNK_SIZE = 512 * 1024;
+
+const EMPTY_STATS = { rowCount: 0, columnCount: 0, poolCount: 0, parseTimeMs: 0 };
+
+// ============ Request Tracking ============
+
+const cancelledRequests = new Set<string>();
+
+/**
+ * Marks a request as cancelled; its parse stops at the next chunk.
+ */
+export function cancelSdrfStream(id: string): void {
+  cancelledRequests.add(id);
+}
+
+// ============ Parsing ============
+
+/**
+ * Streams a parse request, posting progress and the final response
+ * through `post`.
+ */
+export function parseSdrfStream(
+  request: ParserWorkerRequest,
+  post: (response: ParserWorkerResponse) => void,
+  chunkSize: number = CHUNK_SIZE
+): void {
+  const { id } = request;
+  const opts = { ...DEFAULT_OPTIONS, ...request.options };
+  const startTime = performance.now();
+  const warnings: string[] = [];
+  const builder = new SdrfTableBuilder(opts, warnings);
+
+  const input: File | string = request.file ?? request.content ?? '';
+  const totalBytes = request.file ? request.file.size : (request.content ?? '').length;
+
+  let headerSeen = false;
+  let finished = false;
+  // Rows of earlier chunks, as PapaParse numbers error rows per chunk
+  let rowOffset = 0;
+
+  const finish = (response: ParserWorkerResponse) => {
+    if (finished) return;
+    finished = true;
+    cancelledRequests.delete(id);
+    post(response);
+  };
+
+  const fail = (error: string) => {
+    finish({
+      id,
+      type: 'result',
+      result: { success: false, error, warnings, stats: EMPTY_STATS },
+    });
+  };
+
+  Papa.parse<string[]>(input, {
+    delimiter: opts.delimiter,
+    header: false,
+    skipEmptyLines: true,
+    chunkSize,
+    chunk: (results, parser) => {
+      // abort() runs `complete` synchronously, so finish first
+      if (cancelledRequests.has(id)) {
+        finish({ id, type: 'cancelled' });
+        parser.abort();
+        return;
+      }
+
+      if (results.errors.length > 0) {
+        // Check for critical errors
+        const criticalErrors = results.errors.filter(
+          (e) => e.type === 'Quotes' || e.type === 'FieldMismatch'
+        );
+        if (criticalErrors.length > 0) {
+          fail(`Parse error: ${criticalErrors[0].message}`);
+          parser.abort();
+          return;
+        }
+        // Add non-critical errors as warnings
+        for (const err of results.errors) {
+          const row = err.row === undefined ? '?' : err.row + rowOffset;
+          warnings.push(`Row ${row}: ${err.message}`);
+        }
+      }
+
+      let rows = results.data;
+      rowOffset += rows.length;
+      if (!headerSeen && rows.length > 0) {
+        builder.setHeaders(rows[0]);
+        rows = rows.slice(1);
+        headerSeen = true;
+      }
+      builder.addRows(rows);
+
+      post({
+        id,
+        type: 'progress',
+        progress: {
+          rowsParsed: builder.sampleCount,
+          bytesParsed: Math.min(results.meta.cursor, totalBytes),
+          totalBytes,
+        },
+      });
+
+      // Yield to the event loop between chunks so cancel requests are received
+      parser.pause();
+      setTimeout(() => {
+        if (cancelledRequests.has(id)) {
+          finish({ id, type: 'cancelled' });
+          parser.abort();
+        } else {
+          parser.resume();
+        }
+      }, 0);
+    },
+    complete: (results) => {
+      if (finished) return;
+
+      // Aborted without a response posted: never report a partial table
+      if (results?.meta?.aborted) {
+        fail('Parsing aborted');
+        return;
+      }
+
+      if (cancelledRequests.has(id)) {
+        finish({ id, type: 'cancelled' });
+        return;
+      }
+
+      if (!headerSeen) {
+        fail('Empty file');
+        return;
+      }
+
+      const table = builder.build();
+
+      if (request.file) {
+        table.metadata = { ...table.metadata, filename: request.file.name };
+      }
+
+      finish({
+        id,
+        type: 'result',
+        result: {
+          success: true,
+          table,
+          warnings,
+          stats: {
+            rowCount: table.sampleCount,
+            columnCount: table.columns.length,
+            poolCount: table.pools.length,
+            parseTimeMs: performance.now() - startTime,
+          },
+        },
+      });
+    },
+    error: (error: Error) => {
+      finish({
+        id,
+        type: 'error',
+        error: `Parse error: ${error.message}`,
+      });
+    },
+  });
+}
@@ -0,0 +1,39 @@
+/// <reference lib="webworker" />
+
+/**
+ * SDRF Parser Web Worker
+ *
+ * Streams SDRF TSV content through PapaParse in chunks so large files
+ * (tens of thousands of rows) do not freeze the UI (see sdrf-parser-stream).
+ * Only the finished SdrfTable is posted back to the main thread.
+ */
+
+import { parseSdrfStream, cancelSdrfStream } from './sdrf-parser-stream';
+import type {
+  ParserWorkerRequest,
+  ParserWorkerResponse,
+} from '../core/services/sdrf-parser-worker.service';
+
+// ============ Message Handler ============
+
+addEventListener('message', (event: MessageEvent<ParserWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'parse':
+      try {
+        parseSdrfStream(request, (response) => postMessage(response));
+      } catch (error) {
+        postMessage({
+          id: request.id,
+          type: 'error',
+          error: `Parse error: ${error instanceof Error ? error.message : String(error)}`,
+        } as ParserWorkerResponse);
+      }
+      break;
+
+    case 'cancel':
+      cancelSdrfStream(request.id);
+      break;
+  }
+});
@@ -0,0 +1,71 @@
+/// <reference lib="webworker" />
+
+/**
+ * SDRF Validator Web Worker
+ *
+ * Runs SdrfValidatorService off the UI thread, including the OLS lookups
+ * of the ontology phase. Progress and the issues of each step are posted
+ * back as they are found, so large tables keep scrolling while validating.
+ */
+
+import {
+  SdrfValidatorService,
+  VALIDATION_CANCELLED_ERROR,
+} from '../core/services/sdrf-validator.service';
+import { olsOfflineMode } from '../core/services/ols.service';
+import type {
+  ValidatorWorkerRequest,
+  ValidatorWorkerResponse,
+} from '../core/services/sdrf-validator-worker.service';
+
+// ============ Request Tracking ============
+
+const validator = new SdrfValidatorService();
+const controllers = new Map<string, AbortController>();
+
+// ============ Validation ============
+
+async function validate(request: ValidatorWorkerRequest): Promise<void> {
+  const { id } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  const post = (response: ValidatorWorkerResponse) => postMessage(response);
+
+  // Workers have no localStorage: follow the page's offline mode
+  olsOfflineMode.set(request.offline ?? false);
+
+  try {
+    const result = await validator.validate(request.table!, request.options ?? {}, {
+      signal: controller.signal,
+      onProgress: (progress) => post({ id, type: 'progress', progress }),
+      onIssues: (issues, phase) => post({ id, type: 'partial', issues, phase }),
+    });
+    post({ id, type: 'result', result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (controller.signal.aborted || message === VALIDATION_CANCELLED_ERROR) {
+      post({ id, type: 'cancelled' });
+    } else {
+      post({ id, type: 'error', error: `Validation error: ${message}` });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+}
+
+// ============ Message Handler ============
+
+addEventListener('message', (event: MessageEvent<ValidatorWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'validate':
+      validate(request);
+      break;
+
+    case 'cancel':
+      controllers.get(request.id)?.abort();
+      break;
+  }
+});